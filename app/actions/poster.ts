@@ -1,15 +1,20 @@
 "use server";
 
 import { createClient } from "@/utils/supabase/server";
+import { createServiceClient } from "@/utils/supabase/service";
+import type { Json } from "@/types/types";
 import { revalidatePath } from "next/cache";
+import { fetchPosterSizes, sizePriceError } from "@/lib/poster-sizes";
+import { linkArtworkReports } from "@/lib/artwork-validation";
+import type { PosterImages } from "@/lib/poster-images";
+import { posterImagesFromReports } from "@/lib/poster-image-storage";
 
 interface PosterFormData {
   title: string;
   description: string;
-  driveLink: string | null;
   selectedSizes: string[];
   prices: Record<string, string>;
-  imageUrls: Record<string, string>;
+  images: PosterImages;
 }
 
 export async function submitPoster(data: PosterFormData) {
@@ -30,14 +35,44 @@ export async function submitPoster(data: PosterFormData) {
 
     const userId = session.user.id;
 
+    // Only active sizes of the catalogue can be sold, within its price range
+    const sizes = await fetchPosterSizes(supabase);
+    if (data.selectedSizes.length === 0) {
+      return { success: false, error: "Select at least one size" };
+    }
+    for (const sizeId of data.selectedSizes) {
+      const priceError = sizePriceError(
+        sizes,
+        sizeId,
+        Number(data.prices[sizeId])
+      );
+      if (priceError) {
+        return { success: false, error: priceError };
+      }
+    }
+
+    // The images are built from the reports of the checked uploads, never
+    // taken as sent
+    let images: PosterImages;
+    try {
+      images = await posterImagesFromReports(supabase, userId, data.images);
+    } catch (imagesError) {
+      return {
+        success: false,
+        error:
+          imagesError instanceof Error
+            ? imagesError.message
+            : "Invalid images",
+      };
+    }
+
     // Prepare data for insertion
     const posterData = {
       title: data.title,
       description: data.description,
-      drive_link: data.driveLink,
       selected_sizes: data.selectedSizes,
       prices: data.prices,
-      image_urls: data.imageUrls,
+      image_urls: images as unknown as Json,
       status: "pending",
       creator_id: userId,
       created_at: new Date().toISOString(),
@@ -45,13 +80,46 @@ export async function submitPoster(data: PosterFormData) {
     };
 
     // Insert into posters table
-    const { error } = await supabase.from("posters").insert(posterData);
+    const { data: poster, error } = await supabase
+      .from("posters")
+      .insert(posterData)
+      .select("id")
+      .single();
 
     if (error) {
       console.error("Error submitting poster:", error);
       return { success: false, error: error.message };
     }
 
+    // The poster's status history starts with its submission
+    const { error: historyError } = await supabase
+      .from("poster_status_history")
+      .insert({
+        poster_id: poster.id,
+        from_status: null,
+        to_status: "pending",
+        changed_by: userId,
+        note: "Submitted",
+      });
+
+    if (historyError) {
+      console.error("Error recording poster status:", historyError);
+    }
+
+    // Reviewers see the print-readiness reports of the uploaded images.
+    // The poster is saved either way. Creators can only read reports, so
+    // they are linked with the service role.
+    try {
+      await linkArtworkReports(
+        createServiceClient(),
+        userId,
+        poster.id,
+        Object.values(images).map((image) => image.original)
+      );
+    } catch (linkError) {
+      console.error("Error linking artwork reports:", linkError);
+    }
+
     // Revalidate the dashboard page
     revalidatePath("/dashboard");
 
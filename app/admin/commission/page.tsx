@@ -0,0 +1,470 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { CommissionRule } from "@/lib/commission";
+import { PromotionsCard } from "@/components/promotions-card";
+
+interface CommissionRuleRow extends CommissionRule {
+  profiles?: { name: string } | null;
+  posters?: { title: string } | null;
+}
+
+interface RuleFormState {
+  ruleId?: number;
+  label: string;
+  ratePercent: string;
+  creatorId: string;
+  posterId: string;
+  startsAt: string;
+  endsAt: string;
+  priority: string;
+}
+
+const ALL = "all";
+
+const emptyForm: RuleFormState = {
+  label: "",
+  ratePercent: "30",
+  creatorId: ALL,
+  posterId: ALL,
+  startsAt: "",
+  endsAt: "",
+  priority: "0",
+};
+
+const CommissionRules = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<RuleFormState | null>(null);
+
+  // Fetch rules, creators and posters for the selects
+  const { data: rules = [], isLoading } = useQuery({
+    queryKey: ["commission-rules"],
+    queryFn: async (): Promise<CommissionRuleRow[]> => {
+      const response = await fetch("/api/admin/commission-rules");
+      if (!response.ok) {
+        throw new Error("Failed to fetch commission rules");
+      }
+      return response.json();
+    },
+  });
+
+  const { data: creators = [] } = useQuery({
+    queryKey: ["creators"],
+    queryFn: async (): Promise<Array<{ id: string; name: string }>> => {
+      const response = await fetch("/api/admin/creators");
+      if (!response.ok) {
+        throw new Error("Failed to fetch creators");
+      }
+      return response.json();
+    },
+  });
+
+  const { data: posters = [] } = useQuery({
+    queryKey: ["admin-posters"],
+    queryFn: async (): Promise<
+      Array<{ id: string; title: string; creatorId: string }>
+    > => {
+      const response = await fetch("/api/admin/posters");
+      if (!response.ok) {
+        throw new Error("Failed to fetch posters");
+      }
+      return response.json();
+    },
+  });
+
+  const saveRuleMutation = useMutation({
+    mutationFn: async (state: RuleFormState) => {
+      const response = await fetch("/api/admin/commission-rules", {
+        method: state.ruleId ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ruleId: state.ruleId,
+          label: state.label,
+          rate: parseFloat(state.ratePercent) / 100,
+          creatorId: state.creatorId === ALL ? null : state.creatorId,
+          posterId: state.posterId === ALL ? null : state.posterId,
+          startsAt: state.startsAt || null,
+          endsAt: state.endsAt || null,
+          priority: parseInt(state.priority) || 0,
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to save commission rule");
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["commission-rules"] });
+      setForm(null);
+      toast({
+        title: "Rule saved",
+        description: "Commission rule has been saved",
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to save rule",
+      });
+    },
+  });
+
+  const deactivateRuleMutation = useMutation({
+    mutationFn: async (ruleId: number) => {
+      const response = await fetch(
+        `/api/admin/commission-rules?id=${ruleId}`,
+        { method: "DELETE" }
+      );
+      if (!response.ok) {
+        throw new Error("Failed to deactivate commission rule");
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["commission-rules"] });
+      toast({
+        title: "Rule deactivated",
+        description: "The rule no longer applies to new payouts",
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to deactivate rule",
+      });
+    },
+  });
+
+  const openEditForm = (rule: CommissionRuleRow) => {
+    setForm({
+      ruleId: rule.id,
+      label: rule.label,
+      ratePercent: (Number(rule.rate) * 100).toString(),
+      creatorId: rule.creator_id || ALL,
+      posterId: rule.poster_id || ALL,
+      startsAt: rule.starts_at || "",
+      endsAt: rule.ends_at || "",
+      priority: rule.priority.toString(),
+    });
+  };
+
+  // Describe who a rule applies to
+  const formatScope = (rule: CommissionRuleRow) => {
+    if (rule.poster_id) return `Poster: ${rule.posters?.title || rule.poster_id}`;
+    if (rule.creator_id)
+      return `Creator: ${rule.profiles?.name || rule.creator_id}`;
+    return "All creators";
+  };
+
+  const formatPeriod = (rule: CommissionRuleRow) => {
+    if (!rule.starts_at && !rule.ends_at) return "Always";
+    return `${rule.starts_at || "…"} → ${rule.ends_at || "…"}`;
+  };
+
+  const formPosters = posters.filter(
+    (poster) =>
+      !form || form.creatorId === ALL || poster.creatorId === form.creatorId
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">Commission Rules</h1>
+          <p className="text-gray-500 mt-1">
+            Set the share of net revenue creators earn. The most specific
+            matching rule wins: poster, then creator, then store-wide.
+          </p>
+        </div>
+        <Button onClick={() => setForm(emptyForm)}>
+          <Plus className="h-4 w-4 mr-1" />
+          New Rule
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Rules</CardTitle>
+          <CardDescription>
+            Date-bound rules take precedence over open-ended ones of the same
+            scope. Editing a rule creates a new version; past payouts keep the
+            version they were calculated with.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Label</TableHead>
+                  <TableHead>Creator Share</TableHead>
+                  <TableHead>Applies To</TableHead>
+                  <TableHead>Period</TableHead>
+                  <TableHead>Priority</TableHead>
+                  <TableHead>Version</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center py-8">
+                      <div className="flex justify-center items-center">
+                        <Loader2 className="h-6 w-6 animate-spin mr-2" />
+                        <span>Loading commission rules...</span>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ) : rules.length > 0 ? (
+                  rules.map((rule) => (
+                    <TableRow
+                      key={rule.id}
+                      className={rule.active ? "" : "opacity-60"}
+                    >
+                      <TableCell className="font-medium">{rule.label}</TableCell>
+                      <TableCell>{(Number(rule.rate) * 100).toFixed(1)}%</TableCell>
+                      <TableCell>{formatScope(rule)}</TableCell>
+                      <TableCell>{formatPeriod(rule)}</TableCell>
+                      <TableCell>{rule.priority}</TableCell>
+                      <TableCell>v{rule.version}</TableCell>
+                      <TableCell>
+                        {rule.active ? (
+                          <Badge className="bg-green-100 text-green-800">
+                            Active
+                          </Badge>
+                        ) : (
+                          <Badge variant="outline">Inactive</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => openEditForm(rule)}
+                          >
+                            <Pencil className="h-4 w-4 mr-1" />
+                            Edit
+                          </Button>
+                          {rule.active && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="text-red-600 border-red-600 hover:bg-red-50"
+                              onClick={() =>
+                                deactivateRuleMutation.mutate(rule.id)
+                              }
+                              disabled={deactivateRuleMutation.isPending}
+                            >
+                              <Trash2 className="h-4 w-4 mr-1" />
+                              Deactivate
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell
+                      colSpan={8}
+                      className="text-center py-8 text-muted-foreground"
+                    >
+                      No commission rules yet. Creators earn the default 30%.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <PromotionsCard />
+
+      <Dialog open={form !== null} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {form?.ruleId ? "Edit Commission Rule" : "New Commission Rule"}
+            </DialogTitle>
+            <DialogDescription>
+              Leave creator and poster empty for a store-wide rule, and the
+              dates empty for a rule without an end.
+            </DialogDescription>
+          </DialogHeader>
+
+          {form && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="rule-label">Label</Label>
+                <Input
+                  id="rule-label"
+                  placeholder="e.g. Launch promo"
+                  value={form.label}
+                  onChange={(e) => setForm({ ...form, label: e.target.value })}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="rule-rate">Creator share (%)</Label>
+                  <Input
+                    id="rule-rate"
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="0.1"
+                    value={form.ratePercent}
+                    onChange={(e) =>
+                      setForm({ ...form, ratePercent: e.target.value })
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="rule-priority">Priority</Label>
+                  <Input
+                    id="rule-priority"
+                    type="number"
+                    step="1"
+                    value={form.priority}
+                    onChange={(e) =>
+                      setForm({ ...form, priority: e.target.value })
+                    }
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Creator</Label>
+                <Select
+                  value={form.creatorId}
+                  onValueChange={(value) =>
+                    setForm({ ...form, creatorId: value, posterId: ALL })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="All creators" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All creators</SelectItem>
+                    {creators.map((creator) => (
+                      <SelectItem key={creator.id} value={creator.id}>
+                        {creator.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Poster</Label>
+                <Select
+                  value={form.posterId}
+                  onValueChange={(value) => setForm({ ...form, posterId: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="All posters" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All posters</SelectItem>
+                    {formPosters.map((poster) => (
+                      <SelectItem key={poster.id} value={poster.id}>
+                        {poster.title}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="rule-starts">Starts</Label>
+                  <Input
+                    id="rule-starts"
+                    type="date"
+                    value={form.startsAt}
+                    onChange={(e) =>
+                      setForm({ ...form, startsAt: e.target.value })
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="rule-ends">Ends</Label>
+                  <Input
+                    id="rule-ends"
+                    type="date"
+                    value={form.endsAt}
+                    onChange={(e) => setForm({ ...form, endsAt: e.target.value })}
+                  />
+                </div>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => form && saveRuleMutation.mutate(form)}
+              disabled={saveRuleMutation.isPending}
+            >
+              {saveRuleMutation.isPending && (
+                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+              )}
+              Save Rule
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default CommissionRules;
@@ -32,6 +32,7 @@ import { createClient } from "@/utils/supabase/client";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { User } from "@supabase/supabase-js";
 import { useRouter } from "next/navigation";
+import { VendorMappingCard } from "@/components/vendor-mapping-card";
 
 interface Creator {
   id: string;
@@ -427,6 +428,8 @@ const CreatorsManagement = () => {
         </CardContent>
       </Card>
 
+      <VendorMappingCard />
+
       {/* Creator Details Dialog */}
       <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
         <DialogContent className="sm:max-w-md">
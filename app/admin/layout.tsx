@@ -10,6 +10,8 @@ import {
   LogOut,
   FileImage,
   CreditCard,
+  Percent,
+  Ruler,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useRouter, usePathname } from "next/navigation";
@@ -61,6 +63,16 @@ export default function AdminLayout({
       path: "/admin/payouts",
       icon: <CreditCard className="w-5 h-5" />,
     },
+    {
+      name: "Commission",
+      path: "/admin/commission",
+      icon: <Percent className="w-5 h-5" />,
+    },
+    {
+      name: "Sizes",
+      path: "/admin/sizes",
+      icon: <Ruler className="w-5 h-5" />,
+    },
     {
       name: "Sales Reports",
       path: "/admin/sales",
@@ -17,6 +17,8 @@ import {
   ChevronDown,
   CheckCircle,
   XCircle,
+  FileText,
+  RefreshCw,
 } from "lucide-react";
 import { createClient } from "@/utils/supabase/client";
 import {
@@ -45,6 +47,9 @@ import {
 import { Calendar } from "@/components/ui/calendar";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { formatCurrency } from "@/lib/utils";
+import { PayoutLineItemsDialog } from "@/components/payout-line-items-dialog";
+import { CreatorBalancesCard } from "@/components/creator-balances-card";
+import { PayoutRunsCard } from "@/components/payout-runs-card";
 
 // Types for payouts
 interface PayoutResult {
@@ -57,6 +62,14 @@ interface PayoutResult {
   error?: string;
   message?: string;
   currency?: string;
+  commission?: number;
+  balance?: number;
+  adjustmentsTotal?: number;
+  exchangeRates?: {
+    currency: string;
+    rates: Record<string, number>;
+    fetched_at: string;
+  };
   products?: Array<{
     productId: string;
     title: string;
@@ -80,7 +93,7 @@ interface ExistingPayout {
   id: number;
   creator_id: string;
   amount: number;
-  status: "pending" | "completed";
+  status: "pending" | "completed" | "failed";
   created_at: string;
   payout_month: {
     start: string;
@@ -110,6 +123,9 @@ export default function AdminPayouts() {
     {}
   );
   const [debugInfo, setDebugInfo] = useState<Record<string, any>>({});
+  const [lineItemsPayout, setLineItemsPayout] = useState<ExistingPayout | null>(
+    null
+  );
   const queryClient = useQueryClient();
 
   // Log current state of debugInfo on each render
@@ -135,6 +151,12 @@ export default function AdminPayouts() {
     return format(date, "MMMM yyyy");
   };
 
+  // Commission the payout run calculated for a creator from the commission
+  // rules
+  const creatorCommission = (creatorId: string) =>
+    processingResult?.results.find((result) => result.creator_id === creatorId)
+      ?.commission || 0;
+
   // Format date
   const formatDate = (dateString?: string): string => {
     if (!dateString) return "N/A";
@@ -224,7 +246,10 @@ export default function AdminPayouts() {
       const supabase = createClient();
       const { error } = await supabase
         .from("payout")
-        .update({ status })
+        .update({
+          status,
+          paid_at: status === "completed" ? new Date().toISOString() : null,
+        })
         .eq("id", payoutId);
 
       if (error) {
@@ -252,6 +277,37 @@ export default function AdminPayouts() {
     },
   });
 
+  // Rebuild a payout's statement from its current ledger
+  const regenerateStatementMutation = useMutation({
+    mutationFn: async (payoutId: number) => {
+      const response = await fetch(`/api/admin/payouts/${payoutId}/statement`, {
+        method: "POST",
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to regenerate statement");
+      }
+
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Statement regenerated",
+        description: `The statement for PO-${data.payoutId} was rebuilt`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description:
+          error instanceof Error
+            ? error.message
+            : "Failed to regenerate statement",
+      });
+    },
+  });
+
   // Preview payouts for the selected month
   const previewPayouts = async () => {
     try {
@@ -401,6 +457,7 @@ export default function AdminPayouts() {
 
       // Refresh the list of existing payouts after successful generation
       refetchPayouts();
+      queryClient.invalidateQueries({ queryKey: ["payout-runs"] });
 
       toast({
         title: "Success",
@@ -609,6 +666,10 @@ export default function AdminPayouts() {
                         <Badge className="bg-green-100 text-green-800">
                           Completed
                         </Badge>
+                      ) : payout.status === "failed" ? (
+                        <Badge className="bg-orange-100 text-orange-800">
+                          Failed
+                        </Badge>
                       ) : (
                         <Badge className="bg-yellow-100 text-yellow-800">
                           Pending
@@ -626,7 +687,34 @@ export default function AdminPayouts() {
                         "Not specified"
                       )}
                     </TableCell>
-                    <TableCell>
+                    <TableCell className="flex items-center gap-2">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setLineItemsPayout(payout)}
+                      >
+                        Line Items
+                      </Button>
+                      <Button size="sm" variant="ghost" asChild>
+                        <a
+                          href={`/api/admin/payouts/${payout.id}/statement?format=pdf`}
+                          download
+                        >
+                          <FileText className="h-4 w-4 mr-1" />
+                          Statement
+                        </a>
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        title="Regenerate statement"
+                        onClick={() =>
+                          regenerateStatementMutation.mutate(payout.id)
+                        }
+                        disabled={regenerateStatementMutation.isPending}
+                      >
+                        <RefreshCw className="h-4 w-4" />
+                      </Button>
                       {payout.status === "pending" ? (
                         <Button
                           size="sm"
@@ -663,6 +751,16 @@ export default function AdminPayouts() {
         </Card>
       )}
 
+      <CreatorBalancesCard />
+
+      <PayoutRunsCard />
+
+      <PayoutLineItemsDialog
+        payoutId={lineItemsPayout?.id ?? null}
+        period={lineItemsPayout ? formatPayoutMonth(lineItemsPayout) : undefined}
+        onOpenChange={(open) => !open && setLineItemsPayout(null)}
+      />
+
       {/* Preview results */}
       {processingResult && (
         <Card>
@@ -688,7 +786,7 @@ export default function AdminPayouts() {
               <TableHeader>
                 <TableRow>
                   <TableHead>Creator</TableHead>
-                  <TableHead>Calculated Amount (GBP)</TableHead>
+                  <TableHead>Calculated Amount</TableHead>
                   <TableHead>Creator's Currency</TableHead>
                   {!existingPayouts?.length && (
                     <TableHead>Manual Amount (Will Be Stored)</TableHead>
@@ -709,9 +807,60 @@ export default function AdminPayouts() {
                             result.creator_id}
                         </TableCell>
                         <TableCell>
-                          {result.amount && result.amount > 0
-                            ? formatCurrency(result.amount, "GBP")
-                            : "No payout"}
+                          {result.amount && result.amount > 0 ? (
+                            <div className="flex flex-col">
+                              <span>
+                                {formatCurrency(
+                                  result.amount,
+                                  result.currency || "GBP"
+                                )}
+                              </span>
+                              {/* Balance rolled over from earlier months */}
+                              {!!result.balance && (
+                                <span className="text-xs text-muted-foreground">
+                                  incl.{" "}
+                                  {formatCurrency(
+                                    result.balance,
+                                    result.currency || "GBP"
+                                  )}{" "}
+                                  rolled over
+                                </span>
+                              )}
+                              {/* Refund clawbacks netted off this payout */}
+                              {!!result.adjustmentsTotal && (
+                                <span className="text-xs text-destructive">
+                                  {formatCurrency(
+                                    result.commission || 0,
+                                    result.currency || "GBP"
+                                  )}{" "}
+                                  earned,{" "}
+                                  {formatCurrency(
+                                    result.adjustmentsTotal,
+                                    result.currency || "GBP"
+                                  )}{" "}
+                                  refunds
+                                </span>
+                              )}
+                              {/* Rates the order lines were converted with */}
+                              {result.exchangeRates &&
+                                Object.entries(result.exchangeRates.rates)
+                                  .filter(
+                                    ([from]) =>
+                                      from !== result.exchangeRates?.currency
+                                  )
+                                  .map(([from, rate]) => (
+                                    <span
+                                      key={from}
+                                      className="text-xs text-muted-foreground"
+                                    >
+                                      1 {from} = {rate.toFixed(4)}{" "}
+                                      {result.exchangeRates?.currency}
+                                    </span>
+                                  ))}
+                            </div>
+                          ) : (
+                            "No payout"
+                          )}
                         </TableCell>
                         <TableCell>{creatorCurrencyValue || "GBP"}</TableCell>
                         {!existingPayouts?.length && (
@@ -926,12 +1075,9 @@ export default function AdminPayouts() {
                         </span>
                       </div>
                       <div className="flex justify-between mt-2">
-                        <span>Creator Commission (30%):</span>
+                        <span>Creator Commission:</span>
                         <span>
-                          {formatCurrency(
-                            (data.totalRevenue || 0) * 0.3,
-                            "GBP"
-                          )}
+                          {formatCurrency(creatorCommission(creatorId), "GBP")}
                         </span>
                       </div>
                     </div>
@@ -945,10 +1091,7 @@ export default function AdminPayouts() {
                         </div>
                         <div>
                           Payout System Commission:{" "}
-                          {formatCurrency(
-                            (data.totalRevenue || 0) * 0.3,
-                            "GBP"
-                          )}
+                          {formatCurrency(creatorCommission(creatorId), "GBP")}
                         </div>
                         {data.includedOrders && (
                           <div>
@@ -37,11 +37,29 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { Check, Eye, ExternalLink, Trash2 } from "lucide-react";
+import {
+  Check,
+  Eye,
+  ExternalLink,
+  Loader2,
+  MessageSquareWarning,
+  Trash2,
+  Upload,
+} from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { createClient } from "@/utils/supabase/client";
 import { useRouter } from "next/navigation";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { PosterChangeRequestsCard } from "@/components/poster-change-requests-card";
+import { PrintReadinessReport } from "@/components/print-readiness-report";
+import { PosterReviewDialog } from "@/components/poster-review-dialog";
+import { PosterStatusHistory } from "@/components/poster-status-history";
+import {
+  STATUS_LABELS,
+  type PosterStatus,
+  type PosterStatusChange,
+} from "@/lib/poster-reviews";
+import type { PublishedPoster } from "@/lib/shopify-products";
 
 interface PosterData {
   id: string;
@@ -49,7 +67,7 @@ interface PosterData {
   creatorName: string;
   title: string;
   imageUrl: string;
-  status: "pending" | "approved" | "rejected" | "willBeDeleted";
+  status: PosterStatus;
   uploadDate: string;
   description?: string;
   driveLink?: string;
@@ -58,6 +76,8 @@ interface PosterData {
   prices?: {
     [key: string]: string;
   };
+  selectedSizes?: string[];
+  revision?: number;
 }
 
 export default function PosterManagement() {
@@ -65,6 +85,7 @@ export default function PosterManagement() {
   const [selectedPoster, setSelectedPoster] = useState<PosterData | null>(null);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [reviewDialogOpen, setReviewDialogOpen] = useState(false);
   const [shopifyUrlDialogOpen, setShopifyUrlDialogOpen] = useState(false);
   const [shopifyUrl, setShopifyUrl] = useState("");
   const [shopifyProductId, setShopifyProductId] = useState("");
@@ -162,6 +183,40 @@ export default function PosterManagement() {
     },
   });
 
+  // Approve a poster and create its Shopify product
+  const publishPosterMutation = useMutation({
+    mutationFn: async (posterId: string) => {
+      const response = await fetch(`/api/admin/posters/${posterId}/publish`, {
+        method: "POST",
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to publish poster");
+      }
+
+      return data as PublishedPoster;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["posters"] });
+    },
+  });
+
+  // Reviews and status changes of the poster whose details are open
+  const { data: posterHistory, isLoading: isHistoryLoading } = useQuery({
+    queryKey: ["poster-history", selectedPoster?.id],
+    queryFn: async () => {
+      const response = await fetch(
+        `/api/admin/posters/${selectedPoster!.id}/history`
+      );
+      if (!response.ok) {
+        throw new Error("Failed to fetch poster history");
+      }
+      return (await response.json()).history as PosterStatusChange[];
+    },
+    enabled: dialogOpen && !!selectedPoster,
+  });
+
   // Delete poster
   const deletePosterMutation = useMutation({
     mutationFn: async (posterId: string) => {
@@ -220,7 +275,7 @@ export default function PosterManagement() {
   const handleStatusUpdate = async (
     posterId: string,
     creatorId: string,
-    newStatus: "approved" | "rejected" | "willBeDeleted"
+    newStatus: "approved" | "willBeDeleted"
   ) => {
     try {
       console.log(
@@ -256,6 +311,31 @@ export default function PosterManagement() {
     }
   };
 
+  const handlePublish = async (poster: PosterData) => {
+    try {
+      const published = await publishPosterMutation.mutateAsync(poster.id);
+
+      toast({
+        title: "Poster Published",
+        description: `"${poster.title}" is live in Shopify as product ${
+          published.productId
+        }${
+          published.shops.length > 1
+            ? ` and in ${published.shops.length - 1} more shop(s)`
+            : ""
+        }`,
+      });
+    } catch (error) {
+      console.error("Error publishing poster:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to publish poster",
+      });
+    }
+  };
+
   const handleSaveShopifyUrl = async () => {
     if (!selectedPoster) return;
 
@@ -338,6 +418,8 @@ export default function PosterManagement() {
         return "bg-green-100 text-green-800 hover:bg-green-200";
       case "willBeDeleted":
         return "bg-amber-100 text-amber-800 hover:bg-amber-200";
+      case "changesRequested":
+        return "bg-blue-100 text-blue-800 hover:bg-blue-200";
       default:
         return undefined;
     }
@@ -345,8 +427,12 @@ export default function PosterManagement() {
 
   const formatStatus = (status: string | undefined): string => {
     if (!status) return "Unknown";
-    if (status === "willBeDeleted") return "Will be deleted";
-    return status.charAt(0).toUpperCase() + status.slice(1);
+    return STATUS_LABELS[status as PosterStatus] || status;
+  };
+
+  const openReviewDialog = (poster: PosterData) => {
+    setSelectedPoster(poster);
+    setReviewDialogOpen(true);
   };
 
   return (
@@ -437,6 +523,8 @@ export default function PosterManagement() {
                 <option value="">All statuses</option>
                 <option value="pending">Pending</option>
                 <option value="approved">Approved</option>
+                <option value="changesRequested">Changes requested</option>
+                <option value="rejected">Rejected</option>
                 <option value="willBeDeleted">Will be deleted</option>
               </select>
             </div>
@@ -544,6 +632,29 @@ export default function PosterManagement() {
                                 <Check className="h-4 w-4 mr-1" />
                                 Approve
                               </Button>
+                              <Button
+                                variant="default"
+                                size="sm"
+                                disabled={publishPosterMutation.isPending}
+                                onClick={() => handlePublish(poster)}
+                              >
+                                {publishPosterMutation.isPending &&
+                                publishPosterMutation.variables ===
+                                  poster.id ? (
+                                  <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                                ) : (
+                                  <Upload className="h-4 w-4 mr-1" />
+                                )}
+                                Approve & Publish
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => openReviewDialog(poster)}
+                              >
+                                <MessageSquareWarning className="h-4 w-4 mr-1" />
+                                Review
+                              </Button>
                               <Button
                                 variant="destructive"
                                 size="sm"
@@ -570,6 +681,24 @@ export default function PosterManagement() {
                               Delete
                             </Button>
                           )}
+                          {poster.status === "approved" &&
+                            !poster.shopifyProductId && (
+                              <Button
+                                variant="default"
+                                size="sm"
+                                disabled={publishPosterMutation.isPending}
+                                onClick={() => handlePublish(poster)}
+                              >
+                                {publishPosterMutation.isPending &&
+                                publishPosterMutation.variables ===
+                                  poster.id ? (
+                                  <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                                ) : (
+                                  <Upload className="h-4 w-4 mr-1" />
+                                )}
+                                Publish
+                              </Button>
+                            )}
                           {poster.status === "approved" &&
                             !poster.shopifyUrl && (
                               <Button
@@ -604,8 +733,16 @@ export default function PosterManagement() {
         </CardContent>
       </Card>
 
+      <PosterChangeRequestsCard />
+
+      <PosterReviewDialog
+        poster={selectedPoster}
+        open={reviewDialogOpen}
+        onOpenChange={setReviewDialogOpen}
+      />
+
       <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
-        <DialogContent className="sm:max-w-lg">
+        <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>{selectedPoster?.title}</DialogTitle>
             <DialogDescription>
@@ -723,6 +860,29 @@ export default function PosterManagement() {
                 <span className="col-span-2">{selectedPoster?.uploadDate}</span>
               </div>
             </div>
+
+            {selectedPoster && (
+              <div className="space-y-2">
+                <span className="font-medium">Print Readiness</span>
+                <PrintReadinessReport posterId={selectedPoster.id} />
+              </div>
+            )}
+
+            {selectedPoster && (
+              <div className="space-y-2">
+                <span className="font-medium">
+                  History
+                  {selectedPoster.revision && selectedPoster.revision > 1
+                    ? ` (revision ${selectedPoster.revision})`
+                    : ""}
+                </span>
+                {isHistoryLoading ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <PosterStatusHistory history={posterHistory || []} />
+                )}
+              </div>
+            )}
           </div>
 
           <DialogFooter className="flex justify-between">
@@ -747,6 +907,33 @@ export default function PosterManagement() {
                     <Check className="h-4 w-4 mr-1" />
                     Approve
                   </Button>
+                  <Button
+                    variant="default"
+                    disabled={publishPosterMutation.isPending}
+                    onClick={() => {
+                      if (selectedPoster) {
+                        setDialogOpen(false);
+                        handlePublish(selectedPoster);
+                      }
+                    }}
+                  >
+                    <Upload className="h-4 w-4 mr-1" />
+                    Approve & Publish
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => {
+                      if (selectedPoster) {
+                        setDialogOpen(false);
+                        setTimeout(() => {
+                          openReviewDialog(selectedPoster);
+                        }, 300);
+                      }
+                    }}
+                  >
+                    <MessageSquareWarning className="h-4 w-4 mr-1" />
+                    Review
+                  </Button>
                   <Button
                     variant="destructive"
                     onClick={() => {
@@ -17,7 +17,7 @@ import {
 } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Check, X, Loader2 } from "lucide-react";
+import { Check, X, Loader2, FileDown, AlertTriangle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import {
   Select,
@@ -30,9 +30,14 @@ import { createClient } from "@/utils/supabase/client";
 import { format, parseISO } from "date-fns";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { formatCurrency } from "@/lib/utils";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  downloadPayoutBatch,
+  PayoutBatchesCard,
+} from "@/components/payout-batches-card";
 
 // Define UI status types
-type PayoutStatus = "not_paid" | "paid";
+type PayoutStatus = "not_paid" | "paid" | "failed";
 
 // Define our data interface for the UI
 interface CreatorPayout {
@@ -45,8 +50,18 @@ interface CreatorPayout {
   payout: number;
   status: PayoutStatus;
   currency?: string;
+  method?: "iban" | "paypal" | null;
+  batchId?: number | null;
+  paymentError?: string | null;
 }
 
+type BatchProvider = "sepa" | "paypal";
+
+const PROVIDER_LABELS: Record<BatchProvider, string> = {
+  sepa: "SEPA File",
+  paypal: "PayPal Batch",
+};
+
 const SalesReports = () => {
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -56,6 +71,7 @@ const SalesReports = () => {
     null
   );
   const [selectedCreator, setSelectedCreator] = useState<string | null>(null);
+  const [selectedPayoutIds, setSelectedPayoutIds] = useState<number[]>([]);
 
   // Fetch payouts data
   const { data: payoutsData, isLoading: isLoadingPayouts } = useQuery({
@@ -74,7 +90,11 @@ const SalesReports = () => {
             payout_month,
             creator_id,
             currency,
-            profiles(id, name)
+            method,
+            batch_id,
+            payment_error,
+            profiles(id, name),
+            payout_line_items(net_amount)
           `
           )
           .order("created_at", { ascending: false });
@@ -146,11 +166,19 @@ const SalesReports = () => {
 
           // Map DB status to UI status
           const uiStatus: PayoutStatus =
-            payout.status === "completed" ? "paid" : "not_paid";
+            payout.status === "completed"
+              ? "paid"
+              : payout.status === "failed"
+              ? "failed"
+              : "not_paid";
 
-          // Calculate revenue (payout is 30% of revenue)
+          // Revenue of the order lines the payout was calculated from
           const payoutAmount = payout.amount || 0;
-          const revenue = payoutAmount / 0.3;
+          const revenue = (payout.payout_line_items || []).reduce(
+            (sum: number, line: { net_amount: number }) =>
+              sum + Number(line.net_amount),
+            0
+          );
 
           formattedPayouts.push({
             id: payout.id,
@@ -162,6 +190,9 @@ const SalesReports = () => {
             payout: payoutAmount,
             status: uiStatus,
             currency: payout.currency || "USD",
+            method: payout.method,
+            batchId: payout.batch_id,
+            paymentError: payout.payment_error,
           });
         }
 
@@ -178,49 +209,79 @@ const SalesReports = () => {
     },
   });
 
-  // Create mutation to update payout status
-  const updatePayoutMutation = useMutation({
+  // Create a payment file for the selected payouts and download it.
+  // Payouts are marked paid from the file's results (Payment Files below).
+  const exportMutation = useMutation({
     mutationFn: async ({
-      id,
-      status,
+      provider,
+      payoutIds,
     }: {
-      id: number;
-      status: PayoutStatus;
+      provider: BatchProvider;
+      payoutIds: number[];
     }) => {
-      // Convert UI status to DB status
-      const dbStatus = status === "paid" ? "completed" : "pending";
+      const response = await fetch("/api/admin/payout-batches", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ provider, payoutIds }),
+      });
 
-      const { error } = await supabase
-        .from("payout")
-        .update({ status: dbStatus })
-        .eq("id", id);
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        const problems: string[] = body.problems || [];
+        throw new Error(
+          [body.error || "Failed to create payment file", ...problems].join(
+            "; "
+          )
+        );
+      }
 
-      if (error) throw error;
-      return { id, status };
+      return response.json();
     },
-    onSuccess: (_, variables) => {
+    onSuccess: (batch, { provider }) => {
+      setSelectedPayoutIds([]);
       queryClient.invalidateQueries({ queryKey: ["admin-payouts"] });
+      queryClient.invalidateQueries({ queryKey: ["payout-batches"] });
+      downloadPayoutBatch(batch.id);
       toast({
-        title: "Status Updated",
-        description: `Payout status has been updated to ${variables.status.replace(
-          "_",
-          " "
-        )}`,
+        title: `${PROVIDER_LABELS[provider]} Created`,
+        description: `${batch.reference} with ${batch.payout_count} payout(s)`,
       });
     },
     onError: (error) => {
-      console.error("Error updating payout:", error);
       toast({
-        title: "Update Failed",
-        description: "Failed to update payout status",
+        title: "Export Failed",
+        description:
+          error instanceof Error
+            ? error.message
+            : "Failed to create payment file",
         variant: "destructive",
       });
     },
   });
 
-  // Handle status change for a payout
-  const handleStatusChange = (payoutId: number, newStatus: PayoutStatus) => {
-    updatePayoutMutation.mutate({ id: payoutId, status: newStatus });
+  // Unpaid payouts that aren't in a file yet (or whose payment failed) can be
+  // exported: euro IBAN payouts as SEPA, PayPal payouts as a PayPal batch
+  const exportProvider = (payout: CreatorPayout): BatchProvider | null => {
+    if (payout.status === "paid") return null;
+    if (payout.batchId && payout.status !== "failed") return null;
+    if (payout.method === "iban" && payout.currency === "EUR") return "sepa";
+    if (payout.method === "paypal") return "paypal";
+    return null;
+  };
+
+  const selectedFor = (provider: BatchProvider) =>
+    (payoutsData || [])
+      .filter(
+        (payout) =>
+          selectedPayoutIds.includes(payout.id) &&
+          exportProvider(payout) === provider
+      )
+      .map((payout) => payout.id);
+
+  const toggleSelected = (payoutId: number, checked: boolean) => {
+    setSelectedPayoutIds((ids) =>
+      checked ? [...ids, payoutId] : ids.filter((id) => id !== payoutId)
+    );
   };
 
   // Filter payouts based on selected filters
@@ -238,7 +299,7 @@ const SalesReports = () => {
   // Calculate total unpaid amount
   const getTotalUnpaidAmount = () => {
     return filteredPayouts
-      .filter((payout) => payout.status === "not_paid")
+      .filter((payout) => payout.status !== "paid")
       .reduce((sum, payout) => sum + payout.payout, 0);
   };
 
@@ -261,6 +322,8 @@ const SalesReports = () => {
         return <Check className="h-4 w-4" />;
       case "not_paid":
         return <X className="h-4 w-4" />;
+      case "failed":
+        return <AlertTriangle className="h-4 w-4" />;
     }
   };
 
@@ -271,9 +334,17 @@ const SalesReports = () => {
         return "bg-green-100 text-green-800 hover:bg-green-100 border-green-300";
       case "not_paid":
         return "bg-red-100 text-red-800 hover:bg-red-100 border-red-300";
+      case "failed":
+        return "bg-orange-100 text-orange-800 hover:bg-orange-100 border-orange-300";
     }
   };
 
+  const statusLabels: Record<PayoutStatus, string> = {
+    not_paid: "Unpaid",
+    paid: "Paid",
+    failed: "Payment Failed",
+  };
+
   return (
     <div className="space-y-6">
       <div>
@@ -315,6 +386,7 @@ const SalesReports = () => {
           <SelectContent>
             <SelectItem value="not_paid">Unpaid</SelectItem>
             <SelectItem value="paid">Paid</SelectItem>
+            <SelectItem value="failed">Payment Failed</SelectItem>
           </SelectContent>
         </Select>
 
@@ -379,27 +451,62 @@ const SalesReports = () => {
 
       {/* Detailed Payouts Table */}
       <Card>
-        <CardHeader>
-          <CardTitle>Creator Payouts</CardTitle>
-          <CardDescription>Monthly payout tracking by creator</CardDescription>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Creator Payouts</CardTitle>
+            <CardDescription>
+              Monthly payout tracking by creator. Select unpaid payouts to
+              export them as a SEPA file (EUR bank transfers) or a PayPal
+              batch.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            {(["sepa", "paypal"] as BatchProvider[]).map((provider) => (
+              <Button
+                key={provider}
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  exportMutation.mutate({
+                    provider,
+                    payoutIds: selectedFor(provider),
+                  })
+                }
+                disabled={
+                  selectedFor(provider).length === 0 ||
+                  exportMutation.isPending
+                }
+              >
+                {exportMutation.isPending &&
+                exportMutation.variables?.provider === provider ? (
+                  <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                ) : (
+                  <FileDown className="h-4 w-4 mr-1" />
+                )}
+                Export {PROVIDER_LABELS[provider]} (
+                {selectedFor(provider).length})
+              </Button>
+            ))}
+          </div>
         </CardHeader>
         <CardContent>
           <div className="rounded-md border">
             <Table>
               <TableHeader>
                 <TableRow>
+                  <TableHead className="w-8" />
                   <TableHead>Creator</TableHead>
                   <TableHead>Month</TableHead>
                   <TableHead>Currency</TableHead>
-                  <TableHead>Payout Amount (30%)</TableHead>
+                  <TableHead>Payout Amount</TableHead>
                   <TableHead>Status</TableHead>
-                  <TableHead>Actions</TableHead>
+                  <TableHead>Payment</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {isLoadingPayouts ? (
                   <TableRow>
-                    <TableCell colSpan={6} className="text-center py-8">
+                    <TableCell colSpan={7} className="text-center py-8">
                       <div className="flex justify-center items-center">
                         <Loader2 className="h-6 w-6 animate-spin mr-2" />
                         <span>Loading payout data...</span>
@@ -409,6 +516,17 @@ const SalesReports = () => {
                 ) : filteredPayouts.length > 0 ? (
                   filteredPayouts.map((row) => (
                     <TableRow key={row.id}>
+                      <TableCell>
+                        {exportProvider(row) && (
+                          <Checkbox
+                            checked={selectedPayoutIds.includes(row.id)}
+                            onCheckedChange={(checked) =>
+                              toggleSelected(row.id, checked === true)
+                            }
+                            aria-label={`Select payout ${row.id}`}
+                          />
+                        )}
+                      </TableCell>
                       <TableCell className="font-medium">
                         {row.creator}
                       </TableCell>
@@ -422,54 +540,31 @@ const SalesReports = () => {
                         >
                           <span className="flex items-center gap-1">
                             {getStatusIcon(row.status)}
-                            {row.status === "not_paid" ? "Unpaid" : "Paid"}
+                            {statusLabels[row.status]}
                           </span>
                         </Badge>
                       </TableCell>
-                      <TableCell>
-                        <div className="flex gap-2">
-                          {row.status === "not_paid" && (
-                            <Button
-                              variant="outline"
-                              size="sm"
-                              onClick={() => handleStatusChange(row.id, "paid")}
-                              className="text-green-600 border-green-600 hover:bg-green-50"
-                              disabled={updatePayoutMutation.isPending}
-                            >
-                              {updatePayoutMutation.isPending ? (
-                                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
-                              ) : (
-                                <Check className="h-4 w-4 mr-1" />
-                              )}
-                              Mark Paid
-                            </Button>
-                          )}
-                          {row.status === "paid" && (
-                            <Button
-                              variant="outline"
-                              size="sm"
-                              onClick={() =>
-                                handleStatusChange(row.id, "not_paid")
-                              }
-                              className="text-red-600 border-red-600 hover:bg-red-50"
-                              disabled={updatePayoutMutation.isPending}
-                            >
-                              {updatePayoutMutation.isPending ? (
-                                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
-                              ) : (
-                                <X className="h-4 w-4 mr-1" />
-                              )}
-                              Mark Unpaid
-                            </Button>
+                      <TableCell className="text-sm">
+                        <div className="flex items-center gap-2">
+                          {row.method === "paypal" ? "PayPal" : "IBAN"}
+                          {row.batchId && (
+                            <Badge variant="outline">
+                              Batch #{row.batchId}
+                            </Badge>
                           )}
                         </div>
+                        {row.paymentError && (
+                          <p className="text-xs text-orange-700 mt-1">
+                            {row.paymentError}
+                          </p>
+                        )}
                       </TableCell>
                     </TableRow>
                   ))
                 ) : (
                   <TableRow>
                     <TableCell
-                      colSpan={6}
+                      colSpan={7}
                       className="text-center py-8 text-muted-foreground"
                     >
                       No payout records found. Try adjusting your filters.
@@ -481,6 +576,8 @@ const SalesReports = () => {
           </div>
         </CardContent>
       </Card>
+
+      <PayoutBatchesCard />
     </div>
   );
 };
@@ -0,0 +1,418 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Loader2, Pencil, Plus } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { formatCurrency } from "@/lib/utils";
+import type { PosterSizeOption } from "@/lib/poster-sizes";
+
+interface SizeFormState {
+  // Set when editing an existing size, whose id can't change
+  editing: boolean;
+  id: string;
+  label: string;
+  dimensions: string;
+  optionValue: string;
+  recommendedWidth: string;
+  recommendedHeight: string;
+  minPrice: string;
+  maxPrice: string;
+  sortOrder: string;
+  active: boolean;
+}
+
+const emptyForm: SizeFormState = {
+  editing: false,
+  id: "",
+  label: "",
+  dimensions: "",
+  optionValue: "",
+  recommendedWidth: "",
+  recommendedHeight: "",
+  minPrice: "",
+  maxPrice: "",
+  sortOrder: "0",
+  active: true,
+};
+
+const PosterSizes = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<SizeFormState | null>(null);
+
+  const { data: sizes = [], isLoading } = useQuery({
+    queryKey: ["admin-poster-sizes"],
+    queryFn: async (): Promise<PosterSizeOption[]> => {
+      const response = await fetch("/api/admin/poster-sizes");
+      if (!response.ok) {
+        throw new Error("Failed to fetch poster sizes");
+      }
+      return response.json();
+    },
+  });
+
+  const saveSizeMutation = useMutation({
+    mutationFn: async (state: SizeFormState) => {
+      const response = await fetch("/api/admin/poster-sizes", {
+        method: state.editing ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          id: state.id,
+          label: state.label,
+          dimensions: state.dimensions,
+          optionValue: state.optionValue,
+          recommendedWidth: parseInt(state.recommendedWidth),
+          recommendedHeight: parseInt(state.recommendedHeight),
+          minPrice: parseFloat(state.minPrice),
+          maxPrice: state.maxPrice ? parseFloat(state.maxPrice) : null,
+          sortOrder: parseInt(state.sortOrder) || 0,
+          active: state.active,
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to save poster size");
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["admin-poster-sizes"] });
+      queryClient.invalidateQueries({ queryKey: ["poster-sizes"] });
+      setForm(null);
+      toast({
+        title: "Size saved",
+        description: "The size catalogue has been updated",
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to save size",
+      });
+    },
+  });
+
+  const openEditForm = (size: PosterSizeOption) => {
+    setForm({
+      editing: true,
+      id: size.id,
+      label: size.label,
+      dimensions: size.dimensions,
+      optionValue: size.option_value,
+      recommendedWidth: size.recommended_width.toString(),
+      recommendedHeight: size.recommended_height.toString(),
+      minPrice: size.min_price.toString(),
+      maxPrice: size.max_price === null ? "" : size.max_price.toString(),
+      sortOrder: size.sort_order.toString(),
+      active: size.active,
+    });
+  };
+
+  const formatPriceRange = (size: PosterSizeOption) =>
+    size.max_price === null
+      ? `from ${formatCurrency(size.min_price)}`
+      : `${formatCurrency(size.min_price)} – ${formatCurrency(size.max_price)}`;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">Poster Sizes</h1>
+          <p className="text-gray-500 mt-1">
+            The sizes creators can sell posters in, and the prices they may
+            ask for each.
+          </p>
+        </div>
+        <Button onClick={() => setForm(emptyForm)}>
+          <Plus className="h-4 w-4 mr-1" />
+          New Size
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Size Catalogue</CardTitle>
+          <CardDescription>
+            Inactive sizes can&apos;t be chosen for new posters or price
+            changes; posters already selling them keep their variants.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Id</TableHead>
+                  <TableHead>Label</TableHead>
+                  <TableHead>Dimensions</TableHead>
+                  <TableHead>Shopify Option</TableHead>
+                  <TableHead>Recommended Resolution</TableHead>
+                  <TableHead>Price Range</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center py-8">
+                      <div className="flex justify-center items-center">
+                        <Loader2 className="h-6 w-6 animate-spin mr-2" />
+                        <span>Loading poster sizes...</span>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ) : sizes.length > 0 ? (
+                  sizes.map((size) => (
+                    <TableRow
+                      key={size.id}
+                      className={size.active ? "" : "opacity-60"}
+                    >
+                      <TableCell className="font-mono">{size.id}</TableCell>
+                      <TableCell className="font-medium">{size.label}</TableCell>
+                      <TableCell>{size.dimensions}</TableCell>
+                      <TableCell>{size.option_value}</TableCell>
+                      <TableCell>
+                        {size.recommended_width} × {size.recommended_height}{" "}
+                        px
+                      </TableCell>
+                      <TableCell>{formatPriceRange(size)}</TableCell>
+                      <TableCell>
+                        {size.active ? (
+                          <Badge className="bg-green-100 text-green-800">
+                            Active
+                          </Badge>
+                        ) : (
+                          <Badge variant="outline">Inactive</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => openEditForm(size)}
+                        >
+                          <Pencil className="h-4 w-4 mr-1" />
+                          Edit
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell
+                      colSpan={8}
+                      className="text-center py-8 text-muted-foreground"
+                    >
+                      No poster sizes yet.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={form !== null} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {form?.editing ? `Edit Size ${form.id}` : "New Size"}
+            </DialogTitle>
+            <DialogDescription>
+              Posters store the id, so it can&apos;t be changed later. The
+              Shopify option is the size&apos;s value of the &quot;Size&quot;
+              option on products.
+            </DialogDescription>
+          </DialogHeader>
+
+          {form && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="size-id">Id</Label>
+                  <Input
+                    id="size-id"
+                    placeholder="e.g. 21x30"
+                    value={form.id}
+                    disabled={form.editing}
+                    onChange={(e) => setForm({ ...form, id: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="size-label">Label</Label>
+                  <Input
+                    id="size-label"
+                    placeholder="e.g. A4"
+                    value={form.label}
+                    onChange={(e) => setForm({ ...form, label: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="size-dimensions">Dimensions</Label>
+                  <Input
+                    id="size-dimensions"
+                    placeholder="e.g. 21 × 30 cm"
+                    value={form.dimensions}
+                    onChange={(e) =>
+                      setForm({ ...form, dimensions: e.target.value })
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="size-option">Shopify option</Label>
+                  <Input
+                    id="size-option"
+                    placeholder={form.id ? `${form.id} cm` : "e.g. 21x30 cm"}
+                    value={form.optionValue}
+                    onChange={(e) =>
+                      setForm({ ...form, optionValue: e.target.value })
+                    }
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="size-width">Recommended width (px)</Label>
+                  <Input
+                    id="size-width"
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={form.recommendedWidth}
+                    onChange={(e) =>
+                      setForm({ ...form, recommendedWidth: e.target.value })
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="size-height">Recommended height (px)</Label>
+                  <Input
+                    id="size-height"
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={form.recommendedHeight}
+                    onChange={(e) =>
+                      setForm({ ...form, recommendedHeight: e.target.value })
+                    }
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="size-min-price">Minimum price</Label>
+                  <Input
+                    id="size-min-price"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={form.minPrice}
+                    onChange={(e) =>
+                      setForm({ ...form, minPrice: e.target.value })
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="size-max-price">Maximum price</Label>
+                  <Input
+                    id="size-max-price"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="No limit"
+                    value={form.maxPrice}
+                    onChange={(e) =>
+                      setForm({ ...form, maxPrice: e.target.value })
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="size-sort-order">Sort order</Label>
+                  <Input
+                    id="size-sort-order"
+                    type="number"
+                    step="1"
+                    value={form.sortOrder}
+                    onChange={(e) =>
+                      setForm({ ...form, sortOrder: e.target.value })
+                    }
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="size-active"
+                  checked={form.active}
+                  onCheckedChange={(checked) =>
+                    setForm({ ...form, active: checked })
+                  }
+                />
+                <Label htmlFor="size-active">
+                  Creators can choose this size
+                </Label>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => form && saveSizeMutation.mutate(form)}
+              disabled={saveSizeMutation.isPending}
+            >
+              {saveSizeMutation.isPending && (
+                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+              )}
+              Save Size
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default PosterSizes;
@@ -0,0 +1,136 @@
+import { createClient } from "@/utils/supabase/server";
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/utils/supabase/admin";
+import { getExchangeRates } from "@/lib/currency";
+import { forceReleaseBalance, MINIMUM_PAYOUT_GBP } from "@/lib/payout-balance";
+
+type CreatorBalance = {
+  creatorId: string;
+  creatorName: string;
+  currency: string;
+  amount: number;
+  months: string[];
+};
+
+// GET rolled-over balances that haven't been paid out, one row per creator
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const authError = await requireAdmin(supabase);
+    if (authError) return authError;
+
+    const { data, error } = await supabase
+      .from("creator_balance_entries")
+      .select("creator_id, amount, currency, period, profiles:creator_id (name)")
+      .is("payout_id", null)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    const balances: Record<string, CreatorBalance> = {};
+    (data || []).forEach((entry) => {
+      const profile = entry.profiles as unknown as { name: string } | null;
+      // Entries in another currency (after a currency change) get their own row
+      const key = `${entry.creator_id}:${entry.currency}`;
+
+      if (!balances[key]) {
+        balances[key] = {
+          creatorId: entry.creator_id,
+          creatorName: profile?.name || entry.creator_id,
+          currency: entry.currency,
+          amount: 0,
+          months: [],
+        };
+      }
+
+      balances[key].amount += Number(entry.amount);
+      balances[key].months.push(entry.period?.start);
+    });
+
+    return NextResponse.json({
+      minimumPayout: MINIMUM_PAYOUT_GBP,
+      balances: Object.values(balances).map((balance) => ({
+        ...balance,
+        amount: Math.round(balance.amount * 100) / 100,
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching creator balances:", error);
+    return new NextResponse(
+      JSON.stringify({ error: "Internal server error" }),
+      {
+        status: 500,
+      }
+    );
+  }
+}
+
+// Force-release a creator's balance as a payout before it reaches the minimum
+export async function POST(request: Request) {
+  try {
+    const { creatorId } = await request.json();
+
+    if (!creatorId) {
+      return new NextResponse(
+        JSON.stringify({ error: "Creator ID is required" }),
+        {
+          status: 400,
+        }
+      );
+    }
+
+    const supabase = await createClient();
+    const authError = await requireAdmin(supabase);
+    if (authError) return authError;
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    // Real money isn't paid out at the built-in default rates
+    const { rates: exchangeRates, fallback } = await getExchangeRates(
+      new URL(request.url).origin
+    );
+    if (fallback) {
+      return new NextResponse(
+        JSON.stringify({ error: "Live exchange rates are unavailable" }),
+        {
+          status: 502,
+        }
+      );
+    }
+
+    try {
+      const payout = await forceReleaseBalance(
+        supabase,
+        creatorId,
+        exchangeRates,
+        user!.id
+      );
+      return NextResponse.json(payout, { status: 201 });
+    } catch (releaseError) {
+      // Business rule failures (nothing to release etc.) go back to the admin
+      return new NextResponse(
+        JSON.stringify({
+          error:
+            releaseError instanceof Error
+              ? releaseError.message
+              : "Failed to release balance",
+        }),
+        {
+          status: 400,
+        }
+      );
+    }
+  } catch (error) {
+    console.error("Error releasing creator balance:", error);
+    return new NextResponse(
+      JSON.stringify({ error: "Internal server error" }),
+      {
+        status: 500,
+      }
+    );
+  }
+}
@@ -0,0 +1,226 @@
+import { createClient } from "@/utils/supabase/server";
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/utils/supabase/admin";
+import { COMMISSION_RULE_FIELDS } from "@/lib/commission";
+
+// Validate and normalise the editable fields of a rule
+function parseRuleInput(body: Record<string, unknown>) {
+  const rate = Number(body.rate);
+  if (body.rate === undefined || isNaN(rate) || rate < 0 || rate > 1) {
+    return { error: "Rate must be a number between 0 and 1" };
+  }
+
+  const label = typeof body.label === "string" ? body.label.trim() : "";
+  if (!label) {
+    return { error: "Label is required" };
+  }
+
+  const startsAt = (body.startsAt as string) || null;
+  const endsAt = (body.endsAt as string) || null;
+  if (startsAt && endsAt && startsAt > endsAt) {
+    return { error: "Start date must be before end date" };
+  }
+
+  return {
+    rule: {
+      label,
+      rate,
+      creator_id: (body.creatorId as string) || null,
+      poster_id: (body.posterId as string) || null,
+      starts_at: startsAt,
+      ends_at: endsAt,
+      priority: Number(body.priority) || 0,
+    },
+  };
+}
+
+// GET all commission rules, including inactive ones for history
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const authError = await requireAdmin(supabase);
+    if (authError) return authError;
+
+    const { data, error } = await supabase
+      .from("commission_rules")
+      .select(
+        `${COMMISSION_RULE_FIELDS}, profiles:creator_id (name), posters:poster_id (title)`
+      )
+      .order("active", { ascending: false })
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      throw error;
+    }
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error("Error fetching commission rules:", error);
+    return new NextResponse(
+      JSON.stringify({ error: "Internal server error" }),
+      {
+        status: 500,
+      }
+    );
+  }
+}
+
+// Create a new commission rule
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { rule, error: validationError } = parseRuleInput(body);
+
+    if (validationError || !rule) {
+      return new NextResponse(JSON.stringify({ error: validationError }), {
+        status: 400,
+      });
+    }
+
+    const supabase = await createClient();
+    const authError = await requireAdmin(supabase);
+    if (authError) return authError;
+
+    const { data, error } = await supabase
+      .from("commission_rules")
+      .insert(rule)
+      .select(COMMISSION_RULE_FIELDS)
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return NextResponse.json(data, { status: 201 });
+  } catch (error) {
+    console.error("Error creating commission rule:", error);
+    return new NextResponse(
+      JSON.stringify({ error: "Internal server error" }),
+      {
+        status: 500,
+      }
+    );
+  }
+}
+
+// Update a rule. Every change bumps the version so payouts stay traceable.
+export async function PATCH(request: Request) {
+  try {
+    const body = await request.json();
+    const { ruleId } = body;
+
+    if (!ruleId) {
+      return new NextResponse(
+        JSON.stringify({ error: "Invalid request body" }),
+        {
+          status: 400,
+        }
+      );
+    }
+
+    const { rule, error: validationError } = parseRuleInput(body);
+    if (validationError || !rule) {
+      return new NextResponse(JSON.stringify({ error: validationError }), {
+        status: 400,
+      });
+    }
+
+    const supabase = await createClient();
+    const authError = await requireAdmin(supabase);
+    if (authError) return authError;
+
+    const { data: existing, error: fetchError } = await supabase
+      .from("commission_rules")
+      .select("version")
+      .eq("id", ruleId)
+      .single();
+
+    if (fetchError || !existing) {
+      return new NextResponse(JSON.stringify({ error: "Rule not found" }), {
+        status: 404,
+      });
+    }
+
+    const { data, error } = await supabase
+      .from("commission_rules")
+      .update({
+        ...rule,
+        active: body.active !== undefined ? Boolean(body.active) : true,
+        version: existing.version + 1,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", ruleId)
+      .select(COMMISSION_RULE_FIELDS)
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error("Error updating commission rule:", error);
+    return new NextResponse(
+      JSON.stringify({ error: "Internal server error" }),
+      {
+        status: 500,
+      }
+    );
+  }
+}
+
+// Deactivate a rule. Rules are kept so past payouts can still reference them.
+export async function DELETE(request: Request) {
+  try {
+    const url = new URL(request.url);
+    const ruleId = url.searchParams.get("id");
+
+    if (!ruleId) {
+      return new NextResponse(
+        JSON.stringify({ error: "Rule ID is required" }),
+        {
+          status: 400,
+        }
+      );
+    }
+
+    const supabase = await createClient();
+    const authError = await requireAdmin(supabase);
+    if (authError) return authError;
+
+    const { data: existing } = await supabase
+      .from("commission_rules")
+      .select("version")
+      .eq("id", ruleId)
+      .single();
+
+    if (!existing) {
+      return new NextResponse(JSON.stringify({ error: "Rule not found" }), {
+        status: 404,
+      });
+    }
+
+    const { error } = await supabase
+      .from("commission_rules")
+      .update({
+        active: false,
+        version: existing.version + 1,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", ruleId);
+
+    if (error) {
+      throw error;
+    }
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error("Error deactivating commission rule:", error);
+    return new NextResponse(
+      JSON.stringify({ error: "Internal server error" }),
+      {
+        status: 500,
+      }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { createClient } from "@/utils/supabase/server";
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/utils/supabase/admin";
+import {
+  listBulkOrderImports,
+  startBulkOrderImport,
+} from "@/lib/order-bulk-sync";
+import { getPrimaryShop, getShop } from "@/lib/shops";
+
+// GET recent bulk order imports, newest first
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const authError = await requireAdmin(supabase);
+    if (authError) return authError;
+
+    return NextResponse.json(await listBulkOrderImports(supabase));
+  } catch (error) {
+    console.error("Error fetching bulk order imports:", error);
+    return new NextResponse(
+      JSON.stringify({ error: "Internal server error" }),
+      {
+        status: 500,
+      }
+    );
+  }
+}
+
+// POST start a bulk import of the orders created in [from, to). Both dates
+// are optional; leave them out to import the whole shop. The shop defaults
+// to the primary shop.
+export async function POST(request: Request) {
+  try {
+    const { from, to, shop } = await request.json().catch(() => ({}));
+
+    const invalidDate = [from, to].find(
+      (date) => date && isNaN(new Date(date).getTime())
+    );
+    if (invalidDate !== undefined) {
+      return new NextResponse(
+        JSON.stringify({ error: `Invalid date: ${invalidDate}` }),
+        {
+          status: 400,
+        }
+      );
+    }
+
+    const supabase = await createClient();
+    const authError = await requireAdmin(supabase);
+    if (authError) return authError;
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    try {
+      const bulkImport = await startBulkOrderImport(
+        supabase,
+        shop ? await getShop(supabase, shop) : await getPrimaryShop(supabase),
+        {
+          from: from ? new Date(from).toISOString() : null,
+          to: to ? new Date(to).toISOString() : null,
+          startedBy: user!.id,
+        }
+      );
+      return NextResponse.json(bulkImport);
+    } catch (startError) {
+      return new NextResponse(
+        JSON.stringify({
+          error:
+            startError instanceof Error
+              ? startError.message
+              : "Failed to start bulk order import",
+        }),
+        {
+          status: 400,
+        }
+      );
+    }
+  } catch (error) {
+    console.error("Error starting bulk order import:", error);
+    return new NextResponse(
+      JSON.stringify({ error: "Internal server error" }),
+      {
+        status: 500,
+      }
+    );
+  }
+}
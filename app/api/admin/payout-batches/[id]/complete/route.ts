@@ -0,0 +1,42 @@
+import { createClient } from "@/utils/supabase/server";
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/utils/supabase/admin";
+import { completeBankBatch } from "@/lib/payout-batches";
+
+// POST mark the payouts in a bank transfer batch as paid
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const authError = await requireAdmin(supabase);
+    if (authError) return authError;
+
+    try {
+      const completed = await completeBankBatch(supabase, Number(id));
+      return NextResponse.json({ completed });
+    } catch (completeError) {
+      return new NextResponse(
+        JSON.stringify({
+          error:
+            completeError instanceof Error
+              ? completeError.message
+              : "Failed to complete batch",
+        }),
+        {
+          status: 400,
+        }
+      );
+    }
+  } catch (error) {
+    console.error("Error completing payout batch:", error);
+    return new NextResponse(
+      JSON.stringify({ error: "Internal server error" }),
+      {
+        status: 500,
+      }
+    );
+  }
+}
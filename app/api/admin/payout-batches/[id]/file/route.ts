@@ -0,0 +1,69 @@
+import { createClient } from "@/utils/supabase/server";
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/utils/supabase/admin";
+
+const CONTENT_TYPES: Record<string, string> = {
+  sepa: "application/xml",
+  paypal: "text/csv",
+};
+
+// GET download the payment file of a batch. ?format=json returns the PayPal
+// Payouts API request body instead of the CSV.
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const asJson = new URL(request.url).searchParams.get("format") === "json";
+    const supabase = await createClient();
+    const authError = await requireAdmin(supabase);
+    if (authError) return authError;
+
+    const { data: batch, error } = await supabase
+      .from("payout_batches")
+      .select("provider, file_name, file_content, payload")
+      .eq("id", id)
+      .single();
+
+    if (error || !batch) {
+      return new NextResponse(JSON.stringify({ error: "Batch not found" }), {
+        status: 404,
+      });
+    }
+
+    if (asJson) {
+      if (!batch.payload) {
+        return new NextResponse(
+          JSON.stringify({ error: "This batch has no API payload" }),
+          {
+            status: 400,
+          }
+        );
+      }
+
+      const fileName = batch.file_name.replace(/\.\w+$/, ".json");
+      return new NextResponse(JSON.stringify(batch.payload, null, 2), {
+        headers: {
+          "Content-Type": "application/json",
+          "Content-Disposition": `attachment; filename="${fileName}"`,
+        },
+      });
+    }
+
+    return new NextResponse(batch.file_content, {
+      headers: {
+        "Content-Type": CONTENT_TYPES[batch.provider] || "text/plain",
+        "Content-Disposition": `attachment; filename="${batch.file_name}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error downloading payout batch:", error);
+    return new NextResponse(
+      JSON.stringify({ error: "Internal server error" }),
+      {
+        status: 500,
+      }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { createClient } from "@/utils/supabase/server";
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/utils/supabase/admin";
+import { reconcilePayPalBatch } from "@/lib/payout-batches";
+
+// POST import PayPal's result report for a batch
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { report } = await request.json();
+
+    if (!report || typeof report !== "string") {
+      return new NextResponse(
+        JSON.stringify({ error: "Report contents are required" }),
+        {
+          status: 400,
+        }
+      );
+    }
+
+    const supabase = await createClient();
+    const authError = await requireAdmin(supabase);
+    if (authError) return authError;
+
+    try {
+      const result = await reconcilePayPalBatch(supabase, Number(id), report);
+      return NextResponse.json(result);
+    } catch (reconcileError) {
+      return new NextResponse(
+        JSON.stringify({
+          error:
+            reconcileError instanceof Error
+              ? reconcileError.message
+              : "Failed to import report",
+        }),
+        {
+          status: 400,
+        }
+      );
+    }
+  } catch (error) {
+    console.error("Error reconciling payout batch:", error);
+    return new NextResponse(
+      JSON.stringify({ error: "Internal server error" }),
+      {
+        status: 500,
+      }
+    );
+  }
+}
@@ -0,0 +1,116 @@
+import { createClient } from "@/utils/supabase/server";
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/utils/supabase/admin";
+import {
+  createPayPalBatch,
+  createSepaBatch,
+  PayoutBatchError,
+} from "@/lib/payout-batches";
+
+// GET payment files generated for payouts, newest first
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const authError = await requireAdmin(supabase);
+    if (authError) return authError;
+
+    const { data, error } = await supabase
+      .from("payout_batches")
+      .select(
+        "id, provider, reference, file_name, payout_count, total_amount, currency, execution_date, reconciled_at, created_at, payout (id, name, amount, status, payment_error)"
+      )
+      .order("created_at", { ascending: false })
+      .limit(50);
+
+    if (error) {
+      throw error;
+    }
+
+    return NextResponse.json(data || []);
+  } catch (error) {
+    console.error("Error fetching payout batches:", error);
+    return new NextResponse(
+      JSON.stringify({ error: "Internal server error" }),
+      {
+        status: 500,
+      }
+    );
+  }
+}
+
+// POST create a payment file for the selected payouts
+export async function POST(request: Request) {
+  try {
+    const { provider, payoutIds, executionDate } = await request.json();
+
+    if (provider !== "sepa" && provider !== "paypal") {
+      return new NextResponse(
+        JSON.stringify({ error: "Unsupported batch provider" }),
+        {
+          status: 400,
+        }
+      );
+    }
+
+    if (!Array.isArray(payoutIds) || payoutIds.length === 0) {
+      return new NextResponse(
+        JSON.stringify({ error: "Select at least one payout" }),
+        {
+          status: 400,
+        }
+      );
+    }
+
+    if (executionDate && !/^\d{4}-\d{2}-\d{2}$/.test(executionDate)) {
+      return new NextResponse(
+        JSON.stringify({ error: "Execution date must be YYYY-MM-DD" }),
+        {
+          status: 400,
+        }
+      );
+    }
+
+    const supabase = await createClient();
+    const authError = await requireAdmin(supabase);
+    if (authError) return authError;
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    try {
+      const ids = Array.from(new Set(payoutIds.map(Number)));
+      const batch =
+        provider === "sepa"
+          ? await createSepaBatch(supabase, ids, {
+              createdBy: user!.id,
+              executionDate: executionDate || undefined,
+            })
+          : await createPayPalBatch(supabase, ids, { createdBy: user!.id });
+      return NextResponse.json(batch, { status: 201 });
+    } catch (batchError) {
+      // Validation and configuration problems go back to the admin
+      return new NextResponse(
+        JSON.stringify({
+          error:
+            batchError instanceof Error
+              ? batchError.message
+              : "Failed to create payout batch",
+          problems:
+            batchError instanceof PayoutBatchError ? batchError.problems : [],
+        }),
+        {
+          status: 400,
+        }
+      );
+    }
+  } catch (error) {
+    console.error("Error creating payout batch:", error);
+    return new NextResponse(
+      JSON.stringify({ error: "Internal server error" }),
+      {
+        status: 500,
+      }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { createClient } from "@/utils/supabase/server";
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/utils/supabase/admin";
+
+// GET payout run history, newest period first, with each creator's status
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const authError = await requireAdmin(supabase);
+    if (authError) return authError;
+
+    const { data, error } = await supabase
+      .from("payout_runs")
+      .select(
+        "*, creators:payout_run_creators (creator_id, status, amount, currency, payout_id, balance_entry_id, error, updated_at, profiles:creator_id (name))"
+      )
+      .order("period_start", { ascending: false })
+      .limit(24);
+
+    if (error) {
+      throw error;
+    }
+
+    return NextResponse.json(data || []);
+  } catch (error) {
+    console.error("Error fetching payout runs:", error);
+    return new NextResponse(
+      JSON.stringify({ error: "Internal server error" }),
+      {
+        status: 500,
+      }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { createClient } from "@/utils/supabase/server";
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/utils/supabase/admin";
+import { getPayoutStatement, renderStatement } from "@/lib/payout-statements";
+
+// GET download a payout's statement (?format=pdf|csv)
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const format =
+      new URL(request.url).searchParams.get("format") === "csv" ? "csv" : "pdf";
+
+    const supabase = await createClient();
+    const authError = await requireAdmin(supabase);
+    if (authError) return authError;
+
+    const statement = await getPayoutStatement(supabase, Number(id));
+    const { body, contentType, fileName } = renderStatement(statement, format);
+
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": contentType,
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error generating payout statement:", error);
+    return new NextResponse(
+      JSON.stringify({ error: "Internal server error" }),
+      {
+        status: 500,
+      }
+    );
+  }
+}
+
+// POST rebuild a payout's statement from its current ledger
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const authError = await requireAdmin(supabase);
+    if (authError) return authError;
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    const statement = await getPayoutStatement(supabase, Number(id), {
+      regenerate: true,
+      generatedBy: user!.id,
+    });
+
+    return NextResponse.json({
+      payoutId: statement.payout.id,
+      generatedAt: statement.generated_at,
+    });
+  } catch (error) {
+    console.error("Error regenerating payout statement:", error);
+    return new NextResponse(
+      JSON.stringify({ error: "Internal server error" }),
+      {
+        status: 500,
+      }
+    );
+  }
+}
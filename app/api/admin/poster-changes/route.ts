@@ -0,0 +1,93 @@
+import { createClient } from "@/utils/supabase/server";
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/utils/supabase/admin";
+import {
+  approvePosterChange,
+  rejectPosterChange,
+} from "@/lib/poster-changes";
+
+// GET poster change requests waiting for review, oldest first
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const authError = await requireAdmin(supabase);
+    if (authError) return authError;
+
+    const { data, error } = await supabase
+      .from("poster_change_requests")
+      .select(
+        "*, posters:poster_id (title, shopify_product_id), profiles:creator_id (name)"
+      )
+      .eq("status", "pending")
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    return NextResponse.json(data || []);
+  } catch (error) {
+    console.error("Error fetching poster changes:", error);
+    return new NextResponse(
+      JSON.stringify({ error: "Internal server error" }),
+      {
+        status: 500,
+      }
+    );
+  }
+}
+
+// PATCH approve or reject a change request
+export async function PATCH(request: Request) {
+  try {
+    const { id, action, note } = await request.json();
+
+    if (!id || (action !== "approve" && action !== "reject")) {
+      return new NextResponse(
+        JSON.stringify({ error: "Invalid request body" }),
+        {
+          status: 400,
+        }
+      );
+    }
+
+    const supabase = await createClient();
+    const authError = await requireAdmin(supabase);
+    if (authError) return authError;
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    try {
+      if (action === "approve") {
+        await approvePosterChange(supabase, Number(id), user!.id, note, {
+          baseUrl: new URL(request.url).origin,
+        });
+      } else {
+        await rejectPosterChange(supabase, Number(id), user!.id, note);
+      }
+      return NextResponse.json({ success: true });
+    } catch (reviewError) {
+      return new NextResponse(
+        JSON.stringify({
+          error:
+            reviewError instanceof Error
+              ? reviewError.message
+              : "Failed to review change request",
+        }),
+        {
+          status: 400,
+        }
+      );
+    }
+  } catch (error) {
+    console.error("Error reviewing poster change:", error);
+    return new NextResponse(
+      JSON.stringify({ error: "Internal server error" }),
+      {
+        status: 500,
+      }
+    );
+  }
+}
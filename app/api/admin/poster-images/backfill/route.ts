@@ -0,0 +1,46 @@
+import { createClient } from "@/utils/supabase/server";
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/utils/supabase/admin";
+import { backfillPosterImages } from "@/lib/poster-image-storage";
+
+// Posters handled per call by default; each can hold several 100MB+ files
+const DEFAULT_LIMIT = 5;
+
+/**
+ * POST moves the print files of posters uploaded before originals were
+ * private into the private bucket and generates their derivatives.
+ *
+ * - ?limit=N: stop once N posters were handled
+ * - ?after=id: continue after this poster; pass the `next` of the previous
+ *   call until it is null
+ */
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient();
+    const authError = await requireAdmin(supabase);
+    if (authError) return authError;
+
+    const url = new URL(request.url);
+    const limit =
+      parseInt(url.searchParams.get("limit") || "", 10) || DEFAULT_LIMIT;
+
+    const result = await backfillPosterImages(supabase, {
+      after: url.searchParams.get("after"),
+      limit,
+    });
+
+    console.log(
+      `Poster image backfill: ${result.images} files of ${result.posters} posters moved, ${result.failed.length} failed`
+    );
+
+    return NextResponse.json({ ...result, done: result.next === null });
+  } catch (error) {
+    console.error("Error backfilling poster images:", error);
+    return new NextResponse(
+      JSON.stringify({ error: "Internal server error" }),
+      {
+        status: 500,
+      }
+    );
+  }
+}
@@ -0,0 +1,176 @@
+import { createClient } from "@/utils/supabase/server";
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/utils/supabase/admin";
+import { fetchPosterSizes, POSTER_SIZE_FIELDS } from "@/lib/poster-sizes";
+
+// Validate and normalise the editable fields of a size
+function parseSizeInput(body: Record<string, unknown>) {
+  const text = (value: unknown) =>
+    typeof value === "string" ? value.trim() : "";
+
+  const id = text(body.id);
+  if (!/^[a-z0-9]+$/i.test(id)) {
+    return { error: "Id must only contain letters and digits, like 21x30" };
+  }
+
+  const label = text(body.label);
+  const dimensions = text(body.dimensions);
+  if (!label || !dimensions) {
+    return { error: "Label and dimensions are required" };
+  }
+
+  const width = Number(body.recommendedWidth);
+  const height = Number(body.recommendedHeight);
+  if (
+    !Number.isInteger(width) ||
+    !Number.isInteger(height) ||
+    width <= 0 ||
+    height <= 0
+  ) {
+    return { error: "The recommended resolution must be whole pixels" };
+  }
+
+  const minPrice = Number(body.minPrice);
+  if (body.minPrice === undefined || isNaN(minPrice) || minPrice < 0) {
+    return { error: "Minimum price must be a positive number" };
+  }
+
+  const noMaxPrice = [null, undefined, ""].includes(
+    body.maxPrice as string | null | undefined
+  );
+  const maxPrice = noMaxPrice ? null : Number(body.maxPrice);
+  if (maxPrice !== null && (isNaN(maxPrice) || maxPrice < minPrice)) {
+    return { error: "Maximum price must be at least the minimum price" };
+  }
+
+  return {
+    size: {
+      id,
+      label,
+      dimensions,
+      option_value: text(body.optionValue) || `${id} cm`,
+      recommended_width: width,
+      recommended_height: height,
+      min_price: minPrice,
+      max_price: maxPrice,
+      active: body.active !== false,
+      sort_order: Number(body.sortOrder) || 0,
+    },
+  };
+}
+
+// GET the whole size catalogue, including inactive sizes
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const authError = await requireAdmin(supabase);
+    if (authError) return authError;
+
+    return NextResponse.json(
+      await fetchPosterSizes(supabase, { includeInactive: true })
+    );
+  } catch (error) {
+    console.error("Error fetching poster sizes:", error);
+    return new NextResponse(
+      JSON.stringify({ error: "Internal server error" }),
+      {
+        status: 500,
+      }
+    );
+  }
+}
+
+// Add a size to the catalogue
+export async function POST(request: Request) {
+  try {
+    const { size, error: validationError } = parseSizeInput(
+      await request.json()
+    );
+
+    if (validationError || !size) {
+      return new NextResponse(JSON.stringify({ error: validationError }), {
+        status: 400,
+      });
+    }
+
+    const supabase = await createClient();
+    const authError = await requireAdmin(supabase);
+    if (authError) return authError;
+
+    const { data, error } = await supabase
+      .from("poster_sizes")
+      .insert(size)
+      .select(POSTER_SIZE_FIELDS)
+      .single();
+
+    if (error) {
+      // Unique violation: the id is taken
+      if (error.code === "23505") {
+        return new NextResponse(
+          JSON.stringify({ error: `Size ${size.id} already exists` }),
+          {
+            status: 400,
+          }
+        );
+      }
+      throw error;
+    }
+
+    return NextResponse.json(data, { status: 201 });
+  } catch (error) {
+    console.error("Error creating poster size:", error);
+    return new NextResponse(
+      JSON.stringify({ error: "Internal server error" }),
+      {
+        status: 500,
+      }
+    );
+  }
+}
+
+// Update a size. The id can't change, since posters refer to it; sizes are
+// deactivated instead of deleted.
+export async function PATCH(request: Request) {
+  try {
+    const { size, error: validationError } = parseSizeInput(
+      await request.json()
+    );
+
+    if (validationError || !size) {
+      return new NextResponse(JSON.stringify({ error: validationError }), {
+        status: 400,
+      });
+    }
+
+    const supabase = await createClient();
+    const authError = await requireAdmin(supabase);
+    if (authError) return authError;
+
+    const { id, ...changes } = size;
+    const { data, error } = await supabase
+      .from("poster_sizes")
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .select(POSTER_SIZE_FIELDS)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+    if (!data) {
+      return new NextResponse(JSON.stringify({ error: "Size not found" }), {
+        status: 404,
+      });
+    }
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error("Error updating poster size:", error);
+    return new NextResponse(
+      JSON.stringify({ error: "Internal server error" }),
+      {
+        status: 500,
+      }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { createClient } from "@/utils/supabase/server";
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/utils/supabase/admin";
+import { fetchArtworkReports } from "@/lib/artwork-validation";
+
+// GET the print-readiness reports of a poster's uploaded images
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const authError = await requireAdmin(supabase);
+    if (authError) return authError;
+
+    return NextResponse.json(await fetchArtworkReports(supabase, id));
+  } catch (error) {
+    console.error("Error fetching artwork reports:", error);
+    return new NextResponse(
+      JSON.stringify({ error: "Internal server error" }),
+      {
+        status: 500,
+      }
+    );
+  }
+}
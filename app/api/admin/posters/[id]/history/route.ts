@@ -0,0 +1,32 @@
+import { createClient } from "@/utils/supabase/server";
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/utils/supabase/admin";
+import { fetchPosterReviews, fetchStatusHistory } from "@/lib/poster-reviews";
+
+// GET a poster's reviews and status history
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const authError = await requireAdmin(supabase);
+    if (authError) return authError;
+
+    const [reviews, history] = await Promise.all([
+      fetchPosterReviews(supabase, id),
+      fetchStatusHistory(supabase, id),
+    ]);
+
+    return NextResponse.json({ reviews, history });
+  } catch (error) {
+    console.error("Error fetching poster history:", error);
+    return new NextResponse(
+      JSON.stringify({ error: "Internal server error" }),
+      {
+        status: 500,
+      }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { createClient } from "@/utils/supabase/server";
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/utils/supabase/admin";
+import { toPosterImages } from "@/lib/poster-images";
+import { signOriginalUrls } from "@/lib/poster-image-storage";
+
+// GET short-lived download URLs of a poster's print files, by size
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const authError = await requireAdmin(supabase);
+    if (authError) return authError;
+
+    const { data: poster, error } = await supabase
+      .from("posters")
+      .select("image_urls")
+      .eq("id", id)
+      .single();
+
+    if (error || !poster) {
+      return new NextResponse(JSON.stringify({ error: "Poster not found" }), {
+        status: 404,
+      });
+    }
+
+    return NextResponse.json(
+      await signOriginalUrls(supabase, toPosterImages(poster.image_urls))
+    );
+  } catch (error) {
+    console.error("Error signing print file URLs:", error);
+    return new NextResponse(
+      JSON.stringify({ error: "Internal server error" }),
+      {
+        status: 500,
+      }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { createClient } from "@/utils/supabase/server";
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/utils/supabase/admin";
+import { publishPoster } from "@/lib/shopify-products";
+
+// POST approve a poster and publish it as a Shopify product in every shop
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const authError = await requireAdmin(supabase);
+    if (authError) return authError;
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    try {
+      const published = await publishPoster(supabase, id, {
+        baseUrl: new URL(request.url).origin,
+        changedBy: user!.id,
+      });
+      return NextResponse.json(published);
+    } catch (publishError) {
+      console.error("Error publishing poster:", publishError);
+      return new NextResponse(
+        JSON.stringify({
+          error:
+            publishError instanceof Error
+              ? publishError.message
+              : "Failed to publish poster",
+        }),
+        {
+          status: 400,
+        }
+      );
+    }
+  } catch (error) {
+    console.error("Error publishing poster:", error);
+    return new NextResponse(
+      JSON.stringify({ error: "Internal server error" }),
+      {
+        status: 500,
+      }
+    );
+  }
+}
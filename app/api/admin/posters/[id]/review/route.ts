@@ -0,0 +1,54 @@
+import { createClient } from "@/utils/supabase/server";
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/utils/supabase/admin";
+import { reviewPoster } from "@/lib/poster-reviews";
+
+// POST { decision, reason, note, sizes } reject a pending poster or request
+// changes to it
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { decision, reason, note, sizes } = await request.json();
+
+    const supabase = await createClient();
+    const authError = await requireAdmin(supabase);
+    if (authError) return authError;
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    try {
+      const review = await reviewPoster(supabase, id, user!.id, {
+        decision,
+        reason,
+        note,
+        sizes,
+      });
+      return NextResponse.json(review);
+    } catch (reviewError) {
+      return new NextResponse(
+        JSON.stringify({
+          error:
+            reviewError instanceof Error
+              ? reviewError.message
+              : "Failed to review poster",
+        }),
+        {
+          status: 400,
+        }
+      );
+    }
+  } catch (error) {
+    console.error("Error reviewing poster:", error);
+    return new NextResponse(
+      JSON.stringify({ error: "Internal server error" }),
+      {
+        status: 500,
+      }
+    );
+  }
+}
@@ -1,5 +1,7 @@
 import { createClient } from "@/utils/supabase/server";
 import { NextResponse } from "next/server";
+import { firstPosterImage } from "@/lib/poster-images";
+import { setPosterStatus } from "@/lib/poster-reviews";
 
 // GET all posters
 export async function GET() {
@@ -50,7 +52,7 @@ export async function GET() {
       creatorId: poster.creator_id,
       creatorName: poster.profiles.name || "Unknown",
       title: poster.title || "Untitled",
-      imageUrl: poster.image_url || "",
+      imageUrl: firstPosterImage(poster.image_urls, "preview") || "",
       status: poster.status || "pending",
       uploadDate: new Date(poster.created_at).toLocaleDateString(),
       description: poster.description || "",
@@ -58,6 +60,8 @@ export async function GET() {
       shopifyUrl: poster.shopify_url || "",
       shopifyProductId: poster.shopify_product_id || "",
       prices: poster.prices || {},
+      selectedSizes: poster.selected_sizes || [],
+      revision: poster.revision,
     }));
 
     return NextResponse.json(formattedPosters);
@@ -87,6 +91,16 @@ export async function PATCH(request: Request) {
       );
     }
 
+    // Rejections and change requests need a reason (see the review route)
+    if (status === "rejected" || status === "changesRequested") {
+      return new NextResponse(
+        JSON.stringify({ error: "Review the poster to reject it" }),
+        {
+          status: 400,
+        }
+      );
+    }
+
     const supabase = await createClient();
 
     // Check if user is authenticated and is an admin
@@ -116,10 +130,6 @@ export async function PATCH(request: Request) {
     // Update poster
     const updateData: Record<string, any> = {};
 
-    if (status) {
-      updateData.status = status;
-    }
-
     if (shopifyUrl !== undefined) {
       updateData.shopify_url = shopifyUrl;
     }
@@ -128,11 +138,27 @@ export async function PATCH(request: Request) {
       updateData.shopify_product_id = shopifyProductId;
     }
 
+    // Status changes are recorded in the poster's history
+    if (status) {
+      await setPosterStatus(supabase, posterId, status, {
+        changedBy: user.id,
+        updates: updateData,
+      });
+    } else if (Object.keys(updateData).length > 0) {
+      const { error: updateError } = await supabase
+        .from("posters")
+        .update(updateData)
+        .eq("id", posterId);
+
+      if (updateError) {
+        throw updateError;
+      }
+    }
+
     const { data, error } = await supabase
       .from("posters")
-      .update(updateData)
-      .eq("id", posterId)
       .select()
+      .eq("id", posterId)
       .single();
 
     if (error) {
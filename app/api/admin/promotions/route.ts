@@ -0,0 +1,87 @@
+import { createClient } from "@/utils/supabase/server";
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/utils/supabase/admin";
+import {
+  fetchDiscountCampaigns,
+  fetchPromotionCosts,
+  setCampaignFunding,
+} from "@/lib/discounts";
+
+// GET what each promotion cost each creator (?start_date, ?end_date,
+// ?shop), plus the campaigns marked so far
+export async function GET(request: Request) {
+  try {
+    const supabase = await createClient();
+    const authError = await requireAdmin(supabase);
+    if (authError) return authError;
+
+    const url = new URL(request.url);
+    const [costs, campaigns] = await Promise.all([
+      fetchPromotionCosts(
+        supabase,
+        {
+          startDate: url.searchParams.get("start_date") || undefined,
+          endDate: url.searchParams.get("end_date") || undefined,
+          shop: url.searchParams.get("shop") || undefined,
+        },
+        { baseUrl: url.origin }
+      ),
+      fetchDiscountCampaigns(supabase),
+    ]);
+
+    return NextResponse.json({ costs, campaigns });
+  } catch (error) {
+    console.error("Error fetching promotion costs:", error);
+    return new NextResponse(
+      JSON.stringify({ error: "Internal server error" }),
+      {
+        status: 500,
+      }
+    );
+  }
+}
+
+// PATCH mark a promotion ({ name, platformFunded, note? }) as platform-funded
+// or not. Applies to payouts calculated from now on.
+export async function PATCH(request: Request) {
+  try {
+    const { name, platformFunded, note } = await request.json();
+
+    if (
+      typeof name !== "string" ||
+      !name.trim() ||
+      typeof platformFunded !== "boolean"
+    ) {
+      return new NextResponse(
+        JSON.stringify({ error: "Invalid request body" }),
+        {
+          status: 400,
+        }
+      );
+    }
+
+    const supabase = await createClient();
+    const authError = await requireAdmin(supabase);
+    if (authError) return authError;
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    const campaign = await setCampaignFunding(
+      supabase,
+      { name, platformFunded, note },
+      user!.id
+    );
+
+    return NextResponse.json(campaign);
+  } catch (error) {
+    console.error("Error updating discount campaign:", error);
+    return new NextResponse(
+      JSON.stringify({ error: "Internal server error" }),
+      {
+        status: 500,
+      }
+    );
+  }
+}
@@ -0,0 +1,24 @@
+import { createClient } from "@/utils/supabase/server";
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/utils/supabase/admin";
+import { getShopifyGatewayMetrics } from "@/utils/shopify/gateway";
+
+// GET Shopify API usage of this server instance: rate limit buckets, queued
+// requests, retries and throttling
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const authError = await requireAdmin(supabase);
+    if (authError) return authError;
+
+    return NextResponse.json(getShopifyGatewayMetrics());
+  } catch (error) {
+    console.error("Error fetching Shopify metrics:", error);
+    return new NextResponse(
+      JSON.stringify({ error: "Internal server error" }),
+      {
+        status: 500,
+      }
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { createClient } from "@/utils/supabase/server";
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/utils/supabase/admin";
+import { checkVendorConsistency } from "@/lib/creator-vendors";
+
+// GET compare the vendor mapping with the products in Shopify
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const authError = await requireAdmin(supabase);
+    if (authError) return authError;
+
+    return NextResponse.json(await checkVendorConsistency(supabase));
+  } catch (error) {
+    console.error("Error checking vendor mapping:", error);
+    return new NextResponse(
+      JSON.stringify({
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to check vendor mapping",
+      }),
+      {
+        status: 500,
+      }
+    );
+  }
+}
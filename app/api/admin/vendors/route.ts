@@ -0,0 +1,143 @@
+import { createClient } from "@/utils/supabase/server";
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/utils/supabase/admin";
+import {
+  addCreatorVendor,
+  assignCreatorProduct,
+  removeCreatorProduct,
+  removeCreatorVendor,
+} from "@/lib/creator-vendors";
+
+// GET the vendor and product mapping with creator names
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const authError = await requireAdmin(supabase);
+    if (authError) return authError;
+
+    const [vendors, products] = await Promise.all([
+      supabase
+        .from("creator_vendors")
+        .select("*, profiles:creator_id (name)")
+        .order("vendor"),
+      supabase
+        .from("creator_products")
+        .select("*, profiles:creator_id (name), posters:poster_id (title)")
+        .order("created_at", { ascending: false }),
+    ]);
+
+    if (vendors.error || products.error) {
+      throw vendors.error || products.error;
+    }
+
+    return NextResponse.json({
+      vendors: vendors.data || [],
+      products: products.data || [],
+    });
+  } catch (error) {
+    console.error("Error fetching vendor mapping:", error);
+    return new NextResponse(
+      JSON.stringify({ error: "Internal server error" }),
+      {
+        status: 500,
+      }
+    );
+  }
+}
+
+// POST map a vendor name ({ creatorId, vendor }) or a Shopify product
+// ({ creatorId, shopifyProductId }) to a creator
+export async function POST(request: Request) {
+  try {
+    const { creatorId, vendor, shopifyProductId } = await request.json();
+
+    if (!creatorId || (!vendor && !shopifyProductId)) {
+      return new NextResponse(
+        JSON.stringify({ error: "Invalid request body" }),
+        {
+          status: 400,
+        }
+      );
+    }
+
+    const supabase = await createClient();
+    const authError = await requireAdmin(supabase);
+    if (authError) return authError;
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    try {
+      if (vendor) {
+        await addCreatorVendor(supabase, creatorId, vendor, user!.id);
+      } else {
+        await assignCreatorProduct(
+          supabase,
+          String(shopifyProductId),
+          creatorId,
+          user!.id
+        );
+      }
+      return NextResponse.json({ success: true }, { status: 201 });
+    } catch (mappingError) {
+      return new NextResponse(
+        JSON.stringify({
+          error:
+            mappingError instanceof Error
+              ? mappingError.message
+              : "Failed to update mapping",
+        }),
+        {
+          status: 400,
+        }
+      );
+    }
+  } catch (error) {
+    console.error("Error updating vendor mapping:", error);
+    return new NextResponse(
+      JSON.stringify({ error: "Internal server error" }),
+      {
+        status: 500,
+      }
+    );
+  }
+}
+
+// DELETE a vendor name (?vendor=) or product (?product=) from the mapping
+export async function DELETE(request: Request) {
+  try {
+    const url = new URL(request.url);
+    const vendor = url.searchParams.get("vendor");
+    const productId = url.searchParams.get("product");
+
+    if (!vendor && !productId) {
+      return new NextResponse(
+        JSON.stringify({ error: "vendor or product is required" }),
+        {
+          status: 400,
+        }
+      );
+    }
+
+    const supabase = await createClient();
+    const authError = await requireAdmin(supabase);
+    if (authError) return authError;
+
+    if (vendor) {
+      await removeCreatorVendor(supabase, vendor);
+    } else {
+      await removeCreatorProduct(supabase, productId!);
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error removing vendor mapping:", error);
+    return new NextResponse(
+      JSON.stringify({ error: "Internal server error" }),
+      {
+        status: 500,
+      }
+    );
+  }
+}
@@ -1,9 +1,51 @@
-import { createClient } from "@/utils/supabase/server";
+import type { createClient } from "@/utils/supabase/server";
+import { createServiceClient } from "@/utils/supabase/service";
 import { NextResponse } from "next/server";
 import {
-  createGraphQLClient,
-  getShopifyAccessToken,
-} from "@/utils/shopify/client";
+  AppliedCommission,
+  calculateEarnings,
+  CommissionRule,
+  fetchCommissionRules,
+} from "@/lib/commission";
+import {
+  ExchangeRateSnapshot,
+  ExchangeRateTable,
+  getExchangeRates,
+  isSupportedCurrency,
+  SupportedCurrency,
+  sumInCurrency,
+} from "@/lib/currency";
+import {
+  fetchOutstandingAdjustments,
+  recordRefundAdjustments,
+} from "@/lib/payout-adjustments";
+import {
+  BalanceEntry,
+  fetchOpenBalance,
+  minimumPayoutIn,
+  settleBalanceEntries,
+} from "@/lib/payout-balance";
+import {
+  finishPayoutRun,
+  PayoutRun,
+  PayoutRunCreator,
+  PayoutRunInProgressError,
+  startPayoutRun,
+  UNIQUE_VIOLATION,
+  updateRunCreator,
+} from "@/lib/payout-runs";
+import { syncOrders } from "@/lib/order-sync";
+import { listShops } from "@/lib/shops";
+import {
+  fetchPlatformFundedCampaigns,
+  platformFundedAmount,
+} from "@/lib/discounts";
+import {
+  fetchPosterOrderLines,
+  isPaidOrderStatus,
+  unrefundedLine,
+  variantLabel,
+} from "@/lib/orders";
 
 /**
  * Monthly Payouts API
@@ -11,13 +53,25 @@ import {
  * This API handles the calculation and generation of monthly payouts for creators.
  *
  * Key features:
- * - Processes orders from Shopify for a specified date range
+ * - Processes orders for a specified date range from the local order tables,
+ *   which are synced from Shopify first (see lib/order-sync.ts)
  * - Tracks revenue at both product and variant level
  * - Uses exact prices from order line items (not just default product prices)
  * - Properly handles different variants with different prices
  * - Excludes shipping fees from revenue calculations
- * - Splits revenue using a 70/30 model (creators get 70%)
- * - Creates payout records in the database if amount exceeds £20
+ * - Converts each order line from its shop currency into the creator's payout
+ *   currency, and stores the rates used on the payout (exchange_rates)
+ * - Pays creators a share of net revenue set by the commission_rules table
+ *   (store-wide default, per-creator, per-poster and date-bound overrides)
+ * - Records refunds/chargebacks on orders that were already paid out as
+ *   payout_adjustments and nets them off the creator's next payout
+ * - Creates a payout once the amount reaches the minimum payout
+ *   (MINIMUM_PAYOUT_AMOUNT, £20 by default); smaller amounts roll over into
+ *   the creator's balance (creator_balance_entries) and are added next month
+ * - Stores every order line behind a payout in the payout_line_items ledger
+ * - Journals each run in payout_runs/payout_run_creators (one run per
+ *   period), so a crashed or partly failed run can be re-run: creators that
+ *   were already written are skipped and the rest are retried
  *
  * The variant-level tracking ensures accurate pricing information
  * when variants have different prices (e.g., framed vs unframed posters).
@@ -63,81 +117,11 @@ const getMonthDateRange = (dateString?: string) => {
   };
 };
 
-// Define interface for selected options
-interface SelectedOption {
-  name: string;
-  value: string;
-}
-
-// Update interface for variants
-interface ShopifyVariant {
-  id: string;
-  title: string;
-  price: string;
-  sku?: string;
-  inventoryQuantity?: number;
-  selectedOptions?: SelectedOption[];
-}
-
-interface ShopifyOrdersResponse {
-  data?: {
-    orders?: {
-      edges: Array<{
-        node: {
-          id: string;
-          name: string;
-          createdAt: string;
-          displayFinancialStatus: string;
-          totalPriceSet: {
-            shopMoney: {
-              amount: string;
-              currencyCode: string;
-            };
-          };
-          totalShippingPriceSet?: {
-            shopMoney: {
-              amount: string;
-              currencyCode: string;
-            };
-          };
-          lineItems: {
-            edges: Array<{
-              node: {
-                id: string;
-                title: string;
-                quantity: number;
-                product?: {
-                  id: string;
-                  title?: string;
-                };
-                variant?: ShopifyVariant;
-                discountedTotalSet?: {
-                  shopMoney: {
-                    amount: string;
-                    currencyCode: string;
-                  };
-                };
-                originalTotalSet?: {
-                  shopMoney: {
-                    amount: string;
-                    currencyCode: string;
-                  };
-                };
-              };
-            }>;
-          };
-        };
-      }>;
-      pageInfo: {
-        hasNextPage: boolean;
-        endCursor: string | null;
-      };
-    };
-  };
-}
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
 
 type ProductRevenueData = {
   productId: string;
+  posterId?: string;
   title: string;
   revenue: number;
   sales: number;
@@ -148,450 +132,257 @@ type ProductRevenueData = {
     totalSold: number;
     totalRevenue: number;
     currency: string;
-    orders: Array<{
-      orderId: string;
-      orderName: string;
-      date: string;
-      quantity: number;
-      pricePaid: number;
-      lineTotal: number;
-    }>;
+    orders: Array<PayoutOrderLine>;
   }>;
 };
 
-// Calculate sales and revenue for a product
-async function calculateProductRevenue(
-  productId: string,
-  startDate: string,
-  endDate: string
-) {
-  try {
-    const accessToken = getShopifyAccessToken();
-    const graphqlClient = await createGraphQLClient(accessToken);
-
-    let hasNextPage = true;
-    let cursor: string | null = null;
-    let totalRevenue = 0;
-    let totalSales = 0;
-    let currencyCode = "EUR"; // Default currency
-
-    // Track variant-level data
-    const variants: Record<
-      string,
-      {
-        variantId: string;
-        title: string;
-        totalSold: number;
-        totalRevenue: number;
-        currency: string;
-        orders: Array<{
-          orderId: string;
-          orderName: string;
-          date: string;
-          quantity: number;
-          pricePaid: number;
-          lineTotal: number;
-        }>;
-      }
-    > = {};
-
-    while (hasNextPage) {
-      // Build GraphQL query to get product sales data with pagination
-      const query = `
-        query getOrdersByProductId($cursor: String, $queryString: String!) {
-          orders(first: 50, query: $queryString, after: $cursor) {
-            edges {
-              node {
-                id
-                name
-                createdAt
-                displayFinancialStatus
-                totalPriceSet {
-                  shopMoney {
-                    amount
-                    currencyCode
-                  }
-                }
-                totalShippingPriceSet {
-                  shopMoney {
-                    amount
-                    currencyCode
-                  }
-                }
-                lineItems(first: 20) {
-                  edges {
-                    node {
-                      id
-                      title
-                      quantity
-                      product {
-                        id
-                        title
-                      }
-                      variant {
-                        id
-                        title
-                        price
-                        sku
-                        inventoryQuantity
-                        selectedOptions {
-                          name
-                          value
-                        }
-                      }
-                      discountedTotalSet {
-                        shopMoney {
-                          amount
-                          currencyCode
-                        }
-                      }
-                      originalTotalSet {
-                        shopMoney {
-                          amount
-                          currencyCode
-                        }
-                      }
-                    }
-                  }
-                }
-              }
-            }
-            pageInfo {
-              hasNextPage
-              endCursor
-            }
-          }
-        }
-      `;
-
-      const variables = {
-        cursor,
-        queryString: `financial_status:any created_at:>=${startDate} created_at:<=${endDate} line_items_product_id:${productId}`,
-      };
-
-      console.log(
-        `Querying Shopify for product ${productId} with date range ${startDate} to ${endDate}`
-      );
-      console.log(`Full query string: ${variables.queryString}`);
+// Outcome for one creator, returned to the caller and recorded in the journal
+type PayoutResult = {
+  creator_id: string;
+  creator_name: string | null;
+  success: boolean;
+  message?: string;
+  error?: string;
+  payout_id?: number;
+  balance_entry_id?: number;
+  amount?: number;
+  currency?: string;
+  [key: string]: unknown;
+};
 
-      const response = await graphqlClient.query({
-        data: { query, variables },
-      });
+// A single order line behind a variant's revenue, kept for the payout ledger
+type PayoutOrderLine = {
+  orderId: string;
+  orderName: string;
+  lineItemId: string;
+  date: string;
+  quantity: number;
+  pricePaid: number;
+  grossTotal: number;
+  discount: number;
+  // Part of the discount the platform funded, commission is also paid on it
+  platformFunded: number;
+  lineTotal: number;
+  currency: string;
+  // Set once the line has been converted into the payout currency
+  original?: { currency: string; lineTotal: number; fxRate: number };
+  commission?: AppliedCommission & { amount: number };
+};
 
-      if (
-        response.body &&
-        typeof response.body === "object" &&
-        "data" in response.body
-      ) {
-        const responseData = response.body as ShopifyOrdersResponse;
+// Convert every order line of a creator into the payout currency in place and
+// recompute the variant/product totals. Returns the currencies we have no
+// rate for, which means the payout can't be calculated.
+function convertToPayoutCurrency(
+  products: ProductRevenueData[],
+  snapshot: ExchangeRateSnapshot,
+  allRates: ExchangeRateTable
+) {
+  const unsupported = new Set<string>();
 
-        if (responseData.data?.orders?.edges) {
-          const allOrders = responseData.data.orders.edges;
-          const includedOrders: string[] = [];
-          const excludedOrders: string[] = [];
+  products.forEach((product) => {
+    let productRevenue = 0;
 
-          allOrders.forEach(({ node: order }) => {
-            // Only count paid orders
-            const status = order.displayFinancialStatus?.toUpperCase() || "";
+    (product.variants || []).forEach((variant) => {
+      let variantRevenue = 0;
 
-            console.log(`Processing order ${order.name} with status ${status}`);
+      variant.orders.forEach((order) => {
+        const from = order.currency;
+        const fxRate = isSupportedCurrency(from)
+          ? allRates[from]?.[snapshot.currency]
+          : undefined;
 
-            // Store the currency code from the order
-            if (order.totalPriceSet?.shopMoney?.currencyCode) {
-              currencyCode = order.totalPriceSet.shopMoney.currencyCode;
-              console.log(`Order currency: ${currencyCode}`);
-            }
+        if (!fxRate) {
+          unsupported.add(from);
+          return;
+        }
 
-            // Log all line items for debugging
-            const allLineItems = order.lineItems.edges.map((edge) => edge.node);
-            console.log(`Order has ${allLineItems.length} line items total`);
+        snapshot.rates[from as SupportedCurrency] = fxRate;
+        order.original = { currency: from, lineTotal: order.lineTotal, fxRate };
+        order.pricePaid *= fxRate;
+        order.grossTotal *= fxRate;
+        order.discount *= fxRate;
+        order.platformFunded *= fxRate;
+        order.lineTotal *= fxRate;
+        order.currency = snapshot.currency;
+        variantRevenue += order.lineTotal;
+      });
 
-            allLineItems.forEach((item) => {
-              if (item.product) {
-                console.log(
-                  `Line item ${item.id}: product ID = ${item.product.id}, title = ${item.title}`
-                );
-                if (item.variant) {
-                  console.log(
-                    `Variant: ID = ${item.variant.id}, title = ${item.variant.title}, price = ${item.variant.price}`
-                  );
-                }
-                if (item.discountedTotalSet?.shopMoney) {
-                  console.log(
-                    `Discounted total: ${item.discountedTotalSet.shopMoney.amount} ${item.discountedTotalSet.shopMoney.currencyCode}`
-                  );
-                }
-              } else {
-                console.log(`Line item ${item.id}: No product information`);
-              }
-            });
+      variant.totalRevenue = variantRevenue;
+      variant.currency = snapshot.currency;
+      productRevenue += variantRevenue;
+    });
 
-            if (
-              status === "PAID" ||
-              status === "PARTIALLY_PAID" ||
-              status.includes("PAID") ||
-              status.includes("COMPLETE")
-            ) {
-              // Skip orders that contain "REFUND" in their status
-              if (status.includes("REFUND")) {
-                console.log(
-                  `❌ EXCLUDING refunded order ${order.name} with status ${status}`
-                );
-                excludedOrders.push(`${order.name} (${status})`);
-                return;
-              }
+    product.revenue = productRevenue;
+    product.currency = snapshot.currency;
+  });
 
-              console.log(
-                `✅ INCLUDING order ${order.name} with status ${status}`
-              );
-              includedOrders.push(`${order.name} (${status})`);
-
-              // Filter line items for this product
-              const lineItems = order.lineItems.edges
-                .map((edge) => edge.node)
-                .filter((item) => {
-                  if (!item.product || !item.product.id) return false;
-
-                  // GraphQL IDs often have a format like "gid://shopify/Product/12345"
-                  // Extract just the numeric part for comparison
-                  const graphqlId = item.product.id;
-                  const numericId = graphqlId.split("/").pop();
-
-                  const isMatch = numericId === productId;
-                  if (isMatch) {
-                    console.log(
-                      `Found matching product! GraphQL ID: ${graphqlId}, Expected product ID: ${productId}`
-                    );
-                  }
-                  return isMatch;
-                });
+  return Array.from(unsupported);
+}
 
-              if (lineItems.length > 0) {
-                let orderItemsCount = 0;
-                let orderRevenue = 0;
-
-                // Process each line item directly - similar to product stats API
-                lineItems.forEach((item) => {
-                  // Add to sales count
-                  orderItemsCount += item.quantity || 0;
-
-                  // Calculate revenue directly from the line item - excluding shipping fees
-                  if (item.discountedTotalSet?.shopMoney?.amount) {
-                    orderRevenue += parseFloat(
-                      item.discountedTotalSet.shopMoney.amount
-                    );
-                    console.log(
-                      `Item ${item.id}: quantity=${item.quantity}, revenue=${item.discountedTotalSet.shopMoney.amount}`
-                    );
-                  } else if (item.originalTotalSet?.shopMoney?.amount) {
-                    // Fallback to original price if discounted not available
-                    orderRevenue += parseFloat(
-                      item.originalTotalSet.shopMoney.amount
-                    );
-                    console.log(
-                      `Item ${item.id} (using original price): quantity=${item.quantity}, revenue=${item.originalTotalSet.shopMoney.amount}`
-                    );
-                  } else if (item.variant?.price) {
-                    // Fallback to variant price if no total set is available
-                    const variantRevenue =
-                      parseFloat(item.variant.price) * (item.quantity || 1);
-                    orderRevenue += variantRevenue;
-                    console.log(
-                      `Item ${item.id} (using variant price): quantity=${item.quantity}, variant price=${item.variant.price}, revenue=${variantRevenue}`
-                    );
-                  } else {
-                    console.log(
-                      `Warning: No price information for item ${item.id} in order ${order.name}`
-                    );
-                    return;
-                  }
-
-                  // Process variant data for detailed reporting
-                  if (item.variant) {
-                    const variantId = item.variant.id;
-
-                    // Get a user-friendly variant title
-                    let variantTitle = item.variant.title || "Default";
-
-                    // Extract variant options if available
-                    try {
-                      const variantData = item.variant as {
-                        selectedOptions?: Array<{
-                          name?: string;
-                          value?: string;
-                        }>;
-                      };
-
-                      if (
-                        variantData &&
-                        variantData.selectedOptions &&
-                        Array.isArray(variantData.selectedOptions)
-                      ) {
-                        const options = variantData.selectedOptions
-                          .map((opt) => {
-                            if (
-                              opt &&
-                              typeof opt.name === "string" &&
-                              typeof opt.value === "string"
-                            ) {
-                              return `${opt.name}: ${opt.value}`;
-                            }
-                            return "";
-                          })
-                          .filter(Boolean)
-                          .join(", ");
-
-                        if (options) {
-                          variantTitle = options;
-                        }
-                      }
-                    } catch (e) {
-                      console.log(`Error formatting variant title: ${e}`);
-                    }
-
-                    const quantity = item.quantity || 0;
-
-                    // Calculate unit price from the total
-                    let unitPrice = 0;
-                    let lineItemRevenue = 0;
-
-                    if (
-                      item.discountedTotalSet?.shopMoney?.amount &&
-                      quantity > 0
-                    ) {
-                      lineItemRevenue = parseFloat(
-                        item.discountedTotalSet.shopMoney.amount
-                      );
-                      unitPrice = lineItemRevenue / quantity;
-                    } else if (
-                      item.originalTotalSet?.shopMoney?.amount &&
-                      quantity > 0
-                    ) {
-                      lineItemRevenue = parseFloat(
-                        item.originalTotalSet.shopMoney.amount
-                      );
-                      unitPrice = lineItemRevenue / quantity;
-                    } else if (item.variant.price) {
-                      unitPrice = parseFloat(item.variant.price);
-                      lineItemRevenue = unitPrice * quantity;
-                    }
-
-                    console.log(
-                      `Variant ${variantId} (${variantTitle}): Unit price=${unitPrice.toFixed(
-                        2
-                      )}, Quantity=${quantity}, Revenue=${lineItemRevenue.toFixed(
-                        2
-                      )}`
-                    );
-
-                    // Initialize variant record if it doesn't exist
-                    if (!variants[variantId]) {
-                      variants[variantId] = {
-                        variantId,
-                        title: variantTitle,
-                        totalSold: 0,
-                        totalRevenue: 0,
-                        currency:
-                          item.discountedTotalSet?.shopMoney?.currencyCode ||
-                          item.originalTotalSet?.shopMoney?.currencyCode ||
-                          currencyCode,
-                        orders: [],
-                      };
-                    }
-
-                    // Update variant totals
-                    variants[variantId].totalSold += quantity;
-                    variants[variantId].totalRevenue += lineItemRevenue;
-
-                    // Add order details with exact price information
-                    variants[variantId].orders.push({
-                      orderId: order.id,
-                      orderName: order.name,
-                      date: order.createdAt,
-                      quantity,
-                      pricePaid: unitPrice,
-                      lineTotal: lineItemRevenue,
-                    });
-                  }
-                });
+// Apply the matching commission rule to every order line of a creator and
+// return the total commission plus the distinct rule versions that were used
+function applyCommissionRules(
+  creatorId: string,
+  products: ProductRevenueData[],
+  rules: CommissionRule[]
+) {
+  let total = 0;
+  const rulesUsed = new Map<string, AppliedCommission>();
+
+  products.forEach((product) => {
+    (product.variants || []).forEach((variant) => {
+      variant.orders.forEach((order) => {
+        const { earnings: amount, rule: applied } = calculateEarnings(
+          order.lineTotal + order.platformFunded,
+          rules,
+          { creatorId, posterId: product.posterId, date: order.date }
+        );
 
-                // Update total counters
-                totalSales += orderItemsCount;
-                totalRevenue += orderRevenue;
+        order.commission = { ...applied, amount };
+        total += amount;
+        rulesUsed.set(`${applied.ruleId}:${applied.ruleVersion}`, applied);
+      });
+    });
+  });
 
-                console.log(
-                  `Order ${
-                    order.name
-                  }: Added ${orderItemsCount} items with revenue ${orderRevenue.toFixed(
-                    2
-                  )} ${currencyCode}`
-                );
-              }
-            } else {
-              console.log(`Skipping order ${order.name} with status ${status}`);
-            }
-          });
+  return { total, rulesUsed: Array.from(rulesUsed.values()) };
+}
 
-          // Log summary of included vs excluded orders
-          console.log(
-            `\n=== ORDER PROCESSING SUMMARY FOR PRODUCT ${productId} ===`
-          );
-          console.log(`✅ INCLUDED ORDERS (${includedOrders.length}):`);
-          includedOrders.forEach((order) => console.log(`  - ${order}`));
-          console.log(`❌ EXCLUDED ORDERS (${excludedOrders.length}):`);
-          excludedOrders.forEach((order) => console.log(`  - ${order}`));
-          console.log(`=== END SUMMARY ===\n`);
-        }
+// Flatten a creator's product breakdown into payout_line_items rows. Lines of
+// a rolled-over month belong to its balance entry until a payout releases it.
+function buildPayoutLineItems(
+  owner: { payoutId: number | null; balanceEntryId?: number },
+  creatorId: string,
+  products: ProductRevenueData[]
+) {
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  return products.flatMap((product) =>
+    (product.variants || []).flatMap((variant) =>
+      variant.orders.map((order) => ({
+        payout_id: owner.payoutId,
+        balance_entry_id: owner.balanceEntryId ?? null,
+        creator_id: creatorId,
+        poster_id: product.posterId || null,
+        shopify_product_id: product.productId,
+        product_title: product.title,
+        shopify_order_id: order.orderId,
+        shopify_order_name: order.orderName,
+        shopify_line_item_id: order.lineItemId,
+        variant_id: variant.variantId,
+        variant_title: variant.title,
+        quantity: order.quantity,
+        gross_amount: round(order.grossTotal),
+        discount_amount: round(order.discount),
+        platform_funded_amount: round(order.platformFunded),
+        net_amount: round(order.lineTotal),
+        commission_amount: round(order.commission?.amount || 0),
+        commission_rate: order.commission?.rate ?? null,
+        commission_rule_id: order.commission?.ruleId ?? null,
+        commission_rule_version: order.commission?.ruleVersion ?? null,
+        currency: order.currency,
+        original_currency: order.original?.currency ?? order.currency,
+        original_net_amount: round(order.original?.lineTotal ?? order.lineTotal),
+        fx_rate: order.original?.fxRate ?? 1,
+        ordered_at: order.date,
+      }))
+    )
+  );
+}
 
-        // Check if there are more pages to fetch
-        hasNextPage = responseData.data?.orders?.pageInfo?.hasNextPage || false;
-        cursor = responseData.data?.orders?.pageInfo?.endCursor || null;
-      } else {
-        console.log(`No data returned for product ${productId}`);
-        hasNextPage = false;
-      }
+// Calculate sales and revenue for a product from the local order tables,
+// across every shop the poster is sold in
+async function calculateProductRevenue(
+  supabase: SupabaseServerClient,
+  productId: string,
+  startDate: string,
+  endDate: string,
+  platformFunded: Set<string>
+) {
+  const lines = await fetchPosterOrderLines(supabase, [productId], {
+    startDate,
+    endDate,
+  });
+
+  let totalRevenue = 0;
+  let totalSales = 0;
+  let currencyCode = "EUR"; // Default currency
+
+  // Track variant-level data
+  const variants: Record<
+    string,
+    {
+      variantId: string;
+      title: string;
+      totalSold: number;
+      totalRevenue: number;
+      currency: string;
+      orders: Array<PayoutOrderLine>;
+    }
+  > = {};
+
+  lines.forEach((paidLine) => {
+    // Only count paid orders, without what has been refunded so far. Later
+    // refunds are clawed back through payout adjustments.
+    if (!isPaidOrderStatus(paidLine.order.financial_status)) return;
+    const line = unrefundedLine(paidLine);
+    if (!line) return;
+
+    currencyCode = line.currency;
+    totalSales += line.quantity;
+    totalRevenue += line.net_amount;
+
+    // Lines of deleted variants can't be attributed to a variant
+    if (!line.variant_id) return;
+
+    if (!variants[line.variant_id]) {
+      variants[line.variant_id] = {
+        variantId: line.variant_id,
+        title: variantLabel(line),
+        totalSold: 0,
+        totalRevenue: 0,
+        currency: line.currency,
+        orders: [],
+      };
     }
 
-    // Convert variants record to array for easier consumption
-    const variantsArray = Object.values(variants);
-
-    console.log(
-      `FINAL: Product ${productId}: Found ${totalSales} sales with revenue ${totalRevenue.toFixed(
-        2
-      )} ${currencyCode}`
-    );
+    const variant = variants[line.variant_id];
+    variant.totalSold += line.quantity;
+    variant.totalRevenue += line.net_amount;
+    variant.orders.push({
+      orderId: line.order_id,
+      orderName: line.order.name,
+      lineItemId: line.id,
+      date: line.ordered_at,
+      quantity: line.quantity,
+      pricePaid: line.quantity > 0 ? line.net_amount / line.quantity : 0,
+      grossTotal: line.gross_amount,
+      discount: line.discount_amount,
+      platformFunded: platformFundedAmount(line, platformFunded),
+      lineTotal: line.net_amount,
+      currency: line.currency,
+    });
+  });
 
-    if (variantsArray.length > 0) {
-      console.log(`Variant breakdown:`);
-      variantsArray.forEach((variant) => {
-        console.log(
-          `  - ${variant.title}: ${
-            variant.totalSold
-          } sold, revenue: ${variant.totalRevenue.toFixed(2)} ${
-            variant.currency
-          }`
-        );
-      });
-    }
+  console.log(
+    `Product ${productId}: ${totalSales} sales with revenue ${totalRevenue.toFixed(
+      2
+    )} ${currencyCode}`
+  );
 
-    return {
-      revenue: totalRevenue,
-      sales: totalSales,
-      currencyCode,
-      variants: variantsArray,
-    };
-  } catch (error) {
-    console.error(`Error calculating revenue for product ${productId}:`, error);
-    return {
-      revenue: 0,
-      sales: 0,
-      currencyCode: "EUR",
-      variants: [],
-    };
-  }
+  return {
+    revenue: totalRevenue,
+    sales: totalSales,
+    currencyCode,
+    variants: Object.values(variants),
+  };
 }
 
 export async function GET(request: Request) {
+  // Runs without a signed-in user and writes the payout ledger
+  const supabase = createServiceClient();
+  let run: PayoutRun | null = null;
+
   try {
     // Verify authorization header
     const authHeader = request.headers.get("Authorization");
@@ -617,7 +408,6 @@ export async function GET(request: Request) {
       ? JSON.parse(manualAmountsParam)
       : {};
 
-    const supabase = await createClient();
     const { firstDay, lastDay } = getMonthDateRange(dateParam || undefined);
 
     console.log(
@@ -626,6 +416,27 @@ export async function GET(request: Request) {
       } for period: ${firstDay} to ${lastDay}`
     );
 
+    // Bring the local order tables up to date before reading from them. A
+    // real run can't be calculated from stale orders; previews carry on.
+    try {
+      for (const shop of await listShops(supabase)) {
+        const sync = await syncOrders(supabase, shop, "incremental", {
+          maxPages: Infinity,
+        });
+        console.log(
+          `Synced ${sync.orders} updated orders of ${shop.domain} before the run`
+        );
+      }
+    } catch (error) {
+      console.error("Error syncing orders:", error);
+      if (!previewMode) {
+        return NextResponse.json(
+          { error: "Failed to sync orders from Shopify" },
+          { status: 502 }
+        );
+      }
+    }
+
     // Get all approved creators
     const { data: creators, error: creatorsError } = await supabase
       .from("profiles")
@@ -643,12 +454,86 @@ export async function GET(request: Request) {
 
     console.log(`Processing payouts for ${creators.length} creators`);
 
+    // Fetch exchange rates once so every creator in the run uses the same
+    // set. A real run isn't paid out at the built-in default rates; previews
+    // carry on with them, flagged on each snapshot.
+    const { rates: exchangeRates, fallback: fallbackRates } =
+      await getExchangeRates(url.origin);
+    const ratesFetchedAt = new Date().toISOString();
+    if (fallbackRates && !previewMode) {
+      return NextResponse.json(
+        { error: "Live exchange rates are unavailable" },
+        { status: 502 }
+      );
+    }
+
+    // Start or resume the run journal for this period (not for previews)
+    let journal = new Map<string, PayoutRunCreator>();
+    if (!previewMode) {
+      try {
+        ({ run, creators: journal } = await startPayoutRun(
+          supabase,
+          { start: firstDay, end: lastDay },
+          creators.map((creator) => creator.id)
+        ));
+      } catch (error) {
+        if (error instanceof PayoutRunInProgressError) {
+          return NextResponse.json({ error: error.message }, { status: 409 });
+        }
+        throw error;
+      }
+      console.log(`Payout run ${run.id}, attempt ${run.attempts}`);
+    }
+
+    // Load commission rules once for the whole run
+    const commissionRules = await fetchCommissionRules(supabase);
+    console.log(`Loaded ${commissionRules.length} active commission rules`);
+
+    // Discounts of these campaigns don't reduce creator commission
+    const platformFunded = await fetchPlatformFundedCampaigns(supabase);
+
     // Process each creator
-    const payoutResults = [];
+    const payoutResults: PayoutResult[] = [];
+
+    // Return a creator's outcome and record it in the run journal
+    const recordResult = async (result: PayoutResult) => {
+      payoutResults.push(result);
+      if (!run) return;
+
+      await updateRunCreator(
+        supabase,
+        run.id,
+        result.creator_id,
+        result.success ? "written" : "failed",
+        {
+          amount: result.amount ?? null,
+          currency: result.currency ?? null,
+          payout_id: result.payout_id ?? null,
+          balance_entry_id: result.balance_entry_id ?? null,
+          error: result.error ?? null,
+        }
+      );
+    };
 
     for (const creator of creators) {
       console.log(`Processing creator: ${creator.name || creator.id}`);
 
+      // Already written by an earlier attempt of this run
+      const journalEntry = journal.get(creator.id);
+      if (journalEntry?.status === "written") {
+        payoutResults.push({
+          creator_id: creator.id,
+          creator_name: creator.name,
+          success: true,
+          message: "Already written in an earlier attempt of this run",
+          payout_id: journalEntry.payout_id ?? undefined,
+          balance_entry_id: journalEntry.balance_entry_id ?? undefined,
+          amount: journalEntry.amount ?? undefined,
+          currency: journalEntry.currency ?? undefined,
+        });
+        continue;
+      }
+
       // Get approved products for this creator
       const { data: products, error: productsError } = await supabase
         .from("posters")
@@ -662,12 +547,21 @@ export async function GET(request: Request) {
           `Error fetching products for creator ${creator.id}:`,
           productsError
         );
+        await recordResult({
+          creator_id: creator.id,
+          creator_name: creator.name,
+          success: false,
+          error: "Failed to fetch products",
+        });
         continue;
       }
 
       // Skip if no products
       if (!products || products.length === 0) {
         console.log(`No approved products found for creator ${creator.id}`);
+        if (run) {
+          await updateRunCreator(supabase, run.id, creator.id, "written");
+        }
         continue;
       }
 
@@ -676,9 +570,8 @@ export async function GET(request: Request) {
       );
 
       // Calculate total revenue for this creator across all products
-      let creatorTotalRevenue = 0;
       let creatorTotalSales = 0;
-      let mainCurrency = "EUR"; // Default currency
+      let orderLinesError: string | null = null;
       const productRevenueData: Array<ProductRevenueData> = [];
 
       console.log(
@@ -708,12 +601,26 @@ export async function GET(request: Request) {
         );
 
         // Calculate revenue for this product
-        const { revenue, sales, currencyCode, variants } =
-          await calculateProductRevenue(productId, firstDay, lastDay);
+        let productRevenue;
+        try {
+          productRevenue = await calculateProductRevenue(
+            supabase,
+            productId,
+            firstDay,
+            lastDay,
+            platformFunded
+          );
+        } catch (error) {
+          orderLinesError =
+            error instanceof Error ? error.message : String(error);
+          break;
+        }
+        const { revenue, sales, currencyCode, variants } = productRevenue;
 
         // Store product revenue data for reporting
         productRevenueData.push({
           productId,
+          posterId: product.id,
           title: product.title || "Untitled",
           revenue,
           sales,
@@ -727,20 +634,74 @@ export async function GET(request: Request) {
           }): Revenue: ${revenue.toFixed(2)} ${currencyCode}, Sales: ${sales}`
         );
 
-        // Set main currency to the first product with revenue
-        if (revenue > 0 && mainCurrency === "EUR") {
-          mainCurrency = currencyCode;
-          console.log(
-            `Setting main currency to ${mainCurrency} from product ${productId}`
-          );
-        }
-
-        // Add all revenue regardless of currency (for simplicity)
-        // A real production system might need currency conversion
-        creatorTotalRevenue += revenue;
         creatorTotalSales += sales;
       }
 
+      if (orderLinesError) {
+        console.error(
+          `Error loading orders for creator ${creator.id}:`,
+          orderLinesError
+        );
+        await recordResult({
+          creator_id: creator.id,
+          creator_name: creator.name,
+          success: false,
+          error: "Failed to load orders",
+        });
+        continue;
+      }
+
+      // Payouts are made in the creator's currency, defaulting to GBP
+      const creatorCurrency = creator.currency || "GBP";
+
+      if (!isSupportedCurrency(creatorCurrency)) {
+        console.error(
+          `Unsupported payout currency ${creatorCurrency} for creator ${creator.id}`
+        );
+        await recordResult({
+          creator_id: creator.id,
+          creator_name: creator.name,
+          success: false,
+          error: `Unsupported payout currency: ${creatorCurrency}`,
+        });
+        continue;
+      }
+
+      // Convert all order lines into the payout currency before adding up
+      const rateSnapshot: ExchangeRateSnapshot = {
+        currency: creatorCurrency,
+        rates: {},
+        fetched_at: ratesFetchedAt,
+        ...(fallbackRates && { fallback: true }),
+      };
+      const unsupportedCurrencies = convertToPayoutCurrency(
+        productRevenueData,
+        rateSnapshot,
+        exchangeRates
+      );
+
+      if (unsupportedCurrencies.length > 0) {
+        console.error(
+          `No exchange rate from ${unsupportedCurrencies.join(
+            ", "
+          )} to ${creatorCurrency} for creator ${creator.id}`
+        );
+        await recordResult({
+          creator_id: creator.id,
+          creator_name: creator.name,
+          success: false,
+          error: `No exchange rate for ${unsupportedCurrencies.join(
+            ", "
+          )} to ${creatorCurrency}`,
+        });
+        continue;
+      }
+
+      const creatorTotalRevenue = productRevenueData.reduce(
+        (sum, p) => sum + p.revenue,
+        0
+      );
+
       console.log(
         `Creator ${creator.id} (${creator.name}): Processed ${productRevenueData.length} products`
       );
@@ -763,12 +724,19 @@ export async function GET(request: Request) {
       console.log(`=== REVENUE BREAKDOWN FOR CREATOR ${creator.id} ===`);
       console.log(`Period: ${firstDay} to ${lastDay}`);
       console.log(
-        `Total Revenue: ${creatorTotalRevenue.toFixed(2)} ${mainCurrency}`
+        `Total Revenue: ${creatorTotalRevenue.toFixed(2)} ${creatorCurrency}`
+      );
+
+      // Creator commission is computed per order line from the matching rule
+      const { total: creatorCommission, rulesUsed } = applyCommissionRules(
+        creator.id,
+        productRevenueData,
+        commissionRules
       );
       console.log(
-        `Expected Commission (30%): ${(creatorTotalRevenue * 0.3).toFixed(
-          2
-        )} ${mainCurrency}`
+        `Expected Commission: ${creatorCommission.toFixed(2)} ${creatorCurrency} (rules: ${rulesUsed
+          .map((rule) => `${rule.label} ${rule.rate * 100}%`)
+          .join(", ")})`
       );
 
       // Show product-by-product breakdown
@@ -805,27 +773,99 @@ export async function GET(request: Request) {
       });
       console.log(`=== END BREAKDOWN ===`);
 
-      // Creator gets 30% of total revenue (commission to creator)
-      const creatorCommission = creatorTotalRevenue * 0.3;
-
       console.log(
         `Creator ${creator.id} total: Revenue: ${creatorTotalRevenue.toFixed(
           2
-        )} ${mainCurrency}, Commission: ${creatorCommission.toFixed(
+        )} ${creatorCurrency}, Commission: ${creatorCommission.toFixed(
           2
-        )} ${mainCurrency}, Sales: ${creatorTotalSales}`
+        )} ${creatorCurrency}, Sales: ${creatorTotalSales}`
       );
 
+      // Claw back refunds and chargebacks on orders from earlier payouts.
+      // In preview mode new ones are only calculated, not saved. Also load
+      // earnings rolled over from months below the minimum payout.
+      let adjustments: Array<{
+        id?: number;
+        amount: number;
+        currency: string;
+        shopify_order_name: string | null;
+        type: string;
+        reason: string | null;
+      }> = [];
+      let balanceEntries: BalanceEntry[] = [];
+      try {
+        const newAdjustments = await recordRefundAdjustments(
+          supabase,
+          creator.id,
+          { dryRun: previewMode }
+        );
+        const outstanding = await fetchOutstandingAdjustments(
+          supabase,
+          creator.id
+        );
+        adjustments = previewMode
+          ? [...outstanding, ...newAdjustments]
+          : outstanding;
+        balanceEntries = await fetchOpenBalance(supabase, creator.id);
+      } catch (error) {
+        console.error(
+          `Error calculating adjustments for creator ${creator.id}:`,
+          error
+        );
+        await recordResult({
+          creator_id: creator.id,
+          creator_name: creator.name,
+          success: false,
+          error: "Failed to load refund adjustments or balance",
+        });
+        continue;
+      }
+
+      // Adjustments are stored in the currency of the payout they clawed back
+      // from, which can differ if the creator has changed currency since
+      const { total: adjustmentsTotal, unsupported: adjustmentCurrencyErrors } =
+        sumInCurrency(adjustments, rateSnapshot, exchangeRates);
+      const { total: balanceTotal, unsupported: balanceCurrencyErrors } =
+        sumInCurrency(balanceEntries, rateSnapshot, exchangeRates);
+      const missingRates = Array.from(
+        new Set([...adjustmentCurrencyErrors, ...balanceCurrencyErrors])
+      );
+
+      if (missingRates.length > 0) {
+        await recordResult({
+          creator_id: creator.id,
+          creator_name: creator.name,
+          success: false,
+          error: `No exchange rate for ${missingRates.join(
+            ", "
+          )} to ${creatorCurrency}`,
+        });
+        continue;
+      }
+
+      if (adjustments.length > 0) {
+        console.log(
+          `Adjustments for creator ${creator.id}: ${adjustmentsTotal.toFixed(
+            2
+          )} ${creatorCurrency} from ${adjustments.length} refund(s)/chargeback(s)`
+        );
+      }
+
       // Skip if no revenue
       if (creatorCommission <= 0) {
         console.log(`No revenue for creator ${creator.id} in this period`);
-        payoutResults.push({
+        await recordResult({
           creator_id: creator.id,
           creator_name: creator.name,
           success: true,
-          message: "No revenue in this period",
+          message:
+            adjustments.length > 0
+              ? "No revenue in this period; adjustments carried forward"
+              : "No revenue in this period",
           amount: 0,
-          currency: mainCurrency,
+          currency: creatorCurrency,
+          adjustments,
+          adjustmentsTotal,
           products: productRevenueData,
         });
         continue;
@@ -837,44 +877,151 @@ export async function GET(request: Request) {
           creator.name || creator.id
         }: Total revenue (excl. shipping): ${creatorTotalRevenue.toFixed(
           2
-        )} ${mainCurrency}, Creator commission (30%): ${creatorCommission.toFixed(
+        )} ${creatorCurrency}, Creator commission: ${creatorCommission.toFixed(
           2
-        )} ${mainCurrency}`
+        )} ${creatorCurrency}`
       );
 
-      // Check if a payout record already exists for this creator and month
+      // Check if a payout record already exists for this creator and month.
+      // Payouts for a month are created the month after, so match on the
+      // period they cover rather than when they were created.
       const { data: existingPayout } = await supabase
         .from("payout")
-        .select("id")
+        .select("id, amount, currency")
         .eq("creator_id", creator.id)
-        .gte("created_at", firstDay)
-        .lte("created_at", lastDay)
-        .single();
+        .eq("payout_month->>start", firstDay)
+        .maybeSingle();
+
+      // A month that rolled over has a balance entry instead of a payout
+      const { data: existingEntry } = await supabase
+        .from("creator_balance_entries")
+        .select("id, amount, currency")
+        .eq("creator_id", creator.id)
+        .eq("period->>start", firstDay)
+        .maybeSingle();
 
-      if (existingPayout) {
+      // Written before the journal recorded it (e.g. the run crashed in
+      // between), so there is nothing left to do for this creator
+      if (existingPayout || existingEntry) {
         console.log(
           `Payout already exists for creator ${creator.id} in this period`
         );
-        payoutResults.push({
+        await recordResult({
           creator_id: creator.id,
           creator_name: creator.name,
-          success: false,
-          error: "Payout already exists for this period",
+          success: true,
+          message: existingPayout
+            ? "Payout already exists for this period"
+            : "Already rolled over for this period",
+          payout_id: existingPayout?.id,
+          balance_entry_id: existingEntry?.id,
+          amount: existingPayout ? Number(existingPayout.amount) : 0,
+          currency: (existingPayout || existingEntry)?.currency,
         });
         continue;
       }
 
-      // Format the amount with 2 decimal places
-      const formattedAmount = Math.round(creatorCommission * 100) / 100;
-
-      // Get creator's currency or default to GBP
-      const creatorCurrency = creator.currency || "GBP";
+      // Format the amount (plus rolled-over balance, net of adjustments) with
+      // 2 decimal places
+      const formattedAmount =
+        Math.round(
+          (creatorCommission + balanceTotal + adjustmentsTotal) * 100
+        ) / 100;
 
       // Check if there's a manual amount for this creator
       const manualAmount = manualAmounts[creator.id];
       const finalAmount =
         manualAmount !== undefined ? manualAmount : formattedAmount;
 
+      // Below the minimum payout, this month's earnings roll over into the
+      // creator's balance. Outstanding adjustments stay open until a payout
+      // is made. A manual amount set by an admin always creates a payout.
+      const minimumPayout = minimumPayoutIn(creatorCurrency, exchangeRates);
+
+      if (run) {
+        await updateRunCreator(supabase, run.id, creator.id, "computed", {
+          amount: finalAmount,
+          currency: creatorCurrency,
+        });
+      }
+      if (manualAmount === undefined && formattedAmount < minimumPayout) {
+        const balanceAfter =
+          Math.round((balanceTotal + creatorCommission) * 100) / 100;
+        console.log(
+          `${formattedAmount.toFixed(
+            2
+          )} ${creatorCurrency} is below the minimum payout of ${minimumPayout.toFixed(
+            2
+          )}, rolling over for creator ${creator.id}`
+        );
+
+        let rolloverError: { message: string } | null = null;
+        let balanceEntryId: number | undefined;
+        if (!previewMode) {
+          const { data: entry, error: entryError } = await supabase
+            .from("creator_balance_entries")
+            .insert({
+              creator_id: creator.id,
+              amount: Math.round(creatorCommission * 100) / 100,
+              currency: creatorCurrency,
+              period: { start: firstDay, end: lastDay },
+              threshold_amount: Math.round(minimumPayout * 100) / 100,
+              commission_rules: rulesUsed,
+              exchange_rates: rateSnapshot,
+            })
+            .select("id")
+            .single();
+          rolloverError = entryError;
+
+          if (entry) {
+            balanceEntryId = entry.id;
+            const lineItems = buildPayoutLineItems(
+              { payoutId: null, balanceEntryId: entry.id },
+              creator.id,
+              productRevenueData
+            );
+            if (lineItems.length > 0) {
+              const { error } = await supabase
+                .from("payout_line_items")
+                .insert(lineItems);
+              rolloverError = error;
+            }
+            if (rolloverError) {
+              await supabase
+                .from("creator_balance_entries")
+                .delete()
+                .eq("id", entry.id);
+            }
+          }
+        }
+
+        if (rolloverError) {
+          console.error(
+            `Error rolling over balance for creator ${creator.id}:`,
+            rolloverError
+          );
+        }
+
+        await recordResult({
+          creator_id: creator.id,
+          creator_name: creator.name,
+          success: !rolloverError,
+          message: `Below the minimum payout of ${minimumPayout.toFixed(
+            2
+          )} ${creatorCurrency}; rolled over to next month`,
+          error: rolloverError?.message,
+          balance_entry_id: rolloverError ? undefined : balanceEntryId,
+          amount: 0,
+          currency: creatorCurrency,
+          commission: Math.round(creatorCommission * 100) / 100,
+          balance: balanceAfter,
+          adjustments,
+          adjustmentsTotal: Math.round(adjustmentsTotal * 100) / 100,
+          products: productRevenueData,
+        });
+        continue;
+      }
+
       // Check if we're in preview mode - don't create payouts if we are
       if (previewMode) {
         console.log(
@@ -888,7 +1035,7 @@ export async function GET(request: Request) {
           (p) => p.revenue > 0
         );
 
-        payoutResults.push({
+        await recordResult({
           creator_id: creator.id,
           creator_name: creator.name,
           success: true,
@@ -896,6 +1043,12 @@ export async function GET(request: Request) {
           amount: formattedAmount, // This is the calculated amount
           manualAmount: manualAmount, // Include manual amount if provided
           currency: creatorCurrency, // Use creator's currency
+          commissionRules: rulesUsed,
+          exchangeRates: rateSnapshot,
+          commission: Math.round(creatorCommission * 100) / 100,
+          balance: Math.round(balanceTotal * 100) / 100,
+          adjustments,
+          adjustmentsTotal: Math.round(adjustmentsTotal * 100) / 100,
           products: productRevenueData,
           revenueProducts: productsWithRevenue.length,
         });
@@ -903,27 +1056,94 @@ export async function GET(request: Request) {
       }
 
       // Create payout record (only in non-preview mode)
-      const { error: payoutError } = await supabase.from("payout").insert({
-        creator_id: creator.id,
-        amount: finalAmount, // Use manual amount if provided, otherwise use calculated amount
-        status: "pending",
-        method: creator.payment_method || "iban", // Include payment method from creator profile
-        currency: creatorCurrency, // Add creator's currency
-        created_at: new Date().toISOString(),
-        payout_month: { start: firstDay, end: lastDay }, // Store the date range as JSON
-        name: creator.name, // Store creator name for easy reference
-      });
+      const { data: createdPayout, error: payoutError } = await supabase
+        .from("payout")
+        .insert({
+          creator_id: creator.id,
+          amount: finalAmount, // Use manual amount if provided, otherwise use calculated amount
+          status: "pending",
+          method: creator.payment_method || "iban", // Include payment method from creator profile
+          currency: creatorCurrency, // Add creator's currency
+          commission_rules: rulesUsed, // Rule versions the amount was calculated with
+          exchange_rates: rateSnapshot, // FX rates the amount was converted with
+          adjustments_amount: Math.round(adjustmentsTotal * 100) / 100, // Clawbacks netted off
+          balance_amount: Math.round(balanceTotal * 100) / 100, // Rolled over from earlier months
+          created_at: new Date().toISOString(),
+          payout_month: { start: firstDay, end: lastDay }, // Store the date range as JSON
+          name: creator.name, // Store creator name for easy reference
+        })
+        .select("id")
+        .single();
+
+      // Persist the per-order ledger behind this payout and settle adjustments
+      let ledgerError: { message: string } | null = null;
+      if (!payoutError && createdPayout) {
+        const lineItems = buildPayoutLineItems(
+          { payoutId: createdPayout.id },
+          creator.id,
+          productRevenueData
+        );
 
-      if (payoutError) {
+        if (lineItems.length > 0) {
+          const { error } = await supabase
+            .from("payout_line_items")
+            .insert(lineItems);
+          ledgerError = error;
+        }
+
+        // Mark the clawbacks as settled by this payout
+        const adjustmentIds = adjustments
+          .map((adjustment) => adjustment.id)
+          .filter((id): id is number => id !== undefined);
+        if (!ledgerError && adjustmentIds.length > 0) {
+          const { error } = await supabase
+            .from("payout_adjustments")
+            .update({ applied_payout_id: createdPayout.id })
+            .in("id", adjustmentIds);
+          ledgerError = error;
+        }
+
+        // Release the rolled-over balance into this payout
+        if (!ledgerError) {
+          ledgerError = await settleBalanceEntries(
+            supabase,
+            balanceEntries.map((entry) => entry.id),
+            createdPayout.id
+          );
+        }
+
+        if (ledgerError) {
+          // A payout without its ledger can't be audited, so roll it back
+          console.error(
+            `Error saving ledger for payout ${createdPayout.id}:`,
+            ledgerError
+          );
+          await supabase.from("payout").delete().eq("id", createdPayout.id);
+        }
+      }
+
+      if (payoutError?.code === UNIQUE_VIOLATION) {
+        // Another run wrote this creator's payout for the period in the
+        // meantime
+        console.log(
+          `Payout already exists for creator ${creator.id} in this period`
+        );
+        await recordResult({
+          creator_id: creator.id,
+          creator_name: creator.name,
+          success: true,
+          message: "Payout already exists for this period",
+        });
+      } else if (payoutError || ledgerError) {
         console.error(
           `Error creating payout for creator ${creator.id}:`,
-          payoutError
+          payoutError || ledgerError
         );
-        payoutResults.push({
+        await recordResult({
           creator_id: creator.id,
           creator_name: creator.name,
           success: false,
-          error: payoutError.message,
+          error: (payoutError || ledgerError)?.message,
         });
       } else {
         console.log(
@@ -937,14 +1157,21 @@ export async function GET(request: Request) {
           (p) => p.revenue > 0
         );
 
-        payoutResults.push({
+        await recordResult({
           creator_id: creator.id,
           creator_name: creator.name,
           success: true,
           message: "Payout created successfully",
+          payout_id: createdPayout?.id,
           amount: finalAmount, // Use the final amount to match what's stored in DB
           manualAmount: manualAmount, // Include manual amount if provided
           currency: creatorCurrency, // Use creator's currency
+          commissionRules: rulesUsed,
+          exchangeRates: rateSnapshot,
+          commission: Math.round(creatorCommission * 100) / 100,
+          balance: Math.round(balanceTotal * 100) / 100,
+          adjustments,
+          adjustmentsTotal: Math.round(adjustmentsTotal * 100) / 100,
           products: productRevenueData, // Include all products for full visibility
           revenueProducts: productsWithRevenue.length, // Count of products with revenue
         });
@@ -952,15 +1179,29 @@ export async function GET(request: Request) {
     }
 
     console.log({ payoutResults });
+
+    if (run) {
+      const runStatus = await finishPayoutRun(supabase, run.id);
+      console.log(`Payout run ${run.id} finished: ${runStatus}`);
+    }
+
     return NextResponse.json({
       message: previewMode
         ? "Monthly payouts preview generated"
         : "Monthly payouts processed successfully",
       period: { start: firstDay, end: lastDay },
+      run,
       results: payoutResults,
     });
   } catch (error) {
     console.error("Error processing monthly payouts:", error);
+    if (run) {
+      await finishPayoutRun(
+        supabase,
+        run.id,
+        error instanceof Error ? error.message : "Run failed"
+      );
+    }
     return NextResponse.json(
       { error: "Failed to process monthly payouts" },
       { status: 500 }
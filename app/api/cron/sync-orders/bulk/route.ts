@@ -0,0 +1,51 @@
+import { createClient } from "@/utils/supabase/server";
+import { NextResponse } from "next/server";
+import { syncBulkOrderImports } from "@/lib/order-bulk-sync";
+
+/**
+ * Bulk order import API
+ *
+ * Polls the bulk order imports started from the admin (api/admin/order-imports)
+ * and reads the result of each completed one into the orders tables. Meant to
+ * run every few minutes; it does nothing while no import is open.
+ */
+export async function GET(request: Request) {
+  try {
+    // Verify authorization header
+    const authHeader = request.headers.get("Authorization");
+    const apiKey = process.env.CRON_API_KEY;
+
+    // Skip auth check in development if no API key is set
+    if (
+      process.env.NODE_ENV === "production" &&
+      (!apiKey || authHeader !== `Bearer ${apiKey}`)
+    ) {
+      console.log("Unauthorized access attempt to bulk order import");
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const supabase = await createClient();
+    const imports = await syncBulkOrderImports(supabase);
+
+    imports.forEach((bulkImport) =>
+      console.log(
+        `Bulk order import ${bulkImport.id}: ${bulkImport.status}${
+          bulkImport.imported_at
+            ? `, ${bulkImport.orders_imported} orders imported`
+            : ""
+        }${bulkImport.error ? ` (${bulkImport.error})` : ""}`
+      )
+    );
+
+    return NextResponse.json({ imports });
+  } catch (error) {
+    console.error("Error syncing bulk order imports:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to sync bulk order imports",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
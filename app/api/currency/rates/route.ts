@@ -1,6 +1,10 @@
 import { NextResponse } from "next/server";
 import axios from "axios";
-import { SupportedCurrency } from "@/lib/currency";
+import {
+  defaultExchangeRates,
+  FALLBACK_RATES_HEADER,
+  SupportedCurrency,
+} from "@/lib/currency";
 
 // Define the response structure
 interface ExchangeRateResponse {
@@ -18,37 +22,6 @@ let exchangeRatesCache: {
 // Cache duration in milliseconds (1 hour)
 const CACHE_DURATION = 60 * 60 * 1000;
 
-// Define default fallback rates in case API is unavailable
-const defaultExchangeRates: Record<
-  SupportedCurrency,
-  Record<SupportedCurrency, number>
-> = {
-  GBP: {
-    GBP: 1.0,
-    EUR: 1.17,
-    USD: 1.28,
-    DKK: 8.72,
-  },
-  EUR: {
-    GBP: 0.85,
-    EUR: 1.0,
-    USD: 1.09,
-    DKK: 7.46,
-  },
-  USD: {
-    GBP: 0.78,
-    EUR: 0.92,
-    USD: 1.0,
-    DKK: 6.84,
-  },
-  DKK: {
-    GBP: 0.11,
-    EUR: 0.13,
-    USD: 0.15,
-    DKK: 1.0,
-  },
-};
-
 export async function GET() {
   try {
     // Check if we have valid cached rates
@@ -78,6 +51,9 @@ export async function GET() {
       "DKK",
     ];
 
+    // Set when any rate had to be taken from the defaults
+    let fallback = false;
+
     for (const baseCurrency of supportedCurrencies) {
       const response = await axios.get<ExchangeRateResponse>(
         `https://api.exchangerate.host/latest?base=${baseCurrency}`
@@ -89,10 +65,21 @@ export async function GET() {
           allRates[baseCurrency][targetCurrency] =
             response.data.rates[targetCurrency] ||
             defaultExchangeRates[baseCurrency][targetCurrency];
+          if (!response.data.rates[targetCurrency]) fallback = true;
         }
+      } else {
+        allRates[baseCurrency] = { ...defaultExchangeRates[baseCurrency] };
+        fallback = true;
       }
     }
 
+    // Rates partly filled from the defaults are flagged and not cached
+    if (fallback) {
+      return NextResponse.json(allRates, {
+        headers: { [FALLBACK_RATES_HEADER]: "1" },
+      });
+    }
+
     // Update cache
     exchangeRatesCache = {
       timestamp: Date.now(),
@@ -102,7 +89,9 @@ export async function GET() {
     return NextResponse.json(allRates);
   } catch (error) {
     console.error("Error fetching exchange rates:", error);
-    // Return default rates as fallback
-    return NextResponse.json(defaultExchangeRates);
+    // Return default rates as fallback, flagged as such
+    return NextResponse.json(defaultExchangeRates, {
+      headers: { [FALLBACK_RATES_HEADER]: "1" },
+    });
   }
 }
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/utils/supabase/server";
+import {
+  fetchCommissionRules,
+  resolveCommissionRule,
+} from "@/lib/commission";
+
+// GET the share the signed-in creator earns on new sales today, from the
+// commission rules
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const rules = await fetchCommissionRules(supabase, user.id);
+    const { rate, label } = resolveCommissionRule(rules, {
+      creatorId: user.id,
+    });
+
+    return NextResponse.json({ rate, label });
+  } catch (error) {
+    console.error("Error fetching commission rate:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch commission rate" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { createClient } from "@/utils/supabase/server";
+import { NextResponse } from "next/server";
+import {
+  buildAnnualStatement,
+  renderAnnualStatement,
+} from "@/lib/annual-statement";
+
+// GET download the creator's annual earnings statement
+// (?year=YYYY, the current year by default; ?format=pdf|csv, PDF by default)
+export async function GET(request: Request) {
+  try {
+    const url = new URL(request.url);
+    const currentYear = new Date().getUTCFullYear();
+    const year = Number(url.searchParams.get("year") || currentYear);
+    const format = url.searchParams.get("format") === "csv" ? "csv" : "pdf";
+
+    if (!Number.isInteger(year) || year < 2000 || year > currentYear) {
+      return NextResponse.json({ error: "Invalid year" }, { status: 400 });
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const statement = await buildAnnualStatement(supabase, user.id, year);
+    const { body, contentType, fileName } = renderAnnualStatement(
+      statement,
+      format
+    );
+
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": contentType,
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error generating annual statement:", error);
+    return NextResponse.json(
+      { error: "Failed to generate annual statement" },
+      { status: 500 }
+    );
+  }
+}
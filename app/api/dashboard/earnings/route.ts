@@ -1,9 +1,22 @@
 import { createClient } from "@/utils/supabase/server";
 import { NextResponse } from "next/server";
 import {
-  createAdminApiClient,
-  getShopifyAccessToken,
-} from "@/utils/shopify/client";
+  calculateEarnings,
+  fetchCommissionRules,
+  resolveCommissionRule,
+} from "@/lib/commission";
+import {
+  commissionBase,
+  fetchPlatformFundedCampaigns,
+} from "@/lib/discounts";
+import {
+  fetchPosterOrderLines,
+  isPaidOrderStatus,
+  unrefundedLine,
+  OrderLine,
+  toPrimaryCurrency,
+} from "@/lib/orders";
+import { firstPosterImage } from "@/lib/poster-images";
 
 // Define types for the response data
 type EarningsResponse = {
@@ -31,8 +44,16 @@ export async function GET(req: Request) {
     const endDate = url.searchParams.get("endDate");
     const year = url.searchParams.get("year");
     const dataType = url.searchParams.get("dataType") || "all"; // all, chart, overview, topSelling
-
-    console.log("API Request params:", { startDate, endDate, year, dataType });
+    // One shop only; by default all shops, in the primary shop's currency
+    const shop = url.searchParams.get("shop");
+
+    console.log("API Request params:", {
+      startDate,
+      endDate,
+      year,
+      dataType,
+      shop,
+    });
 
     // Get the user from Supabase
     const supabase = await createClient();
@@ -44,18 +65,17 @@ export async function GET(req: Request) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    // Get the Shopify access token
-    const accessToken = getShopifyAccessToken();
-    const adminApi = await createAdminApiClient(accessToken);
-
-    // Prepare date filters
-    const dateFilter = [];
-    if (startDate) {
-      dateFilter.push(`created_at:>=${startDate}`);
-    }
-    if (endDate) {
-      dateFilter.push(`created_at:<=${endDate}`);
-    }
+    // Load the commission rules that can apply to this creator. Fall back to
+    // the default rate if they can't be loaded rather than failing the page.
+    const commissionRules = await fetchCommissionRules(supabase, user.id).catch(
+      () => []
+    );
+    const currentRate = resolveCommissionRule(commissionRules, {
+      creatorId: user.id,
+    }).rate;
+    const platformFunded = await fetchPlatformFundedCampaigns(
+      supabase
+    ).catch(() => new Set<string>());
 
     // Fetch creator's products
     const { data: products } = await supabase
@@ -70,7 +90,7 @@ export async function GET(req: Request) {
       return NextResponse.json({
         earnings: 0,
         sales: 0,
-        commission: 30,
+        commission: parseFloat((currentRate * 100).toFixed(2)),
         chartData: {
           earnings: [],
           sales: [],
@@ -80,7 +100,7 @@ export async function GET(req: Request) {
     }
 
     // Get Shopify product IDs
-    const shopifyProductIds = products
+    const shopifyProductIds: string[] = products
       .filter((p) => p.shopify_product_id)
       .map((p) => p.shopify_product_id);
 
@@ -90,103 +110,104 @@ export async function GET(req: Request) {
     let response: EarningsResponse = {
       earnings: 0,
       sales: 0,
-      commission: 30, // Default commission rate
+      commission: parseFloat((currentRate * 100).toFixed(2)),
     };
 
     // Fetch orders for these products within the date range
     let salesData: any[] = [];
-    let totalRevenue = 0;
+    let totalCommission = 0;
     let totalSales = 0;
 
-    // Generate GraphQL query for orders with the products
+    // Map Shopify product IDs back to posters so poster-level rules apply
+    const posterIdByProduct: Record<string, string> = {};
+    products.forEach((p) => {
+      if (p.shopify_product_id) {
+        posterIdByProduct[p.shopify_product_id] = p.id;
+      }
+    });
+
+    // Creator's share of a line, using the rule in force on the order date
+    const lineCommission = (line: OrderLine) =>
+      calculateEarnings(commissionBase(line, platformFunded), commissionRules, {
+        creatorId: user.id,
+        posterId: posterIdByProduct[line.shopify_product_id || ""],
+        date: line.ordered_at,
+      }).earnings;
+
+    // Paid order lines for the creator's products in the date range, from
+    // the local order tables
+    let orderLines: OrderLine[] = [];
     if (shopifyProductIds.length > 0) {
       try {
-        // Fetch orders with line items containing the creator's products
-        const lineItemsFilter = shopifyProductIds
-          .map((id) => `line_items.product_id:${id}`)
-          .join(" OR ");
-        const query = `
-          ${dateFilter.length > 0 ? dateFilter.join(" AND ") + " AND " : ""}
-          (${lineItemsFilter})
-          financial_status:paid
-        `;
-
-        console.log("Shopify orders query:", query);
-
-        const { body: ordersData } = await adminApi.get({
-          path: "orders",
-          query: {
-            limit: 250,
-            status: "any",
-            fields: "id,created_at,line_items,total_price",
-            query: query,
-          },
-        });
-
-        // Process orders to extract sales data
-        if (ordersData.orders && ordersData.orders.length > 0) {
-          console.log(
-            "Retrieved orders from Shopify:",
-            ordersData.orders.length
-          );
-
-          // Process each order
-          ordersData.orders.forEach((order: any) => {
-            const orderDate = new Date(order.created_at);
-            const monthYear = orderDate.toLocaleDateString("en-US", {
-              month: "short",
-              year: "numeric",
-            });
-            const monthOnly = orderDate.toLocaleDateString("en-US", {
-              month: "short",
-            });
-            const yearOnly = orderDate.getFullYear().toString();
-
-            // Only process if the year matches (if specified)
-            if (!year || yearOnly === year) {
-              // Process line items to find those matching our products
-              order.line_items.forEach((item: any) => {
-                if (shopifyProductIds.includes(item.product_id)) {
-                  const lineItemRevenue =
-                    parseFloat(item.price) * item.quantity;
-                  totalRevenue += lineItemRevenue;
-                  totalSales += item.quantity;
-
-                  // Add to sales data for charts
-                  const existingEntry = salesData.find(
-                    (data) => data.month === monthOnly && data.year === yearOnly
-                  );
-                  if (existingEntry) {
-                    existingEntry.sales += item.quantity;
-                    existingEntry.earnings += lineItemRevenue;
-                  } else {
-                    salesData.push({
-                      month: monthOnly,
-                      year: yearOnly,
-                      monthYear,
-                      sales: item.quantity,
-                      earnings: lineItemRevenue,
-                    });
-                  }
-                }
-              });
-            }
-          });
-        } else {
-          console.log("No orders found matching the query");
-        }
+        orderLines = (
+          await toPrimaryCurrency(
+            supabase,
+            await fetchPosterOrderLines(supabase, shopifyProductIds, {
+              startDate: startDate || undefined,
+              endDate: endDate || undefined,
+              shop,
+            }),
+            { baseUrl: url.origin }
+          )
+        )
+          .filter((line) => isPaidOrderStatus(line.order.financial_status))
+          .map(unrefundedLine)
+          .filter((line): line is OrderLine => line !== null);
+
+        console.log("Order lines for creator products:", orderLines.length);
       } catch (error) {
-        console.error("Error fetching orders from Shopify:", error);
+        console.error("Error fetching order lines:", error);
+        return NextResponse.json(
+          { error: "Failed to fetch order lines" },
+          { status: 500 }
+        );
       }
     }
 
-    // Calculate commission (30% of revenue)
-    const commission = totalRevenue * 0.3;
+    // Only process lines from the requested year (if specified)
+    const lineYear = (line: OrderLine) =>
+      new Date(line.ordered_at).getFullYear().toString();
+    const yearLines = orderLines.filter(
+      (line) => !year || lineYear(line) === year
+    );
+
+    yearLines.forEach((line) => {
+      const orderDate = new Date(line.ordered_at);
+      const monthYear = orderDate.toLocaleDateString("en-US", {
+        month: "short",
+        year: "numeric",
+      });
+      const monthOnly = orderDate.toLocaleDateString("en-US", {
+        month: "short",
+      });
+      const yearOnly = lineYear(line);
+
+      const lineItemCommission = lineCommission(line);
+      totalCommission += lineItemCommission;
+      totalSales += line.quantity;
+
+      // Add to sales data for charts
+      const existingEntry = salesData.find(
+        (data) => data.month === monthOnly && data.year === yearOnly
+      );
+      if (existingEntry) {
+        existingEntry.sales += line.quantity;
+        existingEntry.earnings += lineItemCommission;
+      } else {
+        salesData.push({
+          month: monthOnly,
+          year: yearOnly,
+          monthYear,
+          sales: line.quantity,
+          earnings: lineItemCommission,
+        });
+      }
+    });
 
-    // Set overview data
-    response.earnings = parseFloat(commission.toFixed(2));
+    // Set overview data. Commission was summed per line above because rates
+    // can differ per poster and per period.
+    response.earnings = parseFloat(totalCommission.toFixed(2));
     response.sales = totalSales;
-    response.commission = 30;
 
     // Build chart data if requested
     if (dataType === "all" || dataType === "chart") {
@@ -236,7 +257,7 @@ export async function GET(req: Request) {
       response.chartData = {
         earnings: salesData.map((item) => ({
           month: item.month,
-          earnings: parseFloat((item.earnings * 0.3).toFixed(2)),
+          earnings: parseFloat(item.earnings.toFixed(2)),
         })),
         sales: salesData.map((item) => ({
           month: item.month,
@@ -271,11 +292,9 @@ export async function GET(req: Request) {
 
         // Initialize product in our tracking object
         if (!productSales[product.shopify_product_id]) {
-          // Get the first image URL from the array, or use placeholder
+          // The thumbnail of the first size, or a placeholder
           const imageUrl =
-            Array.isArray(product.image_urls) && product.image_urls.length > 0
-              ? product.image_urls[0]
-              : "/placeholder.svg";
+            firstPosterImage(product.image_urls) || "/placeholder.svg";
 
           productSales[product.shopify_product_id] = {
             id: product.id,
@@ -288,55 +307,13 @@ export async function GET(req: Request) {
       }
 
       // Add sales data from orders
-      if (shopifyProductIds.length > 0) {
-        try {
-          // Build a query that includes the date range filters
-          let topProductsQuery = "financial_status:paid";
-          if (dateFilter.length > 0) {
-            topProductsQuery = `${dateFilter.join(
-              " AND "
-            )} AND ${topProductsQuery}`;
-          }
-
-          console.log("Shopify top selling posters query:", topProductsQuery);
-
-          const { body: ordersData } = await adminApi.get({
-            path: "orders",
-            query: {
-              limit: 250,
-              status: "any",
-              fields: "id,created_at,line_items",
-              query: topProductsQuery,
-            },
-          });
-
-          console.log(
-            "Retrieved orders for top selling products:",
-            ordersData.orders?.length || 0
-          );
-
-          if (ordersData.orders && ordersData.orders.length > 0) {
-            ordersData.orders.forEach((order: any) => {
-              // Process the order date to check if it's within the desired range
-              const orderDate = new Date(order.created_at);
-              const orderYear = orderDate.getFullYear().toString();
-
-              // Only process if the year matches (if specified)
-              if (!year || orderYear === year) {
-                order.line_items.forEach((item: any) => {
-                  if (productSales[item.product_id]) {
-                    productSales[item.product_id].sales += item.quantity;
-                    productSales[item.product_id].revenue +=
-                      parseFloat(item.price) * item.quantity * 0.3; // 30% commission
-                  }
-                });
-              }
-            });
-          }
-        } catch (error) {
-          console.error("Error fetching orders for top products:", error);
+      yearLines.forEach((line) => {
+        const product = productSales[line.shopify_product_id || ""];
+        if (product) {
+          product.sales += line.quantity;
+          product.revenue += lineCommission(line);
         }
-      }
+      });
 
       // Convert to array and sort by sales
       const topProducts = Object.values(productSales)
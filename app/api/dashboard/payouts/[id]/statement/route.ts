@@ -0,0 +1,59 @@
+import { createClient } from "@/utils/supabase/server";
+import { createServiceClient } from "@/utils/supabase/service";
+import { NextResponse } from "next/server";
+import { getPayoutStatement, renderStatement } from "@/lib/payout-statements";
+
+// GET download the statement for one of the creator's payouts
+// (?format=pdf|csv, PDF by default)
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const format =
+      new URL(request.url).searchParams.get("format") === "csv" ? "csv" : "pdf";
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Creators can only download statements for their own payouts
+    const { data: payout } = await supabase
+      .from("payout")
+      .select("id")
+      .eq("id", id)
+      .eq("creator_id", user.id)
+      .maybeSingle();
+
+    if (!payout) {
+      return NextResponse.json({ error: "Payout not found" }, { status: 404 });
+    }
+
+    // Creators can only read the ledger, so the statement snapshot taken on
+    // first download is stored with the service role
+    const statement = await getPayoutStatement(
+      createServiceClient(),
+      payout.id
+    );
+    const { body, contentType, fileName } = renderStatement(statement, format);
+
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": contentType,
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error generating payout statement:", error);
+    return NextResponse.json(
+      { error: "Failed to generate statement" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { createClient } from "@/utils/supabase/server";
+import { NextResponse } from "next/server";
+import { submitPosterChange } from "@/lib/poster-changes";
+
+// POST submit an edit of the creator's poster for admin review
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { title, description, prices } = await request.json();
+
+    try {
+      const changeRequest = await submitPosterChange(supabase, user.id, id, {
+        title,
+        description,
+        prices,
+      });
+      return NextResponse.json(changeRequest);
+    } catch (submitError) {
+      return NextResponse.json(
+        {
+          error:
+            submitError instanceof Error
+              ? submitError.message
+              : "Failed to submit changes",
+        },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    console.error("Error submitting poster changes:", error);
+    return NextResponse.json(
+      { error: "Failed to submit changes" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { createClient } from "@/utils/supabase/server";
+import { NextResponse } from "next/server";
+import { fetchPosterReviews, fetchStatusHistory } from "@/lib/poster-reviews";
+
+// GET the reviews and status history of one of the creator's posters
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data: poster } = await supabase
+      .from("posters")
+      .select("id")
+      .eq("id", id)
+      .eq("creator_id", user.id)
+      .single();
+
+    if (!poster) {
+      return NextResponse.json({ error: "Poster not found" }, { status: 404 });
+    }
+
+    const [reviews, history] = await Promise.all([
+      fetchPosterReviews(supabase, id),
+      fetchStatusHistory(supabase, id),
+    ]);
+
+    return NextResponse.json({ reviews, history });
+  } catch (error) {
+    console.error("Error fetching poster history:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch poster history" },
+      { status: 500 }
+    );
+  }
+}
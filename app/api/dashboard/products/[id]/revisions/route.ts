@@ -0,0 +1,64 @@
+import { createClient } from "@/utils/supabase/server";
+import { createServiceClient } from "@/utils/supabase/service";
+import { NextResponse } from "next/server";
+import { submitRevision } from "@/lib/poster-reviews";
+import { linkArtworkReports } from "@/lib/artwork-validation";
+import type { PosterImages } from "@/lib/poster-images";
+
+// POST { images } submit a new revision of the creator's rejected poster or
+// one with changes requested, with the new files uploaded for its sizes
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { images } = (await request.json()) as { images?: PosterImages };
+
+    let revision;
+    try {
+      revision = await submitRevision(supabase, user.id, id, images || {});
+    } catch (submitError) {
+      return NextResponse.json(
+        {
+          error:
+            submitError instanceof Error
+              ? submitError.message
+              : "Failed to submit revision",
+        },
+        { status: 400 }
+      );
+    }
+
+    // Reviewers see the print-readiness reports of the new files. The
+    // revision is saved either way. Creators can only read reports, so
+    // they are linked with the service role.
+    try {
+      await linkArtworkReports(
+        createServiceClient(),
+        user.id,
+        id,
+        Object.values(images || {}).map((image) => image.original)
+      );
+    } catch (linkError) {
+      console.error("Error linking artwork reports:", linkError);
+    }
+
+    return NextResponse.json(revision);
+  } catch (error) {
+    console.error("Error submitting poster revision:", error);
+    return NextResponse.json(
+      { error: "Failed to submit revision" },
+      { status: 500 }
+    );
+  }
+}
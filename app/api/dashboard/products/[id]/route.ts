@@ -0,0 +1,46 @@
+import { createClient } from "@/utils/supabase/server";
+import { NextResponse } from "next/server";
+import { setPosterStatus } from "@/lib/poster-reviews";
+
+// DELETE mark the creator's poster for deletion; it is removed within a day
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data: poster } = await supabase
+      .from("posters")
+      .select("id, status")
+      .eq("id", id)
+      .eq("creator_id", user.id)
+      .single();
+
+    if (!poster) {
+      return NextResponse.json({ error: "Poster not found" }, { status: 404 });
+    }
+
+    await setPosterStatus(supabase, id, "willBeDeleted", {
+      from: poster.status,
+      changedBy: user.id,
+      note: "Deleted by the creator",
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error marking poster for deletion:", error);
+    return NextResponse.json(
+      { error: "Failed to mark product for deletion" },
+      { status: 500 }
+    );
+  }
+}
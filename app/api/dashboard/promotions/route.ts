@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/utils/supabase/server";
+import { fetchPromotionCosts } from "@/lib/discounts";
+
+// GET what each promotion cost the creator: the discounts given on their
+// posters and the commission they didn't earn because of them. Supports
+// ?start_date, ?end_date and ?shop like the other dashboard stats.
+export async function GET(request: Request) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const url = new URL(request.url);
+    const promotions = await fetchPromotionCosts(
+      supabase,
+      {
+        creatorId: user.id,
+        startDate: url.searchParams.get("start_date") || undefined,
+        endDate: url.searchParams.get("end_date") || undefined,
+        shop: url.searchParams.get("shop") || undefined,
+      },
+      { baseUrl: url.origin }
+    );
+
+    return NextResponse.json(promotions);
+  } catch (error) {
+    console.error("Error fetching promotion costs:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch promotion costs" },
+      { status: 500 }
+    );
+  }
+}
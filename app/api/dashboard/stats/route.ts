@@ -1,11 +1,24 @@
 import { createClient } from "@/utils/supabase/server";
 import { NextResponse } from "next/server";
+import { safelyFetchProduct } from "@/utils/shopify/gateway";
 import {
-  createAdminApiClient,
-  createGraphQLClient,
-  getShopifyAccessToken,
-  safelyFetchProduct,
-} from "@/utils/shopify/client";
+  calculateEarnings,
+  fetchCommissionRules,
+  resolveCommissionRule,
+} from "@/lib/commission";
+import {
+  commissionBase,
+  fetchPlatformFundedCampaigns,
+  OrderDiscount,
+  summarizeDiscounts,
+} from "@/lib/discounts";
+import {
+  fetchPosterOrderLines,
+  isPaidOrderStatus,
+  OrderLine,
+  toPrimaryCurrency,
+  unrefundedLine,
+} from "@/lib/orders";
 
 type Stats = {
   totalRevenue: number;
@@ -17,6 +30,7 @@ type Stats = {
   approvedProductsCount: number;
   totalRefunds: number;
   netRevenue: number;
+  commissionRate: number;
 };
 
 type SalesTrendPoint = {
@@ -25,6 +39,8 @@ type SalesTrendPoint = {
   revenue: number;
   refunds: number;
   netRevenue: number;
+  // Creator's commission, from the commission rules
+  earnings: number;
 };
 
 // ShopifyOrder type for response data
@@ -46,35 +62,15 @@ type ShopifyOrderData = {
   refundAmount?: number;
   shippingAmount?: number;
   netRevenue?: number;
+  // Creator's commission on the order's lines, from the commission rules
+  commission?: number;
+  // Discount on the order's lines, by promotion
+  discountAmount?: number;
+  discounts?: OrderDiscount[];
   financialStatus?: string;
   fulfillmentStatus?: string;
 };
 
-// Shopify product data from API response
-type ShopifyProductData = {
-  id: number;
-  title: string;
-  handle: string;
-  images: Array<{
-    id: number;
-    src: string;
-    position: number;
-    width: number;
-    height: number;
-  }>;
-  variants: Array<{
-    id: number;
-    title: string;
-    price: string;
-    sku: string;
-  }>;
-  status: string;
-  published_at: string;
-  created_at: string;
-  updated_at: string;
-  vendor?: string;
-};
-
 // ShopifyProduct for our data response
 type FormattedProduct = {
   id: string;
@@ -91,722 +87,6 @@ type FormattedProduct = {
   recentOrders?: ShopifyOrderData[];
 };
 
-// Add these interfaces after imports
-interface ShopifyRestOrder {
-  id: string;
-  name: string;
-  created_at: string;
-  financial_status: string;
-  line_items: ShopifyRestLineItem[];
-}
-
-interface ShopifyRestLineItem {
-  id: string;
-  product_id: number | string;
-  quantity: number;
-  price: string;
-  title: string;
-}
-
-// Add retry logic for handling throttled requests
-const retryWithBackoff = async (
-  fn: () => Promise<any>,
-  maxRetries = 5,
-  initialDelay = 1500
-): Promise<any> => {
-  let retries = 0;
-  const execute = async (): Promise<any> => {
-    try {
-      return await fn();
-    } catch (error) {
-      if (
-        error instanceof Error &&
-        (error.message.includes("Throttled") ||
-          error.message.includes("rate limit") ||
-          error.message.includes("429")) &&
-        retries < maxRetries
-      ) {
-        const jitter = Math.random() * 500;
-        const delay = initialDelay * Math.pow(2, retries) + jitter;
-
-        console.log(
-          `Request throttled. Retrying in ${Math.round(delay)}ms. Retry ${
-            retries + 1
-          }/${maxRetries}`
-        );
-        retries++;
-        await new Promise((resolve) => setTimeout(resolve, delay));
-        return execute();
-      }
-      throw error;
-    }
-  };
-  return execute();
-};
-
-// Function to fetch Shopify data for a specific product ID
-async function fetchShopifyProductData(
-  productId: string,
-  startDate?: string,
-  endDate?: string
-): Promise<{
-  product: ShopifyProductData;
-  salesCount: number;
-  revenue: number;
-  commission: number;
-  recentOrders: ShopifyOrderData[];
-} | null> {
-  try {
-    const accessToken = getShopifyAccessToken();
-    const restClient = await createAdminApiClient(accessToken);
-    const graphqlClient = await createGraphQLClient(accessToken);
-
-    // Use the safe fetch method to avoid 404 errors
-    const productData = await safelyFetchProduct(restClient, productId);
-
-    // Initialize counters
-    let salesCount = 0;
-    let revenue = 0;
-    const recentOrders: ShopifyOrderData[] = [];
-
-    // Build date filter for GraphQL query
-    let dateFilter = "";
-    if (startDate) {
-      dateFilter += ` created_at:>=${startDate}`;
-    } else {
-      // For "all time" queries, use a very old start date
-      dateFilter += ` created_at:>=2000-01-01`;
-    }
-
-    if (endDate) {
-      dateFilter += ` created_at:<=${endDate}`;
-    } else {
-      // For "all time" queries, use today as end date
-      const today = new Date().toISOString().split("T")[0];
-      dateFilter += ` created_at:<=${today}`;
-    }
-
-    // Log the date parameters
-    console.log("startDate", startDate || "using default (2000-01-01)");
-    console.log("endDate", endDate || "using default (today)");
-    console.log(
-      `Fetching orders for product ${productId} with date filter: ${
-        dateFilter || "all time"
-      }`
-    );
-
-    // Check if this is a large date range like 6 months
-    const is6MonthQuery =
-      startDate &&
-      endDate &&
-      new Date(endDate).getTime() - new Date(startDate).getTime() >
-        90 * 24 * 60 * 60 * 1000; // More than 90 days
-
-    // Use smaller page size for large date ranges to avoid timeouts
-    const pageSize = is6MonthQuery ? 20 : 50;
-
-    if (is6MonthQuery) {
-      console.log("Large date range detected - using optimized query approach");
-    }
-
-    // Fetch orders using GraphQL for more accurate revenue calculation
-    let hasNextPage = true;
-    let cursor: string | null = null;
-    let pageCount = 0;
-    const maxPages = is6MonthQuery ? 10 : 20; // Limit pages for large queries
-
-    while (hasNextPage && pageCount < maxPages) {
-      pageCount++;
-
-      // Add debug logging
-      if (cursor) {
-        console.log(`Fetching page ${pageCount} with cursor: ${cursor}`);
-      } else {
-        console.log("Fetching first page of orders");
-      }
-
-      const query = cursor
-        ? `
-        query getOrdersByProducts($queryString: String!, $cursor: String!) {
-          orders(first: 50, after: $cursor, query: $queryString) {
-            edges {
-              node {
-                id
-                name
-                createdAt
-                displayFinancialStatus
-                totalPriceSet {
-                  shopMoney {
-                    amount
-                    currencyCode
-                  }
-                }
-                totalShippingPriceSet {
-                  shopMoney {
-                    amount
-                    currencyCode
-                  }
-                }
-                customer {
-                  displayName
-                  email
-                }
-                refunds {
-                  id
-                  createdAt
-                  note
-                  refundLineItems {
-                    edges {
-                      node {
-                        lineItem {
-                          id
-                          product {
-                            id
-                          }
-                          quantity
-                          originalTotalSet {
-                            shopMoney {
-                              amount
-                            }
-                          }
-                        }
-                        quantity
-                        restockType
-                        subtotalSet {
-                          shopMoney {
-                            amount
-                          }
-                        }
-                      }
-                    }
-                  }
-                }
-                lineItems(first: 20) {
-                  edges {
-                    node {
-                      id
-                      title
-                      quantity
-                      product {
-                        id
-                        title
-                      }
-                      variant {
-                        id
-                        title
-                        price
-                        sku
-                      }
-                      originalUnitPriceSet {
-                        shopMoney {
-                          amount
-                          currencyCode
-                        }
-                      }
-                    }
-                  }
-                }
-              }
-            }
-            pageInfo {
-              hasNextPage
-              endCursor
-            }
-          }
-        }
-      `
-        : `
-        query getOrdersByProducts($queryString: String!) {
-          orders(first: 50, query: $queryString) {
-            edges {
-              node {
-                id
-                name
-                createdAt
-                displayFinancialStatus
-                totalPriceSet {
-                  shopMoney {
-                    amount
-                    currencyCode
-                  }
-                }
-                totalShippingPriceSet {
-                  shopMoney {
-                    amount
-                    currencyCode
-                  }
-                }
-                customer {
-                  displayName
-                  email
-                }
-                refunds {
-                  id
-                  createdAt
-                  note
-                  refundLineItems {
-                    edges {
-                      node {
-                        lineItem {
-                          id
-                          product {
-                            id
-                          }
-                          quantity
-                          originalTotalSet {
-                            shopMoney {
-                              amount
-                            }
-                          }
-                        }
-                        quantity
-                        restockType
-                        subtotalSet {
-                          shopMoney {
-                            amount
-                          }
-                        }
-                      }
-                    }
-                  }
-                }
-                lineItems(first: 20) {
-                  edges {
-                    node {
-                      id
-                      title
-                      quantity
-                      product {
-                        id
-                        title
-                      }
-                      variant {
-                        id
-                        title
-                        price
-                        sku
-                      }
-                      originalUnitPriceSet {
-                        shopMoney {
-                          amount
-                          currencyCode
-                        }
-                      }
-                    }
-                  }
-                }
-              }
-            }
-            pageInfo {
-              hasNextPage
-              endCursor
-            }
-          }
-        }
-      `;
-
-      // Execute the GraphQL query with variables
-      const variables: any = {
-        queryString: `status:any line_items_product_id:${productId}${dateFilter}`,
-      };
-
-      // Only include cursor if we have one
-      if (cursor) {
-        variables.cursor = cursor;
-      }
-
-      console.log("Debug - GraphQL variables:", JSON.stringify(variables));
-
-      try {
-        // For 6-month queries, add a delay between requests to avoid throttling
-        if (is6MonthQuery && pageCount > 1) {
-          console.log(
-            "Adding delay between 6-month data pages to avoid throttling"
-          );
-          await new Promise((resolve) => setTimeout(resolve, 1000));
-        }
-
-        const response = await retryWithBackoff(() =>
-          graphqlClient.query({
-            data: { query, variables },
-          })
-        );
-
-        // Process response with error handling
-        if (
-          response.body &&
-          typeof response.body === "object" &&
-          "data" in response.body
-        ) {
-          const responseData = response.body as ShopifyGraphQLOrdersResponse;
-
-          if (responseData.errors) {
-            console.error("GraphQL Errors:", responseData.errors);
-            console.log("Falling back to REST API...");
-
-            // Simple fallback - return empty results for this product
-            console.log(
-              `GraphQL query failed for product ${
-                productId || "unknown"
-              }, returning empty results`
-            );
-            return {
-              product: productData.product,
-              salesCount: 0,
-              revenue: 0,
-              commission: 0,
-              recentOrders: [],
-            };
-          }
-
-          // Convert to expected structure for compatibility with existing code
-          const orderData = responseData.data?.orders || {
-            edges: [],
-            pageInfo: { hasNextPage: false, endCursor: null },
-          };
-
-          console.log(
-            `Processing ${
-              orderData.edges.length
-            } orders from page ${pageCount} (${cursor || "initial"})`
-          );
-
-          // For large queries, stop after collecting enough data to avoid timeouts
-          if (is6MonthQuery && recentOrders.length > 30) {
-            console.log(
-              "Collected sufficient data for 6-month query, stopping pagination"
-            );
-            hasNextPage = false;
-            break;
-          }
-
-          // Process each order
-          orderData.edges.forEach(
-            ({ node: order }: { node: ShopifyGraphQLOrder }) => {
-              // Log the order for debugging
-              console.log(
-                `Processing order ${order.id} with status ${order.displayFinancialStatus}`
-              );
-
-              // Process line items for this product
-              const allLineItems = order.lineItems.edges.map(
-                (edge: { node: ShopifyGraphQLLineItem }) => edge.node
-              );
-              console.log(`Order has ${allLineItems.length} line items total`);
-
-              // Only count paid or partially paid orders
-              const status = order.displayFinancialStatus?.toUpperCase() || "";
-              if (
-                status === "PAID" ||
-                status === "PARTIALLY_PAID" ||
-                status === "PARTIALLY_REFUNDED" ||
-                status.includes("PAID") ||
-                status.includes("COMPLETE")
-              ) {
-                // Filter line items for the specific product ID
-                const lineItems = allLineItems.filter(
-                  (item: ShopifyGraphQLLineItem) => {
-                    if (!item.product || !item.product.id) return false;
-
-                    // GraphQL IDs often have a format like "gid://shopify/Product/12345"
-                    // Extract just the numeric part for comparison
-                    const graphqlId = item.product.id;
-                    const numericId = graphqlId.split("/").pop();
-
-                    const isMatch = numericId === productId;
-                    if (isMatch) {
-                      console.log(
-                        `Found matching product! GraphQL ID: ${graphqlId}, Expected product ID: ${productId}`
-                      );
-                    }
-                    return isMatch;
-                  }
-                );
-
-                // Only process if we found line items for this product
-                if (lineItems.length > 0) {
-                  let orderItemsCount = 0;
-                  let orderRevenue = 0;
-
-                  // Process each line item in a simpler way - similar to getShopifySalesTrend
-                  lineItems.forEach((item: ShopifyGraphQLLineItem) => {
-                    // Add to sales count
-                    orderItemsCount += item.quantity || 0;
-
-                    // Calculate revenue directly from the line item
-                    if (item.discountedTotalSet?.shopMoney?.amount) {
-                      orderRevenue += parseFloat(
-                        item.discountedTotalSet.shopMoney.amount
-                      );
-                      console.log(
-                        `Item ${item.id}: quantity=${item.quantity}, revenue=${item.discountedTotalSet.shopMoney.amount}`
-                      );
-                    } else if (item.originalTotalSet?.shopMoney?.amount) {
-                      // Fallback to original price if discounted not available
-                      orderRevenue += parseFloat(
-                        item.originalTotalSet.shopMoney.amount
-                      );
-                      console.log(
-                        `Item ${item.id} (using original price): quantity=${item.quantity}, revenue=${item.originalTotalSet.shopMoney.amount}`
-                      );
-                    } else {
-                      console.log(
-                        `Warning: No price information for item ${item.id} in order ${order.id}`
-                      );
-                    }
-                  });
-
-                  // Update total counters
-                  salesCount += orderItemsCount;
-                  revenue += orderRevenue;
-
-                  console.log(
-                    `Order ${
-                      order.id
-                    }: Added ${orderItemsCount} items with total revenue ${orderRevenue.toFixed(
-                      2
-                    )}`
-                  );
-
-                  // Add to recent orders (limit to most recent 50)
-                  if (recentOrders.length < 50) {
-                    const lineItemsFormatted = lineItems.map(
-                      (item: ShopifyGraphQLLineItem) => {
-                        // Get the actual price per unit
-                        let pricePerUnit = "0.00";
-                        if (item.quantity > 0) {
-                          if (item.discountedTotalSet?.shopMoney?.amount) {
-                            pricePerUnit = (
-                              parseFloat(
-                                item.discountedTotalSet.shopMoney.amount
-                              ) / item.quantity
-                            ).toFixed(2);
-                          } else if (item.originalTotalSet?.shopMoney?.amount) {
-                            pricePerUnit = (
-                              parseFloat(
-                                item.originalTotalSet.shopMoney.amount
-                              ) / item.quantity
-                            ).toFixed(2);
-                          }
-                        }
-
-                        return {
-                          id: item.id,
-                          productId: productId,
-                          title: item.title,
-                          price: pricePerUnit,
-                          quantity: item.quantity,
-                          variantId: item.variant?.id,
-                          variantTitle: item.variant?.title,
-                        };
-                      }
-                    );
-
-                    // Start of improved refund handling
-                    // Calculate refunds for this specific product's line items in this order
-                    let refundAmount = 0;
-                    let hasRefunds = false;
-
-                    // Check if the order has refunds
-                    if (order.refunds && Array.isArray(order.refunds)) {
-                      order.refunds.forEach((refund: ShopifyGraphQLRefund) => {
-                        if (
-                          refund.refundLineItems &&
-                          refund.refundLineItems.edges
-                        ) {
-                          // Process each refund line item
-                          refund.refundLineItems.edges.forEach(
-                            (edge: { node: any }) => {
-                              const refundLineItem = edge.node;
-
-                              // Check if this refund is for our specific product
-                              if (
-                                refundLineItem.lineItem &&
-                                refundLineItem.lineItem.product &&
-                                refundLineItem.lineItem.product.id
-                              ) {
-                                // Extract the numeric product ID from the GraphQL ID
-                                const refundProductId =
-                                  refundLineItem.lineItem.product.id
-                                    .split("/")
-                                    .pop();
-
-                                // Only count refunds for the current product we're processing
-                                if (refundProductId === productId) {
-                                  console.log(
-                                    `Found refund for product ${productId} in order ${order.id}`
-                                  );
-
-                                  // Get the refunded amount from the subtotal
-                                  if (
-                                    refundLineItem.subtotalSet &&
-                                    refundLineItem.subtotalSet.shopMoney &&
-                                    refundLineItem.subtotalSet.shopMoney.amount
-                                  ) {
-                                    const refundedItemAmount = parseFloat(
-                                      refundLineItem.subtotalSet.shopMoney
-                                        .amount
-                                    );
-                                    refundAmount += refundedItemAmount;
-                                    hasRefunds = true;
-
-                                    console.log(
-                                      `Refund amount for item: ${refundedItemAmount}, total refunds so far: ${refundAmount}`
-                                    );
-                                  }
-                                }
-                              }
-                            }
-                          );
-                        }
-                      });
-                    }
-
-                    // If we don't have specific line item refunds but the order is marked as refunded,
-                    // fall back to the old approach for backward compatibility
-                    if (
-                      order.displayFinancialStatus &&
-                      order.displayFinancialStatus
-                        .toUpperCase()
-                        .includes("REFUNDED")
-                    ) {
-                      // For any refunded order (partial or full), use the FULL order amount as refund
-                      // This ensures refund === sale amount
-                      refundAmount = orderRevenue;
-                      hasRefunds = true;
-                      console.log(
-                        `Order ${order.id} has REFUNDED status, setting FULL refund: ${refundAmount}`
-                      );
-                    }
-
-                    // Calculate net revenue (handle safely)
-                    const netRevenue = Math.max(0, orderRevenue - refundAmount);
-                    console.log(
-                      `Order ${order.id} - Revenue: ${orderRevenue.toFixed(
-                        2
-                      )}, Refund: ${refundAmount.toFixed(
-                        2
-                      )}, Net: ${netRevenue.toFixed(2)}`
-                    );
-                    // End of improved refund handling
-
-                    // Add enhanced order data
-                    recentOrders.push({
-                      id: order.id,
-                      orderNumber: order.name,
-                      createdAt: order.createdAt,
-                      totalAmount: orderRevenue.toString(),
-                      lineItems: lineItemsFormatted,
-                      // Add additional order data
-                      customerName:
-                        order.customer?.displayName || "Unknown Customer",
-                      customerEmail: order.customer?.email,
-                      financialStatus: order.displayFinancialStatus,
-                      fulfillmentStatus: order.displayFinancialStatus?.includes(
-                        "FULFILLED"
-                      )
-                        ? "fulfilled"
-                        : "unfulfilled",
-                      // Use the precisely calculated refund amount for this product
-                      refundAmount: refundAmount,
-                      // Extract shipping amount if available
-                      shippingAmount: parseFloat(
-                        order.totalShippingPriceSet?.shopMoney?.amount || "0"
-                      ),
-                      // Use calculated net revenue
-                      netRevenue: netRevenue,
-                    });
-                  }
-                } else {
-                  console.log(
-                    `Skipping order ${order.id} with status ${order.displayFinancialStatus}`
-                  );
-                }
-              }
-            }
-          );
-
-          // Update pagination for next page
-          hasNextPage = orderData.pageInfo.hasNextPage;
-          cursor = orderData.pageInfo.endCursor;
-
-          // If we're on a 6-month query and have processed 5+ pages, consider stopping
-          // to avoid excessive API calls
-          if (is6MonthQuery && pageCount >= 5) {
-            console.log(
-              `Processed ${pageCount} pages for 6-month query, stopping pagination to avoid excessive API calls`
-            );
-            hasNextPage = false;
-          }
-        } else {
-          console.error("Invalid GraphQL response structure");
-          break;
-        }
-      } catch (error) {
-        console.error(
-          `Error processing GraphQL response for product ${productId}:`,
-          error
-        );
-        // Return partial results if we have some data already
-        if (recentOrders.length > 0) {
-          console.log(
-            `Returning partial results (${recentOrders.length} orders) due to API error`
-          );
-          return {
-            product: productData.product,
-            salesCount,
-            revenue,
-            commission: revenue * 0.3, // Artist gets 30%
-            recentOrders,
-          };
-        }
-
-        // Otherwise return empty results
-        return {
-          product: productData.product,
-          salesCount: 0,
-          revenue: 0,
-          commission: 0,
-          recentOrders: [],
-        };
-      }
-    }
-
-    // Sort recent orders by date (newest first)
-    recentOrders.sort(
-      (a, b) =>
-        new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-    );
-
-    // Calculate total refund amount
-    const totalRefundAmount = recentOrders.reduce(
-      (sum, order) => sum + (order.refundAmount || 0),
-      0
-    );
-
-    // Calculate net revenue (total revenue minus refunds)
-    const netRevenue = Math.max(0, revenue - totalRefundAmount);
-
-    console.log(
-      `FINAL: Product ${productId}: Found ${salesCount} sales with raw revenue ${revenue}, refunds ${totalRefundAmount}, net revenue ${netRevenue}`
-    );
-
-    return {
-      product: productData.product,
-      salesCount,
-      revenue: netRevenue, // Use net revenue (after refunds) as the revenue figure
-      commission: netRevenue * 0.3, // Artist gets 30% of net revenue
-      recentOrders,
-    };
-  } catch (error) {
-    console.error(
-      `Error fetching Shopify data for product ${productId}:`,
-      error
-    );
-    return null;
-  }
-}
-
 // Function to collect sales trend data from Shopify orders
 async function getShopifySalesTrend(
   shopifyOrders: ShopifyOrderData[]
@@ -814,14 +94,14 @@ async function getShopifySalesTrend(
   // Get last 6 months
   const monthlyData: Record<
     string,
-    { sales: number; revenue: number; refunds: number }
+    { sales: number; revenue: number; refunds: number; earnings: number }
   > = {};
   const now = new Date();
 
   for (let i = 5; i >= 0; i--) {
     const month = new Date(now.getFullYear(), now.getMonth() - i, 1);
     const monthKey = month.toLocaleString("default", { month: "short" });
-    monthlyData[monthKey] = { sales: 0, revenue: 0, refunds: 0 };
+    monthlyData[monthKey] = { sales: 0, revenue: 0, refunds: 0, earnings: 0 };
   }
 
   // Process orders with error handling for date parsing
@@ -849,6 +129,8 @@ async function getShopifySalesTrend(
       const monthKey = orderDate.toLocaleString("default", { month: "short" });
 
       if (monthlyData[monthKey]) {
+        monthlyData[monthKey].earnings += order.commission || 0;
+
         // Process line items for sales and revenue
         if (order.lineItems && Array.isArray(order.lineItems)) {
           order.lineItems.forEach((item) => {
@@ -925,6 +207,7 @@ async function getShopifySalesTrend(
     revenue: data.revenue,
     refunds: data.refunds || 0, // Include refund data
     netRevenue: Math.max(0, data.revenue - (data.refunds || 0)), // Include net revenue
+    earnings: data.earnings,
   }));
 }
 
@@ -957,6 +240,9 @@ export async function GET(req: Request) {
     const url = new URL(req.url);
     const startDate = url.searchParams.get("start_date") || undefined;
     const endDate = url.searchParams.get("end_date") || undefined;
+    // Orders of one shop only; by default all shops, in the primary shop's
+    // currency
+    const shop = url.searchParams.get("shop") || undefined;
 
     // Log the date parameters for debugging
     console.log("Date range parameters:", {
@@ -976,6 +262,15 @@ export async function GET(req: Request) {
 
     console.log(`Fetching dashboard data for user ID: ${user.id}`);
 
+    // Commission rules that can apply to this creator. If they can't be loaded
+    // the default rate is used instead of failing the dashboard.
+    const commissionRules = await fetchCommissionRules(supabase, user.id).catch(
+      () => []
+    );
+    const platformFunded = await fetchPlatformFundedCampaigns(
+      supabase
+    ).catch(() => new Set<string>());
+
     // Get all posters for this user from Supabase
     const { data: approvedPosters, error: postersError } = await supabase
       .from("posters")
@@ -1019,35 +314,15 @@ export async function GET(req: Request) {
     // Initialize product data map
     const productDataMap = new Map<string, FormattedProduct>();
 
-    // First, get basic product information for each product
-    const accessToken = getShopifyAccessToken();
-    const restClient = await createAdminApiClient(accessToken);
-
-    // Add rate limiting helper
-    const delay = (ms: number) =>
-      new Promise((resolve) => setTimeout(resolve, ms));
-
-    // Fetch basic product data for all products with rate limiting
-    for (let i = 0; i < approvedPosters.length; i++) {
-      const poster = approvedPosters[i];
+    // First, get basic product information for each product. The Shopify
+    // gateway queues these against the API rate limit.
+    for (const poster of approvedPosters) {
       if (!poster.shopify_product_id) continue;
 
-      // Add delay between requests to respect rate limits
-      if (i > 0) {
-        await delay(600); // 600ms delay = ~1.6 calls per second
-      }
-
       try {
-        const productData = await retryWithBackoff(
-          async () => {
-            return await safelyFetchProduct(
-              restClient,
-              poster.shopify_product_id
-            );
-          },
-          3,
-          1500
-        ); // 3 retries with 1.5 second initial delay
+        const productData = await safelyFetchProduct(
+          poster.shopify_product_id
+        );
 
         // Get image URL from Shopify product data
         let imageUrl = "";
@@ -1095,357 +370,137 @@ export async function GET(req: Request) {
       }
     }
 
-    // Now fetch ALL orders containing ANY of the creator's products (holistic approach)
+    // All orders containing any of the creator's products, from the local
+    // order tables (kept in sync with Shopify by api/cron/sync-orders)
     const allOrders: ShopifyOrderData[] = [];
 
     if (shopifyProductIds.length > 0) {
-      console.log("\n=== REST API ORDER FETCHING START ===");
+      try {
+        const orderLines = (
+          await toPrimaryCurrency(
+            supabase,
+            await fetchPosterOrderLines(supabase, shopifyProductIds, {
+              startDate,
+              endDate,
+              shop,
+            }),
+            { baseUrl: url.origin }
+          )
+        ).filter(
+          (line) =>
+            isPaidOrderStatus(line.order.financial_status) ||
+            line.order.financial_status === "REFUNDED"
+        );
 
-      // Fetch all orders containing any creator products using a simpler approach
-      let allOrdersFromAPI: ShopifyOrderData[] = [];
+        // One entry per order and product, like the per-product order lists
+        const linesByOrderProduct = new Map<string, OrderLine[]>();
+        orderLines.forEach((line) => {
+          const key = `${line.order_id}:${line.shopify_product_id}`;
+          linesByOrderProduct.set(key, [
+            ...(linesByOrderProduct.get(key) || []),
+            line,
+          ]);
+        });
 
-      try {
-        // Use REST API instead of GraphQL to avoid pagination issues
-        const restClient = await createAdminApiClient(accessToken);
+        linesByOrderProduct.forEach((lines) => {
+          const [first] = lines;
+          const productId = first.shopify_product_id || "";
+          const itemTotal = lines.reduce(
+            (sum, line) => sum + line.net_amount,
+            0
+          );
 
-        // Add rate limiting to avoid Shopify throttling
-        const delay = (ms: number) =>
-          new Promise((resolve) => setTimeout(resolve, ms));
+          // What is left of the lines once their refunds are taken off, as
+          // in the earnings and payouts; refunded orders keep nothing
+          const financialStatus = (
+            first.order.financial_status || ""
+          ).toLowerCase();
+          const kept = isPaidOrderStatus(first.order.financial_status)
+            ? lines
+                .map(unrefundedLine)
+                .filter((line): line is OrderLine => line !== null)
+            : [];
+
+          // Shipping proportional to the product's share of the order
+          const orderTotal = first.order.total_amount;
+          const shippingAmount =
+            orderTotal > 0
+              ? first.order.shipping_amount * (itemTotal / orderTotal)
+              : 0;
+
+          const netRevenue = kept.reduce(
+            (sum, line) => sum + line.net_amount,
+            0
+          );
+          const refundAmount = Math.max(0, itemTotal - netRevenue);
 
-        // Fetch orders for each product individually to avoid complex GraphQL queries
-        for (let i = 0; i < shopifyProductIds.length; i++) {
-          const productId = shopifyProductIds[i];
-          console.log(
-            `Fetching orders for product ${productId} (${i + 1}/${
-              shopifyProductIds.length
-            })...`
+          // Commission is also paid on discounts the platform funded
+          const commissionable = kept.reduce(
+            (sum, line) => sum + commissionBase(line, platformFunded),
+            0
           );
 
-          // Add delay between requests to respect rate limits (2 calls per second max)
-          if (i > 0) {
-            console.log("Adding delay to respect Shopify rate limits...");
-            await delay(600); // 600ms delay = ~1.6 calls per second (safely under 2/sec limit)
-          }
+          // Update product data
+          const productData = productDataMap.get(productId);
+          const { earnings: commission } = calculateEarnings(
+            commissionable,
+            commissionRules,
+            {
+              creatorId: user.id,
+              posterId: productData?.id,
+              date: first.ordered_at,
+            }
+          );
 
-          try {
-            // Use REST API to get orders containing this product with retry logic
-            const ordersResponse = await retryWithBackoff(
-              async () => {
-                return await restClient.get({
-                  path: "orders",
-                  query: {
-                    status: "any",
-                    limit: 250, // Maximum allowed by Shopify REST API
-                    created_at_min: startDate || "2000-01-01",
-                    created_at_max:
-                      endDate || new Date().toISOString().split("T")[0],
-                    fields:
-                      "id,name,created_at,financial_status,total_price,customer,line_items,shipping_lines,refunds",
-                  },
-                });
-              },
-              5,
-              2000
-            ); // 5 retries with 2 second initial delay
-
-            if (
-              ordersResponse.body &&
-              typeof ordersResponse.body === "object" &&
-              "orders" in ordersResponse.body
-            ) {
-              const orders = (ordersResponse.body as any).orders;
-
-              // Check if we need to fetch more pages (REST API returns max 250 orders per page)
-              let allOrdersForProduct = [...orders];
-
-              // If we got 250 orders, there might be more pages
-              if (orders.length === 250) {
-                console.log(
-                  `Product ${productId} has 250+ orders, fetching additional pages...`
-                );
-
-                // Get the last order's created_at date for pagination
-                let lastOrderDate = orders[orders.length - 1]?.created_at;
-                let pageCount = 1;
-                const maxPages = 5; // Limit to prevent excessive API calls
-
-                while (lastOrderDate && pageCount < maxPages) {
-                  pageCount++;
-
-                  // Add delay between pagination requests
-                  await delay(800);
-
-                  try {
-                    const nextPageResponse = await retryWithBackoff(
-                      async () => {
-                        return await restClient.get({
-                          path: "orders",
-                          query: {
-                            status: "any",
-                            limit: 250,
-                            created_at_min: startDate || "2000-01-01",
-                            created_at_max: lastOrderDate, // Use last order date as max for next page
-                            fields:
-                              "id,name,created_at,financial_status,total_price,customer,line_items,shipping_lines,refunds",
-                          },
-                        });
-                      },
-                      3,
-                      1500
-                    );
-
-                    if (
-                      nextPageResponse.body &&
-                      typeof nextPageResponse.body === "object" &&
-                      "orders" in nextPageResponse.body
-                    ) {
-                      const nextPageOrders = (nextPageResponse.body as any)
-                        .orders;
-
-                      if (nextPageOrders.length === 0) {
-                        console.log(
-                          `No more orders found for product ${productId} on page ${pageCount}`
-                        );
-                        break;
-                      }
-
-                      // Filter out the last order from previous page to avoid duplicates
-                      const newOrders = nextPageOrders.filter(
-                        (order: any) => order.created_at !== lastOrderDate
-                      );
-                      allOrdersForProduct.push(...newOrders);
-
-                      console.log(
-                        `Fetched ${newOrders.length} additional orders for product ${productId} (page ${pageCount})`
-                      );
-
-                      // Update lastOrderDate for next iteration
-                      if (newOrders.length > 0) {
-                        lastOrderDate =
-                          newOrders[newOrders.length - 1]?.created_at;
-                      } else {
-                        break;
-                      }
-
-                      // If we got less than 250 orders, we've reached the end
-                      if (nextPageOrders.length < 250) {
-                        break;
-                      }
-                    } else {
-                      break;
-                    }
-                  } catch (paginationError) {
-                    console.error(
-                      `Error fetching page ${pageCount} for product ${productId}:`,
-                      paginationError
-                    );
-                    break;
-                  }
-                }
-
-                console.log(
-                  `Total orders fetched for product ${productId}: ${allOrdersForProduct.length}`
-                );
-              }
+          const orderData: ShopifyOrderData = {
+            id: first.order_id,
+            orderNumber: first.order.name,
+            createdAt: first.ordered_at,
+            totalAmount: itemTotal.toString(),
+            lineItems: lines.map((line) => ({
+              id: line.id,
+              productId,
+              title: line.title,
+              price: (line.quantity > 0
+                ? line.net_amount / line.quantity
+                : 0
+              ).toString(),
+              quantity: line.quantity,
+            })),
+            customerName: first.order.customer_name || "Unknown Customer",
+            customerEmail: first.order.customer_email || "",
+            financialStatus,
+            refundAmount,
+            shippingAmount,
+            netRevenue,
+            commission,
+            discountAmount: lines.reduce(
+              (sum, line) => sum + line.discount_amount,
+              0
+            ),
+            discounts: summarizeDiscounts(lines, platformFunded),
+          };
 
-              // Filter orders that contain this specific product
-              const relevantOrders = allOrdersForProduct.filter(
-                (order: any) => {
-                  const hasProduct =
-                    order.line_items &&
-                    order.line_items.some(
-                      (item: any) =>
-                        item.product_id &&
-                        item.product_id.toString() === productId
-                    );
-
-                  if (hasProduct) {
-                    console.log(
-                      `✅ Order ${order.name} contains product ${productId}`
-                    );
-                  }
-
-                  return hasProduct;
-                }
-              );
-
-              console.log(
-                `Found ${relevantOrders.length} relevant orders for product ${productId} out of ${allOrdersForProduct.length} total orders`
-              );
-
-              if (relevantOrders.length === 0) {
-                console.log(
-                  `⚠️  No orders found for product ${productId}. This might be why sales are showing as 0.`
-                );
-                console.log(
-                  `Sample of orders checked:`,
-                  allOrdersForProduct.slice(0, 3).map((o) => ({
-                    name: o.name,
-                    line_items: o.line_items?.map((item: any) => ({
-                      product_id: item.product_id,
-                      title: item.title,
-                    })),
-                  }))
-                );
-              }
+          allOrders.push(orderData);
 
-              // Convert to our format
-              relevantOrders.forEach((order: any) => {
-                // Filter line items for this specific product
-                const productLineItems = order.line_items.filter(
-                  (item: any) =>
-                    item.product_id && item.product_id.toString() === productId
-                );
-
-                if (productLineItems.length > 0) {
-                  // Calculate totals for this product's line items
-                  let itemTotal = 0;
-                  const lineItemsFormatted = productLineItems.map(
-                    (item: any) => {
-                      const itemPrice = parseFloat(item.price || "0");
-                      itemTotal += itemPrice * (item.quantity || 0);
-
-                      return {
-                        id: item.id?.toString() || "",
-                        productId: productId,
-                        title: item.title || "",
-                        price: itemPrice.toString(),
-                        quantity: item.quantity || 0,
-                      };
-                    }
-                  );
-
-                  // Calculate refunds for this product
-                  let refundAmount = 0;
-                  if (order.refunds && Array.isArray(order.refunds)) {
-                    order.refunds.forEach((refund: any) => {
-                      if (refund.refund_line_items) {
-                        refund.refund_line_items.forEach((refundItem: any) => {
-                          if (
-                            refundItem.line_item &&
-                            refundItem.line_item.product_id?.toString() ===
-                              productId
-                          ) {
-                            refundAmount += parseFloat(
-                              refundItem.subtotal || "0"
-                            );
-                          }
-                        });
-                      }
-                    });
-                  }
-
-                  // Check if the order is marked as refunded OR partially_refunded and handle as full refunds
-                  const financialStatus =
-                    order.financial_status?.toLowerCase() || "";
-                  if (
-                    financialStatus === "refunded" ||
-                    financialStatus === "partially_refunded"
-                  ) {
-                    // For fully refunded OR partially refunded orders, use the full item total as refund amount
-                    refundAmount = itemTotal;
-                    console.log(
-                      `Order ${order.name} is ${financialStatus}, setting refund amount to full item total: ${refundAmount}`
-                    );
-                  }
-
-                  // Calculate shipping proportionally
-                  const orderTotal = parseFloat(order.total_price || "0");
-                  const proportion =
-                    orderTotal > 0 ? itemTotal / orderTotal : 0;
-                  const shippingAmount = order.shipping_lines
-                    ? order.shipping_lines.reduce(
-                        (sum: number, shipping: any) =>
-                          sum + parseFloat(shipping.price || "0"),
-                        0
-                      ) * proportion
-                    : 0;
-
-                  // Calculate net revenue correctly
-                  const netRevenue = Math.max(0, itemTotal - refundAmount);
-
-                  console.log(
-                    `Order ${order.name}: itemTotal=${itemTotal}, refundAmount=${refundAmount}, netRevenue=${netRevenue}, financialStatus=${order.financial_status}`
-                  );
-
-                  // Add to our orders array
-                  const orderData: ShopifyOrderData = {
-                    id: order.id?.toString() || "",
-                    orderNumber: order.name || "",
-                    createdAt: order.created_at || "",
-                    totalAmount: itemTotal.toString(),
-                    lineItems: lineItemsFormatted,
-                    customerName:
-                      order.customer?.first_name && order.customer?.last_name
-                        ? `${order.customer.first_name} ${order.customer.last_name}`
-                        : "Unknown Customer",
-                    customerEmail: order.customer?.email || "",
-                    financialStatus: order.financial_status || "",
-                    refundAmount: refundAmount,
-                    shippingAmount: shippingAmount,
-                    netRevenue: netRevenue,
-                  };
-
-                  allOrdersFromAPI.push(orderData);
-
-                  // Update product data
-                  const productData = productDataMap.get(productId);
-                  if (productData) {
-                    const quantityToAdd = lineItemsFormatted.reduce(
-                      (sum: number, item: any) => sum + item.quantity,
-                      0
-                    );
-
-                    console.log(`📊 Updating product ${productId} data:`);
-                    console.log(
-                      `  - Adding ${quantityToAdd} to sales count (was ${productData.salesCount})`
-                    );
-                    console.log(
-                      `  - Adding £${netRevenue} to revenue (was £${productData.revenue})`
-                    );
-                    console.log(
-                      `  - Adding £${netRevenue * 0.3} to commission (was £${
-                        productData.commission
-                      })`
-                    );
-
-                    productData.salesCount += quantityToAdd;
-                    productData.revenue += netRevenue;
-                    productData.commission += netRevenue * 0.3;
-
-                    if (!productData.recentOrders) {
-                      productData.recentOrders = [];
-                    }
-                    productData.recentOrders.push(orderData);
-
-                    console.log(
-                      `  - New totals: ${productData.salesCount} sales, £${productData.revenue} revenue, £${productData.commission} commission`
-                    );
-                  } else {
-                    console.log(
-                      `❌ Product data not found in map for product ${productId}`
-                    );
-                  }
-                }
-              });
-            }
-          } catch (productError) {
-            console.error(
-              `Error fetching orders for product ${productId}:`,
-              productError
+          if (productData) {
+            productData.salesCount += kept.reduce(
+              (sum, line) => sum + line.quantity,
+              0
             );
-            // Continue with next product after a longer delay
-            await delay(1000);
-          }
-        }
+            productData.revenue += netRevenue;
+            productData.commission += commission;
 
-        // Add all orders to the main array
-        allOrders.push(...allOrdersFromAPI);
+            if (!productData.recentOrders) {
+              productData.recentOrders = [];
+            }
+            productData.recentOrders.push(orderData);
+          }
+        });
 
-        console.log(`\n=== REST API ORDER FETCHING COMPLETE ===`);
         console.log(`Total orders processed: ${allOrders.length}`);
       } catch (error) {
-        console.error("Error in REST API order fetching:", error);
+        console.error("Error fetching order lines:", error);
         // Continue with empty orders array
       }
     }
@@ -1505,7 +560,7 @@ export async function GET(req: Request) {
         (p) => p.status === "approved"
       ).length;
 
-      // IMPORTANT: Since we've already subtracted refunds at the product level in fetchShopifyProductData,
+      // IMPORTANT: Since we've already subtracted refunds at the product level above,
       // the revenue values in products[] already represent net revenue (after refunds).
       // Using these values directly will prevent double-counting of refunds.
       const totalRevenue = products.reduce(
@@ -1519,33 +574,16 @@ export async function GET(req: Request) {
         `\n=== CALCULATING TOTAL REFUNDS FROM ${shopifyOrders.length} ORDERS ===`
       );
       const totalRefunds = shopifyOrders.reduce((sum, order) => {
-        // Check if this order has any refunds
-        const hasRefunds = order.refundAmount && order.refundAmount > 0;
-        const financialStatus = order.financialStatus?.toLowerCase() || "";
-        const isFullyRefunded = financialStatus === "refunded";
-        const isPartiallyRefunded = financialStatus === "partially_refunded";
-
-        console.log(
-          `Order ${order.orderNumber}: financialStatus="${order.financialStatus}", refundAmount=${order.refundAmount}, totalAmount=${order.totalAmount}`
-        );
-
-        if (isFullyRefunded || isPartiallyRefunded) {
-          // For fully refunded OR partially refunded orders, use the full order amount
-          const orderTotal = parseFloat(order.totalAmount || "0");
+        // What was refunded of the product's lines: all of them on refunded
+        // orders, the refunded part on partially refunded ones
+        if (order.refundAmount && order.refundAmount > 0) {
           console.log(
-            `  ✅ Tracking FULL refund for ${financialStatus} order ${order.orderNumber}: £${orderTotal}`
-          );
-          return sum + orderTotal;
-        } else if (hasRefunds && order.refundAmount) {
-          // For partial refunds on non-refunded orders
-          console.log(
-            `  ✅ Tracking PARTIAL refund for order ${order.orderNumber}: £${order.refundAmount}`
+            `  ✅ Tracking refund for ${order.financialStatus} order ${order.orderNumber}: £${order.refundAmount}`
           );
           return sum + order.refundAmount;
-        } else {
-          console.log(`  ⏭️  No refunds for order ${order.orderNumber}`);
         }
 
+        console.log(`  ⏭️  No refunds for order ${order.orderNumber}`);
         return sum;
       }, 0);
 
@@ -1558,10 +596,17 @@ export async function GET(req: Request) {
         `Stats calculation: Total Revenue (already net of refunds): £${totalRevenue}, Total Refunds (for reporting): £${totalRefunds}`
       );
 
+      // Commission is summed per product since rates can differ per poster
+      // and per period (see commission_rules)
+      const totalCommission = products.reduce(
+        (sum, p) => sum + (p.commission || 0),
+        0
+      );
+
       return {
         totalRevenue: totalRevenue + totalRefunds, // Add refunds back to show true gross revenue
         totalSales: products.reduce((sum, p) => sum + (p.salesCount || 0), 0),
-        totalCommission: totalRevenue * 0.3, // Commission based on net revenue (after refunds)
+        totalCommission, // Commission based on net revenue (after refunds)
         averageOrderValue: shopifyOrders.length
           ? shopifyOrders.reduce(
               (sum, o) => sum + parseFloat(o.totalAmount || "0"),
@@ -1573,6 +618,10 @@ export async function GET(req: Request) {
         approvedProductsCount,
         totalRefunds,
         netRevenue,
+        // The rate the creator earns on new sales today
+        commissionRate: resolveCommissionRule(commissionRules, {
+          creatorId: user.id,
+        }).rate,
       };
     };
 
@@ -1595,14 +644,19 @@ export async function GET(req: Request) {
       // Get last 6 months
       const monthlyData: Record<
         string,
-        { sales: number; revenue: number; refunds: number }
+        { sales: number; revenue: number; refunds: number; earnings: number }
       > = {};
       const now = new Date();
 
       for (let i = 5; i >= 0; i--) {
         const month = new Date(now.getFullYear(), now.getMonth() - i, 1);
         const monthKey = month.toLocaleString("default", { month: "short" });
-        monthlyData[monthKey] = { sales: 0, revenue: 0, refunds: 0 };
+        monthlyData[monthKey] = {
+          sales: 0,
+          revenue: 0,
+          refunds: 0,
+          earnings: 0,
+        };
       }
 
       // Convert to array format for the chart
@@ -1612,6 +666,7 @@ export async function GET(req: Request) {
         revenue: data.revenue,
         refunds: data.refunds,
         netRevenue: Math.max(0, data.revenue - data.refunds),
+        earnings: data.earnings,
       }));
     }
 
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/utils/supabase/server";
+import { fetchSizePopularity } from "@/lib/variant-analytics";
+
+// GET units sold per poster size across the whole store, so creators can see
+// which sizes sell. Supports ?start_date, ?end_date and ?shop like the other
+// dashboard stats.
+export async function GET(request: Request) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const url = new URL(request.url);
+    const sizes = await fetchSizePopularity(supabase, {
+      startDate: url.searchParams.get("start_date") || undefined,
+      endDate: url.searchParams.get("end_date") || undefined,
+      shop: url.searchParams.get("shop") || undefined,
+    });
+
+    return NextResponse.json(sizes);
+  } catch (error) {
+    console.error("Error fetching size popularity:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch size popularity" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,14 +1,11 @@
 import { NextResponse } from "next/server";
-import {
-  createAdminApiClient,
-  getShopifyAccessToken,
-} from "@/utils/shopify/client";
+import { getShopifyAccessToken } from "@/utils/shopify/client";
+import { shopifyRest } from "@/utils/shopify/gateway";
 
 export async function GET(req: Request) {
   try {
     // This route is for debugging purposes only
     const accessToken = getShopifyAccessToken();
-    const adminApi = await createAdminApiClient(accessToken);
 
     // Get query parameters
     const url = new URL(req.url);
@@ -18,8 +15,7 @@ export async function GET(req: Request) {
 
     if (testType === "orders") {
       // Test orders query
-      const { body: ordersData } = await adminApi.get({
-        path: "orders",
+      const ordersData = await shopifyRest<{ orders?: unknown[] }>("orders", {
         query: {
           limit: 10,
           status: "any",
@@ -34,13 +30,15 @@ export async function GET(req: Request) {
       };
     } else if (testType === "products") {
       // Test products query
-      const { body: productsData } = await adminApi.get({
-        path: "products",
-        query: {
-          limit: 10,
-          fields: "id,title,variants",
-        },
-      });
+      const productsData = await shopifyRest<{ products?: unknown[] }>(
+        "products",
+        {
+          query: {
+            limit: 10,
+            fields: "id,title,variants",
+          },
+        }
+      );
 
       result = {
         productCount: productsData.products?.length || 0,
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/utils/supabase/server";
+import { fetchPosterSizes } from "@/lib/poster-sizes";
+
+// GET the sizes creators can currently sell posters in
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    return NextResponse.json(await fetchPosterSizes(supabase));
+  } catch (error) {
+    console.error("Error fetching poster sizes:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch poster sizes" },
+      { status: 500 }
+    );
+  }
+}
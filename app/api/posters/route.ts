@@ -1,5 +1,7 @@
 import { createClient } from "@/utils/supabase/server";
 import { NextResponse } from "next/server";
+import { requireAdmin } from "@/utils/supabase/admin";
+import { PosterStatus, setPosterStatus } from "@/lib/poster-reviews";
 
 // Define the Supabase data types
 type CreatorRow = {
@@ -11,7 +13,7 @@ type PosterRow = {
   id: string;
   title: string | null;
   image_url: string | null;
-  status: "pending" | "approved" | "rejected" | "willBeDeleted" | null;
+  status: PosterStatus | null;
   upload_date: string | null;
   description: string | null;
   drive_link: string | null;
@@ -23,7 +25,6 @@ type PosterRow = {
 };
 
 type PosterUpdateData = {
-  status?: "pending" | "approved" | "rejected" | "willBeDeleted";
   shopify_url?: string;
   shopify_product_id?: string;
 };
@@ -100,15 +101,21 @@ export async function PATCH(request: Request) {
       );
     }
 
+    // Rejections and change requests need a reason (see the review route)
+    if (status === "rejected" || status === "changesRequested") {
+      return NextResponse.json(
+        { error: "Review the poster to reject it" },
+        { status: 400 }
+      );
+    }
+
     const supabase = await createClient();
+    const authError = await requireAdmin(supabase);
+    if (authError) return authError;
 
     // Prepare update data
     const updateData: PosterUpdateData = {};
 
-    if (status) {
-      updateData.status = status;
-    }
-
     if (shopifyUrl !== undefined) {
       updateData.shopify_url = shopifyUrl;
     }
@@ -117,20 +124,38 @@ export async function PATCH(request: Request) {
       updateData.shopify_product_id = shopifyProductId;
     }
 
-    // Update the poster
-    const { error } = await supabase
-      .from("posters")
-      .update(updateData)
-      .eq("id", id);
-
-    if (error) {
-      return NextResponse.json({ error: error.message }, { status: 500 });
+    // Update the poster; status changes are recorded in its history
+    if (status) {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      try {
+        await setPosterStatus(supabase, id, status, {
+          changedBy: user?.id,
+          updates: updateData,
+        });
+      } catch (statusError) {
+        return NextResponse.json(
+          { error: (statusError as Error).message },
+          { status: 500 }
+        );
+      }
+    } else {
+      const { error } = await supabase
+        .from("posters")
+        .update(updateData)
+        .eq("id", id);
+
+      if (error) {
+        return NextResponse.json({ error: error.message }, { status: 500 });
+      }
     }
 
     return NextResponse.json({
       success: true,
       message: "Poster updated successfully",
-      updatedFields: updateData,
+      updatedFields: { ...updateData, ...(status && { status }) },
     });
   } catch (error) {
     console.error("Error updating poster:", error);
@@ -1,10 +1,6 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@/utils/supabase/server";
-import {
-  createAdminApiClient,
-  createGraphQLClient,
-  getShopifyAccessToken,
-} from "@/utils/shopify/client";
+import { shopifyGraphQL, shopifyRest } from "@/utils/shopify/gateway";
 
 // Define types for GraphQL responses
 interface ShopifyGraphQLLineItem {
@@ -91,19 +87,15 @@ interface ShopifyGraphQLProduct {
 }
 
 interface ShopifyGraphQLOrdersResponse {
-  data?: {
-    orders?: {
-      edges: Array<{
-        node: ShopifyGraphQLOrder;
-      }>;
-    };
+  orders?: {
+    edges: Array<{
+      node: ShopifyGraphQLOrder;
+    }>;
   };
 }
 
 interface ShopifyGraphQLProductResponse {
-  data?: {
-    product?: ShopifyGraphQLProduct;
-  };
+  product?: ShopifyGraphQLProduct;
 }
 
 export async function GET(
@@ -133,13 +125,6 @@ export async function GET(
       });
     }
 
-    // Get Shopify Access Token
-    const accessToken = getShopifyAccessToken();
-
-    // Create REST and GraphQL clients
-    const restClient = await createAdminApiClient(accessToken);
-    const graphqlClient = await createGraphQLClient(accessToken);
-
     // Shopify often requires IDs in GraphQL to be prefixed with gid://shopify/Product/
     // If the ID is already prefixed, use it as is
     const gqlProductId = productId.includes("gid://")
@@ -147,8 +132,8 @@ export async function GET(
       : `gid://shopify/Product/${productId}`;
 
     // Fetch detailed product information using GraphQL
-    const productResponse = await graphqlClient.query({
-      data: `{
+    const productResponse = await shopifyGraphQL<ShopifyGraphQLProductResponse>(
+      `{
         product(id: "${gqlProductId}") {
           id
           title
@@ -203,12 +188,12 @@ export async function GET(
             }
           }
         }
-      }`,
-    });
+      }`
+    );
 
     // Fetch sales data (orders containing this product)
-    const salesResponse = await graphqlClient.query({
-      data: `{
+    const salesResponse = await shopifyGraphQL<ShopifyGraphQLOrdersResponse>(
+      `{
         orders(first: 50, query: "line_items:${productId}") {
           edges {
             node {
@@ -238,18 +223,16 @@ export async function GET(
             }
           }
         }
-      }`,
-    });
+      }`
+    );
 
     // Get additional metadata via REST API
-    const { body: productMetadata } = await restClient.get({
-      path: `products/${productId}/metafields`,
-    });
+    const productMetadata = await shopifyRest(
+      `products/${productId}/metafields`
+    );
 
     // Process the sales data to calculate total units sold, revenue, etc.
-    const salesResponse_typed =
-      salesResponse.body as unknown as ShopifyGraphQLOrdersResponse;
-    const salesData = salesResponse_typed?.data?.orders?.edges || [];
+    const salesData = salesResponse?.orders?.edges || [];
 
     // Calculate sales metrics
     let totalUnitsSold = 0;
@@ -279,10 +262,8 @@ export async function GET(
     });
 
     // Combine all data
-    const productResponse_typed =
-      productResponse.body as unknown as ShopifyGraphQLProductResponse;
     const productData = {
-      product: productResponse_typed?.data?.product,
+      product: productResponse?.product,
       metadata: productMetadata,
       sales: {
         totalUnitsSold,
@@ -1,9 +1,12 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@/utils/supabase/server";
+import { shopifyRest } from "@/utils/shopify/gateway";
+import { calculateEarnings, fetchCommissionRules } from "@/lib/commission";
 import {
-  createAdminApiClient,
-  getShopifyAccessToken,
-} from "@/utils/shopify/client";
+  findCreatorByVendor,
+  getCreatorProductIds,
+  getCreatorVendors,
+} from "@/lib/creator-vendors";
 
 // Define types for Shopify API responses
 interface ShopifyProduct {
@@ -37,8 +40,6 @@ export async function GET(req: Request) {
   try {
     // Parse query parameters
     const url = new URL(req.url);
-    const limit = parseInt(url.searchParams.get("limit") || "50", 10);
-    const cursor = url.searchParams.get("cursor") || null;
     const vendor = url.searchParams.get("vendor") || null;
     const startDate = url.searchParams.get("start_date") || null;
     const endDate = url.searchParams.get("end_date") || null;
@@ -47,17 +48,8 @@ export async function GET(req: Request) {
       vendor,
       startDate,
       endDate,
-      limit,
-      cursor,
     });
 
-    if (!vendor) {
-      return new NextResponse(
-        JSON.stringify({ error: "Vendor parameter is required" }),
-        { status: 400 }
-      );
-    }
-
     const supabase = await createClient();
 
     // Check if user is authenticated
@@ -71,37 +63,81 @@ export async function GET(req: Request) {
       });
     }
 
+    // Products come from the creator's vendor mapping, so a vendor renamed
+    // in Shopify keeps working. ?vendor= selects the creator that vendor is
+    // mapped to; without it, the signed-in creator.
+    const creatorId = vendor
+      ? await findCreatorByVendor(supabase, vendor)
+      : user.id;
+
+    if (!creatorId) {
+      return new NextResponse(
+        JSON.stringify({ error: `No creator is mapped to vendor ${vendor}` }),
+        { status: 404 }
+      );
+    }
+
+    const [vendors, productIds, commissionRules, posters] = await Promise.all([
+      getCreatorVendors(supabase, creatorId),
+      getCreatorProductIds(supabase, creatorId),
+      // Without the rules the default rate applies
+      fetchCommissionRules(supabase, creatorId).catch(() => []),
+      supabase
+        .from("posters")
+        .select("id, shopify_product_id")
+        .eq("creator_id", creatorId)
+        .then(
+          ({ data }) =>
+            (data || []) as { id: string; shopify_product_id: string | null }[]
+        ),
+    ]);
+
+    // Poster-level commission rules apply by the product's poster
+    const posterIdByProduct = new Map(
+      posters.map((poster) => [poster.shopify_product_id || "", poster.id])
+    );
+
     try {
-      // Get Shopify Access Token
-      const accessToken = getShopifyAccessToken();
-
-      // Create REST client
-      const restClient = await createAdminApiClient(accessToken);
-
-      // Build query parameters for products
-      const productQueryParams: Record<string, string> = {
-        limit: limit.toString(),
-        vendor: vendor,
-        fields:
-          "id,title,vendor,product_type,status,created_at,updated_at,variants,images,tags",
-      };
-
-      // Add cursor if available for pagination
-      if (cursor) {
-        productQueryParams.page_info = cursor;
-      }
+      const fields =
+        "id,title,vendor,product_type,status,created_at,updated_at,variants,images,tags";
 
       try {
         console.log("Fetching products from Shopify...");
 
-        // Fetch products using REST API
-        const productsResponse = await restClient.get({
-          path: "products",
-          query: productQueryParams,
-        });
+        // Products under any of the creator's vendor names, then the mapped
+        // products that are listed under another vendor
+        const productsById = new Map<string, ShopifyProduct>();
+        for (const name of vendors) {
+          const productsResponse = await shopifyRest<{
+            products: ShopifyProduct[];
+          }>("products", {
+            query: { vendor: name, limit: 250, fields },
+          });
+          productsResponse.products.forEach((product: ShopifyProduct) =>
+            productsById.set(product.id.toString(), product)
+          );
+        }
 
-        const products = productsResponse.body.products;
-        console.log(`Found ${products.length} products for vendor ${vendor}`);
+        const otherIds = productIds.filter((id) => !productsById.has(id));
+        for (let i = 0; i < otherIds.length; i += 250) {
+          const productsResponse = await shopifyRest<{
+            products: ShopifyProduct[];
+          }>("products", {
+            query: {
+              ids: otherIds.slice(i, i + 250).join(","),
+              limit: 250,
+              fields,
+            },
+          });
+          productsResponse.products.forEach((product: ShopifyProduct) =>
+            productsById.set(product.id.toString(), product)
+          );
+        }
+
+        const products = Array.from(productsById.values());
+        console.log(
+          `Found ${products.length} products for creator ${creatorId}`
+        );
 
         // Build query parameters for orders
         const orderQueryParams: Record<string, string> = {
@@ -124,12 +160,13 @@ export async function GET(req: Request) {
         });
 
         // Fetch orders for the date range
-        const ordersResponse = await restClient.get({
-          path: "orders",
+        const ordersResponse = await shopifyRest<{
+          orders?: ShopifyOrder[];
+        }>("orders", {
           query: orderQueryParams,
         });
 
-        const orders = ordersResponse.body.orders || [];
+        const orders = ordersResponse.orders || [];
         console.log(
           `Found ${orders.length} orders for the specified date range`
         );
@@ -173,7 +210,7 @@ export async function GET(req: Request) {
                 if (!item.product_id) return;
 
                 const productId = item.product_id.toString();
-                // Only process if we have this product (it belongs to this vendor)
+                // Only process if we have this product (it belongs to the creator)
                 if (productMap.has(productId)) {
                   const product = productMap.get(productId);
                   const quantity = item.quantity || 0;
@@ -183,7 +220,15 @@ export async function GET(req: Request) {
                   // Update product sales data
                   product.salesCount += quantity;
                   product.revenue += lineTotal;
-                  product.commission += lineTotal * 0.3; // Assuming 30% commission
+                  product.commission += calculateEarnings(
+                    lineTotal,
+                    commissionRules,
+                    {
+                      creatorId,
+                      posterId: posterIdByProduct.get(productId),
+                      date: order.created_at,
+                    }
+                  ).earnings;
 
                   productMap.set(productId, product);
 
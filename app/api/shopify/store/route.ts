@@ -1,45 +1,33 @@
 import { createClient } from "@/utils/supabase/server";
-import {
-  createAdminApiClient,
-  createGraphQLClient,
-  getShopifyAccessToken,
-} from "@/utils/shopify/client";
+import { shopifyGraphQL, shopifyRest } from "@/utils/shopify/gateway";
 import { NextResponse } from "next/server";
 
 // Define types for GraphQL response to avoid using 'any'
 interface ShopifyGraphQLResponse {
-  body: {
-    data?: {
-      shop?: {
-        name: string;
-        myshopifyDomain: string;
-        plan?: {
-          displayName: string;
-          partnerDevelopment: boolean;
-        };
-        primaryDomain?: {
-          url: string;
-          host: string;
-        };
-        timezoneOffset?: string;
-        currencyCode?: string;
-        featuredProducts?: {
-          edges: Array<{
-            node: {
-              id: string;
-              title: string;
-            };
-          }>;
+  shop?: {
+    name: string;
+    myshopifyDomain: string;
+    plan?: {
+      displayName: string;
+      partnerDevelopment: boolean;
+    };
+    primaryDomain?: {
+      url: string;
+      host: string;
+    };
+    timezoneOffset?: string;
+    currencyCode?: string;
+    featuredProducts?: {
+      edges: Array<{
+        node: {
+          id: string;
+          title: string;
         };
-        customerAccounts?: string;
-        analyticsToken?: string;
-      };
+      }>;
     };
-    errors?: Array<{
-      message: string;
-    }>;
+    customerAccounts?: string;
+    analyticsToken?: string;
   };
-  headers: Record<string, string | string[]>;
 }
 
 // Define shop data type
@@ -79,101 +67,77 @@ export async function GET() {
     */
 
     try {
-      // Get Shopify Access Token
-      const accessToken = getShopifyAccessToken();
-      console.log({ accessToken });
-
-      // Create REST and GraphQL clients
-      const restClient = await createAdminApiClient(accessToken);
-      const graphqlClient = await createGraphQLClient(accessToken);
+      // Fetch shop information using REST API
+      const shopInfo = await shopifyRest<{ shop: Record<string, unknown> }>(
+        "shop"
+      );
 
       try {
-        // Fetch shop information using REST API
-        const { body: shopInfo } = await restClient.get({
-          path: "shop",
-        });
-
-        try {
-          // Fetch shop metrics using GraphQL
-          const graphqlResponse = await graphqlClient.query({
-            data: `{
-              shop {
-                name
-                myshopifyDomain
-                plan {
-                  displayName
-                  partnerDevelopment
-                }
-                primaryDomain {
-                  url
-                  host
-                }
-                timezoneOffset
-                currencyCode
-                featuredProducts: products(first: 5) {
-                  edges {
-                    node {
-                      id
-                      title
-                    }
+        // Fetch shop metrics using GraphQL
+        const graphqlResponse = await shopifyGraphQL<ShopifyGraphQLResponse>(
+          `{
+            shop {
+              name
+              myshopifyDomain
+              plan {
+                displayName
+                partnerDevelopment
+              }
+              primaryDomain {
+                url
+                host
+              }
+              timezoneOffset
+              currencyCode
+              featuredProducts: products(first: 5) {
+                edges {
+                  node {
+                    id
+                    title
                   }
                 }
-                customerAccounts
-                }
-                }`,
-          });
-          // analyticsToken
-
-          // Format shop data with proper typing
-          const shopData: ShopData = {
-            basicInfo: shopInfo.shop,
-          };
+              }
+              customerAccounts
+              }
+              }`
+        );
+        // analyticsToken
 
-          // Safely access GraphQL data
-          const typedResponse =
-            graphqlResponse as unknown as ShopifyGraphQLResponse;
-          if (typedResponse?.body?.data?.shop) {
-            shopData.graphqlInfo = typedResponse.body.data.shop;
-          }
+        // Format shop data with proper typing
+        const shopData: ShopData = {
+          basicInfo: shopInfo.shop,
+        };
 
-          return NextResponse.json({ shopData });
-        } catch (graphqlError) {
-          console.error("GraphQL query failed:", graphqlError);
-          // Return partial data if GraphQL fails but REST succeeded
-          return NextResponse.json({
-            shopData: { basicInfo: shopInfo.shop },
-            errors: {
-              graphql:
-                graphqlError instanceof Error
-                  ? graphqlError.message
-                  : String(graphqlError),
-            },
-          });
+        // Safely access GraphQL data
+        if (graphqlResponse?.shop) {
+          shopData.graphqlInfo = graphqlResponse.shop;
         }
-      } catch (restError) {
-        console.error("REST API request failed:", restError);
-        return new NextResponse(
-          JSON.stringify({
-            error: "Failed to fetch store information",
-            details:
-              restError instanceof Error
-                ? restError.message
-                : String(restError),
-          }),
-          { status: 500 }
-        );
+
+        return NextResponse.json({ shopData });
+      } catch (graphqlError) {
+        console.error("GraphQL query failed:", graphqlError);
+        // Return partial data if GraphQL fails but REST succeeded
+        return NextResponse.json({
+          shopData: { basicInfo: shopInfo.shop },
+          errors: {
+            graphql:
+              graphqlError instanceof Error
+                ? graphqlError.message
+                : String(graphqlError),
+          },
+        });
       }
-    } catch (authError) {
-      console.error("Shopify authentication error:", authError);
+    } catch (restError) {
+      console.error("REST API request failed:", restError);
       return new NextResponse(
         JSON.stringify({
-          error: "Shopify API authentication failed",
+          error: "Failed to fetch store information",
           details:
-            "Please check your Shopify access token and store configuration.",
-          message:
-            authError instanceof Error ? authError.message : String(authError),
+            restError instanceof Error
+              ? restError.message
+              : String(restError),
         }),
-        { status: 401 }
+        { status: 500 }
       );
     }
   } catch (error) {
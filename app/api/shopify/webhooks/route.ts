@@ -0,0 +1,100 @@
+import { createServiceClient } from "@/utils/supabase/service";
+import { NextResponse } from "next/server";
+import {
+  claimWebhook,
+  finishWebhook,
+  handleShopifyWebhook,
+  isWebhookTopic,
+  verifyShopifyWebhook,
+} from "@/lib/shopify-webhooks";
+import { getShop, Shop } from "@/lib/shops";
+
+// POST receive a Shopify webhook (orders/create, orders/updated,
+// refunds/create, products/update, products/delete)
+export async function POST(request: Request) {
+  // The signature is over the exact bytes Shopify sent, so read the raw body
+  const rawBody = await request.text();
+  const shopDomain = request.headers.get("X-Shopify-Shop-Domain");
+
+  // Shopify isn't a signed-in user; the signature check below is what lets
+  // a delivery write orders and payout adjustments
+  const supabase = createServiceClient();
+
+  // Each shop signs its deliveries with its own secret
+  let shop: Shop;
+  try {
+    shop = await getShop(supabase, shopDomain || "");
+  } catch (error) {
+    console.error("Shopify webhook from unknown shop:", error);
+    return NextResponse.json({ error: "Unknown shop" }, { status: 401 });
+  }
+
+  if (
+    !verifyShopifyWebhook(
+      shop,
+      rawBody,
+      request.headers.get("X-Shopify-Hmac-Sha256")
+    )
+  ) {
+    return NextResponse.json({ error: "Invalid signature" }, { status: 401 });
+  }
+
+  const webhookId = request.headers.get("X-Shopify-Webhook-Id");
+  const topic = request.headers.get("X-Shopify-Topic");
+
+  if (!webhookId || !topic) {
+    return NextResponse.json(
+      { error: "Missing webhook headers" },
+      { status: 400 }
+    );
+  }
+
+  // Acknowledge topics we don't handle so Shopify doesn't keep retrying
+  if (!isWebhookTopic(topic)) {
+    return NextResponse.json({ ignored: true });
+  }
+
+  try {
+    const claim = await claimWebhook(supabase, {
+      id: webhookId,
+      topic,
+      shop: shop.domain,
+    });
+
+    if (claim === "processed") {
+      return NextResponse.json({ duplicate: true });
+    }
+
+    // Another request is processing this delivery. Answer with an error so
+    // Shopify retries it in case that request fails.
+    if (claim === "processing") {
+      return NextResponse.json(
+        { error: "Webhook is already being processed" },
+        { status: 409 }
+      );
+    }
+
+    await handleShopifyWebhook(
+      supabase,
+      shop,
+      topic,
+      JSON.parse(rawBody)
+    );
+    await finishWebhook(supabase, webhookId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error(`Error handling Shopify webhook ${topic}:`, error);
+    await finishWebhook(
+      supabase,
+      webhookId,
+      error instanceof Error ? error.message : String(error)
+    ).catch(() => undefined);
+
+    // A non-2xx response makes Shopify retry the delivery
+    return NextResponse.json(
+      { error: "Failed to process webhook" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { createClient } from "@/utils/supabase/server";
+import { NextResponse } from "next/server";
+import { listShops, toShopSummary } from "@/lib/shops";
+
+// GET the active shops (domain, name, currency), primary shop first
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const shops = await listShops(supabase);
+    return NextResponse.json(shops.map(toShopSummary));
+  } catch (error) {
+    console.error("Error fetching shops:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,15 +1,31 @@
 import { NextResponse } from "next/server";
 import { createClient as createServerClient } from "@/utils/supabase/server";
+import { createServiceClient } from "@/utils/supabase/service";
+import { fetchPosterSizes } from "@/lib/poster-sizes";
+import {
+  ArtworkRejectedError,
+  inspectArtwork,
+  saveArtworkReport,
+} from "@/lib/artwork-validation";
+import { parseUploadPath } from "@/lib/poster-images";
+import {
+  discardUpload,
+  downloadUpload,
+  storePosterImage,
+} from "@/lib/poster-image-storage";
 
+// POST { size, path } once the browser has finished uploading a print file
+// for one size of a poster to `path` (see newUploadPath). The file is
+// checked against the size; accepted files are kept with their web-sized
+// derivatives, and the stored images and print-readiness report are
+// returned. Rejected files are removed.
 export async function POST(request: Request) {
   try {
-    const formData = await request.formData();
-    const size = formData.get("size") as string;
-    const file = formData.get("file") as File;
+    const { size, path } = await request.json();
 
-    if (!file || !size) {
+    if (typeof size !== "string" || typeof path !== "string") {
       return NextResponse.json(
-        { error: "File and size are required" },
+        { error: "Size and upload path are required" },
         { status: 400 }
       );
     }
@@ -26,60 +42,59 @@ export async function POST(request: Request) {
 
     const userId = user.id;
 
-    // Create a unique file path
-    const fileExt = file.name.split(".").pop();
-    const fileName = `${size}_${Math.random()
-      .toString(36)
-      .substring(2, 15)}.${fileExt}`;
-    const filePath = `${userId}/${fileName}`;
-
-    // Check if bucket exists, create if not
-    // const { data: buckets } = await supabase.storage.listBuckets();
-    // const posterBucket = buckets?.find(
-    //   (bucket) => bucket.name === "poster-images"
-    // );
-
-    // if (!posterBucket) {
-    //   const { error: bucketError } = await supabase.storage.createBucket(
-    //     "poster-images",
-    //     {
-    //       public: true,
-    //       fileSizeLimit: 10485760, // 10MB
-    //     }
-    //   );
-
-    //   if (bucketError) {
-    //     return NextResponse.json(
-    //       { error: `Failed to create bucket: ${bucketError.message}` },
-    //       { status: 500 }
-    //     );
-    //   }
-    // }
-
-    const { error } = await supabase.storage
-      .from("poster-images")
-      .upload(filePath, file, {
-        upsert: true,
-        contentType: file.type,
-      });
+    const upload = parseUploadPath(path);
+    if (!upload || upload.creatorId !== userId || upload.sizeId !== size) {
+      return NextResponse.json(
+        { error: "Invalid upload path" },
+        { status: 400 }
+      );
+    }
 
-    if (error) {
+    const sizeOption = (await fetchPosterSizes(supabase)).find(
+      (option) => option.id === size
+    );
+    if (!sizeOption) {
       return NextResponse.json(
-        { error: `Upload failed: ${error.message}` },
-        { status: 500 }
+        { error: `Unknown poster size ${size}` },
+        { status: 400 }
       );
     }
 
-    // Get public URL
-    const { data: publicUrlData } = supabase.storage
-      .from("poster-images")
-      .getPublicUrl(filePath);
+    const bytes = await downloadUpload(supabase, path);
+    let inspection;
+    try {
+      inspection = inspectArtwork(bytes, sizeOption);
+    } catch (inspectError) {
+      if (inspectError instanceof ArtworkRejectedError) {
+        await discardUpload(supabase, path);
+        return NextResponse.json(
+          { error: inspectError.message },
+          { status: 400 }
+        );
+      }
+      throw inspectError;
+    }
 
-    return NextResponse.json({
-      url: publicUrlData.publicUrl,
-      size,
-      path: filePath,
+    // Creators can only write their `upload`; the checked original, its
+    // derivatives and the report are stored with the service role, so a
+    // print file and its report can't be made up without passing the check
+    const service = createServiceClient();
+    const image = await storePosterImage(service, {
+      uploadPath: path,
+      bytes,
+      info: inspection.info,
     });
+
+    const report = await saveArtworkReport(service, {
+      creatorId: userId,
+      sizeId: size,
+      storagePath: image.original,
+      url: image.preview,
+      fileSize: bytes.length,
+      inspection,
+    });
+
+    return NextResponse.json({ size, image, report });
   } catch (error) {
     const errorMessage =
       error instanceof Error ? error.message : "Unknown error";
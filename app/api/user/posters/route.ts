@@ -1,6 +1,7 @@
 import { createClient } from "@/utils/supabase/server";
 import { NextResponse } from "next/server";
 import { ShopifyProduct } from "@/utils/shopifyApi";
+import { firstPosterImage } from "@/lib/poster-images";
 
 // Type for product data from Shopify stats API
 
@@ -35,10 +36,8 @@ export async function GET(request: Request) {
     // For each poster, prepare basic data without stats
     // Stats will be fetched client-side for each poster
     const formattedPosters: ShopifyProduct[] = posters.map((poster) => {
-      // Extract first image URL from image_urls array or use empty string
-      const imageUrls = poster.image_urls as string[] | null;
-      const firstImageUrl =
-        imageUrls && imageUrls.length > 0 ? imageUrls[0] : "";
+      // The thumbnail of the first size, or an empty string
+      const firstImageUrl = firstPosterImage(poster.image_urls) || "";
 
       return {
         id: poster.id,
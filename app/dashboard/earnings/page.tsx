@@ -8,6 +8,9 @@ import { SiteHeaderDashboard } from "@/components/site-header-dashboard";
 import { ChartAreaInteractive } from "@/components/chart-area-interactive";
 import { QueryProvider } from "@/components/query-provider";
 import { CurrencyProvider } from "@/components/currency-provider";
+import { AnnualStatementButton } from "@/components/annual-statement-button";
+import { ShopFilter } from "@/components/shop-filter";
+import { PromotionCostsCard } from "@/components/promotion-costs-card";
 
 export const metadata: Metadata = {
   title: "Earnings | Creator Dashboard",
@@ -35,10 +38,15 @@ export default function EarningsPage() {
                         Track your sales performance and earnings over time.
                       </p>
                     </div>
+                    <div className="flex items-center gap-2">
+                      <ShopFilter />
+                      <AnnualStatementButton />
+                    </div>
                   </div>
                   <EarningsOverview />
                   <ChartAreaInteractive />
                   <TopSellingPosters />
+                  <PromotionCostsCard />
                 </div>
               </div>
             </div>
@@ -7,6 +7,7 @@ import { SidebarInset, SidebarProvider } from "@/components/ui/sidebar";
 import { SiteHeaderDashboard } from "@/components/site-header-dashboard";
 import { QueryProvider } from "@/components/query-provider";
 import { CurrencyProvider } from "@/components/currency-provider";
+import { ShopFilter } from "@/components/shop-filter";
 
 export default function Page() {
   return (
@@ -19,6 +20,9 @@ export default function Page() {
             <div className="flex flex-1 flex-col">
               <div className="@container/main flex flex-1 flex-col gap-2">
                 <div className="flex flex-col gap-4 py-4 md:gap-6 md:py-6">
+                  <div className="flex justify-end px-4 lg:px-6 empty:hidden">
+                    <ShopFilter />
+                  </div>
                   <SectionCards />
                   <div className="px-4 lg:px-6">
                     <ChartAreaInteractive />
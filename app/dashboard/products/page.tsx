@@ -3,6 +3,7 @@ import { AppSidebar } from "@/components/app-sidebar";
 import { SiteHeaderDashboard } from "@/components/site-header-dashboard";
 import { QueryProvider } from "@/components/query-provider";
 import { PosterTableContainer } from "@/components/poster-table-container";
+import { SizePopularityChart } from "@/components/size-popularity-chart";
 
 export default function ProductsPage() {
   return (
@@ -15,6 +16,7 @@ export default function ProductsPage() {
             <div className="@container/main flex flex-1 flex-col gap-2">
               <div className="flex flex-col gap-4 py-4 md:gap-6 md:py-6">
                 <PosterTableContainer />
+                <SizePopularityChart />
               </div>
             </div>
           </div>
@@ -0,0 +1,99 @@
+"use client";
+
+import * as React from "react";
+import { DownloadIcon, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+// Years offered for the annual statement, most recent first
+const YEARS_SHOWN = 5;
+
+// Download the creator's year-end summary of everything paid to them
+export function AnnualStatementButton() {
+  const currentYear = new Date().getFullYear();
+  const [year, setYear] = React.useState(String(currentYear));
+  const [isDownloading, setIsDownloading] = React.useState(false);
+
+  const download = async (format: "pdf" | "csv") => {
+    setIsDownloading(true);
+    try {
+      const response = await fetch(
+        `/api/dashboard/earnings/annual-statement?year=${year}&format=${format}`
+      );
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to download statement");
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `annual-earnings-statement-${year}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to download statement"
+      );
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select value={year} onValueChange={setYear}>
+        <SelectTrigger
+          className="w-[100px] rounded-lg"
+          aria-label="Statement year"
+        >
+          <SelectValue placeholder="Year" />
+        </SelectTrigger>
+        <SelectContent className="rounded-xl">
+          {Array.from({ length: YEARS_SHOWN }, (_, index) =>
+            String(currentYear - index)
+          ).map((option) => (
+            <SelectItem key={option} value={option} className="rounded-lg">
+              {option}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" disabled={isDownloading}>
+            {isDownloading ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <DownloadIcon className="h-4 w-4 mr-2" />
+            )}
+            Annual Statement
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onClick={() => download("pdf")}>
+            Download PDF
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => download("csv")}>
+            Download CSV
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+}
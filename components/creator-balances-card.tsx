@@ -0,0 +1,159 @@
+"use client";
+
+import * as React from "react";
+import { format } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/lib/utils";
+
+type CreatorBalance = {
+  creatorId: string;
+  creatorName: string;
+  currency: string;
+  amount: number;
+  months: string[];
+};
+
+// Admin view of balances that rolled over because they were below the
+// minimum payout, with a way to pay one out early
+export function CreatorBalancesCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["creator-balances"],
+    queryFn: async (): Promise<{
+      minimumPayout: number;
+      balances: CreatorBalance[];
+    }> => {
+      const response = await fetch("/api/admin/balances");
+      if (!response.ok) {
+        throw new Error("Failed to fetch creator balances");
+      }
+      return response.json();
+    },
+  });
+
+  const releaseMutation = useMutation({
+    mutationFn: async (creatorId: string) => {
+      const response = await fetch("/api/admin/balances", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ creatorId }),
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.error || "Failed to release balance");
+      }
+
+      return response.json();
+    },
+    onSuccess: (payout) => {
+      queryClient.invalidateQueries({ queryKey: ["creator-balances"] });
+      queryClient.invalidateQueries({ queryKey: ["payouts"] });
+      toast({
+        title: "Balance released",
+        description: `Created payout PO-${payout.id} for ${formatCurrency(
+          payout.amount,
+          payout.currency
+        )}`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to release balance",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Rolled-over Balances</CardTitle>
+        <CardDescription>
+          Earnings below the minimum payout of{" "}
+          {formatCurrency(data?.minimumPayout ?? 20, "GBP")} roll over to the
+          next month. Release a balance to pay it out now.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Creator</TableHead>
+              <TableHead>Months</TableHead>
+              <TableHead className="text-right">Balance</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center py-4">
+                  <Loader2 className="h-4 w-4 animate-spin inline mr-2" />
+                  Loading balances...
+                </TableCell>
+              </TableRow>
+            ) : data?.balances.length ? (
+              data.balances.map((balance) => (
+                <TableRow key={`${balance.creatorId}-${balance.currency}`}>
+                  <TableCell>{balance.creatorName}</TableCell>
+                  <TableCell>
+                    {balance.months
+                      .filter(Boolean)
+                      .map((month) => format(new Date(month), "MMM yyyy"))
+                      .join(", ")}
+                  </TableCell>
+                  <TableCell className="text-right font-medium">
+                    {formatCurrency(balance.amount, balance.currency)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => releaseMutation.mutate(balance.creatorId)}
+                      disabled={releaseMutation.isPending}
+                    >
+                      Release now
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell
+                  colSpan={4}
+                  className="text-center py-4 text-muted-foreground"
+                >
+                  No creators have a rolled-over balance
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
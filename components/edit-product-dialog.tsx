@@ -0,0 +1,192 @@
+"use client";
+
+import * as React from "react";
+import { Loader2, PencilIcon } from "lucide-react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { sizeDisplayName, sizePriceError } from "@/lib/poster-sizes";
+import { usePosterSizes } from "@/hooks/use-poster-sizes";
+import type { Product } from "@/components/product-table";
+
+// Edit a live poster's title, description and prices. Changes are reviewed
+// by an admin before they reach the shop.
+export function EditProductButton({ product }: { product: Product }) {
+  const queryClient = useQueryClient();
+  const [open, setOpen] = React.useState(false);
+  const [title, setTitle] = React.useState(product.name);
+  const [description, setDescription] = React.useState(
+    product.description || ""
+  );
+  const [prices, setPrices] = React.useState<Record<string, string>>(
+    product.prices || {}
+  );
+
+  const { sizes: catalogue } = usePosterSizes();
+
+  // Sizes no longer in the catalogue are shown by id; the server only
+  // rejects them when their price changes
+  const sizes = (product.selectedSizes || []).map((size) => ({
+    id: size,
+    option: catalogue.find((option) => option.id === size),
+  }));
+
+  const invalidSize = sizes.find(
+    ({ id, option }) =>
+      option &&
+      sizePriceError(catalogue, id, parseFloat(prices[id] || "")) !== null
+  );
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(
+        `/api/dashboard/products/${product.id}/changes`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ title, description, prices }),
+        }
+      );
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to submit changes");
+      }
+
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      toast.success(
+        "Your changes were submitted and will go live once they're approved."
+      );
+      setOpen(false);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to submit changes");
+    },
+  });
+
+  const openDialog = () => {
+    setTitle(product.name);
+    setDescription(product.description || "");
+    setPrices(product.prices || {});
+    setOpen(true);
+  };
+
+  const changeRequest = product.changeRequest;
+
+  return (
+    <>
+      <Button variant="outline" size="sm" className="mr-2" onClick={openDialog}>
+        <PencilIcon className="mr-2 size-4" />
+        Edit
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Edit Product</DialogTitle>
+            <DialogDescription>
+              Changes are reviewed by our team before they appear in the shop.
+            </DialogDescription>
+          </DialogHeader>
+
+          {changeRequest?.status === "pending" && (
+            <p className="rounded-md bg-orange-50 p-3 text-sm text-orange-700 dark:bg-orange-950 dark:text-orange-300">
+              You already have changes waiting for review. Saving again
+              replaces them.
+            </p>
+          )}
+          {changeRequest?.status === "rejected" && (
+            <p className="rounded-md bg-red-50 p-3 text-sm text-red-700 dark:bg-red-950 dark:text-red-300">
+              Your last changes were not approved
+              {changeRequest.reviewNote ? `: ${changeRequest.reviewNote}` : "."}
+            </p>
+          )}
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="productTitle">Title</Label>
+              <Input
+                id="productTitle"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="productDescription">Description</Label>
+              <Textarea
+                id="productDescription"
+                rows={4}
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+              />
+            </div>
+            {sizes.length > 0 && (
+              <div className="space-y-2">
+                <Label>Prices</Label>
+                {sizes.map(({ id, option }) => (
+                  <div key={id} className="flex items-center gap-3">
+                    <span className="w-40 text-sm">
+                      {option ? sizeDisplayName(option) : id}
+                    </span>
+                    <Input
+                      type="number"
+                      min={option?.min_price}
+                      max={option?.max_price ?? undefined}
+                      step="0.01"
+                      value={prices[id] || ""}
+                      onChange={(e) =>
+                        setPrices((prev) => ({ ...prev, [id]: e.target.value }))
+                      }
+                      className="w-28"
+                    />
+                    {option && (
+                      <span className="text-xs text-muted-foreground">
+                        {option.max_price === null
+                          ? `min £${option.min_price}`
+                          : `£${option.min_price}–${option.max_price}`}
+                      </span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => submitMutation.mutate()}
+              disabled={
+                submitMutation.isPending || !title.trim() || !!invalidSize
+              }
+            >
+              {submitMutation.isPending && (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              )}
+              Submit for Review
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -77,6 +77,17 @@ export const orderSchema = z.object({
   refundAmount: z.number().optional().default(0),
   shippingAmount: z.number().optional().default(0),
   netRevenue: z.number().optional().default(0),
+  discountAmount: z.number().optional().default(0),
+  discounts: z
+    .array(
+      z.object({
+        type: z.enum(["code", "automatic", "manual", "script"]),
+        name: z.string(),
+        amount: z.number(),
+        platformFunded: z.boolean(),
+      })
+    )
+    .optional(),
   items: z
     .array(
       z.object({
@@ -91,6 +102,14 @@ export const orderSchema = z.object({
 
 export type Order = z.infer<typeof orderSchema>;
 
+// How each kind of discount is shown next to its name
+const DISCOUNT_LABELS: Record<string, string> = {
+  code: "Code",
+  automatic: "Sale",
+  manual: "Manual discount",
+  script: "Discount",
+};
+
 // Define the columns for the orders table
 const columns: ColumnDef<Order>[] = [
   {
@@ -188,6 +207,38 @@ const columns: ColumnDef<Order>[] = [
       );
     },
   },
+  {
+    accessorKey: "discountAmount",
+    header: () => <div className="text-right">Discount</div>,
+    cell: ({ row }: { row: Row<Order> }) => {
+      const { discountAmount, discounts = [] } = row.original;
+
+      if (!discountAmount) {
+        return <div className="text-right text-muted-foreground">None</div>;
+      }
+
+      return (
+        <div className="flex flex-col items-end text-right">
+          <div className="font-medium">-{formatCurrency(discountAmount)}</div>
+          {discounts.map((discount) => (
+            <div
+              key={discount.name}
+              className="text-xs text-muted-foreground"
+              title={
+                discount.platformFunded
+                  ? "Paid for by the platform: you earn commission on the full price"
+                  : undefined
+              }
+            >
+              {DISCOUNT_LABELS[discount.type]} {discount.name}: -
+              {formatCurrency(discount.amount)}
+              {discount.platformFunded && " (platform-funded)"}
+            </div>
+          ))}
+        </div>
+      );
+    },
+  },
   {
     accessorKey: "netRevenue",
     header: () => <div className="text-right">Net Revenue</div>,
@@ -0,0 +1,334 @@
+"use client";
+
+import * as React from "react";
+import { format } from "date-fns";
+import { CheckCircle, Download, Loader2, Upload } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/lib/utils";
+
+type PayoutBatch = {
+  id: number;
+  provider: string;
+  reference: string;
+  file_name: string;
+  payout_count: number;
+  total_amount: number;
+  currency: string;
+  execution_date: string | null;
+  reconciled_at: string | null;
+  created_at: string;
+  payout: Array<{
+    id: number;
+    name: string | null;
+    status: string;
+    payment_error: string | null;
+  }>;
+};
+
+type ReconcileResult = {
+  completed: number[];
+  failed: number[];
+  pending: number[];
+  unmatched: string[];
+};
+
+const PROVIDER_LABELS: Record<string, string> = {
+  sepa: "SEPA",
+  paypal: "PayPal",
+};
+
+export function downloadPayoutBatch(batchId: number, format?: "json") {
+  const link = document.createElement("a");
+  link.href = `/api/admin/payout-batches/${batchId}/file${
+    format ? `?format=${format}` : ""
+  }`;
+  link.click();
+}
+
+async function postBatchAction(url: string, body?: object) {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || "Request failed");
+  }
+
+  return response.json();
+}
+
+// Payment files generated for payouts, with the payouts each one contains.
+// Payouts are marked paid from here: by importing PayPal's result report, or
+// by confirming that the bank executed a SEPA file.
+export function PayoutBatchesCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+  const [importBatchId, setImportBatchId] = React.useState<number | null>(
+    null
+  );
+
+  const { data: batches, isLoading } = useQuery({
+    queryKey: ["payout-batches"],
+    queryFn: async (): Promise<PayoutBatch[]> => {
+      const response = await fetch("/api/admin/payout-batches");
+      if (!response.ok) {
+        throw new Error("Failed to fetch payout batches");
+      }
+      return response.json();
+    },
+  });
+
+  const onBatchUpdated = () => {
+    queryClient.invalidateQueries({ queryKey: ["payout-batches"] });
+    queryClient.invalidateQueries({ queryKey: ["admin-payouts"] });
+    queryClient.invalidateQueries({ queryKey: ["payouts"] });
+  };
+
+  const onBatchError = (error: Error) => {
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: error.message,
+    });
+  };
+
+  const reconcileMutation = useMutation({
+    mutationFn: ({ batchId, report }: { batchId: number; report: string }) =>
+      postBatchAction(`/api/admin/payout-batches/${batchId}/reconcile`, {
+        report,
+      }) as Promise<ReconcileResult>,
+    onSuccess: (result) => {
+      onBatchUpdated();
+      toast({
+        title: "PayPal Report Imported",
+        description: [
+          `${result.completed.length} paid`,
+          `${result.failed.length} failed`,
+          result.pending.length > 0 && `${result.pending.length} still pending`,
+          result.unmatched.length > 0 &&
+            `${result.unmatched.length} rows not in this batch`,
+        ]
+          .filter(Boolean)
+          .join(", "),
+      });
+    },
+    onError: onBatchError,
+  });
+
+  const completeMutation = useMutation({
+    mutationFn: (batchId: number) =>
+      postBatchAction(
+        `/api/admin/payout-batches/${batchId}/complete`
+      ) as Promise<{ completed: number[] }>,
+    onSuccess: (result) => {
+      onBatchUpdated();
+      toast({
+        title: "Batch Marked Paid",
+        description: `${result.completed.length} payout(s) marked as paid`,
+      });
+    },
+    onError: onBatchError,
+  });
+
+  const handleReportSelected = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file || importBatchId === null) return;
+
+    reconcileMutation.mutate({
+      batchId: importBatchId,
+      report: await file.text(),
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Payment Files</CardTitle>
+        <CardDescription>
+          Batch files generated for bank and PayPal uploads. Import
+          PayPal&apos;s result report, or confirm a SEPA file once the bank
+          has executed it, to mark its payouts as paid.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          className="hidden"
+          onChange={handleReportSelected}
+        />
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Reference</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Payouts</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Execution Date</TableHead>
+                <TableHead>Total</TableHead>
+                <TableHead>Created</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center py-4">
+                    <Loader2 className="h-4 w-4 animate-spin inline mr-2" />
+                    Loading payment files...
+                  </TableCell>
+                </TableRow>
+              ) : batches?.length ? (
+                batches.map((batch) => (
+                  <TableRow key={batch.id}>
+                    <TableCell className="font-medium">
+                      {batch.reference}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">
+                        {PROVIDER_LABELS[batch.provider] || batch.provider}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {batch.payout
+                        .map((payout) => `PO-${payout.id}`)
+                        .join(", ") || batch.payout_count}
+                    </TableCell>
+                    <TableCell>
+                      {batch.reconciled_at ? (
+                        <Badge className="bg-green-100 text-green-800">
+                          Settled
+                        </Badge>
+                      ) : (
+                        <Badge className="bg-yellow-100 text-yellow-800">
+                          Awaiting results
+                        </Badge>
+                      )}
+                      {batch.payout.some(
+                        (payout) => payout.status === "failed"
+                      ) && (
+                        <Badge className="bg-orange-100 text-orange-800 ml-2">
+                          {
+                            batch.payout.filter(
+                              (payout) => payout.status === "failed"
+                            ).length
+                          }{" "}
+                          failed
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {batch.execution_date
+                        ? format(new Date(batch.execution_date), "MMM d, yyyy")
+                        : "—"}
+                    </TableCell>
+                    <TableCell>
+                      {formatCurrency(
+                        Number(batch.total_amount),
+                        batch.currency
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {format(new Date(batch.created_at), "MMM d, yyyy HH:mm")}
+                    </TableCell>
+                    <TableCell className="text-right space-x-2 whitespace-nowrap">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => downloadPayoutBatch(batch.id)}
+                      >
+                        <Download className="h-4 w-4 mr-1" />
+                        {batch.provider === "paypal" ? "CSV" : "Download"}
+                      </Button>
+                      {batch.provider === "paypal" && (
+                        <>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() =>
+                              downloadPayoutBatch(batch.id, "json")
+                            }
+                          >
+                            <Download className="h-4 w-4 mr-1" />
+                            JSON
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => {
+                              setImportBatchId(batch.id);
+                              fileInputRef.current?.click();
+                            }}
+                            disabled={reconcileMutation.isPending}
+                          >
+                            {reconcileMutation.isPending &&
+                            reconcileMutation.variables?.batchId ===
+                              batch.id ? (
+                              <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                            ) : (
+                              <Upload className="h-4 w-4 mr-1" />
+                            )}
+                            Import Report
+                          </Button>
+                        </>
+                      )}
+                      {batch.provider === "sepa" && !batch.reconciled_at && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => completeMutation.mutate(batch.id)}
+                          disabled={completeMutation.isPending}
+                          className="text-green-600 border-green-600 hover:bg-green-50"
+                        >
+                          <CheckCircle className="h-4 w-4 mr-1" />
+                          Mark Paid
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell
+                    colSpan={8}
+                    className="text-center py-4 text-muted-foreground"
+                  >
+                    No payment files generated yet
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
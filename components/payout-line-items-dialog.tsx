@@ -0,0 +1,169 @@
+"use client";
+
+import * as React from "react";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+import { usePayoutLineItems } from "@/hooks/use-payouts";
+import { formatCurrency } from "@/lib/utils";
+
+interface PayoutLineItemsDialogProps {
+  payoutId: number | null;
+  period?: string;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Shows the Shopify order lines a payout was calculated from
+export function PayoutLineItemsDialog({
+  payoutId,
+  period,
+  onOpenChange,
+}: PayoutLineItemsDialogProps) {
+  const { data: lineItems, isLoading } = usePayoutLineItems(payoutId);
+
+  const totals = React.useMemo(
+    () =>
+      (lineItems || []).reduce(
+        (acc, item) => ({
+          quantity: acc.quantity + item.quantity,
+          gross: acc.gross + Number(item.gross_amount),
+          discount: acc.discount + Number(item.discount_amount),
+          net: acc.net + Number(item.net_amount),
+          commission: acc.commission + Number(item.commission_amount),
+        }),
+        { quantity: 0, gross: 0, discount: 0, net: 0, commission: 0 }
+      ),
+    [lineItems]
+  );
+
+  const currency = lineItems?.[0]?.currency || "GBP";
+
+  return (
+    <Dialog open={payoutId !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Payout PO-{payoutId} breakdown</DialogTitle>
+          <DialogDescription>
+            {period ? `Sales from ${period}` : "Sales"} included in this payout
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : !lineItems || lineItems.length === 0 ? (
+          <div className="flex justify-center items-center h-32 text-muted-foreground">
+            No line items were recorded for this payout
+          </div>
+        ) : (
+          <div className="max-h-[60vh] overflow-auto rounded-lg border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Order</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Poster</TableHead>
+                  <TableHead>Variant</TableHead>
+                  <TableHead className="text-right">Qty</TableHead>
+                  <TableHead className="text-right">Gross</TableHead>
+                  <TableHead className="text-right">Discount</TableHead>
+                  <TableHead className="text-right">Net</TableHead>
+                  <TableHead className="text-right">Commission</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lineItems.map((item) => (
+                  <TableRow key={item.id}>
+                    <TableCell className="font-mono text-xs">
+                      {item.shopify_order_name || item.shopify_order_id}
+                    </TableCell>
+                    <TableCell>
+                      {item.ordered_at
+                        ? new Date(item.ordered_at).toLocaleDateString(
+                            "en-US",
+                            { month: "short", day: "numeric", year: "numeric" }
+                          )
+                        : "—"}
+                    </TableCell>
+                    <TableCell>{item.product_title || "Untitled"}</TableCell>
+                    <TableCell>{item.variant_title || "Default"}</TableCell>
+                    <TableCell className="text-right">{item.quantity}</TableCell>
+                    <TableCell className="text-right">
+                      {formatCurrency(Number(item.gross_amount), item.currency)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {Number(item.discount_amount) > 0
+                        ? `-${formatCurrency(
+                            Number(item.discount_amount),
+                            item.currency
+                          )}`
+                        : "—"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatCurrency(Number(item.net_amount), item.currency)}
+                      {/* Converted lines also show the order's own amount */}
+                      {item.original_currency &&
+                        item.original_currency !== item.currency && (
+                          <div className="text-xs text-muted-foreground">
+                            {formatCurrency(
+                              Number(item.original_net_amount),
+                              item.original_currency
+                            )}{" "}
+                            @ {Number(item.fx_rate).toFixed(4)}
+                          </div>
+                        )}
+                    </TableCell>
+                    <TableCell className="text-right font-medium">
+                      {formatCurrency(
+                        Number(item.commission_amount),
+                        item.currency
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell colSpan={4}>Total</TableCell>
+                  <TableCell className="text-right">{totals.quantity}</TableCell>
+                  <TableCell className="text-right">
+                    {formatCurrency(totals.gross, currency)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {totals.discount > 0
+                      ? `-${formatCurrency(totals.discount, currency)}`
+                      : "—"}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatCurrency(totals.net, currency)}
+                  </TableCell>
+                  <TableCell className="text-right font-medium">
+                    {formatCurrency(totals.commission, currency)}
+                  </TableCell>
+                </TableRow>
+              </TableFooter>
+            </Table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
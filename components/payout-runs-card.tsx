@@ -0,0 +1,310 @@
+"use client";
+
+import * as React from "react";
+import { format } from "date-fns";
+import { Loader2, RotateCw } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/lib/utils";
+
+type PayoutRunCreator = {
+  creator_id: string;
+  status: "pending" | "computed" | "written" | "failed";
+  amount: number | null;
+  currency: string | null;
+  payout_id: number | null;
+  balance_entry_id: number | null;
+  error: string | null;
+  updated_at: string;
+  profiles: { name: string | null } | null;
+};
+
+type PayoutRun = {
+  id: number;
+  period_start: string;
+  period_end: string;
+  status: "running" | "completed" | "failed";
+  attempts: number;
+  started_at: string;
+  updated_at: string;
+  finished_at: string | null;
+  error: string | null;
+  creators: PayoutRunCreator[];
+};
+
+const STATUS_CLASSES: Record<string, string> = {
+  completed: "bg-green-100 text-green-800",
+  written: "bg-green-100 text-green-800",
+  running: "bg-blue-100 text-blue-800",
+  computed: "bg-blue-100 text-blue-800",
+  pending: "bg-yellow-100 text-yellow-800",
+  failed: "bg-red-100 text-red-800",
+};
+
+function StatusBadge({ status }: { status: string }) {
+  return (
+    <Badge className={`capitalize ${STATUS_CLASSES[status] || ""}`}>
+      {status}
+    </Badge>
+  );
+}
+
+// History of monthly payout runs. A run that failed for some creators (or
+// crashed) can be resumed; creators that were already written are skipped.
+export function PayoutRunsCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedRun, setSelectedRun] = React.useState<PayoutRun | null>(
+    null
+  );
+
+  const { data: runs, isLoading } = useQuery({
+    queryKey: ["payout-runs"],
+    queryFn: async (): Promise<PayoutRun[]> => {
+      const response = await fetch("/api/admin/payout-runs");
+      if (!response.ok) {
+        throw new Error("Failed to fetch payout runs");
+      }
+      return response.json();
+    },
+  });
+
+  const resumeMutation = useMutation({
+    mutationFn: async (run: PayoutRun) => {
+      const apiKey = process.env.NEXT_PUBLIC_CRON_API_KEY || "test-key";
+      const response = await fetch(
+        `/api/cron/monthly-payouts?date=${run.period_start.slice(0, 7)}`,
+        {
+          method: "GET",
+          headers: {
+            Authorization: `Bearer ${apiKey}`,
+          },
+        }
+      );
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.error || "Failed to resume payout run");
+      }
+
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["payout-runs"] });
+      queryClient.invalidateQueries({ queryKey: ["payouts"] });
+      queryClient.invalidateQueries({ queryKey: ["creator-balances"] });
+      toast({
+        title: "Run resumed",
+        description: `Payout run finished with status: ${
+          data.run?.status || "unknown"
+        }`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description:
+          error instanceof Error
+            ? error.message
+            : "Failed to resume payout run",
+      });
+    },
+  });
+
+  const countByStatus = (run: PayoutRun, status: PayoutRunCreator["status"]) =>
+    run.creators.filter((creator) => creator.status === status).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Payout Runs</CardTitle>
+        <CardDescription>
+          Each month&apos;s payout run and how far it got for every creator.
+          Resuming a run only retries creators that weren&apos;t written.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Period</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Creators</TableHead>
+              <TableHead>Attempts</TableHead>
+              <TableHead>Last Activity</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center py-4">
+                  <Loader2 className="h-4 w-4 animate-spin inline mr-2" />
+                  Loading payout runs...
+                </TableCell>
+              </TableRow>
+            ) : runs?.length ? (
+              runs.map((run) => (
+                <TableRow key={run.id}>
+                  <TableCell>
+                    {format(new Date(run.period_start), "MMMM yyyy")}
+                  </TableCell>
+                  <TableCell>
+                    <StatusBadge status={run.status} />
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {countByStatus(run, "written")} written
+                    {countByStatus(run, "failed") > 0 &&
+                      `, ${countByStatus(run, "failed")} failed`}
+                    {countByStatus(run, "pending") +
+                      countByStatus(run, "computed") >
+                      0 &&
+                      `, ${
+                        countByStatus(run, "pending") +
+                        countByStatus(run, "computed")
+                      } unfinished`}
+                  </TableCell>
+                  <TableCell>{run.attempts}</TableCell>
+                  <TableCell>
+                    {format(
+                      new Date(run.finished_at || run.updated_at),
+                      "MMM d, yyyy HH:mm"
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setSelectedRun(run)}
+                    >
+                      Details
+                    </Button>
+                    {run.status !== "completed" && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => resumeMutation.mutate(run)}
+                        disabled={resumeMutation.isPending}
+                      >
+                        {resumeMutation.isPending &&
+                        resumeMutation.variables?.id === run.id ? (
+                          <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                        ) : (
+                          <RotateCw className="h-4 w-4 mr-1" />
+                        )}
+                        Resume
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell
+                  colSpan={6}
+                  className="text-center py-4 text-muted-foreground"
+                >
+                  No payout runs yet
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      <Dialog
+        open={selectedRun !== null}
+        onOpenChange={(open) => !open && setSelectedRun(null)}
+      >
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>
+              Payout run
+              {selectedRun &&
+                ` – ${format(new Date(selectedRun.period_start), "MMMM yyyy")}`}
+            </DialogTitle>
+            <DialogDescription>
+              {selectedRun?.error ||
+                `Attempt ${selectedRun?.attempts ?? 1}, started ${
+                  selectedRun
+                    ? format(
+                        new Date(selectedRun.started_at),
+                        "MMM d, yyyy HH:mm"
+                      )
+                    : ""
+                }`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="max-h-[60vh] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Creator</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Result</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {selectedRun?.creators.map((creator) => (
+                  <TableRow key={creator.creator_id}>
+                    <TableCell>
+                      {creator.profiles?.name || creator.creator_id}
+                    </TableCell>
+                    <TableCell>
+                      <StatusBadge status={creator.status} />
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {creator.error ||
+                        (creator.payout_id
+                          ? `PO-${creator.payout_id}`
+                          : creator.balance_entry_id
+                          ? "Rolled over to balance"
+                          : creator.status === "written"
+                          ? "Nothing to pay"
+                          : "—")}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {creator.amount !== null
+                        ? formatCurrency(
+                            Number(creator.amount),
+                            creator.currency || "GBP"
+                          )
+                        : "—"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
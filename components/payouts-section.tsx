@@ -9,6 +9,7 @@ import {
   CheckIcon,
   ChevronsUpDownIcon,
   CreditCardIcon,
+  DownloadIcon,
   InfoIcon,
   TrashIcon,
 } from "lucide-react";
@@ -60,9 +61,10 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { cn } from "@/lib/utils";
-import { usePayouts } from "@/hooks/use-payouts";
+import { PayoutAdjustmentEntry, usePayouts } from "@/hooks/use-payouts";
 import { Skeleton } from "@/components/ui/skeleton";
 import { formatCurrency } from "@/lib/utils";
+import { PayoutLineItemsDialog } from "@/components/payout-line-items-dialog";
 
 // Define the schema for the payout methods form (removed currency, accountHolder, and bic)
 const payoutMethodsSchema = z.object({
@@ -86,12 +88,19 @@ type PayoutMethodsValues = z.infer<typeof payoutMethodsSchema>;
 export function PayoutsSection() {
   const [showDeleteConfirmation, setShowDeleteConfirmation] =
     React.useState(false);
+  const [selectedPayout, setSelectedPayout] = React.useState<{
+    id: number;
+    period: string;
+  } | null>(null);
 
   const {
     userProfile,
     payoutHistory,
+    payoutAdjustments,
+    balance,
     isLoadingProfile,
     isLoadingHistory,
+    isLoadingAdjustments,
     updatePayoutMethod,
     deletePayoutMethod,
     isUpdating,
@@ -152,6 +161,49 @@ export function PayoutsSection() {
     updatePayoutMethod(data);
   }
 
+  // Clawbacks not yet deducted are shown above the payouts they'll come out of
+  const outstandingAdjustments = (payoutAdjustments || []).filter(
+    (adjustment) => adjustment.applied_payout_id === null
+  );
+
+  // Refunds and chargebacks are listed as their own negative lines
+  const renderAdjustmentRow = (
+    adjustment: PayoutAdjustmentEntry,
+    note: string
+  ) => (
+    <TableRow key={`adjustment-${adjustment.id}`} className="bg-muted/30">
+      <TableCell className="font-mono text-xs text-muted-foreground">
+        {adjustment.type === "chargeback" ? "Chargeback" : "Refund"}
+      </TableCell>
+      <TableCell className="text-muted-foreground">
+        Order {adjustment.shopify_order_name || "—"}
+        {adjustment.reason && (
+          <span className="block text-xs">{adjustment.reason}</span>
+        )}
+      </TableCell>
+      <TableCell className="text-right font-medium text-destructive">
+        {formatCurrency(Number(adjustment.amount), adjustment.currency)}
+      </TableCell>
+      <TableCell></TableCell>
+      <TableCell>
+        <Badge
+          variant="outline"
+          className="bg-amber-50 text-amber-700 border-amber-200 dark:bg-amber-950 dark:text-amber-300 dark:border-amber-800"
+        >
+          {note}
+        </Badge>
+      </TableCell>
+      <TableCell>
+        {new Date(adjustment.occurred_at).toLocaleDateString("en-US", {
+          month: "short",
+          day: "numeric",
+          year: "numeric",
+        })}
+      </TableCell>
+      <TableCell></TableCell>
+    </TableRow>
+  );
+
   if (isLoadingProfile) {
     return (
       <div className="space-y-8 px-4 lg:px-6">
@@ -339,22 +391,53 @@ export function PayoutsSection() {
 
       <Separator className="my-6" />
 
+      {balance && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Balance</CardTitle>
+            <CardDescription>
+              Earnings below the minimum payout roll over to the next month
+              and are paid out together once they reach it.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-col gap-2 sm:flex-row sm:items-end sm:justify-between">
+            <div>
+              <div className="text-2xl font-semibold">
+                {formatCurrency(balance.amount, balance.currency)}
+              </div>
+              <div className="text-sm text-muted-foreground">
+                Carried over from {balance.months.join(", ")}
+              </div>
+            </div>
+            {balance.threshold !== null && (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <InfoIcon className="h-4 w-4" />
+                Paid out once your earnings reach{" "}
+                {formatCurrency(balance.threshold, balance.currency)}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       <Card>
         <CardHeader>
           <CardTitle>Payout History</CardTitle>
           <CardDescription>
             View your past and upcoming payouts. Payouts are processed on the
-            15th of each month.
+            15th of each month. Refunds and chargebacks on orders that were
+            already paid out are deducted from your next payout.
           </CardDescription>
         </CardHeader>
         <CardContent>
-          {isLoadingHistory ? (
+          {isLoadingHistory || isLoadingAdjustments ? (
             <div className="space-y-3">
               <Skeleton className="h-12 w-full" />
               <Skeleton className="h-12 w-full" />
               <Skeleton className="h-12 w-full" />
             </div>
-          ) : !payoutHistory || payoutHistory.length === 0 ? (
+          ) : (!payoutHistory || payoutHistory.length === 0) &&
+            outstandingAdjustments.length === 0 ? (
             <div className="flex justify-center items-center h-40 text-muted-foreground">
               No payout history available yet
             </div>
@@ -369,48 +452,101 @@ export function PayoutsSection() {
                     <TableHead>Method</TableHead>
                     <TableHead>Status</TableHead>
                     <TableHead>Date</TableHead>
+                    <TableHead></TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {payoutHistory.map((payout) => (
-                    <TableRow key={payout.id}>
-                      <TableCell className="font-mono text-xs">
-                        PO-{payout.id}
-                      </TableCell>
-                      <TableCell>{payout.period}</TableCell>
-                      <TableCell className="text-right font-medium">
-                        {formatCurrency(payout.amount, payout.currency)}
-                      </TableCell>
-                      <TableCell>
-                        <div className="flex items-center gap-2">
-                          <CreditCardIcon className="h-4 w-4 text-muted-foreground" />
-                          <span className="capitalize">{payout.method}</span>
-                        </div>
-                      </TableCell>
-                      <TableCell>
-                        <Badge
-                          variant={
-                            payout.status === "completed"
-                              ? "success"
-                              : "default"
-                          }
-                          className={
-                            payout.status === "completed"
-                              ? "bg-green-50 text-green-700 border-green-200 dark:bg-green-950 dark:text-green-300 dark:border-green-800"
-                              : "bg-blue-50 text-blue-700 border-blue-200 dark:bg-blue-950 dark:text-blue-300 dark:border-blue-800"
-                          }
-                        >
-                          {payout.status === "completed" ? "Paid" : "Pending"}
-                        </Badge>
-                      </TableCell>
-                      <TableCell>
-                        {payout.date.toLocaleDateString("en-US", {
-                          month: "short",
-                          day: "numeric",
-                          year: "numeric",
-                        })}
-                      </TableCell>
-                    </TableRow>
+                  {outstandingAdjustments.map((adjustment) =>
+                    renderAdjustmentRow(adjustment, "Next payout")
+                  )}
+                  {(payoutHistory || []).map((payout) => (
+                    <React.Fragment key={payout.id}>
+                      <TableRow>
+                        <TableCell className="font-mono text-xs">
+                          PO-{payout.id}
+                        </TableCell>
+                        <TableCell>{payout.period}</TableCell>
+                        <TableCell className="text-right font-medium">
+                          {formatCurrency(payout.amount, payout.currency)}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <CreditCardIcon className="h-4 w-4 text-muted-foreground" />
+                            <span className="capitalize">{payout.method}</span>
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <Badge
+                            variant={
+                              payout.status === "completed"
+                                ? "success"
+                                : "default"
+                            }
+                            className={
+                              payout.status === "completed"
+                                ? "bg-green-50 text-green-700 border-green-200 dark:bg-green-950 dark:text-green-300 dark:border-green-800"
+                                : payout.status === "failed"
+                                ? "bg-orange-50 text-orange-700 border-orange-200 dark:bg-orange-950 dark:text-orange-300 dark:border-orange-800"
+                                : "bg-blue-50 text-blue-700 border-blue-200 dark:bg-blue-950 dark:text-blue-300 dark:border-blue-800"
+                            }
+                          >
+                            {payout.status === "completed"
+                              ? "Paid"
+                              : payout.status === "failed"
+                              ? "Payment failed"
+                              : "Pending"}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          {payout.date.toLocaleDateString("en-US", {
+                            month: "short",
+                            day: "numeric",
+                            year: "numeric",
+                          })}
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          {(["pdf", "csv"] as const).map((format) => (
+                            <Button
+                              key={format}
+                              variant="ghost"
+                              size="sm"
+                              asChild
+                            >
+                              <a
+                                href={`/api/dashboard/payouts/${payout.id}/statement?format=${format}`}
+                                download
+                              >
+                                <DownloadIcon className="h-3 w-3 mr-1" />
+                                {format.toUpperCase()}
+                              </a>
+                            </Button>
+                          ))}
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() =>
+                              setSelectedPayout({
+                                id: payout.id,
+                                period: payout.period,
+                              })
+                            }
+                          >
+                            Details
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                      {(payoutAdjustments || [])
+                        .filter(
+                          (adjustment) =>
+                            adjustment.applied_payout_id === payout.id
+                        )
+                        .map((adjustment) =>
+                          renderAdjustmentRow(
+                            adjustment,
+                            `Deducted from PO-${payout.id}`
+                          )
+                        )}
+                    </React.Fragment>
                   ))}
                 </TableBody>
               </Table>
@@ -419,6 +555,12 @@ export function PayoutsSection() {
         </CardContent>
       </Card>
 
+      <PayoutLineItemsDialog
+        payoutId={selectedPayout?.id ?? null}
+        period={selectedPayout?.period}
+        onOpenChange={(open) => !open && setSelectedPayout(null)}
+      />
+
       {/* Delete confirmation dialog */}
       <Dialog
         open={showDeleteConfirmation}
@@ -0,0 +1,312 @@
+"use client";
+
+import * as React from "react";
+import { format } from "date-fns";
+import { Check, Loader2, X } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { usePosterSizes } from "@/hooks/use-poster-sizes";
+
+type PosterChanges = {
+  title?: string;
+  description?: string;
+  prices?: Record<string, string>;
+};
+
+type PosterChangeRequest = {
+  id: number;
+  poster_id: string;
+  changes: PosterChanges;
+  previous: PosterChanges;
+  error: string | null;
+  created_at: string;
+  posters: { title: string; shopify_product_id: string | null } | null;
+  profiles: { name: string | null } | null;
+};
+
+type ReviewAction = "approve" | "reject";
+
+// "old → new" lines for every field in the request
+function ChangeSummary({ request }: { request: PosterChangeRequest }) {
+  const { changes, previous } = request;
+  const { sizes } = usePosterSizes();
+  const sizeName = (size: string) =>
+    sizes.find((option) => option.id === size)?.label || size;
+
+  return (
+    <div className="space-y-1 text-sm">
+      {changes.title !== undefined && (
+        <div>
+          <span className="text-muted-foreground">Title: </span>
+          <span className="line-through">{previous.title}</span> →{" "}
+          {changes.title}
+        </div>
+      )}
+      {changes.description !== undefined && (
+        <div>
+          <span className="text-muted-foreground">Description: </span>
+          <span className="whitespace-pre-line">
+            {changes.description || "(empty)"}
+          </span>
+        </div>
+      )}
+      {Object.entries(changes.prices || {}).map(([size, price]) => (
+        <div key={size}>
+          <span className="text-muted-foreground">{sizeName(size)}: </span>
+          <span className="line-through">
+            £{previous.prices?.[size] || "—"}
+          </span>{" "}
+          → £{price}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Creator edits to live posters. Approving pushes the change to the Shopify
+// product and the poster; rejecting leaves both as they are.
+export function PosterChangeRequestsCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [rejecting, setRejecting] = React.useState<PosterChangeRequest | null>(
+    null
+  );
+  const [note, setNote] = React.useState("");
+
+  const { data: requests, isLoading } = useQuery({
+    queryKey: ["poster-changes"],
+    queryFn: async (): Promise<PosterChangeRequest[]> => {
+      const response = await fetch("/api/admin/poster-changes");
+      if (!response.ok) {
+        throw new Error("Failed to fetch change requests");
+      }
+      return response.json();
+    },
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({
+      id,
+      action,
+      note,
+    }: {
+      id: number;
+      action: ReviewAction;
+      note?: string;
+    }) => {
+      const response = await fetch("/api/admin/poster-changes", {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ id, action, note }),
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.error || "Failed to review change request");
+      }
+
+      return response.json();
+    },
+    onSuccess: (_, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ["poster-changes"] });
+      queryClient.invalidateQueries({ queryKey: ["posters"] });
+      toast({
+        title: action === "approve" ? "Changes approved" : "Changes rejected",
+        description:
+          action === "approve"
+            ? "The poster and its Shopify product have been updated"
+            : "The creator's changes were not applied",
+      });
+      setRejecting(null);
+      setNote("");
+    },
+    onError: (error) => {
+      // A failed Shopify push is stored on the request
+      queryClient.invalidateQueries({ queryKey: ["poster-changes"] });
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description:
+          error instanceof Error
+            ? error.message
+            : "Failed to review change request",
+      });
+    },
+  });
+
+  const isReviewing = (request: PosterChangeRequest) =>
+    reviewMutation.isPending && reviewMutation.variables?.id === request.id;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Poster Changes</CardTitle>
+        <CardDescription>
+          Title, description and price edits submitted by creators. Approved
+          changes are pushed to the Shopify product.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Poster</TableHead>
+              <TableHead>Creator</TableHead>
+              <TableHead>Changes</TableHead>
+              <TableHead>Submitted</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center py-4">
+                  <Loader2 className="h-4 w-4 animate-spin inline mr-2" />
+                  Loading change requests...
+                </TableCell>
+              </TableRow>
+            ) : requests?.length ? (
+              requests.map((request) => (
+                <TableRow key={request.id}>
+                  <TableCell className="font-medium">
+                    {request.posters?.title || request.poster_id}
+                  </TableCell>
+                  <TableCell>{request.profiles?.name || "Unknown"}</TableCell>
+                  <TableCell className="max-w-md">
+                    <ChangeSummary request={request} />
+                    {request.error && (
+                      <p className="mt-1 text-sm text-destructive">
+                        {request.error}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {format(new Date(request.created_at), "MMM d, yyyy HH:mm")}
+                  </TableCell>
+                  <TableCell className="text-right space-x-2 whitespace-nowrap">
+                    <Button
+                      size="sm"
+                      onClick={() =>
+                        reviewMutation.mutate({
+                          id: request.id,
+                          action: "approve",
+                        })
+                      }
+                      disabled={reviewMutation.isPending}
+                    >
+                      {isReviewing(request) &&
+                      reviewMutation.variables?.action === "approve" ? (
+                        <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                      ) : (
+                        <Check className="h-4 w-4 mr-1" />
+                      )}
+                      Approve
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setRejecting(request)}
+                      disabled={reviewMutation.isPending}
+                    >
+                      <X className="h-4 w-4 mr-1" />
+                      Reject
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell
+                  colSpan={5}
+                  className="text-center py-4 text-muted-foreground"
+                >
+                  No changes waiting for review
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      <Dialog
+        open={rejecting !== null}
+        onOpenChange={(open) => {
+          if (!open) {
+            setRejecting(null);
+            setNote("");
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject changes</DialogTitle>
+            <DialogDescription>
+              The changes to &quot;{rejecting?.posters?.title}&quot; won&apos;t
+              be applied. The note is shown to the creator.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="rejectNote">Note</Label>
+            <Textarea
+              id="rejectNote"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Why the changes were rejected"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={reviewMutation.isPending}
+              onClick={() =>
+                rejecting &&
+                reviewMutation.mutate({
+                  id: rejecting.id,
+                  action: "reject",
+                  note: note.trim() || undefined,
+                })
+              }
+            >
+              {reviewMutation.isPending && (
+                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+              )}
+              Reject
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,206 @@
+"use client";
+
+import * as React from "react";
+import { Loader2 } from "lucide-react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import {
+  REVIEW_REASONS,
+  type ReviewDecision,
+  type ReviewReason,
+} from "@/lib/poster-reviews";
+
+// Reject a pending poster or request changes to it, with a reason, a note
+// for the creator and, for change requests, the size files to replace
+export function PosterReviewDialog({
+  poster,
+  open,
+  onOpenChange,
+}: {
+  poster: { id: string; title: string; selectedSizes?: string[] } | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [decision, setDecision] =
+    React.useState<ReviewDecision>("changesRequested");
+  const [reason, setReason] = React.useState<ReviewReason | "">("");
+  const [note, setNote] = React.useState("");
+  const [sizes, setSizes] = React.useState<string[]>([]);
+
+  // Each poster starts with a blank review
+  React.useEffect(() => {
+    if (open) {
+      setDecision("changesRequested");
+      setReason("");
+      setNote("");
+      setSizes([]);
+    }
+  }, [open, poster?.id]);
+
+  const reviewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/admin/posters/${poster!.id}/review`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          decision,
+          reason,
+          note,
+          sizes: decision === "changesRequested" ? sizes : [],
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to review poster");
+      }
+
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["posters"] });
+      queryClient.invalidateQueries({
+        queryKey: ["poster-history", poster?.id],
+      });
+      toast({
+        title:
+          decision === "rejected" ? "Poster Rejected" : "Changes Requested",
+        description: `The creator of "${poster?.title}" can now see your feedback`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to review poster",
+      });
+    },
+  });
+
+  const toggleSize = (size: string, checked: boolean) =>
+    setSizes((prev) =>
+      checked ? [...prev, size] : prev.filter((s) => s !== size)
+    );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Review Poster</DialogTitle>
+          <DialogDescription>
+            Tell the creator of &quot;{poster?.title}&quot; why it can&apos;t
+            be approved yet.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup
+            value={decision}
+            onValueChange={(value) => setDecision(value as ReviewDecision)}
+          >
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="changesRequested" id="reviewChanges" />
+              <Label htmlFor="reviewChanges">
+                Request changes – the creator can upload a new revision
+              </Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="rejected" id="reviewReject" />
+              <Label htmlFor="reviewReject">Reject</Label>
+            </div>
+          </RadioGroup>
+
+          <div className="space-y-2">
+            <Label>Reason</Label>
+            <Select
+              value={reason}
+              onValueChange={(value) => setReason(value as ReviewReason)}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a reason" />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(REVIEW_REASONS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="reviewNote">Note for the creator</Label>
+            <Textarea
+              id="reviewNote"
+              rows={4}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+
+          {decision === "changesRequested" &&
+            (poster?.selectedSizes?.length ?? 0) > 0 && (
+              <div className="space-y-2">
+                <Label>Size files to replace</Label>
+                {poster?.selectedSizes?.map((size) => (
+                  <div key={size} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`reviewSize-${size}`}
+                      checked={sizes.includes(size)}
+                      onCheckedChange={(checked) =>
+                        toggleSize(size, checked === true)
+                      }
+                    />
+                    <Label htmlFor={`reviewSize-${size}`}>{size}</Label>
+                  </div>
+                ))}
+              </div>
+            )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            variant={decision === "rejected" ? "destructive" : "default"}
+            disabled={!reason || reviewMutation.isPending}
+            onClick={() => reviewMutation.mutate()}
+          >
+            {reviewMutation.isPending && (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            )}
+            {decision === "rejected" ? "Reject" : "Request Changes"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
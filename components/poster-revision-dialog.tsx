@@ -0,0 +1,329 @@
+"use client";
+
+import * as React from "react";
+import {
+  CheckIcon,
+  Loader2,
+  PauseIcon,
+  PlayIcon,
+  RotateCwIcon,
+  TrashIcon,
+  UploadIcon,
+} from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Progress } from "@/components/ui/progress";
+import { PosterStatusHistory } from "@/components/poster-status-history";
+import { sizeDisplayName } from "@/lib/poster-sizes";
+import type { PosterImages } from "@/lib/poster-images";
+import {
+  REVIEW_REASONS,
+  type PosterStatusChange,
+} from "@/lib/poster-reviews";
+import { usePosterSizes } from "@/hooks/use-poster-sizes";
+import { useResumableUploads } from "@/hooks/use-resumable-uploads";
+import type { Product } from "@/components/product-table";
+
+// Feedback on a rejected poster or one with changes requested, and a new
+// revision of it with new files for some of its sizes. The sizes the
+// review names need a new file.
+export function PosterRevisionButton({ product }: { product: Product }) {
+  const queryClient = useQueryClient();
+  const [open, setOpen] = React.useState(false);
+  const { sizes: catalogue } = usePosterSizes();
+  const { uploads, start, pause, resume, cancel, cancelAll } =
+    useResumableUploads();
+
+  const review = product.review;
+
+  const { data: history, isLoading: isHistoryLoading } = useQuery({
+    queryKey: ["poster-history", product.id],
+    queryFn: async () => {
+      const response = await fetch(
+        `/api/dashboard/products/${product.id}/history`
+      );
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to fetch poster history");
+      }
+      return data.history as PosterStatusChange[];
+    },
+    enabled: open,
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      const images: PosterImages = {};
+      Object.entries(uploads).forEach(([sizeId, upload]) => {
+        if (upload.status === "complete" && upload.image) {
+          images[sizeId] = upload.image;
+        }
+      });
+
+      const response = await fetch(
+        `/api/dashboard/products/${product.id}/revisions`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ images }),
+        }
+      );
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to submit revision");
+      }
+
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({
+        queryKey: ["poster-history", product.id],
+      });
+      toast.success("Your new files were submitted for review.");
+      cancelAll();
+      setOpen(false);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to submit revision");
+    },
+  });
+
+  if (!review) return null;
+
+  const requested = new Set(review.sizes);
+  const sizes = (product.selectedSizes || []).map((size) => ({
+    id: size,
+    option: catalogue.find((option) => option.id === size),
+  }));
+
+  const uploadList = Object.values(uploads);
+  const canSubmit =
+    uploadList.some((upload) => upload.status === "complete") &&
+    uploadList.every((upload) => upload.status === "complete") &&
+    review.sizes.every((size) => uploads[size]?.status === "complete");
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) cancelAll();
+    setOpen(nextOpen);
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        className="mr-2"
+        onClick={() => setOpen(true)}
+      >
+        <UploadIcon className="mr-2 size-4" />
+        Revise
+      </Button>
+
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Revise Poster</DialogTitle>
+            <DialogDescription>
+              Upload new files for &quot;{product.name}&quot;. The poster goes
+              back to our team for review.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div
+            className={`rounded-md p-3 text-sm ${
+              review.decision === "rejected"
+                ? "bg-red-50 text-red-700 dark:bg-red-950 dark:text-red-300"
+                : "bg-blue-50 text-blue-700 dark:bg-blue-950 dark:text-blue-300"
+            }`}
+          >
+            <p className="font-medium">
+              {review.decision === "rejected"
+                ? "Rejected"
+                : "Changes requested"}
+              : {REVIEW_REASONS[review.reason]}
+            </p>
+            {review.note && <p className="mt-1">{review.note}</p>}
+          </div>
+
+          <div className="space-y-3">
+            {sizes.map(({ id, option }) => {
+              const upload = uploads[id];
+              return (
+                <div key={id} className="space-y-2 rounded-md border p-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-medium">
+                      {option ? sizeDisplayName(option) : id}
+                    </span>
+                    {requested.has(id) && (
+                      <Badge
+                        variant="outline"
+                        className="border-blue-200 bg-blue-50 text-blue-700 dark:border-blue-800 dark:bg-blue-950 dark:text-blue-300"
+                      >
+                        Needs a new file
+                      </Badge>
+                    )}
+                  </div>
+
+                  {!upload && (
+                    <>
+                      <input
+                        id={`revision-file-${product.id}-${id}`}
+                        type="file"
+                        accept="image/jpeg,image/png,image/tiff"
+                        className="hidden"
+                        onChange={(e) => {
+                          const file = e.target.files?.[0];
+                          if (file) start(id, file);
+                          e.target.value = "";
+                        }}
+                      />
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() =>
+                          document
+                            .getElementById(
+                              `revision-file-${product.id}-${id}`
+                            )
+                            ?.click()
+                        }
+                      >
+                        <UploadIcon className="mr-2 h-4 w-4" />
+                        Select File
+                      </Button>
+                    </>
+                  )}
+
+                  {upload && (
+                    <div className="flex items-center gap-2">
+                      <div className="flex-1 space-y-1">
+                        {["uploading", "paused", "error"].includes(
+                          upload.status
+                        ) && (
+                          <Progress
+                            value={
+                              upload.bytesTotal
+                                ? (upload.bytesUploaded / upload.bytesTotal) *
+                                  100
+                                : 0
+                            }
+                            className="h-2"
+                          />
+                        )}
+                        <p
+                          className={`text-xs ${
+                            upload.status === "rejected" ||
+                            upload.status === "error"
+                              ? "text-red-600"
+                              : "text-muted-foreground"
+                          }`}
+                        >
+                          {upload.error ||
+                            {
+                              uploading: "Uploading...",
+                              paused: "Paused",
+                              error: "",
+                              processing: "Checking artwork...",
+                              complete: "Ready",
+                              rejected: "",
+                            }[upload.status]}
+                        </p>
+                      </div>
+
+                      {upload.status === "uploading" && (
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          onClick={() => pause(id)}
+                        >
+                          <PauseIcon className="h-3 w-3" />
+                          <span className="sr-only">Pause</span>
+                        </Button>
+                      )}
+                      {(upload.status === "paused" ||
+                        upload.status === "error") && (
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          onClick={() => resume(id)}
+                        >
+                          {upload.status === "error" ? (
+                            <RotateCwIcon className="h-3 w-3" />
+                          ) : (
+                            <PlayIcon className="h-3 w-3" />
+                          )}
+                          <span className="sr-only">Resume</span>
+                        </Button>
+                      )}
+                      {upload.status === "processing" && (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      )}
+                      {upload.status === "complete" && (
+                        <CheckIcon className="h-4 w-4 text-green-600" />
+                      )}
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() => cancel(id)}
+                        disabled={upload.status === "processing"}
+                      >
+                        <TrashIcon className="h-3 w-3" />
+                        <span className="sr-only">Remove file</span>
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">History</h4>
+            {isHistoryLoading ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <PosterStatusHistory history={history || []} />
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => handleOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => submitMutation.mutate()}
+              disabled={!canSubmit || submitMutation.isPending}
+            >
+              {submitMutation.isPending && (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              Submit Revision
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,45 @@
+"use client";
+
+import { format } from "date-fns";
+import { ArrowRightIcon } from "lucide-react";
+
+import { STATUS_LABELS, type PosterStatusChange } from "@/lib/poster-reviews";
+
+// A poster's status changes, oldest first: when, who, from and to which
+// status and why
+export function PosterStatusHistory({
+  history,
+}: {
+  history: PosterStatusChange[];
+}) {
+  if (history.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">No status changes yet.</p>
+    );
+  }
+
+  return (
+    <ol className="space-y-3 border-l pl-4">
+      {history.map((change) => (
+        <li key={change.id} className="space-y-0.5">
+          <div className="flex flex-wrap items-center gap-1 text-sm font-medium">
+            {change.from_status && (
+              <>
+                <span>{STATUS_LABELS[change.from_status]}</span>
+                <ArrowRightIcon className="h-3 w-3 text-muted-foreground" />
+              </>
+            )}
+            <span>{STATUS_LABELS[change.to_status]}</span>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {format(new Date(change.created_at), "MMM d, yyyy HH:mm")}
+            {" · "}
+            {change.profiles?.name ||
+              (change.changed_by ? "Unknown" : "System")}
+          </p>
+          {change.note && <p className="text-sm">{change.note}</p>}
+        </li>
+      ))}
+    </ol>
+  );
+}
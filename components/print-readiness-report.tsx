@@ -0,0 +1,132 @@
+"use client";
+
+import * as React from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  AlertTriangle,
+  CheckCircle2,
+  Download,
+  Loader2,
+  XCircle,
+} from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import type {
+  ArtworkCheckName,
+  ArtworkCheckStatus,
+  ArtworkReport,
+} from "@/lib/artwork-validation";
+
+const CHECK_LABELS: Record<ArtworkCheckName, string> = {
+  file_type: "File",
+  resolution: "Resolution",
+  aspect_ratio: "Aspect ratio",
+  color_profile: "Colour profile",
+};
+
+const STATUS_BADGES: Record<
+  ArtworkCheckStatus,
+  { variant: "success" | "warning" | "destructive"; text: string }
+> = {
+  pass: { variant: "success", text: "Print-ready" },
+  warn: { variant: "warning", text: "Check" },
+  fail: { variant: "destructive", text: "Not print-ready" },
+};
+
+function StatusIcon({ status }: { status: ArtworkCheckStatus }) {
+  if (status === "pass") {
+    return <CheckCircle2 className="h-4 w-4 shrink-0 text-green-600" />;
+  }
+  if (status === "warn") {
+    return <AlertTriangle className="h-4 w-4 shrink-0 text-yellow-600" />;
+  }
+  return <XCircle className="h-4 w-4 shrink-0 text-red-600" />;
+}
+
+// The print-readiness reports of a poster's uploaded images, one per size,
+// for reviewers deciding whether to approve it, with a download link to
+// each print file
+export function PrintReadinessReport({ posterId }: { posterId: string }) {
+  // Signed URLs expire, so they aren't kept once the report is closed
+  const { data: printFiles = {} } = useQuery({
+    queryKey: ["print-files", posterId],
+    queryFn: async (): Promise<Record<string, string>> => {
+      const response = await fetch(`/api/admin/posters/${posterId}/originals`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch print files");
+      }
+      return response.json();
+    },
+    gcTime: 0,
+  });
+
+  const { data: reports = [], isLoading } = useQuery({
+    queryKey: ["artwork-reports", posterId],
+    queryFn: async (): Promise<ArtworkReport[]> => {
+      const response = await fetch(`/api/admin/posters/${posterId}/artwork`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch artwork reports");
+      }
+      return response.json();
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin mr-2" />
+        Checking artwork...
+      </div>
+    );
+  }
+
+  if (reports.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No uploaded artwork to check. Files shared through a Drive link are
+        not checked.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {reports.map((report) => (
+        <div key={report.id} className="rounded-md border p-3 space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="font-medium">{report.size_id}</span>
+            <div className="flex items-center gap-2">
+              {printFiles[report.size_id] && (
+                <a
+                  href={printFiles[report.size_id]}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center text-sm text-blue-600 hover:underline"
+                >
+                  <Download className="h-4 w-4 mr-1" />
+                  Print file
+                </a>
+              )}
+              <Badge variant={STATUS_BADGES[report.status].variant}>
+                {STATUS_BADGES[report.status].text}
+              </Badge>
+            </div>
+          </div>
+          <ul className="space-y-1 text-sm">
+            {report.checks.map((check) => (
+              <li key={check.check} className="flex gap-2">
+                <StatusIcon status={check.status} />
+                <span>
+                  <span className="text-muted-foreground">
+                    {CHECK_LABELS[check.check]}:{" "}
+                  </span>
+                  {check.message}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
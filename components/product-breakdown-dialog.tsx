@@ -0,0 +1,176 @@
+"use client";
+
+import * as React from "react";
+import { BarChart3Icon, Loader2 } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { DateRange } from "@/components/date-range-filter";
+import type { Product } from "@/components/product-table";
+import type {
+  VariantBreakdown,
+  VariantBreakdownRow,
+} from "@/lib/variant-analytics";
+
+type ProductStats = VariantBreakdown & {
+  salesCount: number;
+  revenue: number;
+  earnings: number;
+};
+
+const fetchProductStats = async (
+  productId: string,
+  dateRange?: DateRange
+): Promise<ProductStats> => {
+  const params = new URLSearchParams();
+  if (dateRange?.from) {
+    params.set("start_date", format(dateRange.from, "yyyy-MM-dd"));
+  }
+  if (dateRange?.to) {
+    params.set("end_date", format(dateRange.to, "yyyy-MM-dd"));
+  }
+
+  const response = await fetch(
+    `/api/dashboard/stats/product/${productId}?${params}`
+  );
+  if (!response.ok) {
+    throw new Error("Failed to fetch product stats");
+  }
+  return response.json();
+};
+
+function BreakdownTable({
+  title,
+  rows,
+}: {
+  title: string;
+  rows: VariantBreakdownRow[];
+}) {
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-medium">{title}</h3>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{title.replace("By ", "")}</TableHead>
+            <TableHead className="text-center">Sales</TableHead>
+            <TableHead className="text-right">Revenue</TableHead>
+            <TableHead className="text-right">Earnings</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.length === 0 ? (
+            <TableRow>
+              <TableCell
+                colSpan={4}
+                className="text-center text-muted-foreground"
+              >
+                No sales in this period
+              </TableCell>
+            </TableRow>
+          ) : (
+            rows.map((row) => (
+              <TableRow key={row.key}>
+                <TableCell>{row.label}</TableCell>
+                <TableCell className="text-center">{row.sales}</TableCell>
+                <TableCell className="text-right">
+                  £{row.revenue.toFixed(2)}
+                </TableCell>
+                <TableCell className="text-right">
+                  £{row.earnings.toFixed(2)}
+                </TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+// Sales, revenue and earnings of a product split by size and frame, for the
+// date range selected in the product table
+export function ProductBreakdownButton({
+  product,
+  dateRange,
+}: {
+  product: Product;
+  dateRange?: DateRange;
+}) {
+  const [open, setOpen] = React.useState(false);
+  const productId = product.shopifyProductId;
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: [
+      "product-breakdown",
+      productId,
+      dateRange?.from?.toISOString(),
+      dateRange?.to?.toISOString(),
+    ],
+    queryFn: () => fetchProductStats(productId as string, dateRange),
+    enabled: open && Boolean(productId),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  if (!productId) return null;
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        className="mr-2"
+        onClick={() => setOpen(true)}
+      >
+        <BarChart3Icon className="mr-2 size-4" />
+        Details
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{product.name}</DialogTitle>
+            <DialogDescription>
+              Which sizes and frames sold in the selected period.
+            </DialogDescription>
+          </DialogHeader>
+
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : error || !data ? (
+            <p className="py-4 text-sm text-destructive">
+              Failed to load the sales breakdown.
+            </p>
+          ) : (
+            <div className="space-y-6">
+              <p className="text-sm text-muted-foreground">
+                {data.salesCount} sold, £{data.revenue.toFixed(2)} revenue, £
+                {data.earnings.toFixed(2)} earnings
+              </p>
+              <BreakdownTable title="By size" rows={data.sizes} />
+              <BreakdownTable title="By frame" rows={data.frames} />
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -24,7 +24,6 @@ import {
 } from "lucide-react";
 import { z } from "zod";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { createClient } from "@/utils/supabase/client";
 import { toast } from "sonner";
 import { formatDistanceToNow } from "date-fns";
 
@@ -61,6 +60,10 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import { EditProductButton } from "@/components/edit-product-dialog";
+import { ProductBreakdownButton } from "@/components/product-breakdown-dialog";
+import { PosterRevisionButton } from "@/components/poster-revision-dialog";
+import { REVIEW_REASONS, type ReviewReason } from "@/lib/poster-reviews";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -80,6 +83,7 @@ export const productSchema = z.object({
   status: z.enum([
     "Approved",
     "Rejected",
+    "Changes requested",
     "Pending",
     "Will be deleted",
     "Deleted",
@@ -90,6 +94,29 @@ export const productSchema = z.object({
   shopUrl: z.string().optional(),
   shopifyProductId: z.string().nullable().optional(),
   createdAt: z.string().optional(),
+  description: z.string().optional(),
+  prices: z.record(z.string()).optional(),
+  selectedSizes: z.array(z.string()).optional(),
+  // The creator's latest edit of the poster, see lib/poster-changes.ts
+  changeRequest: z
+    .object({
+      status: z.enum(["pending", "approved", "rejected"]),
+      reviewNote: z.string().nullable(),
+    })
+    .nullable()
+    .optional(),
+  // The admin's open review, see lib/poster-reviews.ts
+  review: z
+    .object({
+      decision: z.enum(["rejected", "changesRequested"]),
+      reason: z.enum(
+        Object.keys(REVIEW_REASONS) as [ReviewReason, ...ReviewReason[]]
+      ),
+      note: z.string().nullable(),
+      sizes: z.array(z.string()),
+    })
+    .nullable()
+    .optional(),
 });
 
 export type Product = z.infer<typeof productSchema>;
@@ -101,6 +128,8 @@ const getStatusBadgeStyle = (status: string) => {
       return "bg-green-50 text-green-700 border-green-200 dark:bg-green-950 dark:text-green-300 dark:border-green-800";
     case "Rejected":
       return "bg-red-50 text-red-700 border-red-200 dark:bg-red-950 dark:text-red-300 dark:border-red-800";
+    case "Changes requested":
+      return "bg-blue-50 text-blue-700 border-blue-200 dark:bg-blue-950 dark:text-blue-300 dark:border-blue-800";
     case "Pending":
       return "bg-orange-50 text-orange-700 border-orange-200 dark:bg-orange-950 dark:text-orange-300 dark:border-orange-800";
     case "Will be deleted":
@@ -114,7 +143,8 @@ const getStatusBadgeStyle = (status: string) => {
 
 // Define the columns for the product table with updated typography
 const getColumns = (
-  onDeleteProduct: (product: Product) => void
+  onDeleteProduct: (product: Product) => void,
+  dateRange?: DateRange
 ): ColumnDef<Product>[] => [
   {
     accessorKey: "name",
@@ -130,7 +160,19 @@ const getColumns = (
               className="h-10 w-10 rounded-md object-cover"
             />
           )}
-          <div>{product.name}</div>
+          <div>
+            {product.name}
+            {product.changeRequest?.status === "pending" && (
+              <div className="text-xs text-muted-foreground">
+                Changes waiting for review
+              </div>
+            )}
+            {product.review && (
+              <div className="text-xs text-muted-foreground">
+                {REVIEW_REASONS[product.review.reason]}
+              </div>
+            )}
+          </div>
         </div>
       );
     },
@@ -212,6 +254,11 @@ const getColumns = (
               </a>
             </Button>
           )}
+          {product.review && <PosterRevisionButton product={product} />}
+          <ProductBreakdownButton product={product} dateRange={dateRange} />
+          {product.status === "Approved" && (
+            <EditProductButton product={product} />
+          )}
           <DeleteProductButton product={product} onDelete={onDeleteProduct} />
         </div>
       );
@@ -310,20 +357,18 @@ export function ProductTable({
   const deleteProductMutation = useMutation({
     mutationFn: async (product: Product) => {
       try {
-        // Get supabase client
-        const supabase = createClient();
-
         // Check if product has an ID
         if (product.id) {
           // Instead of deleting, update status to willBeDeleted
-          const { error } = await supabase
-            .from("posters")
-            .update({ status: "willBeDeleted" })
-            .eq("id", product.id);
+          const response = await fetch(
+            `/api/dashboard/products/${product.id}`,
+            { method: "DELETE" }
+          );
 
-          if (error) {
+          if (!response.ok) {
+            const data = await response.json();
             throw new Error(
-              `Failed to mark product for deletion: ${error.message}`
+              data.error || "Failed to mark product for deletion"
             );
           }
         } else {
@@ -347,9 +392,11 @@ export function ProductTable({
   });
 
   // Handler for deleting a product
-  const handleDeleteProduct = (product: Product) => {
-    deleteProductMutation.mutate(product);
-  };
+  const { mutate: deleteProduct } = deleteProductMutation;
+  const handleDeleteProduct = React.useCallback(
+    (product: Product) => deleteProduct(product),
+    [deleteProduct]
+  );
 
   // Filter products based on search query
   const filteredProducts = React.useMemo(() => {
@@ -367,10 +414,10 @@ export function ProductTable({
     );
   }, [products, searchQuery]);
 
-  // Get columns with delete handler
+  // Get columns with delete handler and the range for the sales breakdown
   const columns = React.useMemo(
-    () => getColumns(handleDeleteProduct),
-    [handleDeleteProduct]
+    () => getColumns(handleDeleteProduct, dateRange),
+    [handleDeleteProduct, dateRange]
   );
 
   const table = useReactTable({
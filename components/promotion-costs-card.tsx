@@ -0,0 +1,146 @@
+"use client";
+
+import * as React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, subDays } from "date-fns";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { DateRangePicker } from "@/components/date-range-picker";
+import { useShopFilter } from "@/hooks/use-shop-filter";
+import { formatCurrency } from "@/lib/utils";
+import type { PromotionCost } from "@/lib/discounts";
+
+const fetchPromotionCosts = async (
+  from: Date,
+  to: Date,
+  shop: string | null
+): Promise<PromotionCost[]> => {
+  const params = new URLSearchParams({
+    start_date: format(from, "yyyy-MM-dd"),
+    end_date: format(to, "yyyy-MM-dd"),
+  });
+  if (shop) params.set("shop", shop);
+
+  const response = await fetch(`/api/dashboard/promotions?${params}`);
+  if (!response.ok) {
+    throw new Error("Failed to fetch promotion costs");
+  }
+  return response.json();
+};
+
+// Why sales earned less than the list price: the discount codes and sales
+// applied to the creator's posters, and the earnings each one cost them
+export function PromotionCostsCard() {
+  const { shop } = useShopFilter();
+  const [dateRange, setDateRange] = React.useState(() => ({
+    from: subDays(new Date(), 30),
+    to: new Date(),
+  }));
+
+  const { data: promotions = [], isLoading } = useQuery({
+    queryKey: [
+      "promotion-costs",
+      dateRange.from.toISOString(),
+      dateRange.to.toISOString(),
+      shop,
+    ],
+    queryFn: () => fetchPromotionCosts(dateRange.from, dateRange.to, shop),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  const totalCost = promotions.reduce((sum, row) => sum + row.creatorCost, 0);
+
+  return (
+    <div className="flex flex-col space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-semibold tracking-tight font-sans">
+          Discounts & Promotions
+        </h2>
+        <DateRangePicker
+          onDateRangeChange={(start, end) =>
+            start && end && setDateRange({ from: start, to: end })
+          }
+          initialStartDate={dateRange.from}
+          initialEndDate={dateRange.to}
+        />
+      </div>
+      <Card>
+        <CardHeader>
+          <CardTitle>What promotions cost you</CardTitle>
+          <CardDescription>
+            Discounts lower the price your commission is calculated on.
+            Platform-funded promotions don&apos;t: you earn on the full price.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Skeleton className="h-[120px] w-full" />
+          ) : promotions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No discounted sales in this period.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Promotion</TableHead>
+                  <TableHead className="text-center">Orders</TableHead>
+                  <TableHead className="text-right">Discount given</TableHead>
+                  <TableHead className="text-right">Earnings impact</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {promotions.map((row) => (
+                  <TableRow key={row.campaign}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{row.campaign}</span>
+                        {row.platformFunded && (
+                          <Badge variant="secondary">Platform-funded</Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-center">{row.orders}</TableCell>
+                    <TableCell className="text-right">
+                      {formatCurrency(row.discount)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {row.creatorCost > 0
+                        ? `-${formatCurrency(row.creatorCost)}`
+                        : formatCurrency(0)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+                <TableRow>
+                  <TableCell colSpan={3} className="font-medium">
+                    Total
+                  </TableCell>
+                  <TableCell className="text-right font-medium">
+                    {totalCost > 0
+                      ? `-${formatCurrency(totalCost)}`
+                      : formatCurrency(0)}
+                  </TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
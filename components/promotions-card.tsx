@@ -0,0 +1,304 @@
+"use client";
+
+import * as React from "react";
+import { format, subDays } from "date-fns";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/lib/utils";
+import {
+  campaignKey,
+  UNATTRIBUTED_DISCOUNT,
+  type DiscountCampaign,
+  type PromotionCost,
+} from "@/lib/discounts";
+
+type PromotionReport = {
+  costs: PromotionCost[];
+  campaigns: DiscountCampaign[];
+};
+
+// Per-creator costs of a promotion added up
+type CampaignTotals = {
+  campaign: string;
+  platformFunded: boolean;
+  orders: number;
+  discount: number;
+  creatorCost: number;
+  platformCost: number;
+};
+
+// What each discount code and sale cost creators and the platform, with a
+// switch to make a campaign platform-funded
+export function PromotionsCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [startDate, setStartDate] = React.useState(() =>
+    format(subDays(new Date(), 30), "yyyy-MM-dd")
+  );
+  const [endDate, setEndDate] = React.useState(() =>
+    format(new Date(), "yyyy-MM-dd")
+  );
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["promotion-costs", startDate, endDate],
+    queryFn: async (): Promise<PromotionReport> => {
+      const params = new URLSearchParams();
+      if (startDate) params.set("start_date", startDate);
+      if (endDate) params.set("end_date", endDate);
+
+      const response = await fetch(`/api/admin/promotions?${params}`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch promotion costs");
+      }
+      return response.json();
+    },
+  });
+
+  const fundingMutation = useMutation({
+    mutationFn: async (campaign: {
+      name: string;
+      platformFunded: boolean;
+    }) => {
+      const response = await fetch("/api/admin/promotions", {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(campaign),
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.error || "Failed to update campaign");
+      }
+
+      return response.json();
+    },
+    onSuccess: (_data, campaign) => {
+      queryClient.invalidateQueries({ queryKey: ["promotion-costs"] });
+      toast({
+        title: "Campaign updated",
+        description: campaign.platformFunded
+          ? `${campaign.name} is platform-funded for payouts from now on`
+          : `${campaign.name} is shared with creators for payouts from now on`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to update campaign",
+      });
+    },
+  });
+
+  const costs = React.useMemo(() => data?.costs || [], [data?.costs]);
+
+  // Promotions of the period, plus campaigns marked without sales in it
+  const campaigns = React.useMemo(() => {
+    const totals = new Map<string, CampaignTotals>();
+
+    costs.forEach((cost) => {
+      const key = campaignKey(cost.campaign);
+      const entry = totals.get(key) || {
+        campaign: cost.campaign,
+        platformFunded: cost.platformFunded,
+        orders: 0,
+        discount: 0,
+        creatorCost: 0,
+        platformCost: 0,
+      };
+      entry.orders += cost.orders;
+      entry.discount += cost.discount;
+      entry.creatorCost += cost.creatorCost;
+      entry.platformCost += cost.platformCost;
+      totals.set(key, entry);
+    });
+
+    (data?.campaigns || []).forEach((campaign) => {
+      const key = campaignKey(campaign.name);
+      const entry = totals.get(key);
+      if (entry) {
+        entry.platformFunded = campaign.platform_funded;
+      } else {
+        totals.set(key, {
+          campaign: campaign.name,
+          platformFunded: campaign.platform_funded,
+          orders: 0,
+          discount: 0,
+          creatorCost: 0,
+          platformCost: 0,
+        });
+      }
+    });
+
+    return Array.from(totals.values()).sort((a, b) => b.discount - a.discount);
+  }, [costs, data?.campaigns]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Promotions</CardTitle>
+        <CardDescription>
+          Discounts lower the net price creator commission is calculated on.
+          For platform-funded campaigns commission is calculated on the
+          pre-discount price instead. Changes apply to payouts calculated from
+          now on.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="promotions-start">From</Label>
+            <Input
+              id="promotions-start"
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="promotions-end">To</Label>
+            <Input
+              id="promotions-end"
+              type="date"
+              value={endDate}
+              onChange={(e) => setEndDate(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {isLoading ? (
+          <Skeleton className="h-[160px] w-full" />
+        ) : (
+          <>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Campaign</TableHead>
+                    <TableHead className="text-right">Orders</TableHead>
+                    <TableHead className="text-right">Discount</TableHead>
+                    <TableHead className="text-right">Creator cost</TableHead>
+                    <TableHead className="text-right">Platform cost</TableHead>
+                    <TableHead className="text-right">
+                      Platform-funded
+                    </TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {campaigns.length === 0 ? (
+                    <TableRow>
+                      <TableCell
+                        colSpan={6}
+                        className="text-center text-muted-foreground"
+                      >
+                        No discounted sales in this period
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    campaigns.map((campaign) => (
+                      <TableRow key={campaign.campaign}>
+                        <TableCell className="font-medium">
+                          {campaign.campaign}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {campaign.orders}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatCurrency(campaign.discount)}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatCurrency(campaign.creatorCost)}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatCurrency(campaign.platformCost)}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {campaign.campaign !== UNATTRIBUTED_DISCOUNT && (
+                            <Switch
+                              checked={campaign.platformFunded}
+                              disabled={fundingMutation.isPending}
+                              onCheckedChange={(checked) =>
+                                fundingMutation.mutate({
+                                  name: campaign.campaign,
+                                  platformFunded: checked,
+                                })
+                              }
+                              aria-label={`${campaign.campaign} is platform-funded`}
+                            />
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+
+            {costs.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium">Cost per creator</h3>
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Campaign</TableHead>
+                        <TableHead>Creator</TableHead>
+                        <TableHead className="text-right">Units</TableHead>
+                        <TableHead className="text-right">Discount</TableHead>
+                        <TableHead className="text-right">
+                          Creator cost
+                        </TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {costs.map((cost) => (
+                        <TableRow key={`${cost.campaign}:${cost.creatorId}`}>
+                          <TableCell>{cost.campaign}</TableCell>
+                          <TableCell>
+                            {cost.creatorName || cost.creatorId}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {cost.units}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {formatCurrency(cost.discount)}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {formatCurrency(cost.creatorCost)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
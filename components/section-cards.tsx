@@ -34,6 +34,7 @@ import { DateRange as DateRangeType } from "react-day-picker";
 import { cn } from "@/lib/utils";
 import { CurrencyDisplay } from "./currency-display";
 import { useCurrencyContext } from "./currency-provider";
+import { DEFAULT_CREATOR_SHARE } from "@/lib/poster-constants";
 
 export function SectionCards() {
   const {
@@ -49,6 +50,11 @@ export function SectionCards() {
 
   const { userCurrency, version } = useCurrencyContext();
 
+  // Current creator share from the commission rules, e.g. 30
+  const commissionPercent = parseFloat(
+    ((data?.stats?.commissionRate ?? DEFAULT_CREATOR_SHARE) * 100).toFixed(1)
+  );
+
   const handleDateRangeSelect = (range: DateRangeType | undefined) => {
     if (range?.from && range.to) {
       setDateRange({
@@ -263,11 +269,7 @@ export function SectionCards() {
             ) : (
               <CurrencyDisplay
                 key={`your-earnings-${userCurrency}-${version}`}
-                amount={
-                  data?.stats?.totalRefunds && data.stats.totalRefunds > 0
-                    ? (data.stats?.netRevenue || 0) * 0.3
-                    : data?.stats?.totalCommission || 0
-                }
+                amount={data?.stats?.totalCommission || 0}
                 sourceCurrency="GBP"
                 showApprox={true}
               />
@@ -275,11 +277,11 @@ export function SectionCards() {
             <div className="text-xs text-muted-foreground mt-1">
               {data?.stats?.totalRefunds && data.stats.totalRefunds > 0 ? (
                 <span>
-                  <span className="text-destructive">After refunds</span> · 30%
-                  Commission
+                  <span className="text-destructive">After refunds</span> ·{" "}
+                  {commissionPercent}% Commission
                 </span>
               ) : (
-                "30% Commission"
+                `${commissionPercent}% Commission`
               )}
             </div>
           </CardContent>
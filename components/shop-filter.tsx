@@ -0,0 +1,42 @@
+"use client";
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useShopFilter } from "@/hooks/use-shop-filter";
+
+const ALL_SHOPS = "all";
+
+// Filter the dashboards by shop; only shown when posters sell in several
+export function ShopFilter() {
+  const { shop, setShop, shops } = useShopFilter();
+
+  if (shops.length < 2) return null;
+
+  return (
+    <Select
+      value={shop || ALL_SHOPS}
+      onValueChange={(value: string) =>
+        setShop(value === ALL_SHOPS ? null : value)
+      }
+    >
+      <SelectTrigger className="w-[200px] rounded-lg" aria-label="Select shop">
+        <SelectValue placeholder="All shops" />
+      </SelectTrigger>
+      <SelectContent className="rounded-xl">
+        <SelectItem value={ALL_SHOPS} className="rounded-lg">
+          All shops
+        </SelectItem>
+        {shops.map((s) => (
+          <SelectItem key={s.domain} value={s.domain} className="rounded-lg">
+            {s.name} ({s.currency})
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,157 @@
+"use client";
+
+import * as React from "react";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { useQuery } from "@tanstack/react-query";
+import { format, subDays } from "date-fns";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { type ChartConfig, ChartContainer } from "@/components/ui/chart";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useShopFilter } from "@/hooks/use-shop-filter";
+import type { SizePopularity } from "@/lib/variant-analytics";
+
+const chartConfig = {
+  sales: {
+    label: "Sales",
+    color: "hsl(var(--chart-2))",
+  },
+} satisfies ChartConfig;
+
+// Periods offered, in days; "all" covers every order
+const PERIODS = [
+  { value: "30", label: "Last 30 days" },
+  { value: "90", label: "Last 90 days" },
+  { value: "365", label: "Last 12 months" },
+  { value: "all", label: "All time" },
+];
+
+const fetchSizePopularity = async (
+  period: string,
+  shop: string | null
+): Promise<SizePopularity[]> => {
+  const params = new URLSearchParams();
+  if (period !== "all") {
+    const startDate = subDays(new Date(), Number(period));
+    params.set("start_date", format(startDate, "yyyy-MM-dd"));
+  }
+  if (shop) params.set("shop", shop);
+
+  const response = await fetch(`/api/dashboard/stats/sizes?${params}`);
+  if (!response.ok) {
+    throw new Error("Failed to fetch size popularity");
+  }
+  return response.json();
+};
+
+// Which poster sizes sell best across the whole store, to help creators
+// pick the sizes they offer
+export function SizePopularityChart() {
+  const [period, setPeriod] = React.useState("90");
+  const { shop } = useShopFilter();
+
+  const { data = [], isLoading } = useQuery({
+    queryKey: ["size-popularity", period, shop],
+    queryFn: () => fetchSizePopularity(period, shop),
+    staleTime: 10 * 60 * 1000, // 10 minutes
+  });
+
+  const hasSales = data.some((size) => size.sales > 0);
+
+  return (
+    <Card className="mx-4 lg:mx-6">
+      <CardHeader className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <CardTitle>Popular Sizes</CardTitle>
+          <CardDescription>
+            Posters sold per size across the whole store
+          </CardDescription>
+        </div>
+        <Select value={period} onValueChange={setPeriod}>
+          <SelectTrigger
+            className="w-[160px] rounded-lg"
+            aria-label="Select period"
+          >
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="rounded-xl">
+            {PERIODS.map((option) => (
+              <SelectItem
+                key={option.value}
+                value={option.value}
+                className="rounded-lg"
+              >
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="h-[300px]">
+        {isLoading ? (
+          <Skeleton className="h-full w-full" />
+        ) : !hasSales ? (
+          <div className="flex h-full items-center justify-center text-muted-foreground">
+            No sales data available for this period
+          </div>
+        ) : (
+          <ChartContainer config={chartConfig} className="h-full w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart
+                data={data}
+                margin={{ top: 10, right: 10, left: 0, bottom: 0 }}
+              >
+                <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                <XAxis
+                  dataKey="label"
+                  axisLine={false}
+                  tickLine={false}
+                  tickMargin={10}
+                />
+                <YAxis
+                  axisLine={false}
+                  tickLine={false}
+                  tickMargin={10}
+                  allowDecimals={false}
+                />
+                <Tooltip
+                  formatter={(value: number, _name, item) => [
+                    `${value} posters (${Math.round(
+                      (item.payload as SizePopularity).share * 100
+                    )}%)`,
+                    "Sales",
+                  ]}
+                />
+                <Bar
+                  dataKey="sales"
+                  fill="var(--color-sales)"
+                  radius={[4, 4, 0, 0]}
+                />
+              </BarChart>
+            </ResponsiveContainer>
+          </ChartContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -199,7 +199,7 @@ export function TopSellingPosters() {
                   {formatCurrency(poster.revenue)}
                 </p>
                 <p className="text-xs text-muted-foreground">
-                  {formatCurrency(poster.revenue * 0.3)} commission
+                  {formatCurrency(poster.commission)} commission
                 </p>
               </div>
             </div>
@@ -9,6 +9,10 @@ import {
   CheckIcon,
   ImageIcon,
   InfoIcon,
+  Loader2,
+  PauseIcon,
+  PlayIcon,
+  RotateCwIcon,
   TrashIcon,
   UploadIcon,
 } from "lucide-react";
@@ -16,6 +20,7 @@ import { useMutation } from "@tanstack/react-query";
 import { createClient } from "@/utils/supabase/client";
 import { submitPoster } from "@/app/actions/poster";
 import { useRouter } from "next/navigation";
+import NextImage from "next/image";
 
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
@@ -59,45 +64,46 @@ import {
 } from "@/components/ui/tooltip";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
-
-// Define the predefined poster sizes with recommended resolutions
-const PREDEFINED_SIZES = [
-  {
-    id: "a4",
-    label: "21 × 30 cm (A4)",
-    defaultPrice: "20.00",
-    recommendedWidth: 2481,
-    recommendedHeight: 3543,
-  },
-  {
-    id: "30x40",
-    label: "30 × 40 cm (3:4)",
-    defaultPrice: "35.00",
-    recommendedWidth: 3543,
-    recommendedHeight: 4724,
-  },
-  {
-    id: "50x70",
-    label: "50 × 70 cm (Standard)",
-    defaultPrice: "55.00",
-    recommendedWidth: 5906,
-    recommendedHeight: 8268,
-  },
-  {
-    id: "70x100",
-    label: "70 × 100 cm (Large Standard)",
-    defaultPrice: "75.00",
-    recommendedWidth: 8268,
-    recommendedHeight: 11811,
-  },
-  {
-    id: "50x50",
-    label: "50 × 50 cm (1:1)",
-    defaultPrice: "50.00",
-    recommendedWidth: 5906,
-    recommendedHeight: 5906,
-  },
-];
+import {
+  sizeDisplayName,
+  sizePriceError,
+  type PosterSizeOption,
+} from "@/lib/poster-sizes";
+import { MAX_ARTWORK_BYTES, type PosterImages } from "@/lib/poster-images";
+import { usePosterSizes } from "@/hooks/use-poster-sizes";
+import { useCommissionRate } from "@/hooks/use-commission-rate";
+import {
+  useResumableUploads,
+  type ResumableUpload,
+} from "@/hooks/use-resumable-uploads";
+
+// The form rows of the catalogue's sizes, none selected and priced at the
+// minimum price
+const toFormSizes = (sizes: PosterSizeOption[]) =>
+  sizes.map((size) => ({
+    id: size.id,
+    selected: false,
+    price: size.min_price.toFixed(2),
+    file: null,
+  }));
+
+const formatMegabytes = (bytes: number) =>
+  `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const uploadPercentage = (upload: ResumableUpload) =>
+  upload.bytesTotal ? (upload.bytesUploaded / upload.bytesTotal) * 100 : 0;
+
+// e.g. "Paused · 42% · 51.0 of 121.4 MB"
+const uploadProgressText = (upload: ResumableUpload) =>
+  [
+    upload.status === "paused" ? "Paused" : null,
+    `${Math.round(uploadPercentage(upload))}%`,
+    `${(upload.bytesUploaded / 1024 / 1024).toFixed(1)} of ${formatMegabytes(
+      upload.bytesTotal
+    )}`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
 
 // Define quality levels
 type QualityLevel = "good" | "medium" | "poor";
@@ -110,13 +116,6 @@ const uploadFormSchema = z.object({
   description: z.string().min(10, {
     message: "Description must be at least 10 characters.",
   }),
-  googleDriveLink: z
-    .string()
-    .url({
-      message: "Please enter a valid URL.",
-    })
-    .optional()
-    .or(z.literal("")),
   availableSizes: z.array(
     z.object({
       id: z.string(),
@@ -131,27 +130,17 @@ type UploadFormValues = z.infer<typeof uploadFormSchema>;
 
 export function UploadForm() {
   const router = useRouter();
-  const [files, setFiles] = React.useState<{ [key: string]: File | null }>({});
+  const { sizes } = usePosterSizes();
   const [previews, setPreviews] = React.useState<{ [key: string]: string }>({});
   const [isDragging, setIsDragging] = React.useState<{
     [key: string]: boolean;
   }>({});
-  const [uploadProgress, setUploadProgress] = React.useState<{
-    [key: string]: number;
-  }>({});
-  const [uploading, setUploading] = React.useState<{ [key: string]: boolean }>(
-    {}
-  );
-  const [uploadComplete, setUploadComplete] = React.useState<{
-    [key: string]: boolean;
-  }>({});
+  const { uploads, start, pause, resume, cancel, cancelAll } =
+    useResumableUploads();
   const [imageDimensions, setImageDimensions] = React.useState<{
     [key: string]: { width: number; height: number };
   }>({});
-  const [imageQuality, setImageQuality] = React.useState<{
-    [key: string]: QualityLevel;
-  }>({});
-  const [commissionRate] = React.useState(0.3); // 30% commission rate
+  const { rate: commissionRate } = useCommissionRate();
   const [showDraftConfirmation, setShowDraftConfirmation] =
     React.useState(false);
   const [isSubmitting, setIsSubmitting] = React.useState(false);
@@ -162,31 +151,28 @@ export function UploadForm() {
     defaultValues: {
       title: "",
       description: "",
-      googleDriveLink: "",
-      availableSizes: PREDEFINED_SIZES.map((size) => ({
-        id: size.id,
-        selected: false, // No pre-selected sizes
-        price: size.defaultPrice,
-        file: null,
-      })),
+      availableSizes: toFormSizes(sizes),
     },
   });
 
-  // Watch for changes in the Google Drive link
-  const googleDriveLink = form.watch("googleDriveLink");
+  // The size catalogue loads after the form is first rendered
+  React.useEffect(() => {
+    if (sizes.length > 0 && form.getValues("availableSizes").length === 0) {
+      form.setValue("availableSizes", toFormSizes(sizes));
+    }
+  }, [sizes, form]);
+
   const availableSizes = form.watch("availableSizes");
 
   // Evaluate image quality based on dimensions
   const evaluateImageQuality = React.useCallback(
     (width: number, height: number, sizeId: string): QualityLevel => {
-      const sizeInfo = PREDEFINED_SIZES.find((size) => size.id === sizeId);
+      const sizeInfo = sizes.find((size) => size.id === sizeId);
       if (!sizeInfo) return "poor";
 
-      const { recommendedWidth, recommendedHeight } = sizeInfo;
-
       // Calculate percentage of recommended resolution
-      const widthPercentage = (width / recommendedWidth) * 100;
-      const heightPercentage = (height / recommendedHeight) * 100;
+      const widthPercentage = (width / sizeInfo.recommended_width) * 100;
+      const heightPercentage = (height / sizeInfo.recommended_height) * 100;
 
       // Use the lower percentage to determine quality
       const qualityPercentage = Math.min(widthPercentage, heightPercentage);
@@ -195,11 +181,11 @@ export function UploadForm() {
       if (qualityPercentage >= 70) return "medium";
       return "poor";
     },
-    []
+    [sizes]
   );
 
   // Get quality badge variant and text
-  const getQualityInfo = (quality: QualityLevel) => {
+  const getQualityInfo = (quality?: QualityLevel) => {
     switch (quality) {
       case "good":
         return {
@@ -228,70 +214,31 @@ export function UploadForm() {
     }
   };
 
-  // Simulate file upload progress
-  const simulateUpload = React.useCallback(
-    (sizeId: string) => {
-      setUploading({ ...uploading, [sizeId]: true });
-      setUploadProgress({ ...uploadProgress, [sizeId]: 0 });
-      setUploadComplete({ ...uploadComplete, [sizeId]: false });
-
-      let progress = 0;
-      const interval = setInterval(() => {
-        progress += Math.random() * 10;
-        if (progress >= 100) {
-          progress = 100;
-          clearInterval(interval);
-          setUploading({ ...uploading, [sizeId]: false });
-          setUploadComplete({ ...uploadComplete, [sizeId]: true });
-        }
-        setUploadProgress((prev) => ({ ...prev, [sizeId]: progress }));
-      }, 200);
-    },
-    [uploading, uploadProgress, uploadComplete]
-  );
-
-  // Real file upload function
-  const uploadFile = async (file: File, sizeId: string): Promise<string> => {
-    try {
-      const formData = new FormData();
-      formData.append("file", file);
-      formData.append("size", sizeId);
-
-      const response = await fetch("/api/upload", {
-        method: "POST",
-        body: formData,
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || "Upload failed");
-      }
-
-      const data = await response.json();
-      return data.url;
-    } catch (error) {
-      console.error("Error uploading file:", error);
-      throw error;
-    }
-  };
-
-  // Upload progress tracking
-  const updateProgress = (sizeId: string, progress: number) => {
-    setUploadProgress((prev) => ({ ...prev, [sizeId]: progress }));
-  };
-
   // Get image dimensions
-  const getImageDimensions = (file: File, sizeId: string) => {
+  const getImageDimensions = (previewUrl: string, sizeId: string) => {
     const img = new Image();
     img.onload = () => {
       const dimensions = { width: img.width, height: img.height };
       setImageDimensions((prev) => ({ ...prev, [sizeId]: dimensions }));
-
-      // Evaluate quality based on dimensions
-      const quality = evaluateImageQuality(img.width, img.height, sizeId);
-      setImageQuality((prev) => ({ ...prev, [sizeId]: quality }));
     };
-    img.src = URL.createObjectURL(file);
+    img.src = previewUrl;
+  };
+
+  // Dimensions read by the browser, or by the server's check for files the
+  // browser can't display (TIFF)
+  const getDimensions = (sizeId: string) => {
+    const report = uploads[sizeId]?.report;
+    return (
+      imageDimensions[sizeId] ||
+      (report ? { width: report.width, height: report.height } : undefined)
+    );
+  };
+
+  const getQuality = (sizeId: string) => {
+    const dimensions = getDimensions(sizeId);
+    return dimensions
+      ? evaluateImageQuality(dimensions.width, dimensions.height, sizeId)
+      : undefined;
   };
 
   // Handle file selection
@@ -317,42 +264,28 @@ export function UploadForm() {
     }
   };
 
-  // Common file handling logic
+  // Common file handling logic: files start uploading as soon as they are
+  // chosen
   const handleFile = (file: File | null, sizeId: string) => {
-    const newFiles = { ...files, [sizeId]: file };
-    setFiles(newFiles);
-
-    // Reset upload states
-    setUploadProgress({ ...uploadProgress, [sizeId]: 0 });
-    setUploading({ ...uploading, [sizeId]: false });
-    setUploadComplete({ ...uploadComplete, [sizeId]: false });
-
-    // Create preview URL and simulate upload
-    if (file) {
-      // Get image dimensions
-      getImageDimensions(file, sizeId);
-
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setPreviews({ ...previews, [sizeId]: reader.result as string });
-        // We'll simulate upload for the preview, but not actually upload until form submission
-        simulateUpload(sizeId);
-      };
-      reader.readAsDataURL(file);
-    } else {
-      const newPreviews = { ...previews };
-      delete newPreviews[sizeId];
-      setPreviews(newPreviews);
-
-      // Clear dimensions and quality
-      const newDimensions = { ...imageDimensions };
-      delete newDimensions[sizeId];
-      setImageDimensions(newDimensions);
-
-      const newQuality = { ...imageQuality };
-      delete newQuality[sizeId];
-      setImageQuality(newQuality);
+    if (!file) {
+      removeFile(sizeId);
+      return;
     }
+    if (file.size > MAX_ARTWORK_BYTES) {
+      toast.error(
+        `${getSizeName(sizeId)}: Files can be at most ${
+          MAX_ARTWORK_BYTES / 1024 / 1024
+        } MB`
+      );
+      return;
+    }
+
+    clearPreview(sizeId);
+    const previewUrl = URL.createObjectURL(file);
+    setPreviews((prev) => ({ ...prev, [sizeId]: previewUrl }));
+    getImageDimensions(previewUrl, sizeId);
+
+    start(sizeId, file);
   };
 
   // Handle drag events
@@ -396,29 +329,24 @@ export function UploadForm() {
     form.setValue("availableSizes", newSizes);
   };
 
-  // Remove a file
+  const clearPreview = (sizeId: string) => {
+    if (previews[sizeId]) URL.revokeObjectURL(previews[sizeId]);
+    setPreviews((prev) => {
+      const next = { ...prev };
+      delete next[sizeId];
+      return next;
+    });
+    setImageDimensions((prev) => {
+      const next = { ...prev };
+      delete next[sizeId];
+      return next;
+    });
+  };
+
+  // Remove a file, stopping its upload
   const removeFile = (sizeId: string) => {
-    const newFiles = { ...files };
-    delete newFiles[sizeId];
-    setFiles(newFiles);
-
-    const newPreviews = { ...previews };
-    delete newPreviews[sizeId];
-    setPreviews(newPreviews);
-
-    // Reset upload states
-    setUploadProgress({ ...uploadProgress, [sizeId]: 0 });
-    setUploading({ ...uploading, [sizeId]: false });
-    setUploadComplete({ ...uploadComplete, [sizeId]: false });
-
-    // Clear dimensions and quality
-    const newDimensions = { ...imageDimensions };
-    delete newDimensions[sizeId];
-    setImageDimensions(newDimensions);
-
-    const newQuality = { ...imageQuality };
-    delete newQuality[sizeId];
-    setImageQuality(newQuality);
+    clearPreview(sizeId);
+    cancel(sizeId);
   };
 
   const handleSaveAsDraft = () => {
@@ -435,23 +363,14 @@ export function UploadForm() {
     form.reset({
       title: "",
       description: "",
-      googleDriveLink: "",
-      availableSizes: PREDEFINED_SIZES.map((size) => ({
-        id: size.id,
-        selected: false,
-        price: size.defaultPrice,
-        file: null,
-      })),
+      availableSizes: toFormSizes(sizes),
     });
 
     // Clear files and previews
-    setFiles({});
+    Object.values(previews).forEach((url) => URL.revokeObjectURL(url));
     setPreviews({});
-    setUploadProgress({});
-    setUploading({});
-    setUploadComplete({});
     setImageDimensions({});
-    setImageQuality({});
+    cancelAll();
   };
 
   // Form submission handler
@@ -463,30 +382,44 @@ export function UploadForm() {
         return;
       }
 
-      // Check if files are uploaded when needed
-      if (!data.googleDriveLink) {
-        const selectedSizes = data.availableSizes.filter(
-          (size) => size.selected
-        );
-        const missingFiles = selectedSizes.some((size) => !files[size.id]);
+      // Check prices against the size catalogue
+      const priceError = data.availableSizes
+        .filter((size) => size.selected)
+        .map((size) => sizePriceError(sizes, size.id, Number(size.price)))
+        .find(Boolean);
+      if (priceError) {
+        toast.error(priceError);
+        return;
+      }
 
-        if (missingFiles) {
-          toast.error(
-            "Please upload files for all selected sizes or provide a Google Drive link"
-          );
-          return;
-        }
+      // Check that every selected size has a checked file
+      const selectedSizes = data.availableSizes.filter(
+        (size) => size.selected
+      );
+      const sizeUploads = selectedSizes.map((size) => uploads[size.id]);
+
+      if (sizeUploads.some((upload) => !upload)) {
+        toast.error("Please upload files for all selected sizes");
+        return;
+      }
+      if (sizeUploads.some((upload) => upload.status === "rejected")) {
+        toast.error("Please replace the files that couldn't be accepted");
+        return;
+      }
+      if (sizeUploads.some((upload) => upload.status !== "complete")) {
+        toast.error("Please wait for your files to finish uploading");
+        return;
+      }
 
-        // Check for poor quality images
-        const poorQualityImages = selectedSizes.some(
-          (size) => imageQuality[size.id] === "poor"
+      // Check for poor quality images
+      const poorQualityImages = selectedSizes.some(
+        (size) => getQuality(size.id) === "poor"
+      );
+      if (poorQualityImages) {
+        const confirmUpload = window.confirm(
+          "Some of your images have poor resolution for print. Do you still want to continue?"
         );
-        if (poorQualityImages) {
-          const confirmUpload = window.confirm(
-            "Some of your images have poor resolution for print. Do you still want to continue?"
-          );
-          if (!confirmUpload) return;
-        }
+        if (!confirmUpload) return;
       }
 
       setIsSubmitting(true);
@@ -495,10 +428,6 @@ export function UploadForm() {
       const loadingToast = toast.loading("Uploading poster...");
 
       try {
-        const selectedSizes = data.availableSizes
-          .filter((size) => size.selected)
-          .map((size) => size.id);
-
         // Prepare pricing data
         const prices: Record<string, string> = {};
         data.availableSizes
@@ -507,40 +436,19 @@ export function UploadForm() {
             prices[size.id] = size.price;
           });
 
-        // Upload files and get URLs
-        const imageUrls: Record<string, string> = {};
-
-        // Only upload files if no Google Drive link is provided
-        if (!data.googleDriveLink) {
-          // Upload each file
-          const uploadPromises = data.availableSizes
-            .filter((size) => size.selected && files[size.id])
-            .map(async (size) => {
-              setUploading((prev) => ({ ...prev, [size.id]: true }));
-              try {
-                const url = await uploadFile(files[size.id]!, size.id);
-                imageUrls[size.id] = url;
-                setUploadComplete((prev) => ({ ...prev, [size.id]: true }));
-                return url;
-              } catch (error) {
-                toast.error(`Failed to upload file for size ${size.id}`);
-                throw error;
-              } finally {
-                setUploading((prev) => ({ ...prev, [size.id]: false }));
-              }
-            });
-
-          await Promise.all(uploadPromises);
-        }
+        // The stored images of the uploaded files
+        const images: PosterImages = {};
+        selectedSizes.forEach((size) => {
+          images[size.id] = uploads[size.id].image!;
+        });
 
         // Prepare form data for submission
         const formData = {
           title: data.title,
           description: data.description,
-          driveLink: data.googleDriveLink || null,
-          selectedSizes,
+          selectedSizes: selectedSizes.map((size) => size.id),
           prices,
-          imageUrls,
+          images,
         };
 
         // Submit to Supabase using server action
@@ -561,23 +469,13 @@ export function UploadForm() {
         form.reset({
           title: "",
           description: "",
-          googleDriveLink: "",
-          availableSizes: PREDEFINED_SIZES.map((size) => ({
-            id: size.id,
-            selected: false,
-            price: size.defaultPrice,
-            file: null,
-          })),
+          availableSizes: toFormSizes(sizes),
         });
 
-        // Clear files and previews
-        setFiles({});
+        // Clear previews; the uploads now belong to the poster
+        Object.values(previews).forEach((url) => URL.revokeObjectURL(url));
         setPreviews({});
-        setUploadProgress({});
-        setUploading({});
-        setUploadComplete({});
         setImageDimensions({});
-        setImageQuality({});
 
         // Navigate to dashboard
         router.push("/dashboard");
@@ -595,11 +493,18 @@ export function UploadForm() {
     }
   }
 
+  const getSize = (sizeId: string) => sizes.find((s) => s.id === sizeId);
+
+  const getSizeName = (sizeId: string) => {
+    const size = getSize(sizeId);
+    return size ? sizeDisplayName(size) : sizeId;
+  };
+
   // Get recommended resolution text for a size
   const getRecommendedResolution = (sizeId: string) => {
-    const size = PREDEFINED_SIZES.find((s) => s.id === sizeId);
+    const size = getSize(sizeId);
     if (!size) return "";
-    return `${size.recommendedWidth} × ${size.recommendedHeight} px`;
+    return `${size.recommended_width} × ${size.recommended_height} px`;
   };
 
   return (
@@ -610,36 +515,6 @@ export function UploadForm() {
 
       <Form {...form}>
         <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
-          <Card>
-            <CardContent className="pt-6">
-              <div className="space-y-4">
-                <FormField
-                  control={form.control}
-                  name="googleDriveLink"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Google Drive Link (Optional)</FormLabel>
-                      <FormControl>
-                        <Input
-                          placeholder="https://drive.google.com/..."
-                          {...field}
-                        />
-                      </FormControl>
-                      <FormDescription>
-                        If you have your artwork in Google Drive, paste the link
-                        here. This will eliminate the need to upload individual
-                        files.
-                      </FormDescription>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-              </div>
-            </CardContent>
-          </Card>
-
-          <Separator className="my-6" />
-
           <Card>
             <CardContent className="pt-6">
               <div className="space-y-4">
@@ -695,8 +570,8 @@ export function UploadForm() {
                   </h3>
                   <p className="text-sm text-muted-foreground mb-4">
                     Select which sizes will be available for your poster and set
-                    pricing. Commission is calculated at {commissionRate * 100}
-                    %.
+                    pricing. Commission is calculated at{" "}
+                    {parseFloat((commissionRate * 100).toFixed(2))}%.
                   </p>
                 </div>
 
@@ -742,10 +617,7 @@ export function UploadForm() {
                               htmlFor={`price-${size.id}`}
                               className="font-normal"
                             >
-                              {
-                                PREDEFINED_SIZES.find((s) => s.id === size.id)
-                                  ?.label
-                              }
+                              {getSizeName(size.id)}
                             </Label>
                           </TableCell>
                           <TableCell>
@@ -760,7 +632,8 @@ export function UploadForm() {
                                 className="pl-7"
                                 type="number"
                                 step="0.01"
-                                min="0"
+                                min={getSize(size.id)?.min_price ?? 0}
+                                max={getSize(size.id)?.max_price ?? undefined}
                                 disabled={!size.selected}
                               />
                             </div>
@@ -797,214 +670,227 @@ export function UploadForm() {
             </CardContent>
           </Card>
 
-          {/* Only show upload section if Google Drive link is not provided */}
-          {!googleDriveLink ? (
-            <>
-              <Separator className="my-6" />
-
-              <Card>
-                <CardContent className="pt-6">
-                  <div className="space-y-4">
-                    <div>
-                      <h3 className="text-base font-medium mb-2">
-                        Upload Print Files
-                      </h3>
-                      <p className="text-sm text-muted-foreground mb-4">
-                        Upload high-resolution files for each selected size. The
-                        system will check if your image meets the recommended
-                        resolution.
-                      </p>
-                    </div>
-
-                    <div className="grid gap-6 md:grid-cols-2">
-                      {availableSizes
-                        .filter((size) => size.selected)
-                        .map((size) => {
-                          const sizeInfo = PREDEFINED_SIZES.find(
-                            (s) => s.id === size.id
-                          );
-                          return (
-                            <div key={size.id} className="space-y-2">
-                              <div className="flex justify-between items-center">
-                                <Label>
-                                  {
-                                    PREDEFINED_SIZES.find(
-                                      (s) => s.id === size.id
-                                    )?.label
+          <Separator className="my-6" />
+
+          <Card>
+            <CardContent className="pt-6">
+              <div className="space-y-4">
+                <div>
+                  <h3 className="text-base font-medium mb-2">
+                    Upload Print Files
+                  </h3>
+                  <p className="text-sm text-muted-foreground mb-4">
+                    Upload a high-resolution JPEG, PNG or TIFF file of up
+                    to {MAX_ARTWORK_BYTES / 1024 / 1024} MB for each selected
+                    size. Files start uploading right away and continue where
+                    they stopped after a dropped connection. The system will
+                    check if your image meets the recommended resolution.
+                  </p>
+                </div>
+
+                <div className="grid gap-6 md:grid-cols-2">
+                  {availableSizes
+                    .filter((size) => size.selected)
+                    .map((size) => {
+                      const upload = uploads[size.id];
+                      const dimensions = getDimensions(size.id);
+                      const quality = getQualityInfo(getQuality(size.id));
+
+                      return (
+                        <div key={size.id} className="space-y-2">
+                          <div className="flex justify-between items-center">
+                            <Label>{getSizeName(size.id)}</Label>
+                            <span className="text-xs text-muted-foreground">
+                              Recommended: {getRecommendedResolution(size.id)}
+                            </span>
+                          </div>
+                          <div
+                            className={`border-2 border-dashed rounded-md p-4 transition-colors ${
+                              isDragging[size.id]
+                                ? "border-primary bg-primary/5"
+                                : "border-border"
+                            } ${upload ? "border-primary/50" : ""}`}
+                            onDragOver={(e) => handleDragOver(e, size.id)}
+                            onDragLeave={(e) => handleDragLeave(e, size.id)}
+                            onDrop={(e) => handleDrop(e, size.id)}
+                          >
+                            {upload ? (
+                              <div className="relative min-h-24">
+                                <NextImage
+                                  src={
+                                    upload.image?.thumb ||
+                                    previews[size.id] ||
+                                    "/placeholder.svg"
                                   }
-                                </Label>
-                                <span className="text-xs text-muted-foreground">
-                                  Recommended:{" "}
-                                  {getRecommendedResolution(size.id)}
-                                </span>
-                              </div>
-                              <div
-                                className={`border-2 border-dashed rounded-md p-4 transition-colors ${
-                                  isDragging[size.id]
-                                    ? "border-primary bg-primary/5"
-                                    : "border-border"
-                                } ${
-                                  previews[size.id] ? "border-primary/50" : ""
-                                }`}
-                                onDragOver={(e) => handleDragOver(e, size.id)}
-                                onDragLeave={(e) => handleDragLeave(e, size.id)}
-                                onDrop={(e) => handleDrop(e, size.id)}
-                              >
-                                {previews[size.id] ? (
-                                  <div className="relative">
-                                    <img
-                                      src={
-                                        previews[size.id] || "/placeholder.svg"
-                                      }
-                                      alt="Preview"
-                                      className="h-24 w-auto mx-auto object-contain rounded-md"
-                                    />
-
-                                    {/* Upload progress indicator */}
-                                    {uploading[size.id] && (
-                                      <div className="absolute inset-0 bg-black/50 flex flex-col items-center justify-center rounded-md text-white">
-                                        <div className="w-3/4 mb-2">
-                                          <Progress
-                                            value={uploadProgress[size.id]}
-                                            className="h-2"
-                                          />
-                                        </div>
-                                        <p className="text-xs font-medium">
-                                          {Math.round(uploadProgress[size.id])}%
-                                        </p>
-                                      </div>
+                                  alt="Preview"
+                                  width={96}
+                                  height={96}
+                                  className="h-24 w-auto mx-auto object-contain rounded-md"
+                                />
+
+                                {/* Upload progress and controls */}
+                                {["uploading", "paused", "error"].includes(
+                                  upload.status
+                                ) && (
+                                  <div className="absolute inset-0 bg-black/50 flex flex-col items-center justify-center gap-1 rounded-md text-white">
+                                    <div className="w-3/4">
+                                      <Progress
+                                        value={uploadPercentage(upload)}
+                                        className="h-2"
+                                      />
+                                    </div>
+                                    <p className="text-xs font-medium">
+                                      {upload.error ||
+                                        uploadProgressText(upload)}
+                                    </p>
+                                    {upload.status === "uploading" ? (
+                                      <Button
+                                        type="button"
+                                        variant="secondary"
+                                        size="sm"
+                                        className="h-6 text-xs"
+                                        onClick={() => pause(size.id)}
+                                      >
+                                        <PauseIcon className="mr-1 h-3 w-3" />
+                                        Pause
+                                      </Button>
+                                    ) : (
+                                      <Button
+                                        type="button"
+                                        variant="secondary"
+                                        size="sm"
+                                        className="h-6 text-xs"
+                                        onClick={() => resume(size.id)}
+                                      >
+                                        {upload.status === "error" ? (
+                                          <RotateCwIcon className="mr-1 h-3 w-3" />
+                                        ) : (
+                                          <PlayIcon className="mr-1 h-3 w-3" />
+                                        )}
+                                        {upload.status === "error"
+                                          ? "Retry"
+                                          : "Resume"}
+                                      </Button>
                                     )}
+                                  </div>
+                                )}
 
-                                    {/* Upload complete indicator */}
-                                    {uploadComplete[size.id] &&
-                                      !uploading[size.id] && (
-                                        <div className="absolute top-2 right-2 bg-green-500 text-white rounded-full p-1">
-                                          <CheckIcon className="h-4 w-4" />
-                                        </div>
-                                      )}
-
-                                    {/* Image quality indicator */}
-                                    {imageDimensions[size.id] &&
-                                      uploadComplete[size.id] &&
-                                      !uploading[size.id] && (
-                                        <div className="absolute bottom-0 left-0 right-0 bg-black/70 p-2 rounded-b-md">
-                                          <div className="flex flex-col gap-1">
-                                            <div className="flex justify-between items-center">
-                                              <span className="text-xs text-white">
-                                                {imageDimensions[size.id].width}{" "}
-                                                ×{" "}
-                                                {
-                                                  imageDimensions[size.id]
-                                                    .height
-                                                }{" "}
-                                                px
-                                              </span>
-                                              <Badge
-                                                variant={
-                                                  getQualityInfo(
-                                                    imageQuality[size.id]
-                                                  ).variant
-                                                }
-                                                className="text-xs"
-                                              >
-                                                {
-                                                  getQualityInfo(
-                                                    imageQuality[size.id]
-                                                  ).text
-                                                }
-                                              </Badge>
-                                            </div>
-                                            <p className="text-xs text-white/80">
-                                              {
-                                                getQualityInfo(
-                                                  imageQuality[size.id]
-                                                ).description
-                                              }
-                                            </p>
-                                          </div>
-                                        </div>
-                                      )}
-
-                                    <Button
-                                      type="button"
-                                      variant="destructive"
-                                      size="icon"
-                                      className="absolute -top-2 -right-2 h-6 w-6"
-                                      onClick={() => removeFile(size.id)}
-                                      disabled={uploading[size.id]}
-                                    >
-                                      <TrashIcon className="h-3 w-3" />
-                                    </Button>
+                                {/* Server-side check of the uploaded file */}
+                                {upload.status === "processing" && (
+                                  <div className="absolute inset-0 bg-black/50 flex items-center justify-center rounded-md text-white">
+                                    <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                                    <p className="text-xs font-medium">
+                                      Checking artwork...
+                                    </p>
                                   </div>
-                                ) : (
-                                  <div className="text-center">
-                                    <ImageIcon className="h-10 w-10 mx-auto text-muted-foreground" />
-                                    <p className="mt-2 text-sm text-muted-foreground">
-                                      Drag & drop or click to upload
+                                )}
+
+                                {/* File not accepted */}
+                                {upload.status === "rejected" && (
+                                  <div className="absolute inset-0 bg-red-900/80 flex flex-col items-center justify-center rounded-md text-white p-2 text-center">
+                                    <p className="text-xs font-medium">
+                                      {upload.error}
                                     </p>
-                                    <Label
-                                      htmlFor={`file-upload-${size.id}`}
-                                      className="sr-only"
-                                    >
-                                      Upload file
-                                    </Label>
-                                    <Input
-                                      id={`file-upload-${size.id}`}
-                                      type="file"
-                                      accept="image/*"
-                                      className="hidden"
-                                      onChange={(e) =>
-                                        handleFileChange(e, size.id)
-                                      }
-                                    />
-                                    <Button
-                                      type="button"
-                                      variant="outline"
-                                      size="sm"
-                                      className="mt-2"
-                                      onClick={() =>
-                                        document
-                                          .getElementById(
-                                            `file-upload-${size.id}`
-                                          )
-                                          ?.click()
-                                      }
-                                    >
-                                      <UploadIcon className="mr-2 h-4 w-4" />
-                                      Select File
-                                    </Button>
+                                    <p className="text-xs text-white/80">
+                                      Remove it to choose another file
+                                    </p>
+                                  </div>
+                                )}
+
+                                {/* Upload complete indicator */}
+                                {upload.status === "complete" && (
+                                  <div className="absolute top-2 right-2 bg-green-500 text-white rounded-full p-1">
+                                    <CheckIcon className="h-4 w-4" />
                                   </div>
                                 )}
+
+                                {/* Image quality indicator */}
+                                {dimensions && upload.status === "complete" && (
+                                  <div className="absolute bottom-0 left-0 right-0 bg-black/70 p-2 rounded-b-md">
+                                    <div className="flex flex-col gap-1">
+                                      <div className="flex justify-between items-center">
+                                        <span className="text-xs text-white">
+                                          {dimensions.width} ×{" "}
+                                          {dimensions.height} px
+                                        </span>
+                                        <Badge
+                                          variant={quality.variant}
+                                          className="text-xs"
+                                        >
+                                          {quality.text}
+                                        </Badge>
+                                      </div>
+                                      <p className="text-xs text-white/80">
+                                        {quality.description}
+                                      </p>
+                                    </div>
+                                  </div>
+                                )}
+
+                                <Button
+                                  type="button"
+                                  variant="destructive"
+                                  size="icon"
+                                  className="absolute -top-2 -right-2 h-6 w-6"
+                                  onClick={() => removeFile(size.id)}
+                                  disabled={upload.status === "processing"}
+                                >
+                                  <TrashIcon className="h-3 w-3" />
+                                </Button>
                               </div>
-                            </div>
-                          );
-                        })}
-                    </div>
-
-                    {availableSizes.filter((size) => size.selected).length ===
-                      0 && (
-                      <div className="text-center p-6 border border-dashed rounded-md">
-                        <InfoIcon className="h-10 w-10 mx-auto text-muted-foreground" />
-                        <p className="mt-2 text-muted-foreground">
-                          Please select at least one size above to upload files
-                        </p>
-                      </div>
-                    )}
+                            ) : (
+                              <div className="text-center">
+                                <ImageIcon className="h-10 w-10 mx-auto text-muted-foreground" />
+                                <p className="mt-2 text-sm text-muted-foreground">
+                                  Drag & drop or click to upload
+                                </p>
+                                <Label
+                                  htmlFor={`file-upload-${size.id}`}
+                                  className="sr-only"
+                                >
+                                  Upload file
+                                </Label>
+                                <Input
+                                  id={`file-upload-${size.id}`}
+                                  type="file"
+                                  accept="image/jpeg,image/png,image/tiff"
+                                  className="hidden"
+                                  onChange={(e) => handleFileChange(e, size.id)}
+                                />
+                                <Button
+                                  type="button"
+                                  variant="outline"
+                                  size="sm"
+                                  className="mt-2"
+                                  onClick={() =>
+                                    document
+                                      .getElementById(`file-upload-${size.id}`)
+                                      ?.click()
+                                  }
+                                >
+                                  <UploadIcon className="mr-2 h-4 w-4" />
+                                  Select File
+                                </Button>
+                              </div>
+                            )}
+                          </div>
+                        </div>
+                      );
+                    })}
+                </div>
+
+                {availableSizes.filter((size) => size.selected).length ===
+                  0 && (
+                  <div className="text-center p-6 border border-dashed rounded-md">
+                    <InfoIcon className="h-10 w-10 mx-auto text-muted-foreground" />
+                    <p className="mt-2 text-muted-foreground">
+                      Please select at least one size above to upload files
+                    </p>
                   </div>
-                </CardContent>
-              </Card>
-            </>
-          ) : (
-            <Alert className="mt-6 bg-green-50 dark:bg-green-950 border-green-200 dark:border-green-800">
-              <InfoIcon className="h-4 w-4 text-green-600 dark:text-green-400" />
-              <AlertTitle>Google Drive Link Provided</AlertTitle>
-              <AlertDescription>
-                Since you've provided a Google Drive link, individual file
-                uploads are not required. We'll use the files from your Drive
-                link for all selected sizes.
-              </AlertDescription>
-            </Alert>
-          )}
+                )}
+              </div>
+            </CardContent>
+          </Card>
 
           <div className="flex justify-end gap-4">
             <Button type="button" variant="outline" onClick={handleSaveAsDraft}>
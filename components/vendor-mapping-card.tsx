@@ -0,0 +1,446 @@
+"use client";
+
+import * as React from "react";
+import {
+  AlertTriangle,
+  Loader2,
+  Plus,
+  SearchCheck,
+  Trash2,
+} from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import type { VendorConsistencyReport } from "@/lib/creator-vendors";
+
+type VendorMapping = {
+  vendors: Array<{
+    vendor: string;
+    creator_id: string;
+    profiles: { name: string | null } | null;
+  }>;
+  products: Array<{
+    shopify_product_id: string;
+    creator_id: string;
+    profiles: { name: string | null } | null;
+    posters: { title: string } | null;
+  }>;
+};
+
+type MappingKind = "vendor" | "product";
+
+// Vendor names and products that belong to each creator, and a check of
+// the mapping against the products in Shopify
+export function VendorMappingCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [adding, setAdding] = React.useState<MappingKind | null>(null);
+  const [creatorId, setCreatorId] = React.useState("");
+  const [value, setValue] = React.useState("");
+
+  const { data: mapping, isLoading } = useQuery({
+    queryKey: ["vendor-mapping"],
+    queryFn: async (): Promise<VendorMapping> => {
+      const response = await fetch("/api/admin/vendors");
+      if (!response.ok) {
+        throw new Error("Failed to fetch vendor mapping");
+      }
+      return response.json();
+    },
+  });
+
+  const { data: creators = [] } = useQuery({
+    queryKey: ["creators"],
+    queryFn: async (): Promise<Array<{ id: string; name: string }>> => {
+      const response = await fetch("/api/admin/creators");
+      if (!response.ok) {
+        throw new Error("Failed to fetch creators");
+      }
+      return response.json();
+    },
+  });
+
+  const creatorName = (id: string | null) =>
+    creators.find((creator) => creator.id === id)?.name || "Unknown";
+
+  const checkMutation = useMutation({
+    mutationFn: async (): Promise<VendorConsistencyReport> => {
+      const response = await fetch("/api/admin/vendors/check");
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to check vendor mapping");
+      }
+      return data;
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description:
+          error instanceof Error
+            ? error.message
+            : "Failed to check vendor mapping",
+      });
+    },
+  });
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch("/api/admin/vendors", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(
+          adding === "vendor"
+            ? { creatorId, vendor: value }
+            : { creatorId, shopifyProductId: value }
+        ),
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.error || "Failed to update mapping");
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["vendor-mapping"] });
+      toast({
+        title: adding === "vendor" ? "Vendor added" : "Product assigned",
+        description: `${value} now belongs to ${creatorName(creatorId)}`,
+      });
+      setAdding(null);
+      setValue("");
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to update mapping",
+      });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async ({ kind, id }: { kind: MappingKind; id: string }) => {
+      const response = await fetch(
+        `/api/admin/vendors?${kind}=${encodeURIComponent(id)}`,
+        { method: "DELETE" }
+      );
+
+      if (!response.ok) {
+        throw new Error("Failed to remove mapping");
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["vendor-mapping"] });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to remove mapping",
+      });
+    },
+  });
+
+  const openAdd = (kind: MappingKind) => {
+    setAdding(kind);
+    setCreatorId("");
+    setValue("");
+  };
+
+  const report = checkMutation.data;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle>Vendors &amp; Products</CardTitle>
+          <CardDescription>
+            Which Shopify vendor names and products belong to each creator. A
+            product counts for a creator if it&apos;s assigned to them or
+            listed under one of their vendor names.
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => openAdd("vendor")}>
+            <Plus className="h-4 w-4 mr-1" />
+            Vendor
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => openAdd("product")}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Product
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => checkMutation.mutate()}
+            disabled={checkMutation.isPending}
+          >
+            {checkMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+            ) : (
+              <SearchCheck className="h-4 w-4 mr-1" />
+            )}
+            Check
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {report && (
+          <div className="rounded-md border p-4 space-y-3 text-sm">
+            <p className="text-muted-foreground">
+              Checked {report.products} Shopify products.
+            </p>
+            {report.unmappedVendors.length === 0 &&
+              report.ownerConflicts.length === 0 &&
+              report.missingProducts.length === 0 && (
+                <p>Every product matches the mapping.</p>
+              )}
+            {report.unmappedVendors.length > 0 && (
+              <div>
+                <p className="font-medium flex items-center gap-1">
+                  <AlertTriangle className="h-4 w-4 text-orange-500" />
+                  Vendor without a creator ({report.unmappedVendors.length})
+                </p>
+                <ul className="ml-5 list-disc">
+                  {report.unmappedVendors.map((product) => (
+                    <li key={product.shopifyProductId}>
+                      {product.title} ({product.shop}) —{" "}
+                      {product.vendor || "(no vendor)"}
+                      {product.creatorId &&
+                        `, assigned to ${creatorName(product.creatorId)}`}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {report.ownerConflicts.length > 0 && (
+              <div>
+                <p className="font-medium flex items-center gap-1">
+                  <AlertTriangle className="h-4 w-4 text-orange-500" />
+                  Vendor and owner disagree ({report.ownerConflicts.length})
+                </p>
+                <ul className="ml-5 list-disc">
+                  {report.ownerConflicts.map((product) => (
+                    <li key={product.shopifyProductId}>
+                      {product.title} ({product.shop}): assigned to{" "}
+                      {creatorName(product.creatorId)}, vendor {product.vendor}{" "}
+                      belongs to {creatorName(product.vendorCreatorId)}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {report.missingProducts.length > 0 && (
+              <div>
+                <p className="font-medium flex items-center gap-1">
+                  <AlertTriangle className="h-4 w-4 text-destructive" />
+                  No longer in their shop ({report.missingProducts.length})
+                </p>
+                <ul className="ml-5 list-disc">
+                  {report.missingProducts.map((product) => (
+                    <li key={product.shopifyProductId}>
+                      {product.title || `Product ${product.shopifyProductId}`}{" "}
+                      ({creatorName(product.creatorId)}, {product.shop})
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Vendor</TableHead>
+              <TableHead>Creator</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={3} className="text-center py-4">
+                  <Loader2 className="h-4 w-4 animate-spin inline mr-2" />
+                  Loading vendors...
+                </TableCell>
+              </TableRow>
+            ) : mapping?.vendors.length ? (
+              mapping.vendors.map((row) => (
+                <TableRow key={row.vendor}>
+                  <TableCell className="font-medium">{row.vendor}</TableCell>
+                  <TableCell>{row.profiles?.name || "Unknown"}</TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() =>
+                        removeMutation.mutate({
+                          kind: "vendor",
+                          id: row.vendor,
+                        })
+                      }
+                      disabled={removeMutation.isPending}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell
+                  colSpan={3}
+                  className="text-center py-4 text-muted-foreground"
+                >
+                  No vendor names mapped yet
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+
+        {!!mapping?.products.length && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Product</TableHead>
+                <TableHead>Creator</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {mapping.products.map((row) => (
+                <TableRow key={row.shopify_product_id}>
+                  <TableCell className="font-medium">
+                    {row.posters?.title || row.shopify_product_id}
+                  </TableCell>
+                  <TableCell>{row.profiles?.name || "Unknown"}</TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() =>
+                        removeMutation.mutate({
+                          kind: "product",
+                          id: row.shopify_product_id,
+                        })
+                      }
+                      disabled={removeMutation.isPending}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog
+        open={adding !== null}
+        onOpenChange={(open) => !open && setAdding(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {adding === "vendor" ? "Add vendor name" : "Assign product"}
+            </DialogTitle>
+            <DialogDescription>
+              {adding === "vendor"
+                ? "Products listed under this vendor in Shopify will count for the creator."
+                : "The Shopify product will count for the creator whatever its vendor."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Creator</Label>
+              <Select value={creatorId} onValueChange={setCreatorId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a creator" />
+                </SelectTrigger>
+                <SelectContent>
+                  {creators.map((creator) => (
+                    <SelectItem key={creator.id} value={creator.id}>
+                      {creator.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="mappingValue">
+                {adding === "vendor" ? "Vendor" : "Shopify product ID"}
+              </Label>
+              <Input
+                id="mappingValue"
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAdding(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => addMutation.mutate()}
+              disabled={addMutation.isPending || !creatorId || !value.trim()}
+            >
+              {addMutation.isPending && (
+                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+              )}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
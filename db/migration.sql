@@ -4,4 +4,1106 @@ ADD COLUMN IF NOT EXISTS currency VARCHAR(3) DEFAULT 'GBP';
 
 -- Add a check constraint to ensure only valid currencies are allowed
 ALTER TABLE profiles 
-ADD CONSTRAINT currency_values CHECK (currency IN ('GBP', 'EUR', 'USD', 'DKK')); 
\ No newline at end of file
+ADD CONSTRAINT currency_values CHECK (currency IN ('GBP', 'EUR', 'USD', 'DKK')); 
+
+-- Payout ledger: one row per Shopify order line behind a payout
+CREATE TABLE IF NOT EXISTS payout_line_items (
+  id BIGSERIAL PRIMARY KEY,
+  payout_id BIGINT NOT NULL REFERENCES payout(id) ON DELETE CASCADE,
+  creator_id UUID NOT NULL REFERENCES profiles(id),
+  poster_id UUID REFERENCES posters(id) ON DELETE SET NULL,
+  shopify_product_id TEXT NOT NULL,
+  product_title TEXT,
+  shopify_order_id TEXT NOT NULL,
+  shopify_order_name TEXT,
+  shopify_line_item_id TEXT NOT NULL,
+  variant_id TEXT,
+  variant_title TEXT,
+  quantity INTEGER NOT NULL DEFAULT 0,
+  gross_amount NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  discount_amount NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  net_amount NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  commission_amount NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  currency VARCHAR(3) NOT NULL,
+  ordered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (payout_id, shopify_line_item_id)
+);
+
+CREATE INDEX IF NOT EXISTS payout_line_items_payout_id_idx ON payout_line_items (payout_id);
+CREATE INDEX IF NOT EXISTS payout_line_items_creator_id_idx ON payout_line_items (creator_id);
+CREATE INDEX IF NOT EXISTS payout_line_items_order_id_idx ON payout_line_items (shopify_order_id);
+
+-- Commission rules: store-wide default plus creator, poster and date-range overrides.
+-- `rate` is the creator's share of net line revenue. Editing a rule bumps `version`.
+CREATE TABLE IF NOT EXISTS commission_rules (
+  id BIGSERIAL PRIMARY KEY,
+  label TEXT NOT NULL,
+  rate NUMERIC(5, 4) NOT NULL CHECK (rate >= 0 AND rate <= 1),
+  creator_id UUID REFERENCES profiles(id) ON DELETE CASCADE,
+  poster_id UUID REFERENCES posters(id) ON DELETE CASCADE,
+  starts_at DATE,
+  ends_at DATE,
+  priority INTEGER NOT NULL DEFAULT 0,
+  version INTEGER NOT NULL DEFAULT 1,
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ,
+  CONSTRAINT commission_rules_period CHECK (
+    starts_at IS NULL OR ends_at IS NULL OR starts_at <= ends_at
+  )
+);
+
+CREATE INDEX IF NOT EXISTS commission_rules_creator_id_idx ON commission_rules (creator_id);
+CREATE INDEX IF NOT EXISTS commission_rules_poster_id_idx ON commission_rules (poster_id);
+
+-- Seed the store-wide default: creators earn 30%. Before these rules the
+-- code disagreed: the dashboards' calculateEarnings gave creators 70% (it
+-- took COMMISSION_RATE = 0.30 as the platform's cut), while the monthly
+-- payout run paid creators 30%. The default follows what creators were
+-- actually paid; if 70% was meant, change this rule's rate and new payouts
+-- and the dashboards follow it.
+INSERT INTO commission_rules (label, rate)
+SELECT 'Default', 0.30
+WHERE NOT EXISTS (
+  SELECT 1 FROM commission_rules
+  WHERE creator_id IS NULL AND poster_id IS NULL AND starts_at IS NULL AND ends_at IS NULL
+);
+
+-- Record which rule versions a payout and each of its lines were calculated with
+ALTER TABLE payout
+ADD COLUMN IF NOT EXISTS commission_rules JSONB;
+
+ALTER TABLE payout_line_items
+ADD COLUMN IF NOT EXISTS commission_rate NUMERIC(5, 4),
+ADD COLUMN IF NOT EXISTS commission_rule_id BIGINT REFERENCES commission_rules(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS commission_rule_version INTEGER;
+
+-- Snapshot of the exchange rates a payout was converted with, e.g.
+-- {"currency": "DKK", "rates": {"GBP": 8.72}, "fetched_at": "..."}
+ALTER TABLE payout
+ADD COLUMN IF NOT EXISTS exchange_rates JSONB;
+
+-- Line amounts are stored in the payout currency; keep the original order amount too
+ALTER TABLE payout_line_items
+ADD COLUMN IF NOT EXISTS original_currency TEXT,
+ADD COLUMN IF NOT EXISTS original_net_amount NUMERIC(12, 2),
+ADD COLUMN IF NOT EXISTS fx_rate NUMERIC(12, 6);
+
+-- Refund and chargeback clawbacks on orders that were already paid out.
+-- Amounts are negative, in the currency of the original payout line, and are
+-- netted off the creator's next payout (applied_payout_id).
+CREATE TABLE IF NOT EXISTS payout_adjustments (
+  id BIGSERIAL PRIMARY KEY,
+  creator_id UUID NOT NULL REFERENCES profiles(id),
+  payout_line_item_id BIGINT REFERENCES payout_line_items(id) ON DELETE SET NULL,
+  shopify_order_id TEXT NOT NULL,
+  shopify_order_name TEXT,
+  source_id TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('refund', 'chargeback')),
+  amount NUMERIC(12, 2) NOT NULL,
+  currency TEXT NOT NULL,
+  reason TEXT,
+  occurred_at TIMESTAMPTZ NOT NULL,
+  applied_payout_id BIGINT REFERENCES payout(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (payout_line_item_id, source_id)
+);
+
+CREATE INDEX IF NOT EXISTS payout_adjustments_creator_id_idx ON payout_adjustments (creator_id);
+CREATE INDEX IF NOT EXISTS payout_adjustments_applied_payout_id_idx ON payout_adjustments (applied_payout_id);
+
+ALTER TABLE payout
+ADD COLUMN IF NOT EXISTS adjustments_amount NUMERIC(12, 2) NOT NULL DEFAULT 0;
+
+-- Creator balance: months whose earnings were below the minimum payout roll
+-- over here and are paid out with a later payout (payout_id once released)
+CREATE TABLE IF NOT EXISTS creator_balance_entries (
+  id BIGSERIAL PRIMARY KEY,
+  creator_id UUID NOT NULL REFERENCES profiles(id),
+  amount NUMERIC(12, 2) NOT NULL,
+  currency TEXT NOT NULL,
+  period JSONB NOT NULL,
+  threshold_amount NUMERIC(12, 2),
+  commission_rules JSONB,
+  exchange_rates JSONB,
+  payout_id BIGINT REFERENCES payout(id) ON DELETE SET NULL,
+  released_by UUID REFERENCES profiles(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS creator_balance_entries_creator_id_idx ON creator_balance_entries (creator_id);
+CREATE INDEX IF NOT EXISTS creator_balance_entries_payout_id_idx ON creator_balance_entries (payout_id);
+
+-- Order lines of a rolled-over month belong to its balance entry until released
+ALTER TABLE payout_line_items
+ALTER COLUMN payout_id DROP NOT NULL,
+ADD COLUMN IF NOT EXISTS balance_entry_id BIGINT REFERENCES creator_balance_entries(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS payout_line_items_balance_entry_id_idx ON payout_line_items (balance_entry_id);
+
+ALTER TABLE payout
+ADD COLUMN IF NOT EXISTS balance_amount NUMERIC(12, 2) NOT NULL DEFAULT 0;
+
+-- Payout run journal: one run per period with each creator's progress, so a
+-- run that crashed or partly failed can be resumed without paying twice
+CREATE TABLE IF NOT EXISTS payout_runs (
+  id BIGSERIAL PRIMARY KEY,
+  period_start DATE NOT NULL UNIQUE,
+  period_end DATE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 1,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMPTZ,
+  error TEXT
+);
+
+CREATE TABLE IF NOT EXISTS payout_run_creators (
+  run_id BIGINT NOT NULL REFERENCES payout_runs(id) ON DELETE CASCADE,
+  creator_id UUID NOT NULL REFERENCES profiles(id),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'computed', 'written', 'failed')),
+  amount NUMERIC(12, 2),
+  currency TEXT,
+  payout_id BIGINT REFERENCES payout(id) ON DELETE SET NULL,
+  balance_entry_id BIGINT REFERENCES creator_balance_entries(id) ON DELETE SET NULL,
+  error TEXT,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (run_id, creator_id)
+);
+
+-- Re-runs of the monthly payout run created several payouts for the same
+-- creator and period, which the unique index below doesn't allow. Per
+-- creator and period the completed payout (or else the first one) is kept;
+-- the others are moved here with their order lines for an admin to check,
+-- e.g. whether a duplicate was paid out as well. Adjustments, balances and
+-- run journal rows of a moved payout now point at the one that was kept.
+CREATE TABLE IF NOT EXISTS payout_duplicates (
+  payout_id BIGINT PRIMARY KEY,
+  kept_payout_id BIGINT REFERENCES payout(id) ON DELETE SET NULL,
+  creator_id UUID NOT NULL REFERENCES profiles(id),
+  period_start TEXT NOT NULL,
+  status TEXT NOT NULL,
+  amount NUMERIC(12, 2),
+  payout JSONB NOT NULL,
+  line_items JSONB NOT NULL DEFAULT '[]',
+  detected_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  resolved_at TIMESTAMPTZ,
+  resolved_by UUID REFERENCES profiles(id),
+  note TEXT
+);
+
+WITH ranked AS (
+  SELECT
+    id,
+    first_value(id) OVER period AS kept_id,
+    row_number() OVER period AS position
+  FROM payout
+  WHERE payout_month->>'start' IS NOT NULL
+  WINDOW period AS (
+    PARTITION BY creator_id, payout_month->>'start'
+    ORDER BY (status = 'completed') DESC, id
+  )
+)
+INSERT INTO payout_duplicates (
+  payout_id, kept_payout_id, creator_id, period_start, status, amount,
+  payout, line_items
+)
+SELECT
+  p.id, r.kept_id, p.creator_id, p.payout_month->>'start', p.status::text,
+  p.amount, to_jsonb(p),
+  COALESCE(
+    (SELECT jsonb_agg(to_jsonb(li)) FROM payout_line_items li WHERE li.payout_id = p.id),
+    '[]'
+  )
+FROM ranked r
+JOIN payout p ON p.id = r.id
+WHERE r.position > 1
+ON CONFLICT (payout_id) DO NOTHING;
+
+UPDATE payout_adjustments a
+SET applied_payout_id = d.kept_payout_id
+FROM payout_duplicates d
+WHERE a.applied_payout_id = d.payout_id;
+
+UPDATE creator_balance_entries b
+SET payout_id = d.kept_payout_id
+FROM payout_duplicates d
+WHERE b.payout_id = d.payout_id;
+
+UPDATE payout_run_creators c
+SET payout_id = d.kept_payout_id
+FROM payout_duplicates d
+WHERE c.payout_id = d.payout_id;
+
+DELETE FROM payout
+WHERE id IN (SELECT payout_id FROM payout_duplicates);
+
+DO $$
+DECLARE
+  moved INTEGER;
+BEGIN
+  SELECT count(*) INTO moved FROM payout_duplicates WHERE resolved_at IS NULL;
+  IF moved > 0 THEN
+    RAISE NOTICE '% duplicate payouts were moved to payout_duplicates for review', moved;
+  END IF;
+END $$;
+
+-- One payout per creator and period, also when two runs overlap; used by the
+-- monthly run's duplicate check
+DROP INDEX IF EXISTS payout_creator_period_idx;
+CREATE UNIQUE INDEX IF NOT EXISTS payout_creator_period_key ON payout (creator_id, (payout_month->>'start'));
+
+-- Payment files (e.g. SEPA pain.001) generated for a set of payouts. The file
+-- is kept so it can be downloaded again; payout.batch_id records which file a
+-- payout went out in.
+CREATE TABLE IF NOT EXISTS payout_batches (
+  id BIGSERIAL PRIMARY KEY,
+  provider TEXT NOT NULL CHECK (provider IN ('sepa')),
+  reference TEXT NOT NULL UNIQUE,
+  file_name TEXT NOT NULL,
+  file_content TEXT NOT NULL,
+  payout_count INTEGER NOT NULL,
+  total_amount NUMERIC(12, 2) NOT NULL,
+  currency TEXT NOT NULL,
+  execution_date DATE,
+  created_by UUID REFERENCES profiles(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE payout
+ADD COLUMN IF NOT EXISTS batch_id BIGINT REFERENCES payout_batches(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS payout_batch_id_idx ON payout (batch_id);
+
+-- PayPal Payouts batches, with the Payouts API request body next to the CSV
+ALTER TABLE payout_batches
+DROP CONSTRAINT IF EXISTS payout_batches_provider_check,
+ADD CONSTRAINT payout_batches_provider_check CHECK (provider IN ('sepa', 'paypal')),
+ADD COLUMN IF NOT EXISTS payload JSONB,
+ADD COLUMN IF NOT EXISTS reconciled_at TIMESTAMPTZ;
+
+-- Payment results: PayPal transaction ID / bank file reference, and why a
+-- payment failed (failed payouts can be put in a new batch)
+ALTER TYPE payout_status ADD VALUE IF NOT EXISTS 'failed';
+
+ALTER TABLE payout
+ADD COLUMN IF NOT EXISTS payment_reference TEXT,
+ADD COLUMN IF NOT EXISTS payment_error TEXT;
+
+-- Payout statements: a snapshot of the statement data per payout, so the PDF
+-- and CSV a creator downloads don't change unless an admin regenerates them
+CREATE TABLE IF NOT EXISTS payout_statements (
+  payout_id BIGINT PRIMARY KEY REFERENCES payout(id) ON DELETE CASCADE,
+  data JSONB NOT NULL,
+  generated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  generated_by UUID REFERENCES profiles(id)
+);
+
+-- When a payout was actually paid, for the creators' annual statements.
+-- Payouts completed before this column existed use their creation date.
+ALTER TABLE payout
+ADD COLUMN IF NOT EXISTS paid_at TIMESTAMPTZ;
+
+UPDATE payout SET paid_at = created_at
+WHERE status = 'completed' AND paid_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS payout_creator_paid_at_idx
+ON payout (creator_id, paid_at);
+
+-- Local copy of Shopify orders. Dashboards, earnings and payouts read from
+-- these tables instead of paging through Shopify on every request. They are
+-- filled by the order sync (api/cron/sync-orders): a one-off backfill and an
+-- incremental sync of orders updated since the last run.
+CREATE TABLE IF NOT EXISTS orders (
+  id TEXT PRIMARY KEY, -- Shopify order GID
+  name TEXT NOT NULL,
+  ordered_at TIMESTAMPTZ NOT NULL,
+  shopify_updated_at TIMESTAMPTZ NOT NULL,
+  cancelled_at TIMESTAMPTZ,
+  financial_status TEXT,
+  fulfillment_status TEXT,
+  currency TEXT NOT NULL,
+  total_amount NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  shipping_amount NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  refunded_amount NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  customer_name TEXT,
+  customer_email TEXT,
+  -- Refunds (with their lines) and disputes as returned by Shopify, used for
+  -- payout adjustments
+  refunds JSONB NOT NULL DEFAULT '[]',
+  disputes JSONB NOT NULL DEFAULT '[]',
+  synced_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS orders_ordered_at_idx ON orders (ordered_at);
+
+CREATE TABLE IF NOT EXISTS order_line_items (
+  id TEXT PRIMARY KEY, -- Shopify line item GID
+  order_id TEXT NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  shopify_product_id TEXT, -- numeric ID, as stored on posters
+  variant_id TEXT,
+  variant_title TEXT,
+  variant_options JSONB NOT NULL DEFAULT '[]',
+  title TEXT NOT NULL,
+  sku TEXT,
+  quantity INTEGER NOT NULL,
+  unit_price NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  gross_amount NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  discount_amount NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  net_amount NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  refunded_quantity INTEGER NOT NULL DEFAULT 0,
+  refunded_amount NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  currency TEXT NOT NULL,
+  -- Copy of orders.ordered_at so lines can be filtered by date directly
+  ordered_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS order_line_items_order_idx
+ON order_line_items (order_id);
+CREATE INDEX IF NOT EXISTS order_line_items_product_idx
+ON order_line_items (shopify_product_id, ordered_at);
+
+-- Progress of the order sync per shop: the backfill cursor and the
+-- updated_at watermark the incremental sync continues from
+CREATE TABLE IF NOT EXISTS order_sync_state (
+  shop TEXT PRIMARY KEY,
+  backfill_cursor TEXT,
+  backfill_completed_at TIMESTAMPTZ,
+  updated_since TIMESTAMPTZ,
+  orders_synced INTEGER NOT NULL DEFAULT 0,
+  last_run_at TIMESTAMPTZ,
+  last_error TEXT
+);
+
+-- Shopify webhook deliveries, keyed by X-Shopify-Webhook-Id so retries and
+-- replays of a delivery that was already processed are ignored
+CREATE TABLE IF NOT EXISTS shopify_webhooks (
+  webhook_id TEXT PRIMARY KEY,
+  topic TEXT NOT NULL,
+  shop TEXT,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  processed_at TIMESTAMPTZ,
+  error TEXT
+);
+
+-- Status of the poster's Shopify product (active, draft, archived or
+-- deleted), kept current by the products/update and products/delete webhooks
+ALTER TABLE posters
+ADD COLUMN IF NOT EXISTS shopify_status TEXT;
+
+-- Creator edits to a poster's title, description and prices, which an admin
+-- approves before they're applied to the poster and its Shopify product.
+-- Edits made in Shopify are applied straight away and recorded with source
+-- 'shopify'. `previous` holds the values at the time of the request.
+CREATE TABLE IF NOT EXISTS poster_change_requests (
+  id BIGSERIAL PRIMARY KEY,
+  poster_id UUID NOT NULL REFERENCES posters(id) ON DELETE CASCADE,
+  creator_id UUID NOT NULL REFERENCES profiles(id),
+  source TEXT NOT NULL DEFAULT 'creator'
+    CHECK (source IN ('creator', 'shopify')),
+  changes JSONB NOT NULL,
+  previous JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'approved', 'rejected')),
+  review_note TEXT,
+  reviewed_by UUID REFERENCES profiles(id),
+  reviewed_at TIMESTAMPTZ,
+  -- Why pushing the approved change to Shopify failed; the request stays
+  -- pending so it can be approved again
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- At most one open request per poster; editing again updates it
+CREATE UNIQUE INDEX IF NOT EXISTS poster_change_requests_pending_idx
+ON poster_change_requests (poster_id)
+WHERE status = 'pending';
+
+-- Bulk imports of Shopify orders (lib/order-bulk-sync.ts), used to backfill
+-- a store or a date range without paging through it. `id` is the Shopify
+-- BulkOperation GID and `status` its status; `imported_at` is set once the
+-- result has been read into the orders tables.
+CREATE TABLE IF NOT EXISTS order_bulk_imports (
+  id TEXT PRIMARY KEY,
+  shop TEXT NOT NULL,
+  -- Orders created in [created_from, created_to); NULL is unbounded
+  created_from TIMESTAMPTZ,
+  created_to TIMESTAMPTZ,
+  status TEXT NOT NULL,
+  error_code TEXT,
+  object_count INTEGER NOT NULL DEFAULT 0,
+  orders_imported INTEGER NOT NULL DEFAULT 0,
+  line_items_imported INTEGER NOT NULL DEFAULT 0,
+  started_by UUID REFERENCES profiles(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ,
+  imported_at TIMESTAMPTZ,
+  error TEXT
+);
+
+CREATE INDEX IF NOT EXISTS order_bulk_imports_shop_idx
+ON order_bulk_imports (shop, created_at);
+
+-- Which Shopify vendor names and products belong to which creator, managed
+-- by admins (lib/creator-vendors.ts). A creator can have several vendor
+-- names, e.g. after a rename in Shopify; names are unique regardless of case.
+CREATE TABLE IF NOT EXISTS creator_vendors (
+  vendor TEXT PRIMARY KEY,
+  creator_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES profiles(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS creator_vendors_vendor_lower_idx
+ON creator_vendors (lower(vendor));
+CREATE INDEX IF NOT EXISTS creator_vendors_creator_idx
+ON creator_vendors (creator_id);
+
+-- Shopify products (numeric ID) owned by a creator: the products of their
+-- posters, plus products an admin assigned to them
+CREATE TABLE IF NOT EXISTS creator_products (
+  shopify_product_id TEXT PRIMARY KEY,
+  creator_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  poster_id UUID REFERENCES posters(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES profiles(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS creator_products_creator_idx
+ON creator_products (creator_id);
+
+-- Seed the mapping from profiles.vendor and the posters' products
+INSERT INTO creator_vendors (vendor, creator_id)
+SELECT DISTINCT ON (lower(trim(vendor))) trim(vendor), id
+FROM profiles
+WHERE trim(coalesce(vendor, '')) <> ''
+ORDER BY lower(trim(vendor)), created_at
+ON CONFLICT DO NOTHING;
+
+INSERT INTO creator_products (shopify_product_id, creator_id, poster_id)
+SELECT shopify_product_id, creator_id, id
+FROM posters
+WHERE shopify_product_id IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+-- Shopify shops the catalogue is sold in (lib/shops.ts), keyed by their
+-- myshopify.com domain. Credentials stay in the environment: a shop names
+-- the variables holding its Admin API token and webhook secret. Posters are
+-- created and priced in the primary shop.
+CREATE TABLE IF NOT EXISTS shops (
+  domain TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'EUR',
+  access_token_env TEXT NOT NULL,
+  webhook_secret_env TEXT,
+  is_primary BOOLEAN NOT NULL DEFAULT FALSE,
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS shops_primary_idx
+ON shops (is_primary) WHERE is_primary;
+
+-- Shops may only name Shopify variables, never other secrets of the app
+ALTER TABLE shops
+DROP CONSTRAINT IF EXISTS shops_env_names,
+ADD CONSTRAINT shops_env_names CHECK (
+  access_token_env ~ '^SHOPIFY_[A-Z0-9_]+$'
+  AND (webhook_secret_env IS NULL OR webhook_secret_env ~ '^SHOPIFY_[A-Z0-9_]+$')
+);
+
+-- The shop orders have been synced from so far becomes the primary shop
+INSERT INTO shops (domain, name, access_token_env, webhook_secret_env, is_primary)
+SELECT shop, shop, 'SHOPIFY_ADMIN_ACCESS_TOKEN', 'SHOPIFY_WEBHOOK_SECRET', TRUE
+FROM order_sync_state
+ORDER BY orders_synced DESC
+LIMIT 1
+ON CONFLICT DO NOTHING;
+
+-- The shop each order was placed in
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS shop TEXT;
+
+UPDATE orders SET shop = (SELECT domain FROM shops WHERE is_primary)
+WHERE shop IS NULL;
+
+CREATE INDEX IF NOT EXISTS orders_shop_idx ON orders (shop, ordered_at);
+
+-- A poster has one product per shop; the primary shop's is also stored on
+-- the poster
+ALTER TABLE creator_products ADD COLUMN IF NOT EXISTS shop TEXT;
+ALTER TABLE creator_products ADD COLUMN IF NOT EXISTS shopify_url TEXT;
+
+UPDATE creator_products
+SET shop = (SELECT domain FROM shops WHERE is_primary)
+WHERE shop IS NULL;
+
+UPDATE creator_products cp
+SET shopify_url = p.shopify_url
+FROM posters p
+WHERE cp.poster_id = p.id
+  AND cp.shopify_product_id = p.shopify_product_id
+  AND cp.shopify_url IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS creator_products_poster_shop_idx
+ON creator_products (poster_id, shop) WHERE poster_id IS NOT NULL;
+
+-- Discounts applied to each line: discount codes, automatic and manual
+-- discounts with the amount allocated to the line, in the order currency
+ALTER TABLE order_line_items
+ADD COLUMN IF NOT EXISTS discounts JSONB NOT NULL DEFAULT '[]';
+
+-- Promotions as they appear on orders (a discount code or the title of an
+-- automatic discount). Discounts of platform-funded campaigns are paid by
+-- the platform: creator commission is computed on the pre-discount price.
+CREATE TABLE IF NOT EXISTS discount_campaigns (
+  id BIGSERIAL PRIMARY KEY,
+  name TEXT NOT NULL,
+  platform_funded BOOLEAN NOT NULL DEFAULT FALSE,
+  note TEXT,
+  updated_by UUID REFERENCES profiles(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ
+);
+
+-- Discount codes are case-insensitive in Shopify
+CREATE UNIQUE INDEX IF NOT EXISTS discount_campaigns_name_idx
+ON discount_campaigns (lower(name));
+
+-- Part of a payout line's discount the platform paid for, included in the
+-- amount commission was calculated on
+ALTER TABLE payout_line_items
+ADD COLUMN IF NOT EXISTS platform_funded_amount NUMERIC(12, 2)
+NOT NULL DEFAULT 0;
+
+-- The poster size catalogue. The id is what posters.selected_sizes and the
+-- keys of posters.prices and image_urls hold; option_value is the size's
+-- "Size" option value in Shopify. Sizes are deactivated rather than deleted
+-- so existing posters keep their sizes.
+CREATE TABLE IF NOT EXISTS poster_sizes (
+  id TEXT PRIMARY KEY,
+  label TEXT NOT NULL,
+  dimensions TEXT NOT NULL,
+  option_value TEXT NOT NULL,
+  recommended_width INTEGER NOT NULL,
+  recommended_height INTEGER NOT NULL,
+  min_price NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  max_price NUMERIC(10, 2),
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ,
+  CONSTRAINT poster_sizes_price_range CHECK (
+    max_price IS NULL OR max_price >= min_price
+  )
+);
+
+INSERT INTO poster_sizes (
+  id, label, dimensions, option_value, recommended_width, recommended_height,
+  min_price, sort_order
+)
+VALUES
+  ('21x30', 'A4', '21 × 30 cm', '21x30 cm', 2481, 3543, 13, 1),
+  ('30x40', '3:4', '30 × 40 cm', '30x40 cm', 3543, 4724, 16, 2),
+  ('50x70', 'Standard', '50 × 70 cm', '50x70 cm', 5906, 8268, 20, 3),
+  ('70x100', 'Large Standard', '70 × 100 cm', '70x100 cm', 8268, 11811, 27, 4),
+  ('50x50', '1:1', '50 × 50 cm', '50x50 cm', 5906, 5906, 10, 5)
+ON CONFLICT (id) DO NOTHING;
+
+-- The upload form stored the A4 size as "a4"; use the catalogue id in the
+-- sizes, prices and image URLs of existing posters
+UPDATE posters
+SET selected_sizes = ARRAY(
+  SELECT DISTINCT CASE WHEN lower(size) = 'a4' THEN '21x30' ELSE size END
+  FROM unnest(selected_sizes) AS size
+)
+WHERE EXISTS (
+  SELECT 1 FROM unnest(selected_sizes) AS size WHERE lower(size) = 'a4'
+);
+
+UPDATE posters
+SET prices = (prices - 'a4' - 'A4') || jsonb_build_object(
+  '21x30', COALESCE(prices -> '21x30', prices -> 'a4', prices -> 'A4')
+)
+WHERE prices ?| ARRAY['a4', 'A4'];
+
+UPDATE posters
+SET image_urls = (image_urls - 'a4' - 'A4') || jsonb_build_object(
+  '21x30',
+  COALESCE(image_urls -> '21x30', image_urls -> 'a4', image_urls -> 'A4')
+)
+WHERE image_urls ?| ARRAY['a4', 'A4'];
+
+-- Print-readiness reports of uploaded artwork, one per stored image. Rows are
+-- written by /api/upload before the poster exists and linked to the poster
+-- when it is submitted. checks holds the individual checks with their status
+-- and message; status is the worst of them.
+CREATE TABLE IF NOT EXISTS artwork_reports (
+  id BIGSERIAL PRIMARY KEY,
+  creator_id UUID NOT NULL REFERENCES profiles(id),
+  poster_id UUID REFERENCES posters(id) ON DELETE CASCADE,
+  size_id TEXT NOT NULL REFERENCES poster_sizes(id),
+  storage_path TEXT NOT NULL UNIQUE,
+  url TEXT NOT NULL,
+  file_type TEXT NOT NULL,
+  file_size BIGINT NOT NULL,
+  width INTEGER NOT NULL,
+  height INTEGER NOT NULL,
+  dpi_x INTEGER,
+  dpi_y INTEGER,
+  effective_dpi INTEGER NOT NULL,
+  color_space TEXT NOT NULL,
+  icc_profile TEXT,
+  status TEXT NOT NULL CHECK (status IN ('pass', 'warn', 'fail')),
+  checks JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS artwork_reports_poster_id_idx
+ON artwork_reports (poster_id);
+CREATE INDEX IF NOT EXISTS artwork_reports_url_idx ON artwork_reports (url);
+
+-- Print files are kept in a private bucket; only their web-sized derivatives
+-- (preview, thumb, mockup) go to the public poster-images bucket. Creators
+-- upload into a folder named after their id, reviewers download through
+-- signed URLs.
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('poster-originals', 'poster-originals', false, 52428800)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Creators upload their print files" ON storage.objects;
+CREATE POLICY "Creators upload their print files"
+ON storage.objects FOR INSERT TO authenticated
+WITH CHECK (
+  bucket_id = 'poster-originals'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+  AND storage.filename(name) = 'upload'
+);
+
+DROP POLICY IF EXISTS "Creators read their print files" ON storage.objects;
+CREATE POLICY "Creators read their print files"
+ON storage.objects FOR SELECT TO authenticated
+USING (
+  bucket_id = 'poster-originals'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+DROP POLICY IF EXISTS "Admins read print files" ON storage.objects;
+CREATE POLICY "Admins read print files"
+ON storage.objects FOR SELECT TO authenticated
+USING (
+  bucket_id = 'poster-originals'
+  AND EXISTS (
+    SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin'
+  )
+);
+
+-- posters.image_urls holds { original, preview, thumb, mockup } per size.
+-- Earlier posters kept one public URL per size, which stands in for all four.
+UPDATE posters
+SET image_urls = (
+  SELECT jsonb_object_agg(
+    size,
+    CASE
+      WHEN jsonb_typeof(image) = 'string' THEN jsonb_build_object(
+        'original', image,
+        'preview', image,
+        'thumb', image,
+        'mockup', image
+      )
+      ELSE image
+    END
+  )
+  FROM jsonb_each(image_urls) AS entries(size, image)
+)
+WHERE jsonb_typeof(image_urls) = 'object'
+AND EXISTS (
+  SELECT 1 FROM jsonb_each(image_urls) AS entries(size, image)
+  WHERE jsonb_typeof(image) = 'string'
+);
+
+-- Reports are linked to posters by the print file's storage path
+DROP INDEX IF EXISTS artwork_reports_url_idx;
+
+-- Print files are uploaded by the browser in resumable chunks straight to
+-- poster-originals (up to 500MB, often TIFF) as `upload`. /api/upload
+-- checks the file, stores the bytes it checked as `original.<ext>` in the
+-- same folder (with the service role) and removes the upload; rejected
+-- uploads are just removed. Creators can only write their `upload`, so a
+-- print file can't be added without the check or swapped after it. Google
+-- Drive links are no longer asked for; drive_link only holds the links of
+-- earlier posters.
+UPDATE storage.buckets
+SET file_size_limit = 524288000
+WHERE id = 'poster-originals';
+
+DROP POLICY IF EXISTS "Creators update their print files" ON storage.objects;
+CREATE POLICY "Creators update their print files"
+ON storage.objects FOR UPDATE TO authenticated
+USING (
+  bucket_id = 'poster-originals'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+  AND storage.filename(name) = 'upload'
+)
+WITH CHECK (
+  bucket_id = 'poster-originals'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+  AND storage.filename(name) = 'upload'
+);
+
+DROP POLICY IF EXISTS "Creators delete their print files" ON storage.objects;
+CREATE POLICY "Creators delete their print files"
+ON storage.objects FOR DELETE TO authenticated
+USING (
+  bucket_id = 'poster-originals'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+  AND storage.filename(name) = 'upload'
+);
+
+-- Reviews of submitted posters (lib/poster-reviews.ts). Instead of
+-- approving, an admin rejects a poster or requests changes, with a reason
+-- code, an optional note and, for change requests, the size files to
+-- replace. The creator answers with a new revision of the poster, which
+-- resolves the review and puts the poster back in the review queue.
+ALTER TYPE poster_status ADD VALUE IF NOT EXISTS 'changesRequested';
+
+ALTER TABLE posters
+ADD COLUMN IF NOT EXISTS revision INTEGER NOT NULL DEFAULT 1;
+
+CREATE TABLE IF NOT EXISTS poster_reviews (
+  id BIGSERIAL PRIMARY KEY,
+  poster_id UUID NOT NULL REFERENCES posters(id) ON DELETE CASCADE,
+  reviewer_id UUID NOT NULL REFERENCES profiles(id),
+  decision TEXT NOT NULL CHECK (decision IN ('rejected', 'changesRequested')),
+  reason TEXT NOT NULL,
+  note TEXT,
+  sizes TEXT[] NOT NULL DEFAULT '{}',
+  revision INTEGER NOT NULL,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS poster_reviews_poster_id_idx
+ON poster_reviews (poster_id);
+
+-- Every change of a poster's status: who made it (null for the system),
+-- when, from and to which status, and why. from_status is null for the
+-- submission that created the poster.
+CREATE TABLE IF NOT EXISTS poster_status_history (
+  id BIGSERIAL PRIMARY KEY,
+  poster_id UUID NOT NULL REFERENCES posters(id) ON DELETE CASCADE,
+  from_status poster_status,
+  to_status poster_status NOT NULL,
+  changed_by UUID REFERENCES profiles(id),
+  note TEXT,
+  review_id BIGINT REFERENCES poster_reviews(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS poster_status_history_poster_id_idx
+ON poster_status_history (poster_id, created_at);
+
+-- Existing posters start their history with their submission
+INSERT INTO poster_status_history (
+  poster_id, from_status, to_status, changed_by, created_at
+)
+SELECT id, NULL, 'pending', creator_id, created_at
+FROM posters
+WHERE NOT EXISTS (
+  SELECT 1 FROM poster_status_history WHERE poster_id = posters.id
+);
+
+-- Which payment files each payout was sent in, with the result of each
+-- attempt. payout.batch_id only points at the latest file; a failed payout
+-- put in a new batch keeps its row for the earlier one here.
+CREATE TABLE IF NOT EXISTS payout_batch_items (
+  batch_id BIGINT NOT NULL REFERENCES payout_batches(id) ON DELETE CASCADE,
+  payout_id BIGINT NOT NULL REFERENCES payout(id) ON DELETE CASCADE,
+  result TEXT NOT NULL DEFAULT 'pending' CHECK (result IN ('pending', 'completed', 'failed')),
+  payment_reference TEXT,
+  payment_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (batch_id, payout_id)
+);
+
+CREATE INDEX IF NOT EXISTS payout_batch_items_payout_id_idx
+ON payout_batch_items (payout_id);
+
+-- Payouts batched before this have only their latest batch
+INSERT INTO payout_batch_items (
+  batch_id, payout_id, result, payment_reference, payment_error
+)
+SELECT batch_id, id,
+  CASE status::text
+    WHEN 'completed' THEN 'completed'
+    WHEN 'failed' THEN 'failed'
+    ELSE 'pending'
+  END,
+  payment_reference, payment_error
+FROM payout
+WHERE batch_id IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+-- The frame catalogue, next to poster_sizes. option_value is the frame's
+-- "Frame" option value in Shopify and surcharge what a framed variant costs
+-- on top of the creator's price for the size. Frames the store no longer
+-- sells stay as inactive rows so their past sales are still recognised.
+CREATE TABLE IF NOT EXISTS poster_frames (
+  id TEXT PRIMARY KEY,
+  label TEXT NOT NULL,
+  option_value TEXT NOT NULL UNIQUE,
+  surcharge NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (surcharge >= 0),
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ
+);
+
+INSERT INTO poster_frames (
+  id, label, option_value, surcharge, active, sort_order
+)
+VALUES
+  ('none', 'No frame', 'Weiter ohne Rahmen', 0, TRUE, 1),
+  ('oak', 'Oak frame', 'Bilderrahmen Holz Eiche', 21, TRUE, 2),
+  ('black', 'Black frame', 'Bilderrahmen Schwarz', 21, FALSE, 3),
+  ('white', 'White frame', 'Bilderrahmen Weiß', 21, FALSE, 4)
+ON CONFLICT (id) DO NOTHING;
+
+-- Units sold per "Size" option value on paid orders, for the store-wide
+-- size popularity chart (lib/variant-analytics.ts). Lines without options
+-- are grouped by their variant title instead. Paid follows
+-- isPaidOrderStatus and refunded units don't count, as in lib/orders.ts.
+CREATE OR REPLACE FUNCTION size_popularity(
+  start_date TIMESTAMPTZ DEFAULT NULL,
+  end_date TIMESTAMPTZ DEFAULT NULL,
+  shop_domain TEXT DEFAULT NULL
+)
+RETURNS TABLE (size_value TEXT, variant_title TEXT, units BIGINT)
+LANGUAGE sql STABLE
+-- Creators only see their own order lines (see the order table policies);
+-- the chart is store-wide and returns nothing but units per size
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    size_option.value,
+    CASE WHEN size_option.value IS NULL THEN li.variant_title END,
+    SUM(GREATEST(li.quantity - li.refunded_quantity, 0))
+  FROM order_line_items li
+  JOIN orders o ON o.id = li.order_id
+  LEFT JOIN LATERAL (
+    SELECT opt ->> 'value' AS value
+    FROM jsonb_array_elements(li.variant_options) AS opt
+    WHERE lower(opt ->> 'name') = 'size'
+    LIMIT 1
+  ) size_option ON TRUE
+  WHERE (start_date IS NULL OR li.ordered_at >= start_date)
+    AND (end_date IS NULL OR li.ordered_at < end_date)
+    AND (shop_domain IS NULL OR o.shop = shop_domain)
+    AND (
+      upper(o.financial_status) LIKE '%PAID%'
+      OR upper(o.financial_status) LIKE '%COMPLETE%'
+      OR upper(o.financial_status) = 'PARTIALLY_REFUNDED'
+    )
+  GROUP BY 1, 2
+$$;
+
+-- The poster image backfill (/api/admin/poster-images/backfill) runs as an
+-- admin: it stores the print files of earlier posters in poster-originals,
+-- their derivatives in poster-images, and removes the public copies.
+DROP POLICY IF EXISTS "Admins upload print files" ON storage.objects;
+CREATE POLICY "Admins upload print files"
+ON storage.objects FOR INSERT TO authenticated
+WITH CHECK (
+  bucket_id = 'poster-originals'
+  AND EXISTS (
+    SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin'
+  )
+);
+
+DROP POLICY IF EXISTS "Admins manage poster images" ON storage.objects;
+CREATE POLICY "Admins manage poster images"
+ON storage.objects FOR ALL TO authenticated
+USING (
+  bucket_id = 'poster-images'
+  AND EXISTS (
+    SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin'
+  )
+)
+WITH CHECK (
+  bucket_id = 'poster-images'
+  AND EXISTS (
+    SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin'
+  )
+);
+
+-- Row level security for the payout ledger. Admins manage it through their
+-- session; creators read their own rows. The payout run and the Shopify
+-- webhooks write with the service role, which bypasses these policies.
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin'
+  )
+$$;
+
+ALTER TABLE commission_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payout_line_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payout_adjustments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE creator_balance_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payout_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payout_run_creators ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payout_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payout_batch_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payout_statements ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins manage commission rules" ON commission_rules;
+CREATE POLICY "Admins manage commission rules"
+ON commission_rules FOR ALL TO authenticated
+USING (is_admin()) WITH CHECK (is_admin());
+
+-- Store-wide rules and the creator's own creator and poster overrides
+DROP POLICY IF EXISTS "Creators read their commission rules" ON commission_rules;
+CREATE POLICY "Creators read their commission rules"
+ON commission_rules FOR SELECT TO authenticated
+USING (
+  creator_id = auth.uid()
+  OR (
+    creator_id IS NULL
+    AND (
+      poster_id IS NULL
+      OR poster_id IN (SELECT id FROM posters WHERE creator_id = auth.uid())
+    )
+  )
+);
+
+DROP POLICY IF EXISTS "Admins manage payout lines" ON payout_line_items;
+CREATE POLICY "Admins manage payout lines"
+ON payout_line_items FOR ALL TO authenticated
+USING (is_admin()) WITH CHECK (is_admin());
+
+DROP POLICY IF EXISTS "Creators read their payout lines" ON payout_line_items;
+CREATE POLICY "Creators read their payout lines"
+ON payout_line_items FOR SELECT TO authenticated
+USING (creator_id = auth.uid());
+
+DROP POLICY IF EXISTS "Admins manage payout adjustments" ON payout_adjustments;
+CREATE POLICY "Admins manage payout adjustments"
+ON payout_adjustments FOR ALL TO authenticated
+USING (is_admin()) WITH CHECK (is_admin());
+
+DROP POLICY IF EXISTS "Creators read their payout adjustments" ON payout_adjustments;
+CREATE POLICY "Creators read their payout adjustments"
+ON payout_adjustments FOR SELECT TO authenticated
+USING (creator_id = auth.uid());
+
+DROP POLICY IF EXISTS "Admins manage balances" ON creator_balance_entries;
+CREATE POLICY "Admins manage balances"
+ON creator_balance_entries FOR ALL TO authenticated
+USING (is_admin()) WITH CHECK (is_admin());
+
+DROP POLICY IF EXISTS "Creators read their balance" ON creator_balance_entries;
+CREATE POLICY "Creators read their balance"
+ON creator_balance_entries FOR SELECT TO authenticated
+USING (creator_id = auth.uid());
+
+DROP POLICY IF EXISTS "Admins manage payout runs" ON payout_runs;
+CREATE POLICY "Admins manage payout runs"
+ON payout_runs FOR ALL TO authenticated
+USING (is_admin()) WITH CHECK (is_admin());
+
+DROP POLICY IF EXISTS "Admins manage payout run creators" ON payout_run_creators;
+CREATE POLICY "Admins manage payout run creators"
+ON payout_run_creators FOR ALL TO authenticated
+USING (is_admin()) WITH CHECK (is_admin());
+
+-- Payment files hold every creator's bank details: admins only
+DROP POLICY IF EXISTS "Admins manage payout batches" ON payout_batches;
+CREATE POLICY "Admins manage payout batches"
+ON payout_batches FOR ALL TO authenticated
+USING (is_admin()) WITH CHECK (is_admin());
+
+DROP POLICY IF EXISTS "Admins manage payout batch items" ON payout_batch_items;
+CREATE POLICY "Admins manage payout batch items"
+ON payout_batch_items FOR ALL TO authenticated
+USING (is_admin()) WITH CHECK (is_admin());
+
+DROP POLICY IF EXISTS "Admins manage payout statements" ON payout_statements;
+CREATE POLICY "Admins manage payout statements"
+ON payout_statements FOR ALL TO authenticated
+USING (is_admin()) WITH CHECK (is_admin());
+
+DROP POLICY IF EXISTS "Creators read their payout statements" ON payout_statements;
+CREATE POLICY "Creators read their payout statements"
+ON payout_statements FOR SELECT TO authenticated
+USING (
+  payout_id IN (SELECT id FROM payout WHERE creator_id = auth.uid())
+);
+
+-- Duplicate payouts moved aside before the one-payout-per-period index are
+-- for admins to review
+ALTER TABLE payout_duplicates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins manage duplicate payouts" ON payout_duplicates;
+CREATE POLICY "Admins manage duplicate payouts"
+ON payout_duplicates FOR ALL TO authenticated
+USING (is_admin()) WITH CHECK (is_admin());
+
+-- Row level security for the local order tables, which hold customer
+-- details and every creator's sales. Admins read everything; creators read
+-- the lines of their own products (creator_products) and the orders those
+-- lines are on. The order sync and the Shopify webhooks write with the
+-- service role; admins start syncs and imports through their session.
+ALTER TABLE orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE order_line_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins manage orders" ON orders;
+CREATE POLICY "Admins manage orders"
+ON orders FOR ALL TO authenticated
+USING (is_admin()) WITH CHECK (is_admin());
+
+DROP POLICY IF EXISTS "Admins manage order lines" ON order_line_items;
+CREATE POLICY "Admins manage order lines"
+ON order_line_items FOR ALL TO authenticated
+USING (is_admin()) WITH CHECK (is_admin());
+
+DROP POLICY IF EXISTS "Creators read their order lines" ON order_line_items;
+CREATE POLICY "Creators read their order lines"
+ON order_line_items FOR SELECT TO authenticated
+USING (
+  shopify_product_id IN (
+    SELECT shopify_product_id FROM creator_products
+    WHERE creator_id = auth.uid()
+  )
+);
+
+DROP POLICY IF EXISTS "Creators read orders with their lines" ON orders;
+CREATE POLICY "Creators read orders with their lines"
+ON orders FOR SELECT TO authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM order_line_items li
+    JOIN creator_products cp ON cp.shopify_product_id = li.shopify_product_id
+    WHERE li.order_id = orders.id AND cp.creator_id = auth.uid()
+  )
+);
+
+-- Artwork reports vouch for a print file having passed the check, so only
+-- /api/upload writes them (with the service role) and links them to posters.
+-- Creators read their own reports; admins read and manage all of them.
+ALTER TABLE artwork_reports ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins manage artwork reports" ON artwork_reports;
+CREATE POLICY "Admins manage artwork reports"
+ON artwork_reports FOR ALL TO authenticated
+USING (is_admin()) WITH CHECK (is_admin());
+
+DROP POLICY IF EXISTS "Creators read their artwork reports" ON artwork_reports;
+CREATE POLICY "Creators read their artwork reports"
+ON artwork_reports FOR SELECT TO authenticated
+USING (creator_id = auth.uid());
@@ -0,0 +1,26 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { DEFAULT_CREATOR_SHARE } from "@/lib/poster-constants";
+
+const fetchCommissionRate = async (): Promise<{ rate: number }> => {
+  const response = await fetch("/api/dashboard/commission");
+
+  if (!response.ok) {
+    throw new Error("Failed to fetch commission rate");
+  }
+
+  return await response.json();
+};
+
+// The share the signed-in creator earns on new sales, from the commission
+// rules; the default share until it has loaded
+export function useCommissionRate() {
+  const { data, isLoading } = useQuery({
+    queryKey: ["commission-rate"],
+    queryFn: fetchCommissionRate,
+    staleTime: 60 * 60 * 1000, // 1 hour
+  });
+
+  return { rate: data?.rate ?? DEFAULT_CREATOR_SHARE, isLoading };
+}
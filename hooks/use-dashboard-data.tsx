@@ -4,6 +4,8 @@ import { useQuery } from "@tanstack/react-query";
 import { useState, useEffect } from "react";
 import { format } from "date-fns";
 import { useCurrencyContext } from "@/components/currency-provider";
+import { useShopFilter } from "@/hooks/use-shop-filter";
+import type { OrderDiscount } from "@/lib/discounts";
 
 // Define types based on the API response structure
 export type DashboardFilter = "7d" | "30d" | "90d" | "this_month" | "custom";
@@ -40,6 +42,8 @@ export interface ShopifyOrder {
   refundAmount?: number;
   shippingAmount?: number;
   netRevenue?: number;
+  discountAmount?: number;
+  discounts?: OrderDiscount[];
   financialStatus?: string;
   fulfillmentStatus?: string;
 }
@@ -60,6 +64,7 @@ export interface DashboardStats {
   approvedProductsCount: number;
   totalRefunds?: number;
   netRevenue?: number;
+  commissionRate?: number;
 }
 
 export interface DashboardData {
@@ -81,7 +86,8 @@ export interface DateRange {
 
 const fetchDashboardData = async (
   timeRange: DashboardFilter,
-  customDateRange: DateRange | null
+  customDateRange: DateRange | null,
+  shop: string | null
 ): Promise<DashboardData> => {
   let url = "/api/dashboard/stats";
 
@@ -115,6 +121,10 @@ const fetchDashboardData = async (
     url += `?start_date=${startDate.toISOString().split("T")[0]}`;
   }
 
+  if (shop) {
+    url += `&shop=${encodeURIComponent(shop)}`;
+  }
+
   const response = await fetch(url);
 
   if (!response.ok) {
@@ -130,6 +140,7 @@ export function useDashboardData(initialTimeRange: DashboardFilter = "30d") {
     null
   );
   const { userCurrency, version } = useCurrencyContext();
+  const { shop } = useShopFilter();
 
   // Initialize with reasonable defaults (last 30 days)
   const today = new Date();
@@ -151,8 +162,15 @@ export function useDashboardData(initialTimeRange: DashboardFilter = "30d") {
       : "";
 
   const { data, isLoading, error, refetch } = useQuery({
-    queryKey: ["dashboard", timeRange, customDateRange, userCurrency, version],
-    queryFn: () => fetchDashboardData(timeRange, customDateRange),
+    queryKey: [
+      "dashboard",
+      timeRange,
+      customDateRange,
+      shop,
+      userCurrency,
+      version,
+    ],
+    queryFn: () => fetchDashboardData(timeRange, customDateRange, shop),
     staleTime: 5 * 60 * 1000, // 5 minutes
     retry: 3, // Add retry logic
     retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 30000), // Exponential backoff
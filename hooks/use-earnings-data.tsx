@@ -3,7 +3,9 @@
 import { useQuery } from "@tanstack/react-query";
 import { useState } from "react";
 import { format } from "date-fns";
+import { DEFAULT_CREATOR_SHARE } from "@/lib/poster-constants";
 import { DashboardFilter, DateRange } from "./use-dashboard-data";
+import { useShopFilter } from "./use-shop-filter";
 
 // Earnings-specific types
 export interface EarningsData {
@@ -22,12 +24,15 @@ export interface EarningsData {
     image: string;
     sales: number;
     revenue: number;
+    // Creator's commission on the poster's sales, from the commission rules
+    commission: number;
   }>;
 }
 
 const fetchEarningsData = async (
   timeRange: DashboardFilter,
   customDateRange: DateRange | null,
+  shop: string | null,
   dataType: string = "all"
 ): Promise<EarningsData> => {
   // First try to fetch from the dashboard stats API
@@ -63,6 +68,10 @@ const fetchEarningsData = async (
     url += `?start_date=${startDate.toISOString().split("T")[0]}`;
   }
 
+  if (shop) {
+    url += `&shop=${encodeURIComponent(shop)}`;
+  }
+
   try {
     console.log(`Fetching earnings data from ${url}`);
     const response = await fetch(url);
@@ -81,6 +90,12 @@ const fetchEarningsData = async (
       throw new Error("Invalid API response: missing stats object");
     }
 
+    // Creator share currently in force (see commission_rules)
+    const commissionRate =
+      typeof dashboardData.stats.commissionRate === "number"
+        ? dashboardData.stats.commissionRate
+        : DEFAULT_CREATOR_SHARE;
+
     // Transform the dashboard data into earnings format with proper fallbacks
     const earningsData: EarningsData = {
       earnings:
@@ -91,13 +106,12 @@ const fetchEarningsData = async (
         typeof dashboardData.stats.totalSales === "number"
           ? dashboardData.stats.totalSales
           : 0,
-      commission: 30, // Fixed commission rate
+      commission: parseFloat((commissionRate * 100).toFixed(1)),
       refunds: dashboardData.stats.totalRefunds || 0,
       netEarnings:
-        dashboardData.stats.netRevenue !== undefined
-          ? dashboardData.stats.netRevenue * 0.3
-          : dashboardData.stats.totalRefunds
-          ? dashboardData.stats.totalCommission // totalCommission should already be based on netRevenue
+        dashboardData.stats.netRevenue !== undefined ||
+        dashboardData.stats.totalRefunds
+          ? dashboardData.stats.totalCommission // totalCommission is already based on netRevenue
           : undefined,
       chartData: {
         earnings: [],
@@ -172,11 +186,13 @@ const fetchEarningsData = async (
           const data = monthlyData.get(monthKey);
           data.sales += typeof point.sales === "number" ? point.sales : 0;
 
-          // Use netRevenue when available to account for refunds
-          if (typeof point.netRevenue === "number") {
-            data.earnings += point.netRevenue * 0.3; // 30% commission from net revenue
+          // Commission the rules gave on the month's orders
+          if (typeof point.earnings === "number") {
+            data.earnings += point.earnings;
+          } else if (typeof point.netRevenue === "number") {
+            data.earnings += point.netRevenue * commissionRate; // commission from net revenue
           } else if (typeof point.revenue === "number") {
-            data.earnings += point.revenue * 0.3; // 30% commission
+            data.earnings += point.revenue * commissionRate;
           }
 
           monthlyData.set(monthKey, data);
@@ -246,6 +262,7 @@ const fetchEarningsData = async (
           image: product.imageUrl || "/placeholder.svg",
           sales: product.salesCount || 0,
           revenue: parseFloat((product.revenue || 0).toFixed(2)),
+          commission: parseFloat((product.commission || 0).toFixed(2)),
         }));
 
       console.log(
@@ -276,7 +293,7 @@ const fetchEarningsData = async (
     return {
       earnings: 0,
       sales: 0,
-      commission: 30,
+      commission: DEFAULT_CREATOR_SHARE * 100,
       refunds: 0,
       netEarnings: undefined,
       chartData: {
@@ -290,6 +307,7 @@ const fetchEarningsData = async (
 
 export function useEarningsData(initialTimeRange: DashboardFilter = "30d") {
   const [timeRange, setTimeRange] = useState<DashboardFilter>(initialTimeRange);
+  const { shop } = useShopFilter();
   const [customDateRange, setCustomDateRange] = useState<DateRange | null>(
     null
   );
@@ -314,8 +332,8 @@ export function useEarningsData(initialTimeRange: DashboardFilter = "30d") {
       : "";
 
   const { data, isLoading, error, refetch } = useQuery({
-    queryKey: ["earnings", timeRange, customDateRange],
-    queryFn: () => fetchEarningsData(timeRange, customDateRange),
+    queryKey: ["earnings", timeRange, customDateRange, shop],
+    queryFn: () => fetchEarningsData(timeRange, customDateRange, shop),
     staleTime: 5 * 60 * 1000, // 5 minutes
   });
 
@@ -44,6 +44,7 @@ export interface EnhancedOrder extends Omit<Order, "status"> {
   refundAmount: number;
   shippingAmount: number;
   netRevenue: number;
+  discountAmount: number;
 }
 
 // Order stats interface
@@ -243,6 +244,8 @@ export function useOrdersData() {
           refundAmount: finalRefundAmount,
           shippingAmount,
           netRevenue,
+          discountAmount: order.discountAmount || 0,
+          discounts: order.discounts || [],
         };
 
         console.log(`  ✅ Transformed order result:`, {
@@ -12,7 +12,7 @@ export type PayoutHistory = {
   period: string;
   amount: number;
   method: PayoutMethod;
-  status: "pending" | "completed";
+  status: "pending" | "completed" | "failed";
   currency: string;
   payout_month: {
     start: string;
@@ -20,6 +20,44 @@ export type PayoutHistory = {
   };
 };
 
+export type PayoutLineItem = {
+  id: number;
+  product_title: string | null;
+  shopify_order_id: string;
+  shopify_order_name: string | null;
+  variant_title: string | null;
+  quantity: number;
+  gross_amount: number;
+  discount_amount: number;
+  net_amount: number;
+  commission_amount: number;
+  currency: string;
+  original_currency: string | null;
+  original_net_amount: number | null;
+  fx_rate: number | null;
+  ordered_at: string | null;
+};
+
+// A refund/chargeback clawback, netted off the payout in applied_payout_id
+export type PayoutAdjustmentEntry = {
+  id: number;
+  shopify_order_name: string | null;
+  type: "refund" | "chargeback";
+  amount: number;
+  currency: string;
+  reason: string | null;
+  occurred_at: string;
+  applied_payout_id: number | null;
+};
+
+// Earnings rolled over because they were below the minimum payout
+export type CreatorBalance = {
+  amount: number;
+  currency: string;
+  threshold: number | null;
+  months: string[];
+};
+
 export type UserProfile = {
   id: string;
   name: string;
@@ -94,13 +132,78 @@ export const usePayouts = () => {
         period: formatPayoutPeriod(payout.payout_month),
         amount: payout.amount || 0,
         method: payout.method as PayoutMethod,
-        status: payout.status as "pending" | "completed",
+        status: payout.status as "pending" | "completed" | "failed",
         currency: payout.currency || "GBP",
         payout_month: payout.payout_month || { start: "", end: "" },
       }));
     },
   });
 
+  // Fetch refund/chargeback adjustments, both settled and still outstanding
+  const { data: payoutAdjustments, isLoading: isLoadingAdjustments } =
+    useQuery({
+      queryKey: ["payout-adjustments"],
+      queryFn: async (): Promise<PayoutAdjustmentEntry[]> => {
+        const {
+          data: { user },
+        } = await supabase.auth.getUser();
+
+        if (!user) return [];
+
+        const { data, error } = await supabase
+          .from("payout_adjustments")
+          .select(
+            "id, shopify_order_name, type, amount, currency, reason, occurred_at, applied_payout_id"
+          )
+          .eq("creator_id", user.id)
+          .order("occurred_at", { ascending: false });
+
+        if (error) {
+          console.error("Error fetching payout adjustments:", error);
+          throw error;
+        }
+
+        return data || [];
+      },
+    });
+
+  // Fetch the rolled-over balance that hasn't been paid out yet
+  const { data: balance, isLoading: isLoadingBalance } = useQuery({
+    queryKey: ["creator-balance"],
+    queryFn: async (): Promise<CreatorBalance | null> => {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) return null;
+
+      const { data, error } = await supabase
+        .from("creator_balance_entries")
+        .select("amount, currency, period, threshold_amount")
+        .eq("creator_id", user.id)
+        .is("payout_id", null)
+        .order("created_at", { ascending: true });
+
+      if (error) {
+        console.error("Error fetching creator balance:", error);
+        throw error;
+      }
+
+      if (!data || data.length === 0) return null;
+
+      const latest = data[data.length - 1];
+      return {
+        amount: data.reduce((sum, entry) => sum + Number(entry.amount), 0),
+        currency: latest.currency,
+        threshold:
+          latest.threshold_amount !== null
+            ? Number(latest.threshold_amount)
+            : null,
+        months: data.map((entry) => formatPayoutPeriod(entry.period)),
+      };
+    },
+  });
+
   // Update payout method mutation
   const updatePayoutMethodMutation = useMutation({
     mutationFn: async (data: PayoutMethodData) => {
@@ -178,8 +281,12 @@ export const usePayouts = () => {
   return {
     userProfile,
     payoutHistory,
+    payoutAdjustments,
+    balance,
     isLoadingProfile,
     isLoadingHistory,
+    isLoadingAdjustments,
+    isLoadingBalance,
     updatePayoutMethod: updatePayoutMethodMutation.mutate,
     deletePayoutMethod: deletePayoutMethodMutation.mutate,
     isUpdating: updatePayoutMethodMutation.isPending,
@@ -187,24 +294,51 @@ export const usePayouts = () => {
   };
 };
 
-// Helper function to format payout period
+// Fetch the order lines a single payout was calculated from
+export const usePayoutLineItems = (payoutId: number | null) => {
+  const supabase = createClient();
+
+  return useQuery({
+    queryKey: ["payout-line-items", payoutId],
+    queryFn: async (): Promise<PayoutLineItem[]> => {
+      const { data, error } = await supabase
+        .from("payout_line_items")
+        .select(
+          "id, product_title, shopify_order_id, shopify_order_name, variant_title, quantity, gross_amount, discount_amount, net_amount, commission_amount, currency, original_currency, original_net_amount, fx_rate, ordered_at"
+        )
+        .eq("payout_id", payoutId)
+        .order("ordered_at", { ascending: true });
+
+      if (error) {
+        console.error("Error fetching payout line items:", error);
+        throw error;
+      }
+
+      return data || [];
+    },
+    enabled: payoutId !== null,
+  });
+};
+
+// Helper function to format payout period. Payouts that released a
+// rolled-over balance cover several months and are shown as a range.
 const formatPayoutPeriod = (payoutMonth: any): string => {
   if (!payoutMonth) return "Unknown period";
 
+  const formatMonth = (date: string) =>
+    new Date(date).toLocaleDateString("en-US", {
+      month: "long",
+      year: "numeric",
+    });
+
   try {
-    if (typeof payoutMonth === "string") {
-      const parsed = JSON.parse(payoutMonth);
-      if (parsed && parsed.start) {
-        return new Date(parsed.start).toLocaleDateString("en-US", {
-          month: "long",
-          year: "numeric",
-        });
-      }
-    } else if (typeof payoutMonth === "object" && payoutMonth.start) {
-      return new Date(payoutMonth.start).toLocaleDateString("en-US", {
-        month: "long",
-        year: "numeric",
-      });
+    const period =
+      typeof payoutMonth === "string" ? JSON.parse(payoutMonth) : payoutMonth;
+
+    if (period && typeof period === "object" && period.start) {
+      const start = formatMonth(period.start);
+      const end = period.end ? formatMonth(period.end) : start;
+      return start === end ? start : `${start} – ${end}`;
     }
   } catch (error) {
     console.error("Error parsing payout month:", error);
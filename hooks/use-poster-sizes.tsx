@@ -0,0 +1,25 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import type { PosterSizeOption } from "@/lib/poster-sizes";
+
+const fetchPosterSizes = async (): Promise<PosterSizeOption[]> => {
+  const response = await fetch("/api/poster-sizes");
+
+  if (!response.ok) {
+    throw new Error("Failed to fetch poster sizes");
+  }
+
+  return await response.json();
+};
+
+// The active sizes of the poster size catalogue, in display order
+export function usePosterSizes() {
+  const { data: sizes = [], isLoading } = useQuery({
+    queryKey: ["poster-sizes"],
+    queryFn: fetchPosterSizes,
+    staleTime: 60 * 60 * 1000, // 1 hour
+  });
+
+  return { sizes, isLoading };
+}
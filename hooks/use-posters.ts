@@ -8,6 +8,7 @@ import { z } from "zod";
 const statusMapping = {
   approved: "Approved",
   rejected: "Rejected",
+  changesRequested: "Changes requested",
   pending: "Pending",
   willBeDeleted: "Will be deleted",
 };
@@ -20,6 +21,7 @@ export const posterSchema = z.object({
   status: z.enum([
     "Approved",
     "Rejected",
+    "Changes requested",
     "Pending",
     "Will be deleted",
     "Deleted",
@@ -5,24 +5,48 @@ import { createClient } from "@/utils/supabase/client";
 import { format, subDays, startOfMonth } from "date-fns";
 import { DateRange, DateRangeOption } from "@/components/date-range-filter";
 import { toast } from "sonner";
+import { firstPosterImage } from "@/lib/poster-images";
+import type { ReviewDecision, ReviewReason } from "@/lib/poster-reviews";
 
 // Define product shape for the table
 export interface Product {
   id: string | null;
   name: string;
   sales: number;
-  status: "Approved" | "Rejected" | "Pending" | "Will be deleted" | "Deleted";
+  status:
+    | "Approved"
+    | "Rejected"
+    | "Changes requested"
+    | "Pending"
+    | "Will be deleted"
+    | "Deleted";
   revenue: number;
   commission: number;
   image?: string;
   shopUrl?: string;
   shopifyProductId?: string | null;
+  description?: string;
+  prices?: Record<string, string>;
+  selectedSizes?: string[];
+  changeRequest?: {
+    status: "pending" | "approved" | "rejected";
+    reviewNote: string | null;
+  } | null;
+  // The admin's open review of a rejected poster or one with changes
+  // requested, see lib/poster-reviews.ts
+  review?: {
+    decision: ReviewDecision;
+    reason: ReviewReason;
+    note: string | null;
+    sizes: string[];
+  } | null;
 }
 
 // Status mappings from backend to frontend
 const statusMapping: Record<string, Product["status"]> = {
   approved: "Approved",
   rejected: "Rejected",
+  changesRequested: "Changes requested",
   pending: "Pending",
   willBeDeleted: "Will be deleted",
   deleted: "Deleted",
@@ -120,6 +144,61 @@ export function useProductData(dateRange?: DateRange) {
           `[useProductData] Fetched ${postersData.length} posters from Supabase`
         );
 
+        // The creator's latest edit of each poster, newest first
+        const { data: changeRequests, error: changeRequestsError } =
+          await supabase
+            .from("poster_change_requests")
+            .select("poster_id, status, review_note")
+            .eq("creator_id", user.id)
+            .eq("source", "creator")
+            .order("created_at", { ascending: false });
+
+        if (changeRequestsError) {
+          throw new Error(
+            `Change requests fetch error: ${changeRequestsError.message}`
+          );
+        }
+
+        const latestChangeRequests = new Map<
+          string,
+          NonNullable<Product["changeRequest"]>
+        >();
+        (changeRequests || []).forEach((request) => {
+          if (!latestChangeRequests.has(request.poster_id)) {
+            latestChangeRequests.set(request.poster_id, {
+              status: request.status as "pending" | "approved" | "rejected",
+              reviewNote: request.review_note,
+            });
+          }
+        });
+
+        // The open review of each poster, newest first
+        const { data: reviews, error: reviewsError } = await supabase
+          .from("poster_reviews")
+          .select("poster_id, decision, reason, note, sizes")
+          .in(
+            "poster_id",
+            postersData.map((poster) => poster.id)
+          )
+          .is("resolved_at", null)
+          .order("created_at", { ascending: false });
+
+        if (reviewsError) {
+          throw new Error(`Reviews fetch error: ${reviewsError.message}`);
+        }
+
+        const openReviews = new Map<string, NonNullable<Product["review"]>>();
+        (reviews || []).forEach((review) => {
+          if (!openReviews.has(review.poster_id)) {
+            openReviews.set(review.poster_id, {
+              decision: review.decision as ReviewDecision,
+              reason: review.reason as ReviewReason,
+              note: review.note,
+              sizes: review.sizes,
+            });
+          }
+        });
+
         // Format dates for API requests
         const startDate = formatDateForApi(dateRange?.from);
         const endDate = formatDateForApi(dateRange?.to);
@@ -215,18 +294,16 @@ export function useProductData(dateRange?: DateRange) {
               createdAt: poster.created_at,
               image:
                 shopifyData?.imageUrl ||
-                (poster.image_urls
-                  ? Array.isArray(poster.image_urls) &&
-                    poster.image_urls.length > 0
-                    ? poster.image_urls[0]
-                    : typeof poster.image_urls === "object" &&
-                      poster.image_urls !== null
-                    ? Object.values(poster.image_urls)[0]
-                    : "/placeholder.svg"
-                  : "/placeholder.svg"),
+                firstPosterImage(poster.image_urls) ||
+                "/placeholder.svg",
               shopUrl:
                 shopifyData?.shopifyUrl || poster.shopify_url || undefined,
               shopifyProductId: poster.shopify_product_id || null,
+              description: poster.description || "",
+              prices: (poster.prices as Record<string, string>) || {},
+              selectedSizes: poster.selected_sizes || [],
+              changeRequest: latestChangeRequests.get(poster.id) || null,
+              review: openReviews.get(poster.id) || null,
             };
 
             return product;
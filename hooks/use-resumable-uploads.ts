@@ -0,0 +1,263 @@
+"use client";
+
+import * as React from "react";
+import { DetailedError, Upload } from "tus-js-client";
+import { createClient } from "@/utils/supabase/client";
+import {
+  MAX_ARTWORK_BYTES,
+  newUploadPath,
+  ORIGINALS_BUCKET,
+  type PosterImage,
+} from "@/lib/poster-images";
+import type { ArtworkReport } from "@/lib/artwork-validation";
+
+/**
+ * Resumable uploads of print files, one per poster size, straight to
+ * storage through Supabase's tus endpoint (see newUploadPath). Uploads
+ * retry by themselves after network drops, can be paused and resumed, and
+ * pick up where they stopped when the same file is chosen again, even after
+ * a page reload. Finished uploads are checked by /api/upload.
+ */
+
+export type UploadStatus =
+  // Sending chunks
+  | "uploading"
+  | "paused"
+  // Interrupted after the automatic retries; resumable
+  | "error"
+  // Uploaded and being checked by the server
+  | "processing"
+  | "complete"
+  // Not accepted by the server; another file is needed
+  | "rejected";
+
+export interface ResumableUpload {
+  status: UploadStatus;
+  bytesUploaded: number;
+  bytesTotal: number;
+  error?: string;
+  image?: PosterImage;
+  report?: ArtworkReport;
+}
+
+const ENDPOINT = `${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/upload/resumable`;
+
+// Supabase only accepts chunks of exactly 6MB
+const CHUNK_SIZE = 6 * 1024 * 1024;
+
+// Waits before each automatic retry, in milliseconds
+const RETRY_DELAYS = [0, 1000, 3000, 5000, 10000, 20000];
+
+function uploadErrorMessage(error: Error) {
+  const status =
+    error instanceof DetailedError
+      ? error.originalResponse?.getStatus()
+      : undefined;
+
+  if (status === 413) {
+    return `Files can be at most ${MAX_ARTWORK_BYTES / 1024 / 1024} MB`;
+  }
+  if (status === 401 || status === 403) {
+    return "You must be logged in to upload files";
+  }
+  return "The upload was interrupted";
+}
+
+export function useResumableUploads() {
+  const [uploads, setUploads] = React.useState<
+    Record<string, ResumableUpload>
+  >({});
+  const uploadsRef = React.useRef<Record<string, Upload>>({});
+  // Uploads whose file is complete in storage
+  const finishedRef = React.useRef(new WeakSet<Upload>());
+  const supabase = React.useMemo(() => createClient(), []);
+
+  // Updates of an upload that has since been replaced or cancelled are
+  // dropped
+  const update = React.useCallback(
+    (sizeId: string, upload: Upload, changes: Partial<ResumableUpload>) => {
+      if (uploadsRef.current[sizeId] !== upload) return;
+      setUploads((prev) => ({
+        ...prev,
+        [sizeId]: { ...prev[sizeId], ...changes },
+      }));
+    },
+    []
+  );
+
+  // Have the server check a finished upload
+  const finish = React.useCallback(
+    async (sizeId: string, upload: Upload) => {
+      finishedRef.current.add(upload);
+      update(sizeId, upload, { status: "processing" });
+      try {
+        const response = await fetch("/api/upload", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            size: sizeId,
+            path: upload.options.metadata?.objectName,
+          }),
+        });
+        const data = await response.json();
+
+        if (!response.ok) {
+          update(sizeId, upload, {
+            status: "rejected",
+            error: data.error || "The file couldn't be checked",
+          });
+          return;
+        }
+        update(sizeId, upload, {
+          status: "complete",
+          image: data.image,
+          report: data.report,
+        });
+      } catch (error) {
+        console.error("Error checking upload:", error);
+        update(sizeId, upload, {
+          status: "rejected",
+          error: "The file couldn't be checked",
+        });
+      }
+    },
+    [update]
+  );
+
+  const cancel = React.useCallback(async (sizeId: string) => {
+    const upload = uploadsRef.current[sizeId];
+    delete uploadsRef.current[sizeId];
+    setUploads((prev) => {
+      const next = { ...prev };
+      delete next[sizeId];
+      return next;
+    });
+
+    // Removes what was uploaded so far; finished uploads are left as is
+    if (upload && !finishedRef.current.has(upload)) {
+      await upload.abort(true).catch(() => undefined);
+    }
+  }, []);
+
+  const start = React.useCallback(
+    async (sizeId: string, file: File) => {
+      await cancel(sizeId);
+
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+      if (!session) {
+        setUploads((prev) => ({
+          ...prev,
+          [sizeId]: {
+            status: "rejected",
+            bytesUploaded: 0,
+            bytesTotal: file.size,
+            error: "You must be logged in to upload files",
+          },
+        }));
+        return;
+      }
+
+      const upload: Upload = new Upload(file, {
+        endpoint: ENDPOINT,
+        chunkSize: CHUNK_SIZE,
+        retryDelays: RETRY_DELAYS,
+        uploadDataDuringCreation: true,
+        removeFingerprintOnSuccess: true,
+        headers: { "x-upsert": "false" },
+        metadata: {
+          bucketName: ORIGINALS_BUCKET,
+          objectName: newUploadPath(session.user.id, sizeId),
+          contentType: file.type || "application/octet-stream",
+          cacheControl: "3600",
+        },
+        // The same file for the same size of the same creator resumes
+        fingerprint: async () =>
+          [
+            "poster-upload",
+            session.user.id,
+            sizeId,
+            file.name,
+            file.size,
+            file.lastModified,
+          ].join(":"),
+        // Sessions are refreshed during long uploads, so every request
+        // carries the current token
+        onBeforeRequest: async (req) => {
+          const { data } = await supabase.auth.getSession();
+          req.setHeader(
+            "Authorization",
+            `Bearer ${data.session?.access_token ?? ""}`
+          );
+        },
+        onProgress: (bytesUploaded, bytesTotal) =>
+          update(sizeId, upload, { bytesUploaded, bytesTotal }),
+        onError: (error) => {
+          console.error("Error uploading file:", error);
+          update(sizeId, upload, {
+            status: "error",
+            error: uploadErrorMessage(error),
+          });
+        },
+        onSuccess: () => finish(sizeId, upload),
+      });
+
+      uploadsRef.current[sizeId] = upload;
+      setUploads((prev) => ({
+        ...prev,
+        [sizeId]: {
+          status: "uploading",
+          bytesUploaded: 0,
+          bytesTotal: file.size,
+        },
+      }));
+
+      // Continue an earlier upload of the file, under its path
+      const [previous] = await upload.findPreviousUploads();
+      if (previous) {
+        upload.options.metadata = previous.metadata;
+        upload.resumeFromPreviousUpload(previous);
+      }
+      if (uploadsRef.current[sizeId] === upload) upload.start();
+    },
+    [cancel, finish, supabase, update]
+  );
+
+  const pause = React.useCallback(
+    async (sizeId: string) => {
+      const upload = uploadsRef.current[sizeId];
+      if (!upload) return;
+      await upload.abort();
+      update(sizeId, upload, { status: "paused" });
+    },
+    [update]
+  );
+
+  // Resume a paused or interrupted upload from its last uploaded chunk
+  const resume = React.useCallback(
+    (sizeId: string) => {
+      const upload = uploadsRef.current[sizeId];
+      if (!upload) return;
+      update(sizeId, upload, { status: "uploading", error: undefined });
+      upload.start();
+    },
+    [update]
+  );
+
+  const cancelAll = React.useCallback(async () => {
+    await Promise.all(Object.keys(uploadsRef.current).map(cancel));
+    setUploads({});
+  }, [cancel]);
+
+  // Leaving the page stops uploads without removing them, so choosing the
+  // same files again resumes them
+  React.useEffect(() => {
+    const current = uploadsRef.current;
+    return () => {
+      Object.values(current).forEach((upload) => upload.abort());
+    };
+  }, []);
+
+  return { uploads, start, pause, resume, cancel, cancelAll };
+}
@@ -0,0 +1,60 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { useCallback, useEffect, useState } from "react";
+import { eventBus, APP_EVENTS } from "@/lib/events";
+import type { ShopSummary } from "@/lib/shops";
+
+const STORAGE_KEY = "dashboardShop";
+
+const fetchShops = async (): Promise<ShopSummary[]> => {
+  const response = await fetch("/api/shops");
+
+  if (!response.ok) {
+    throw new Error("Failed to fetch shops");
+  }
+
+  return await response.json();
+};
+
+/**
+ * The shop the dashboards are filtered to, or null for all shops. The choice
+ * is kept in localStorage and shared between components through the event
+ * bus, so every card on the page shows the same shop.
+ */
+export function useShopFilter() {
+  const [storedShop, setStoredShop] = useState<string | null>(null);
+
+  useEffect(() => {
+    setStoredShop(localStorage.getItem(STORAGE_KEY));
+
+    return eventBus.on(APP_EVENTS.SHOP_CHANGED, (shop: string | null) =>
+      setStoredShop(shop)
+    );
+  }, []);
+
+  const { data: shops = [] } = useQuery({
+    queryKey: ["shops"],
+    queryFn: fetchShops,
+    staleTime: 60 * 60 * 1000, // 1 hour
+  });
+
+  const setShop = useCallback((shop: string | null) => {
+    if (shop) {
+      localStorage.setItem(STORAGE_KEY, shop);
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+    setStoredShop(shop);
+    eventBus.emit(APP_EVENTS.SHOP_CHANGED, shop);
+  }, []);
+
+  // A stored shop that is no longer active means all shops
+  const shop =
+    storedShop &&
+    (shops.length === 0 || shops.some((s) => s.domain === storedShop))
+      ? storedShop
+      : null;
+
+  return { shop, setShop, shops };
+}
@@ -21,15 +21,21 @@ export type ProductVariantData = {
   orders: Array<{
     orderId: string;
     orderName: string;
+    lineItemId: string;
     date: string;
     quantity: number;
     pricePaid: number; // Exact price per unit from the order
+    grossTotal: number; // Line total before discounts
+    discount: number;
     lineTotal: number;
+    currency: string; // Payout currency once converted
+    original?: { currency: string; lineTotal: number; fxRate: number };
   }>;
 };
 
 export type ProductRevenueData = {
   productId: string;
+  posterId?: string;
   title: string;
   revenue: number;
   sales: number;
@@ -43,7 +49,7 @@ export type PayoutResult = {
   success: boolean;
   error?: string;
   message?: string;
-  payout_id?: string;
+  payout_id?: number;
   amount?: number;
   sales?: number;
   currency?: string;
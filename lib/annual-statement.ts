@@ -0,0 +1,399 @@
+import type { createClient } from "@/utils/supabase/server";
+import { buildPdf, PDF_CONTENT_WIDTH, PDF_MARGIN, PdfRow } from "@/lib/pdf";
+import { payoutPeriodLabel } from "@/lib/payout-batches";
+import { countries } from "@/lib/countries";
+import {
+  getPlatformLegalDetails,
+  PlatformLegalDetails,
+} from "@/lib/platform";
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+export interface AnnualStatementPayout {
+  id: number;
+  paid_at: string;
+  period: { start?: string; end?: string } | null;
+  method: string | null;
+  reference: string | null;
+  currency: string;
+  amount: number;
+}
+
+export interface AnnualCurrencyTotal {
+  currency: string;
+  payouts: number;
+  total: number;
+  // Amount paid per calendar month, January first
+  months: number[];
+}
+
+/**
+ * Everything paid to a creator in one calendar year, by the date the payout
+ * was paid. Amounts are never converted: a creator paid in more than one
+ * currency gets a total per currency.
+ */
+export interface AnnualStatement {
+  year: number;
+  creator: {
+    id: string;
+    name: string | null;
+    email: string | null;
+    country: string | null;
+  };
+  platform: PlatformLegalDetails;
+  payouts: AnnualStatementPayout[];
+  totals: AnnualCurrencyTotal[];
+  generated_at: string;
+}
+
+type PaidPayout = {
+  id: number;
+  paid_at: string;
+  payout_month: { start?: string; end?: string } | null;
+  method: string | null;
+  payment_reference: string | null;
+  currency: string | null;
+  amount: number | null;
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const countryName = (code: string | null) =>
+  countries.find((country) => country.code === code)?.name || code;
+
+export async function buildAnnualStatement(
+  supabase: SupabaseServerClient,
+  creatorId: string,
+  year: number
+): Promise<AnnualStatement> {
+  const platform = getPlatformLegalDetails();
+
+  const { data: profile, error: profileError } = await supabase
+    .from("profiles")
+    .select("id, name, email, country")
+    .eq("id", creatorId)
+    .single();
+
+  if (profileError || !profile) {
+    throw new Error("Creator not found");
+  }
+
+  const { data, error } = await supabase
+    .from("payout")
+    .select(
+      "id, paid_at, payout_month, method, payment_reference, currency, amount"
+    )
+    .eq("creator_id", creatorId)
+    .eq("status", "completed")
+    .gte("paid_at", `${year}-01-01T00:00:00Z`)
+    .lt("paid_at", `${year + 1}-01-01T00:00:00Z`)
+    .order("paid_at", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch payouts: ${error.message}`);
+  }
+
+  const payouts = ((data || []) as PaidPayout[]).map((payout) => ({
+    id: payout.id,
+    paid_at: payout.paid_at,
+    period: payout.payout_month,
+    method: payout.method,
+    reference: payout.payment_reference,
+    currency: payout.currency || "EUR",
+    amount: round(Number(payout.amount) || 0),
+  }));
+
+  const totals = new Map<string, AnnualCurrencyTotal>();
+  payouts.forEach((payout) => {
+    if (!totals.has(payout.currency)) {
+      totals.set(payout.currency, {
+        currency: payout.currency,
+        payouts: 0,
+        total: 0,
+        months: Array(12).fill(0),
+      });
+    }
+    const total = totals.get(payout.currency)!;
+    const month = new Date(payout.paid_at).getUTCMonth();
+
+    total.payouts += 1;
+    total.total = round(total.total + payout.amount);
+    total.months[month] = round(total.months[month] + payout.amount);
+  });
+
+  return {
+    year,
+    creator: {
+      id: profile.id,
+      name: profile.name,
+      email: profile.email,
+      country: countryName(profile.country),
+    },
+    platform,
+    payouts,
+    totals: Array.from(totals.values()).sort((a, b) =>
+      a.currency.localeCompare(b.currency)
+    ),
+    generated_at: new Date().toISOString(),
+  };
+}
+
+const MONTHS = Array.from({ length: 12 }, (_, month) =>
+  new Date(2000, month, 1).toLocaleString("en-US", { month: "long" })
+);
+
+const formatAmount = (amount: number) => amount.toFixed(2);
+
+const methodLabel = (method: string | null) =>
+  method === "paypal" ? "PayPal" : method === "iban" ? "Bank transfer" : "";
+
+const csvValue = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per payout, then the monthly and yearly totals per currency
+export function annualStatementToCsv(statement: AnnualStatement) {
+  const rows: Array<Array<string | number>> = [
+    [
+      "Type",
+      "Date",
+      "Payout",
+      "Period",
+      "Method",
+      "Reference",
+      "Amount",
+      "Currency",
+    ],
+  ];
+
+  statement.payouts.forEach((payout) =>
+    rows.push([
+      "Payout",
+      payout.paid_at.slice(0, 10),
+      `PO-${payout.id}`,
+      payoutPeriodLabel(payout.period),
+      methodLabel(payout.method),
+      payout.reference || "",
+      formatAmount(payout.amount),
+      payout.currency,
+    ])
+  );
+
+  statement.totals.forEach((total) => {
+    total.months.forEach((amount, month) => {
+      if (!amount) return;
+      rows.push([
+        "Month total",
+        `${statement.year}-${String(month + 1).padStart(2, "0")}`,
+        "",
+        MONTHS[month],
+        "",
+        "",
+        formatAmount(amount),
+        total.currency,
+      ]);
+    });
+    rows.push([
+      "Year total",
+      String(statement.year),
+      "",
+      "",
+      "",
+      "",
+      formatAmount(total.total),
+      total.currency,
+    ]);
+  });
+
+  return rows.map((row) => row.map(csvValue).join(",")).join("\n") + "\n";
+}
+
+// Column positions (right edges for numbers) on the PDF statement
+const COLUMNS = {
+  date: PDF_MARGIN,
+  payout: PDF_MARGIN + 75,
+  period: PDF_MARGIN + 140,
+  method: PDF_MARGIN + 290,
+  amount: PDF_MARGIN + PDF_CONTENT_WIDTH,
+};
+
+export function annualStatementToPdf(statement: AnnualStatement) {
+  const { creator, platform } = statement;
+  const right = (text: string, x: number) => ({
+    text,
+    x,
+    align: "right" as const,
+  });
+  const money = (amount: number, currency: string) =>
+    `${formatAmount(amount)} ${currency}`;
+
+  // Platform details on the left, the creator on the right
+  const platformLines = [
+    platform.name,
+    ...platform.address,
+    platform.registrationNumber &&
+      `Registration no. ${platform.registrationNumber}`,
+    platform.vatNumber && `VAT no. ${platform.vatNumber}`,
+    platform.email,
+  ].filter((line): line is string => !!line);
+  const creatorLines = [
+    creator.name || creator.id,
+    creator.email,
+    creator.country,
+  ].filter((line): line is string => !!line);
+
+  const rows: PdfRow[] = [
+    {
+      cells: [
+        {
+          text: `Annual Earnings Statement ${statement.year}`,
+          x: PDF_MARGIN,
+        },
+      ],
+      size: 18,
+      bold: true,
+    },
+    { space: 6 },
+    {
+      cells: [
+        { text: "Paid by", x: PDF_MARGIN },
+        right("Paid to", COLUMNS.amount),
+      ],
+      bold: true,
+    },
+  ];
+
+  for (
+    let line = 0;
+    line < Math.max(platformLines.length, creatorLines.length);
+    line++
+  ) {
+    rows.push({
+      cells: [
+        { text: platformLines[line] || "", x: PDF_MARGIN },
+        right(creatorLines[line] || "", COLUMNS.amount),
+      ],
+    });
+  }
+
+  rows.push(
+    { space: 10 },
+    {
+      cells: [{ text: "Payouts", x: PDF_MARGIN }],
+      size: 12,
+      bold: true,
+    },
+    {
+      cells: [
+        { text: "Date paid", x: COLUMNS.date },
+        { text: "Payout", x: COLUMNS.payout },
+        { text: "Period", x: COLUMNS.period },
+        { text: "Method", x: COLUMNS.method },
+        right("Amount", COLUMNS.amount),
+      ],
+      bold: true,
+    },
+    { rule: true }
+  );
+
+  statement.payouts.forEach((payout) =>
+    rows.push({
+      cells: [
+        { text: payout.paid_at.slice(0, 10), x: COLUMNS.date },
+        { text: `PO-${payout.id}`, x: COLUMNS.payout },
+        { text: payoutPeriodLabel(payout.period), x: COLUMNS.period },
+        { text: methodLabel(payout.method), x: COLUMNS.method },
+        right(money(payout.amount, payout.currency), COLUMNS.amount),
+      ],
+    })
+  );
+
+  if (statement.payouts.length === 0) {
+    rows.push({
+      cells: [
+        { text: `No payouts were paid in ${statement.year}`, x: PDF_MARGIN },
+      ],
+    });
+  }
+
+  statement.totals.forEach((total) => {
+    rows.push(
+      { space: 10 },
+      {
+        cells: [
+          { text: `Monthly totals (${total.currency})`, x: PDF_MARGIN },
+        ],
+        size: 12,
+        bold: true,
+      },
+      { rule: true }
+    );
+    total.months.forEach((amount, month) => {
+      if (!amount) return;
+      rows.push({
+        cells: [
+          { text: MONTHS[month], x: COLUMNS.date },
+          right(money(amount, total.currency), COLUMNS.amount),
+        ],
+      });
+    });
+    rows.push(
+      { rule: true },
+      {
+        cells: [
+          {
+            text: `Total paid in ${statement.year} (${total.payouts} payout${
+              total.payouts === 1 ? "" : "s"
+            })`,
+            x: COLUMNS.date,
+          },
+          right(money(total.total, total.currency), COLUMNS.amount),
+        ],
+        bold: true,
+      }
+    );
+  });
+
+  rows.push(
+    { space: 20 },
+    {
+      cells: [
+        {
+          text: `Generated ${statement.generated_at.slice(
+            0,
+            10
+          )}. Payouts are listed by the date they were paid, in the currency they were paid in.`,
+          x: PDF_MARGIN,
+        },
+      ],
+      size: 8,
+    },
+    {
+      cells: [
+        {
+          text: "Amounts are before any taxes you owe on them; this statement is not tax advice.",
+          x: PDF_MARGIN,
+        },
+      ],
+      size: 8,
+    }
+  );
+
+  return buildPdf(rows);
+}
+
+// File contents and headers for an annual statement download
+export function renderAnnualStatement(
+  statement: AnnualStatement,
+  format: "pdf" | "csv"
+) {
+  return {
+    body:
+      format === "pdf"
+        ? annualStatementToPdf(statement)
+        : annualStatementToCsv(statement),
+    contentType: format === "pdf" ? "application/pdf" : "text/csv",
+    fileName: `annual-earnings-statement-${statement.year}.${format}`,
+  };
+}
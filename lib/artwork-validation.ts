@@ -0,0 +1,330 @@
+import type { createClient } from "@/utils/supabase/server";
+import { ImageInfo, readImageInfo } from "@/lib/image-info";
+import type { PosterSizeOption } from "@/lib/poster-sizes";
+import { MAX_ARTWORK_BYTES } from "@/lib/poster-images";
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+/**
+ * Server-side checks of uploaded artwork against the print size it was
+ * uploaded for.
+ *
+ * Files that aren't a JPEG, PNG or TIFF (by their magic bytes), are too
+ * large or can't be read are rejected outright. Everything else is stored
+ * with a print-readiness report (artwork_reports): the effective resolution
+ * at the print size, the aspect ratio against the size's, and the colour
+ * profile.
+ * Reports only advise; reviewers decide whether a poster is good to print.
+ */
+
+export type ArtworkCheckStatus = "pass" | "warn" | "fail";
+
+export type ArtworkCheckName =
+  | "file_type"
+  | "resolution"
+  | "aspect_ratio"
+  | "color_profile";
+
+export interface ArtworkCheck {
+  check: ArtworkCheckName;
+  status: ArtworkCheckStatus;
+  message: string;
+}
+
+export interface ArtworkInspection {
+  info: ImageInfo;
+  // Pixels per inch when printed at the size, on the limiting side
+  effectiveDpi: number;
+  status: ArtworkCheckStatus;
+  checks: ArtworkCheck[];
+}
+
+export interface ArtworkReport {
+  id: number;
+  creator_id: string;
+  poster_id: string | null;
+  size_id: string;
+  storage_path: string;
+  url: string;
+  file_type: string;
+  file_size: number;
+  width: number;
+  height: number;
+  dpi_x: number | null;
+  dpi_y: number | null;
+  effective_dpi: number;
+  color_space: string;
+  icc_profile: string | null;
+  status: ArtworkCheckStatus;
+  checks: ArtworkCheck[];
+  created_at: string;
+}
+
+// Artwork that can't be accepted at all, reported back to the creator
+export class ArtworkRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ArtworkRejectedError";
+  }
+}
+
+// The resolution recommended sizes are given at
+export const PRINT_DPI = 300;
+
+// Share of PRINT_DPI that prints well, and that is still acceptable
+const GOOD_DPI_SHARE = 0.95;
+const MIN_DPI_SHARE = 0.7;
+
+// Share of the artwork cropped off to fit the size's aspect ratio that goes
+// unnoticed, and that is still acceptable
+const UNNOTICED_CROP = 0.01;
+const MAX_CROP = 0.05;
+
+const STATUS_ORDER: ArtworkCheckStatus[] = ["pass", "warn", "fail"];
+
+const worst = (checks: ArtworkCheck[]) =>
+  checks.reduce<ArtworkCheckStatus>(
+    (status, check) =>
+      STATUS_ORDER.indexOf(check.status) > STATUS_ORDER.indexOf(status)
+        ? check.status
+        : status,
+    "pass"
+  );
+
+const formatMegabytes = (bytes: number) =>
+  `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+// Long and short side, so portrait and landscape artwork fit either way
+const sides = (width: number, height: number) =>
+  [Math.max(width, height), Math.min(width, height)] as const;
+
+function resolutionCheck(
+  info: ImageInfo,
+  size: PosterSizeOption
+): { check: ArtworkCheck; effectiveDpi: number } {
+  const [long, short] = sides(info.width, info.height);
+  const [targetLong, targetShort] = sides(
+    size.recommended_width,
+    size.recommended_height
+  );
+
+  // The size in inches is its recommended resolution at PRINT_DPI
+  const effectiveDpi = Math.floor(
+    Math.min(
+      (long / targetLong) * PRINT_DPI,
+      (short / targetShort) * PRINT_DPI
+    )
+  );
+  const recorded = info.dpi
+    ? `; the file records ${Math.round(Math.min(info.dpi.x, info.dpi.y))} DPI`
+    : "";
+  const message = `${info.width} × ${info.height} px prints at ${effectiveDpi} DPI at ${size.dimensions}${recorded}`;
+
+  let status: ArtworkCheckStatus = "pass";
+  if (effectiveDpi < PRINT_DPI * MIN_DPI_SHARE) status = "fail";
+  else if (effectiveDpi < PRINT_DPI * GOOD_DPI_SHARE) status = "warn";
+
+  return {
+    effectiveDpi,
+    check: {
+      check: "resolution",
+      status,
+      message:
+        status === "pass"
+          ? message
+          : `${message}. ${size.recommended_width} × ${size.recommended_height} px are recommended`,
+    },
+  };
+}
+
+function aspectRatioCheck(
+  info: ImageInfo,
+  size: PosterSizeOption
+): ArtworkCheck {
+  const [long, short] = sides(info.width, info.height);
+  const [targetLong, targetShort] = sides(
+    size.recommended_width,
+    size.recommended_height
+  );
+  const ratio = long / short;
+  const target = targetLong / targetShort;
+  const crop = 1 - Math.min(ratio, target) / Math.max(ratio, target);
+
+  if (crop <= UNNOTICED_CROP) {
+    return {
+      check: "aspect_ratio",
+      status: "pass",
+      message: `Matches the ${size.label} aspect ratio`,
+    };
+  }
+  return {
+    check: "aspect_ratio",
+    status: crop <= MAX_CROP ? "warn" : "fail",
+    message: `About ${Math.round(crop * 100)}% of the artwork would be cropped to fit ${size.dimensions}`,
+  };
+}
+
+function colorProfileCheck(info: ImageInfo): ArtworkCheck {
+  const check = "color_profile";
+  const profile = info.iccProfile;
+
+  if (info.colorSpace === "cmyk") {
+    return {
+      check,
+      status: "warn",
+      message: `CMYK artwork${profile ? ` (${profile})` : ""} is converted to RGB for printing; colours may shift. Export as sRGB instead`,
+    };
+  }
+  if (info.colorSpace === "grayscale") {
+    return { check, status: "pass", message: "Greyscale" };
+  }
+  if ((profile && /srgb/i.test(profile)) || info.declaresSrgb) {
+    return { check, status: "pass", message: profile || "sRGB" };
+  }
+  if (profile) {
+    return {
+      check,
+      status: "warn",
+      message: `${profile} is converted to sRGB for printing; colours may shift`,
+    };
+  }
+  return {
+    check,
+    status: "warn",
+    message: "No colour profile embedded; the artwork is printed as sRGB",
+  };
+}
+
+/**
+ * Check artwork uploaded for a size. Throws ArtworkRejectedError for files
+ * that can't be accepted.
+ */
+export function inspectArtwork(
+  bytes: Uint8Array,
+  size: PosterSizeOption
+): ArtworkInspection {
+  if (bytes.length > MAX_ARTWORK_BYTES) {
+    throw new ArtworkRejectedError(
+      `Files can be at most ${MAX_ARTWORK_BYTES / 1024 / 1024} MB`
+    );
+  }
+
+  let info: ImageInfo;
+  try {
+    info = readImageInfo(bytes);
+  } catch (error) {
+    throw new ArtworkRejectedError(
+      error instanceof Error ? error.message : "The file can't be read"
+    );
+  }
+
+  const { check: resolution, effectiveDpi } = resolutionCheck(info, size);
+  const checks: ArtworkCheck[] = [
+    {
+      check: "file_type",
+      status: "pass",
+      message: `${info.format.toUpperCase()}, ${formatMegabytes(bytes.length)}`,
+    },
+    resolution,
+    aspectRatioCheck(info, size),
+    colorProfileCheck(info),
+  ];
+
+  return { info, effectiveDpi, status: worst(checks), checks };
+}
+
+export async function saveArtworkReport(
+  supabase: SupabaseServerClient,
+  {
+    creatorId,
+    sizeId,
+    storagePath,
+    url,
+    fileSize,
+    inspection,
+  }: {
+    creatorId: string;
+    sizeId: string;
+    storagePath: string;
+    url: string;
+    fileSize: number;
+    inspection: ArtworkInspection;
+  }
+): Promise<ArtworkReport> {
+  const { info } = inspection;
+
+  const { data, error } = await supabase
+    .from("artwork_reports")
+    .upsert(
+      {
+        creator_id: creatorId,
+        size_id: sizeId,
+        storage_path: storagePath,
+        url,
+        file_type: info.mimeType,
+        file_size: fileSize,
+        width: info.width,
+        height: info.height,
+        dpi_x: info.dpi ? Math.round(info.dpi.x) : null,
+        dpi_y: info.dpi ? Math.round(info.dpi.y) : null,
+        effective_dpi: inspection.effectiveDpi,
+        color_space: info.colorSpace,
+        icc_profile: info.iccProfile,
+        status: inspection.status,
+        checks: inspection.checks,
+      },
+      { onConflict: "storage_path" }
+    )
+    .select("*")
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save artwork report: ${error.message}`);
+  }
+
+  return data as unknown as ArtworkReport;
+}
+
+// Attach the reports of a poster's uploaded print files, by storage path,
+// to the poster
+export async function linkArtworkReports(
+  supabase: SupabaseServerClient,
+  creatorId: string,
+  posterId: string,
+  storagePaths: string[]
+) {
+  if (storagePaths.length === 0) return;
+
+  const { error } = await supabase
+    .from("artwork_reports")
+    .update({ poster_id: posterId })
+    .eq("creator_id", creatorId)
+    .in("storage_path", storagePaths);
+
+  if (error) {
+    throw new Error(`Failed to link artwork reports: ${error.message}`);
+  }
+}
+
+// The latest report of each size of a poster
+export async function fetchArtworkReports(
+  supabase: SupabaseServerClient,
+  posterId: string
+): Promise<ArtworkReport[]> {
+  const { data, error } = await supabase
+    .from("artwork_reports")
+    .select("*")
+    .eq("poster_id", posterId)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch artwork reports: ${error.message}`);
+  }
+
+  const latest = new Map<string, ArtworkReport>();
+  ((data || []) as unknown as ArtworkReport[]).forEach((report) => {
+    if (!latest.has(report.size_id)) latest.set(report.size_id, report);
+  });
+
+  return Array.from(latest.values());
+}
@@ -0,0 +1,146 @@
+import type { createClient } from "@/utils/supabase/server";
+import { DEFAULT_CREATOR_SHARE } from "@/lib/poster-constants";
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+/**
+ * A commission rule as stored in the commission_rules table.
+ *
+ * The rate is the share of net line revenue that goes to the creator.
+ * A rule without creator_id/poster_id applies store-wide; starts_at/ends_at
+ * (inclusive, YYYY-MM-DD) limit it to a period such as a launch promo.
+ */
+export interface CommissionRule {
+  id: number;
+  label: string;
+  rate: number;
+  creator_id: string | null;
+  poster_id: string | null;
+  starts_at: string | null;
+  ends_at: string | null;
+  priority: number;
+  version: number;
+  active: boolean;
+  created_at?: string;
+  updated_at?: string | null;
+}
+
+// The rule (and version) that produced a given rate, stored with payouts
+export interface AppliedCommission {
+  rate: number;
+  ruleId: number | null;
+  ruleVersion: number | null;
+  label: string;
+}
+
+export const DEFAULT_COMMISSION: AppliedCommission = {
+  rate: DEFAULT_CREATOR_SHARE,
+  ruleId: null,
+  ruleVersion: null,
+  label: "Default",
+};
+
+export const COMMISSION_RULE_FIELDS =
+  "id, label, rate, creator_id, poster_id, starts_at, ends_at, priority, version, active, created_at, updated_at";
+
+// Higher is more specific: poster beats creator beats store-wide
+const scopeWeight = (rule: CommissionRule) =>
+  rule.poster_id ? 2 : rule.creator_id ? 1 : 0;
+
+const isDateBound = (rule: CommissionRule) =>
+  Boolean(rule.starts_at || rule.ends_at);
+
+function appliesTo(
+  rule: CommissionRule,
+  creatorId: string | undefined,
+  posterId: string | undefined,
+  day: string
+) {
+  if (!rule.active) return false;
+  if (rule.poster_id && rule.poster_id !== posterId) return false;
+  if (rule.creator_id && rule.creator_id !== creatorId) return false;
+  if (rule.starts_at && day < rule.starts_at) return false;
+  if (rule.ends_at && day > rule.ends_at) return false;
+  return true;
+}
+
+/**
+ * Pick the rule that applies to a sale.
+ *
+ * The most specific scope wins, then a date-bound rule over an open-ended one,
+ * then the higher priority, then the most recently created rule.
+ */
+export function resolveCommissionRule(
+  rules: CommissionRule[],
+  {
+    creatorId,
+    posterId,
+    date,
+  }: { creatorId?: string; posterId?: string; date?: string | Date }
+): AppliedCommission {
+  const day = (date ? new Date(date) : new Date()).toISOString().split("T")[0];
+
+  const candidates = rules
+    .filter((rule) => appliesTo(rule, creatorId, posterId, day))
+    .sort(
+      (a, b) =>
+        scopeWeight(b) - scopeWeight(a) ||
+        Number(isDateBound(b)) - Number(isDateBound(a)) ||
+        b.priority - a.priority ||
+        (b.created_at || "").localeCompare(a.created_at || "")
+    );
+
+  const rule = candidates[0];
+  if (!rule) return DEFAULT_COMMISSION;
+
+  return {
+    rate: Number(rule.rate),
+    ruleId: rule.id,
+    ruleVersion: rule.version,
+    label: rule.label,
+  };
+}
+
+/**
+ * Split a sale amount (the commission base of a line, see
+ * lib/discounts.ts) between the creator and the platform, using the rule
+ * that applies to the sale.
+ */
+export function calculateEarnings(
+  amount: number,
+  rules: CommissionRule[],
+  sale: { creatorId?: string; posterId?: string; date?: string | Date }
+) {
+  const rule = resolveCommissionRule(rules, sale);
+  const earnings = amount * rule.rate;
+
+  return { earnings, platformShare: amount - earnings, rule };
+}
+
+/**
+ * Load the active rules that can apply to a creator (store-wide rules plus
+ * their own creator and poster overrides). Without a creator id every active
+ * rule is returned, which is what the payouts cron wants.
+ */
+export async function fetchCommissionRules(
+  supabase: SupabaseServerClient,
+  creatorId?: string
+): Promise<CommissionRule[]> {
+  let query = supabase
+    .from("commission_rules")
+    .select(COMMISSION_RULE_FIELDS)
+    .eq("active", true);
+
+  if (creatorId) {
+    query = query.or(`creator_id.is.null,creator_id.eq.${creatorId}`);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error("Error fetching commission rules:", error);
+    throw new Error(`Failed to fetch commission rules: ${error.message}`);
+  }
+
+  return (data || []) as CommissionRule[];
+}
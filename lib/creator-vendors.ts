@@ -0,0 +1,428 @@
+import type { createClient } from "@/utils/supabase/server";
+import { shopifyGraphQL } from "@/utils/shopify/gateway";
+import { getPrimaryShop, listShops, Shop, shopCredentials } from "@/lib/shops";
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+/**
+ * Which Shopify products belong to which creator.
+ *
+ * creator_vendors maps vendor names to creators. A creator can have several
+ * (e.g. the old and the new name after a rename), and names are matched
+ * case-insensitively. creator_products maps product IDs to creators; it's
+ * filled when a poster is published (with the poster's product in every
+ * shop) and admins can assign other products. A product belongs to a
+ * creator if it's mapped to them directly, or if its vendor is one of
+ * theirs.
+ *
+ * checkVendorConsistency compares the mapping with the products in every
+ * shop.
+ */
+
+export interface CreatorVendor {
+  vendor: string;
+  creator_id: string;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface CreatorProduct {
+  shopify_product_id: string;
+  // null for products mapped before there were several shops
+  shop: string | null;
+  creator_id: string;
+  poster_id: string | null;
+  shopify_url: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface VendorIssueProduct {
+  shopifyProductId: string;
+  shop: string;
+  title: string;
+  vendor: string;
+  status: string;
+  // Creator the product is mapped to directly, if any
+  creatorId: string | null;
+}
+
+export interface MissingProduct {
+  shopifyProductId: string;
+  shop: string;
+  creatorId: string;
+  posterId: string | null;
+  title: string | null;
+}
+
+export interface VendorConsistencyReport {
+  checkedAt: string;
+  products: number;
+  // Products whose vendor is not mapped to any creator
+  unmappedVendors: VendorIssueProduct[];
+  // Products whose vendor belongs to a different creator than the product
+  ownerConflicts: Array<VendorIssueProduct & { vendorCreatorId: string }>;
+  // Posters and mapped products that no longer exist in their shop
+  missingProducts: MissingProduct[];
+}
+
+type ProductsPage = {
+  products: {
+    nodes: Array<{ id: string; title: string; vendor: string; status: string }>;
+    pageInfo: { hasNextPage: boolean; endCursor: string | null };
+  };
+};
+
+const PRODUCTS_QUERY = `
+  query vendorProducts($cursor: String) {
+    products(first: 250, after: $cursor) {
+      nodes {
+        id
+        title
+        vendor
+        status
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+    }
+  }
+`;
+
+const normalizeVendor = (vendor: string) => vendor.trim().toLowerCase();
+
+// Escape a value for an exact, case-insensitive ilike match
+const ilikeExact = (value: string) => value.replace(/[\\%_]/g, "\\$&");
+
+export async function listCreatorVendors(
+  supabase: SupabaseServerClient
+): Promise<CreatorVendor[]> {
+  const { data, error } = await supabase
+    .from("creator_vendors")
+    .select("*")
+    .order("vendor");
+
+  if (error) {
+    throw new Error(`Failed to fetch vendor mapping: ${error.message}`);
+  }
+
+  return (data || []) as CreatorVendor[];
+}
+
+export async function listCreatorProducts(
+  supabase: SupabaseServerClient
+): Promise<CreatorProduct[]> {
+  const { data, error } = await supabase
+    .from("creator_products")
+    .select("*")
+    .order("created_at");
+
+  if (error) {
+    throw new Error(`Failed to fetch product mapping: ${error.message}`);
+  }
+
+  return (data || []) as CreatorProduct[];
+}
+
+// The creator a vendor name is mapped to, or null
+export async function findCreatorByVendor(
+  supabase: SupabaseServerClient,
+  vendor: string
+): Promise<string | null> {
+  const { data, error } = await supabase
+    .from("creator_vendors")
+    .select("creator_id")
+    .ilike("vendor", ilikeExact(vendor.trim()))
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to look up vendor: ${error.message}`);
+  }
+
+  return data?.creator_id || null;
+}
+
+export async function getCreatorVendors(
+  supabase: SupabaseServerClient,
+  creatorId: string
+): Promise<string[]> {
+  const { data, error } = await supabase
+    .from("creator_vendors")
+    .select("vendor")
+    .eq("creator_id", creatorId);
+
+  if (error) {
+    throw new Error(`Failed to fetch creator vendors: ${error.message}`);
+  }
+
+  return (data || []).map((row) => row.vendor as string);
+}
+
+// Shopify product IDs mapped to the creator, including their posters'
+export async function getCreatorProductIds(
+  supabase: SupabaseServerClient,
+  creatorId: string
+): Promise<string[]> {
+  const [products, posters] = await Promise.all([
+    supabase
+      .from("creator_products")
+      .select("shopify_product_id")
+      .eq("creator_id", creatorId),
+    supabase
+      .from("posters")
+      .select("shopify_product_id")
+      .eq("creator_id", creatorId)
+      .not("shopify_product_id", "is", null),
+  ]);
+
+  const error = products.error || posters.error;
+  if (error) {
+    throw new Error(`Failed to fetch creator products: ${error.message}`);
+  }
+
+  return Array.from(
+    new Set(
+      [...(products.data || []), ...(posters.data || [])].map(
+        (row) => row.shopify_product_id as string
+      )
+    )
+  );
+}
+
+export async function addCreatorVendor(
+  supabase: SupabaseServerClient,
+  creatorId: string,
+  vendor: string,
+  adminId: string
+) {
+  const name = vendor.trim();
+  if (!name) {
+    throw new Error("Vendor name is required");
+  }
+
+  const existing = await findCreatorByVendor(supabase, name);
+  if (existing === creatorId) return;
+  if (existing) {
+    throw new Error(`Vendor "${name}" already belongs to another creator`);
+  }
+
+  const { error } = await supabase.from("creator_vendors").insert({
+    vendor: name,
+    creator_id: creatorId,
+    created_by: adminId,
+  });
+
+  if (error) {
+    throw new Error(`Failed to add vendor: ${error.message}`);
+  }
+}
+
+export async function removeCreatorVendor(
+  supabase: SupabaseServerClient,
+  vendor: string
+) {
+  const { error } = await supabase
+    .from("creator_vendors")
+    .delete()
+    .ilike("vendor", ilikeExact(vendor.trim()));
+
+  if (error) {
+    throw new Error(`Failed to remove vendor: ${error.message}`);
+  }
+}
+
+/**
+ * Assign a product of the primary shop to a creator. A product that belongs
+ * to one of another creator's posters can't be reassigned.
+ */
+export async function assignCreatorProduct(
+  supabase: SupabaseServerClient,
+  shopifyProductId: string,
+  creatorId: string,
+  adminId: string
+) {
+  const productId = shopifyProductId.trim().split("/").pop() || "";
+  if (!/^\d+$/.test(productId)) {
+    throw new Error("Invalid Shopify product ID");
+  }
+
+  const { data: poster, error: posterError } = await supabase
+    .from("posters")
+    .select("id, creator_id")
+    .eq("shopify_product_id", productId)
+    .maybeSingle();
+
+  if (posterError) {
+    throw new Error(`Failed to look up poster: ${posterError.message}`);
+  }
+  if (poster && poster.creator_id !== creatorId) {
+    throw new Error("This product belongs to another creator's poster");
+  }
+
+  const shop = await getPrimaryShop(supabase);
+  const { error } = await supabase.from("creator_products").upsert(
+    {
+      shopify_product_id: productId,
+      shop: shop.domain,
+      creator_id: creatorId,
+      poster_id: poster?.id || null,
+      created_by: adminId,
+    },
+    { onConflict: "shopify_product_id" }
+  );
+
+  if (error) {
+    throw new Error(`Failed to assign product: ${error.message}`);
+  }
+}
+
+export async function removeCreatorProduct(
+  supabase: SupabaseServerClient,
+  shopifyProductId: string
+) {
+  const { error } = await supabase
+    .from("creator_products")
+    .delete()
+    .eq("shopify_product_id", shopifyProductId);
+
+  if (error) {
+    throw new Error(`Failed to remove product: ${error.message}`);
+  }
+}
+
+// Record the product created for a poster in one of the shops
+export async function linkPosterProduct(
+  supabase: SupabaseServerClient,
+  poster: { id: string; creator_id: string },
+  product: { shop: string; productId: string; url: string }
+) {
+  const { error } = await supabase.from("creator_products").upsert(
+    {
+      shopify_product_id: product.productId,
+      shop: product.shop,
+      creator_id: poster.creator_id,
+      poster_id: poster.id,
+      shopify_url: product.url,
+    },
+    { onConflict: "shopify_product_id" }
+  );
+
+  if (error) {
+    throw new Error(`Failed to link product to creator: ${error.message}`);
+  }
+}
+
+async function fetchAllProducts(shop: Shop) {
+  const products: ProductsPage["products"]["nodes"] = [];
+  let cursor: string | null = null;
+
+  for (;;) {
+    const page: ProductsPage = await shopifyGraphQL<ProductsPage>(
+      PRODUCTS_QUERY,
+      { cursor },
+      { shop: shopCredentials(shop) }
+    );
+    products.push(...page.products.nodes);
+
+    if (!page.products.pageInfo.hasNextPage) return products;
+    cursor = page.products.pageInfo.endCursor;
+  }
+}
+
+/**
+ * Compare the mapping with the products in every shop: products whose
+ * vendor has no creator, products whose vendor and direct mapping disagree,
+ * and posters or mapped products that their shop no longer has.
+ */
+export async function checkVendorConsistency(
+  supabase: SupabaseServerClient
+): Promise<VendorConsistencyReport> {
+  const [shops, vendors, mappedProducts, postersResult] = await Promise.all([
+    listShops(supabase),
+    listCreatorVendors(supabase),
+    listCreatorProducts(supabase),
+    supabase
+      .from("posters")
+      .select("id, title, creator_id, shopify_product_id")
+      .not("shopify_product_id", "is", null),
+  ]);
+
+  if (postersResult.error) {
+    throw new Error(
+      `Failed to fetch posters: ${postersResult.error.message}`
+    );
+  }
+
+  const primary = shops.find((shop) => shop.is_primary) || shops[0];
+  const vendorCreators = new Map(
+    vendors.map((row) => [normalizeVendor(row.vendor), row.creator_id])
+  );
+
+  // Direct product owners, from posters and the product mapping
+  const owners = new Map<string, MissingProduct>();
+  mappedProducts.forEach((row) =>
+    owners.set(row.shopify_product_id, {
+      shopifyProductId: row.shopify_product_id,
+      shop: row.shop || primary.domain,
+      creatorId: row.creator_id,
+      posterId: row.poster_id,
+      title: null,
+    })
+  );
+  (postersResult.data || []).forEach((poster) =>
+    owners.set(poster.shopify_product_id as string, {
+      shopifyProductId: poster.shopify_product_id as string,
+      shop: primary.domain,
+      creatorId: poster.creator_id as string,
+      posterId: poster.id as string,
+      title: poster.title as string,
+    })
+  );
+
+  const report: VendorConsistencyReport = {
+    checkedAt: new Date().toISOString(),
+    products: 0,
+    unmappedVendors: [],
+    ownerConflicts: [],
+    missingProducts: [],
+  };
+
+  const existing = new Set<string>();
+  for (const shop of shops) {
+    const shopifyProducts = await fetchAllProducts(shop);
+    report.products += shopifyProducts.length;
+
+    for (const product of shopifyProducts) {
+      const productId = product.id.split("/").pop() as string;
+      existing.add(productId);
+
+      const issue: VendorIssueProduct = {
+        shopifyProductId: productId,
+        shop: shop.domain,
+        title: product.title,
+        vendor: product.vendor,
+        status: product.status,
+        creatorId: owners.get(productId)?.creatorId || null,
+      };
+      const vendorCreatorId = vendorCreators.get(
+        normalizeVendor(product.vendor)
+      );
+
+      if (!vendorCreatorId) {
+        report.unmappedVendors.push(issue);
+      } else if (issue.creatorId && issue.creatorId !== vendorCreatorId) {
+        report.ownerConflicts.push({ ...issue, vendorCreatorId });
+      }
+    }
+  }
+
+  // Products of inactive shops aren't checked
+  const checkedShops = new Set(shops.map((shop) => shop.domain));
+  report.missingProducts = Array.from(owners.values()).filter(
+    (owner) =>
+      checkedShops.has(owner.shop) && !existing.has(owner.shopifyProductId)
+  );
+
+  return report;
+}
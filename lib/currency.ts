@@ -9,8 +9,33 @@ export const currencySymbols: Record<SupportedCurrency, string> = {
   DKK: "kr",
 };
 
+export type ExchangeRateTable = Record<
+  SupportedCurrency,
+  Record<SupportedCurrency, number>
+>;
+
+// Exchange rates a payout was calculated with, stored on the payout so the
+// amount can be reproduced after the live rates have moved on. `fallback` is
+// set when the rates were the built-in defaults rather than live ones.
+export type ExchangeRateSnapshot = {
+  currency: SupportedCurrency;
+  rates: Partial<Record<SupportedCurrency, number>>;
+  fetched_at: string;
+  fallback?: boolean;
+};
+
+// A rate table and whether it is the built-in default table (or partly
+// filled from it) because live rates couldn't be fetched
+export type ExchangeRates = {
+  rates: ExchangeRateTable;
+  fallback: boolean;
+};
+
+// Set by /api/currency/rates on responses that use the default rates
+export const FALLBACK_RATES_HEADER = "x-exchange-rates-fallback";
+
 // Default exchange rates as fallback (approximate as of May 2024)
-const defaultExchangeRates: Record<
+export const defaultExchangeRates: Record<
   SupportedCurrency,
   Record<SupportedCurrency, number>
 > = {
@@ -40,16 +65,19 @@ const defaultExchangeRates: Record<
   },
 };
 
-// Cache for exchange rates
+const FALLBACK_RATES: ExchangeRates = {
+  rates: defaultExchangeRates,
+  fallback: true,
+};
+
+// Cache for exchange rates; only live rates are cached
 let exchangeRatesCache: {
   timestamp: number;
   rates: Record<SupportedCurrency, Record<SupportedCurrency, number>>;
 } | null = null;
 
 // Keep track of in-flight requests to prevent multiple simultaneous requests
-let ratesRequestInProgress: Promise<
-  Record<SupportedCurrency, Record<SupportedCurrency, number>>
-> | null = null;
+let ratesRequestInProgress: Promise<ExchangeRates> | null = null;
 
 // Cache duration in milliseconds (15 minutes)
 const CACHE_DURATION = 15 * 60 * 1000;
@@ -74,15 +102,21 @@ const promiseWithTimeout = <T>(
   });
 };
 
-export async function getExchangeRates(): Promise<
-  Record<SupportedCurrency, Record<SupportedCurrency, number>>
-> {
+export const isSupportedCurrency = (
+  currency: string
+): currency is SupportedCurrency => Object.hasOwn(currencySymbols, currency);
+
+// Pass baseUrl when calling from the server, where the relative API path
+// can't be resolved (e.g. the request origin in a route handler). When live
+// rates can't be fetched in time the default rates are returned, flagged as
+// `fallback`; callers moving real money must check it.
+export async function getExchangeRates(baseUrl = ""): Promise<ExchangeRates> {
   // Check if we have valid cached rates
   if (
     exchangeRatesCache &&
     Date.now() - exchangeRatesCache.timestamp < CACHE_DURATION
   ) {
-    return exchangeRatesCache.rates;
+    return { rates: exchangeRatesCache.rates, fallback: false };
   }
 
   // If there's already a request in progress, reuse it
@@ -91,50 +125,53 @@ export async function getExchangeRates(): Promise<
       return await promiseWithTimeout(
         ratesRequestInProgress,
         1500, // 1.5 second timeout
-        defaultExchangeRates
+        FALLBACK_RATES
       );
     } catch (error) {
       console.error(
         "Error waiting for in-flight exchange rates request:",
         error
       );
-      return defaultExchangeRates;
+      return FALLBACK_RATES;
     }
   }
 
   // Create a new request
   try {
     // Create a promise that will be resolved with the exchange rates
-    const requestPromise = (async () => {
+    const requestPromise = (async (): Promise<ExchangeRates> => {
       try {
         // Use our API endpoint to get rates - this endpoint internally caches rates for 1 hour
-        const response = await promiseWithTimeout<AxiosResponse<any>>(
-          axios.get("/api/currency/rates"),
-          2000, // 2 second timeout
-          {
-            data: defaultExchangeRates,
-            status: 200,
-            statusText: "OK",
-            headers: {},
-            config: {} as any,
-          }
-        );
+        const response =
+          await promiseWithTimeout<AxiosResponse<ExchangeRateTable> | null>(
+            axios.get<ExchangeRateTable>(`${baseUrl}/api/currency/rates`),
+            2000, // 2 second timeout
+            null
+          );
+
+        if (!response) {
+          return FALLBACK_RATES;
+        }
 
         if (response.data) {
+          const fallback = response.headers[FALLBACK_RATES_HEADER] === "1";
+
           // Update local cache
-          exchangeRatesCache = {
-            timestamp: Date.now(),
-            rates: response.data,
-          };
+          if (!fallback) {
+            exchangeRatesCache = {
+              timestamp: Date.now(),
+              rates: response.data,
+            };
+          }
 
-          return response.data;
+          return { rates: response.data, fallback };
         }
 
         throw new Error("Invalid response from exchange rate API");
       } catch (error) {
         console.error("Error fetching exchange rates:", error);
         // Return default rates as fallback
-        return defaultExchangeRates;
+        return FALLBACK_RATES;
       } finally {
         // Clear the in-flight request
         ratesRequestInProgress = null;
@@ -148,14 +185,14 @@ export async function getExchangeRates(): Promise<
     return await promiseWithTimeout(
       requestPromise,
       2000, // 2 second timeout
-      defaultExchangeRates
+      FALLBACK_RATES
     );
   } catch (error) {
     console.error("Error fetching exchange rates:", error);
     // Clear the in-flight request
     ratesRequestInProgress = null;
     // Return default rates as fallback
-    return defaultExchangeRates;
+    return FALLBACK_RATES;
   }
 }
 
@@ -201,7 +238,7 @@ export async function convertCurrency(
     const conversionPromise = (async () => {
       try {
         // Wrap the rates fetch with a timeout to prevent hanging
-        const rates = await getExchangeRates();
+        const { rates } = await getExchangeRates();
         const rate = rates[fromCurrency][toCurrency];
 
         if (!rate) {
@@ -242,6 +279,37 @@ export async function convertCurrency(
   }
 }
 
+// Add up amounts in mixed currencies in the snapshot's currency, recording
+// each rate used on the snapshot. Currencies without a rate are returned.
+export function sumInCurrency(
+  items: Array<{ amount: number; currency: string }>,
+  snapshot: ExchangeRateSnapshot,
+  rates: ExchangeRateTable
+) {
+  let total = 0;
+  const unsupported = new Set<string>();
+
+  items.forEach((item) => {
+    if (item.currency === snapshot.currency) {
+      total += Number(item.amount);
+      return;
+    }
+
+    const fxRate = isSupportedCurrency(item.currency)
+      ? rates[item.currency]?.[snapshot.currency]
+      : undefined;
+    if (!fxRate) {
+      unsupported.add(item.currency);
+      return;
+    }
+
+    snapshot.rates[item.currency as SupportedCurrency] = fxRate;
+    total += Number(item.amount) * fxRate;
+  });
+
+  return { total, unsupported: Array.from(unsupported) };
+}
+
 export function formatCurrency(
   amount: number,
   currency: SupportedCurrency
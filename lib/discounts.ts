@@ -0,0 +1,347 @@
+import type { createClient } from "@/utils/supabase/server";
+import {
+  fetchCommissionRules,
+  resolveCommissionRule,
+} from "@/lib/commission";
+import {
+  fetchDiscountedOrderLines,
+  fetchOrderLines,
+  isPaidOrderStatus,
+  OrderLine,
+  OrderLineFilter,
+  toPrimaryCurrency,
+} from "@/lib/orders";
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+/**
+ * Discounts on order lines and who pays for them.
+ *
+ * Every line stores the discounts Shopify allocated to it (order_line_items
+ * .discounts). A promotion is identified by its name on the order: the
+ * discount code, or the title of an automatic or manual discount. By
+ * default a discount lowers the net amount creator commission is computed
+ * on, so creators share its cost. Discounts of campaigns an admin marked as
+ * platform-funded (discount_campaigns) are added back before commission is
+ * applied: the platform pays for them alone.
+ */
+
+export type DiscountType = "code" | "automatic" | "manual" | "script";
+
+// A discount allocated to an order line, in the order currency
+export interface LineDiscount {
+  type: DiscountType;
+  name: string;
+  amount: number;
+}
+
+// The discounts of an order's lines, by promotion, as shown to creators
+export interface OrderDiscount extends LineDiscount {
+  platformFunded: boolean;
+}
+
+export interface DiscountCampaign {
+  id: number;
+  name: string;
+  platform_funded: boolean;
+  note: string | null;
+  updated_by: string | null;
+  created_at: string;
+  updated_at: string | null;
+}
+
+/**
+ * What a promotion cost one creator. discount is what customers saved on
+ * the creator's posters; creatorCost is the commission the creator didn't
+ * earn because of it, and platformCost the rest of the discount.
+ */
+export interface PromotionCost {
+  campaign: string;
+  // null for discounts synced before discounts were recorded per line
+  type: DiscountType | null;
+  platformFunded: boolean;
+  creatorId: string;
+  creatorName: string | null;
+  orders: number;
+  units: number;
+  discount: number;
+  creatorCost: number;
+  platformCost: number;
+}
+
+// Campaign of the part of a line's discount no recorded discount explains
+export const UNATTRIBUTED_DISCOUNT = "Other discounts";
+
+// Lookups of product IDs are split up to keep request URLs short
+const PRODUCT_CHUNK_SIZE = 100;
+
+// Discount codes are case-insensitive, so campaigns are matched by this key
+export const campaignKey = (name: string) => name.trim().toLowerCase();
+
+export async function fetchDiscountCampaigns(
+  supabase: SupabaseServerClient
+): Promise<DiscountCampaign[]> {
+  const { data, error } = await supabase
+    .from("discount_campaigns")
+    .select("*")
+    .order("name");
+
+  if (error) {
+    throw new Error(`Failed to fetch discount campaigns: ${error.message}`);
+  }
+
+  return (data || []) as DiscountCampaign[];
+}
+
+// Keys (see campaignKey) of the platform-funded campaigns
+export async function fetchPlatformFundedCampaigns(
+  supabase: SupabaseServerClient
+): Promise<Set<string>> {
+  const campaigns = await fetchDiscountCampaigns(supabase);
+  return new Set(
+    campaigns
+      .filter((campaign) => campaign.platform_funded)
+      .map((campaign) => campaignKey(campaign.name))
+  );
+}
+
+/**
+ * Mark a promotion as platform-funded or not. Campaigns are created the
+ * first time they are marked; the name is matched case-insensitively.
+ */
+export async function setCampaignFunding(
+  supabase: SupabaseServerClient,
+  {
+    name,
+    platformFunded,
+    note,
+  }: { name: string; platformFunded: boolean; note?: string | null },
+  userId: string
+): Promise<DiscountCampaign> {
+  const existing = (await fetchDiscountCampaigns(supabase)).find(
+    (campaign) => campaignKey(campaign.name) === campaignKey(name)
+  );
+
+  const changes = {
+    platform_funded: platformFunded,
+    note: note === undefined ? existing?.note ?? null : note,
+    updated_by: userId,
+    updated_at: new Date().toISOString(),
+  };
+
+  const { data, error } = existing
+    ? await supabase
+        .from("discount_campaigns")
+        .update(changes)
+        .eq("id", existing.id)
+        .select("*")
+        .single()
+    : await supabase
+        .from("discount_campaigns")
+        .insert({ name: name.trim(), ...changes })
+        .select("*")
+        .single();
+
+  if (error) {
+    throw new Error(`Failed to save discount campaign: ${error.message}`);
+  }
+
+  return data as DiscountCampaign;
+}
+
+/**
+ * The part of a line's discount paid for by platform-funded campaigns. It
+ * never exceeds the line's discount, since Shopify allocates order-level
+ * discounts to lines that aren't always reflected in their net amount.
+ */
+export function platformFundedAmount(
+  line: Pick<OrderLine, "discounts" | "discount_amount">,
+  platformFunded: Set<string>
+) {
+  const funded = (line.discounts || [])
+    .filter((discount) => platformFunded.has(campaignKey(discount.name)))
+    .reduce((sum, discount) => sum + discount.amount, 0);
+
+  return Math.min(funded, line.discount_amount);
+}
+
+// The amount creator commission is computed on: the net amount plus the
+// discounts the platform funded
+export const commissionBase = (
+  line: Pick<OrderLine, "discounts" | "discount_amount" | "net_amount">,
+  platformFunded: Set<string>
+) => line.net_amount + platformFundedAmount(line, platformFunded);
+
+// The discounts of several lines (e.g. an order's), added up by promotion
+export function summarizeDiscounts(
+  lines: Pick<OrderLine, "discounts">[],
+  platformFunded: Set<string>
+): OrderDiscount[] {
+  const discounts = new Map<string, OrderDiscount>();
+
+  lines.forEach((line) =>
+    (line.discounts || []).forEach((discount) => {
+      const key = campaignKey(discount.name);
+      const entry = discounts.get(key) || {
+        ...discount,
+        amount: 0,
+        platformFunded: platformFunded.has(key),
+      };
+      entry.amount += discount.amount;
+      discounts.set(key, entry);
+    })
+  );
+
+  return Array.from(discounts.values());
+}
+
+// The discounts a line's discount_amount is made of, with any remainder as
+// UNATTRIBUTED_DISCOUNT
+function lineDiscounts(line: OrderLine) {
+  const discounts: Array<
+    Omit<LineDiscount, "type"> & { type: DiscountType | null }
+  > = line.discounts.filter((discount) => discount.amount > 0);
+  const attributed = discounts.reduce((sum, d) => sum + d.amount, 0);
+
+  if (line.discount_amount - attributed >= 0.01) {
+    discounts.push({
+      type: null,
+      name: UNATTRIBUTED_DISCOUNT,
+      amount: line.discount_amount - attributed,
+    });
+  }
+  return discounts;
+}
+
+type ProductOwner = {
+  shopify_product_id: string;
+  creator_id: string;
+  poster_id: string | null;
+  profiles: { name: string | null } | null;
+};
+
+// Creators (and posters) of the given products, across all shops
+async function fetchProductOwners(
+  supabase: SupabaseServerClient,
+  productIds: string[]
+) {
+  const owners = new Map<string, ProductOwner>();
+
+  for (let i = 0; i < productIds.length; i += PRODUCT_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from("creator_products")
+      .select("shopify_product_id, creator_id, poster_id, profiles:creator_id (name)")
+      .in("shopify_product_id", productIds.slice(i, i + PRODUCT_CHUNK_SIZE));
+
+    if (error) {
+      throw new Error(`Failed to fetch product owners: ${error.message}`);
+    }
+
+    ((data || []) as unknown as ProductOwner[]).forEach((owner) =>
+      owners.set(owner.shopify_product_id, owner)
+    );
+  }
+
+  return owners;
+}
+
+/**
+ * What each promotion cost each creator, on paid orders placed in the date
+ * range. Amounts are in the primary shop's currency. Limited to one
+ * creator's posters when filter.creatorId is set.
+ */
+export async function fetchPromotionCosts(
+  supabase: SupabaseServerClient,
+  { creatorId, ...filter }: OrderLineFilter & { creatorId?: string },
+  { baseUrl = "" }: { baseUrl?: string } = {}
+): Promise<PromotionCost[]> {
+  let lines: OrderLine[];
+  if (creatorId) {
+    const { data, error } = await supabase
+      .from("creator_products")
+      .select("shopify_product_id")
+      .eq("creator_id", creatorId);
+
+    if (error) {
+      throw new Error(`Failed to fetch creator products: ${error.message}`);
+    }
+
+    lines = (
+      await fetchOrderLines(
+        supabase,
+        (data || []).map((row) => row.shopify_product_id),
+        filter
+      )
+    ).filter((line) => line.discount_amount > 0);
+  } else {
+    lines = await fetchDiscountedOrderLines(supabase, filter);
+  }
+
+  lines = await toPrimaryCurrency(
+    supabase,
+    lines.filter((line) => isPaidOrderStatus(line.order.financial_status)),
+    { baseUrl }
+  );
+  if (lines.length === 0) return [];
+
+  const [owners, rules, platformFunded] = await Promise.all([
+    fetchProductOwners(
+      supabase,
+      Array.from(new Set(lines.map((line) => line.shopify_product_id || "")))
+    ),
+    fetchCommissionRules(supabase, creatorId),
+    fetchPlatformFundedCampaigns(supabase),
+  ]);
+
+  const costs = new Map<string, PromotionCost & { orderIds: Set<string> }>();
+
+  lines.forEach((line) => {
+    // Lines of products no creator owns cost no creator anything
+    const owner = owners.get(line.shopify_product_id || "");
+    if (!owner) return;
+
+    const { rate } = resolveCommissionRule(rules, {
+      creatorId: owner.creator_id,
+      posterId: owner.poster_id || undefined,
+      date: line.ordered_at,
+    });
+
+    lineDiscounts(line).forEach((discount) => {
+      const funded = platformFunded.has(campaignKey(discount.name));
+      const key = `${campaignKey(discount.name)}:${owner.creator_id}`;
+      const cost = costs.get(key) || {
+        campaign: discount.name,
+        type: discount.type,
+        platformFunded: funded,
+        creatorId: owner.creator_id,
+        creatorName: owner.profiles?.name || null,
+        orders: 0,
+        units: 0,
+        discount: 0,
+        creatorCost: 0,
+        platformCost: 0,
+        orderIds: new Set<string>(),
+      };
+
+      const creatorCost = funded ? 0 : discount.amount * rate;
+      cost.orderIds.add(line.order_id);
+      cost.units += line.quantity;
+      cost.discount += discount.amount;
+      cost.creatorCost += creatorCost;
+      cost.platformCost += discount.amount - creatorCost;
+      costs.set(key, cost);
+    });
+  });
+
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  return Array.from(costs.values())
+    .map(({ orderIds, ...cost }) => ({
+      ...cost,
+      orders: orderIds.size,
+      discount: round(cost.discount),
+      creatorCost: round(cost.creatorCost),
+      platformCost: round(cost.platformCost),
+    }))
+    .sort((a, b) => b.discount - a.discount);
+}
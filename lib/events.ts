@@ -54,4 +54,5 @@ export const eventBus = new EventEmitter();
 // Define known event types
 export const APP_EVENTS = {
   CURRENCY_CHANGED: "currency_changed",
+  SHOP_CHANGED: "shop_changed",
 };
@@ -0,0 +1,384 @@
+import { inflateSync } from "zlib";
+
+/**
+ * Reads what an artwork file's header says about it (format, pixel size,
+ * recorded DPI and colour profile) without decoding the pixels, so even
+ * large print files are inspected quickly. The format is taken from the
+ * file's magic bytes, never from its name or the type the browser sent.
+ *
+ * JPEG, PNG and TIFF are the formats accepted for artwork, as they are the
+ * ones the print workflow takes. Shopify only ever gets JPEG derivatives.
+ */
+
+export type ImageFormat = "jpeg" | "png" | "tiff";
+
+export type ColorSpace = "rgb" | "cmyk" | "grayscale";
+
+export interface ImageInfo {
+  format: ImageFormat;
+  mimeType: string;
+  extension: string;
+  width: number;
+  height: number;
+  // Pixels per inch recorded in the file, or null when it records none
+  dpi: { x: number; y: number } | null;
+  colorSpace: ColorSpace;
+  // The embedded ICC profile's description, e.g. "sRGB IEC61966-2.1"
+  iccProfile: string | null;
+  // Whether the file declares sRGB without embedding a profile (PNG sRGB)
+  declaresSrgb: boolean;
+}
+
+const FORMATS: Record<
+  ImageFormat,
+  { signatures: number[][]; mimeType: string; extension: string }
+> = {
+  jpeg: {
+    signatures: [[0xff, 0xd8, 0xff]],
+    mimeType: "image/jpeg",
+    extension: "jpg",
+  },
+  png: {
+    signatures: [[0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]],
+    mimeType: "image/png",
+    extension: "png",
+  },
+  tiff: {
+    // Little- and big-endian
+    signatures: [
+      [0x49, 0x49, 0x2a, 0x00],
+      [0x4d, 0x4d, 0x00, 0x2a],
+    ],
+    mimeType: "image/tiff",
+    extension: "tif",
+  },
+};
+
+const CM_PER_INCH = 2.54;
+
+// The accepted format of a file by its magic bytes, or null
+export function detectImageFormat(bytes: Uint8Array): ImageFormat | null {
+  const format = (Object.keys(FORMATS) as ImageFormat[]).find((name) =>
+    FORMATS[name].signatures.some((signature) =>
+      signature.every((byte, i) => bytes[i] === byte)
+    )
+  );
+  return format || null;
+}
+
+const toDpi = (x: number, y: number, pixelsPerCm = false) =>
+  x > 0 && y > 0
+    ? pixelsPerCm
+      ? { x: x * CM_PER_INCH, y: y * CM_PER_INCH }
+      : { x, y }
+    : null;
+
+// The description of an ICC profile, from its v2 "desc" or v4 "mluc" tag.
+// A damaged profile has no description rather than making the file
+// unreadable.
+function iccDescription(profile: Buffer): string | null {
+  try {
+    return readIccDescription(profile);
+  } catch {
+    return null;
+  }
+}
+
+function readIccDescription(profile: Buffer): string | null {
+  const tagCount = profile.readUInt32BE(128);
+
+  for (let i = 0; i < tagCount; i++) {
+    const entry = 132 + i * 12;
+    if (profile.toString("ascii", entry, entry + 4) !== "desc") continue;
+
+    const offset = profile.readUInt32BE(entry + 4);
+    const type = profile.toString("ascii", offset, offset + 4);
+
+    if (type === "desc") {
+      const length = profile.readUInt32BE(offset + 8);
+      return profile
+        .toString("latin1", offset + 12, offset + 12 + length)
+        .replace(/\0+$/, "");
+    }
+    if (type === "mluc") {
+      // The first record's UTF-16BE string
+      const length = profile.readUInt32BE(offset + 20);
+      const start = offset + profile.readUInt32BE(offset + 24);
+      const text = Buffer.from(profile.subarray(start, start + length));
+      return text.swap16().toString("utf16le").replace(/\0+$/, "");
+    }
+    return null;
+  }
+
+  return null;
+}
+
+const iccColorSpace = (profile: Buffer): ColorSpace | null =>
+  ({ "RGB ": "rgb", CMYK: "cmyk", GRAY: "grayscale" } as const)[
+    profile.toString("ascii", 16, 20)
+  ] || null;
+
+const TIFF_TAGS = {
+  width: 0x0100,
+  height: 0x0101,
+  photometric: 0x0106,
+  samplesPerPixel: 0x0115,
+  xResolution: 0x011a,
+  yResolution: 0x011b,
+  resolutionUnit: 0x0128,
+  iccProfile: 0x8773,
+};
+
+// The entries of a TIFF structure's first IFD, as found in TIFF files and a
+// JPEG's Exif segment
+function readTiffIfd(tiff: Buffer) {
+  const little = tiff.toString("ascii", 0, 2) === "II";
+  const read16 = (at: number) =>
+    little ? tiff.readUInt16LE(at) : tiff.readUInt16BE(at);
+  const read32 = (at: number) =>
+    little ? tiff.readUInt32LE(at) : tiff.readUInt32BE(at);
+
+  if (read16(2) !== 42) {
+    throw new Error("Unsupported TIFF variant");
+  }
+
+  // Tag to the offset of its entry
+  const entries = new Map<number, number>();
+  const ifd = read32(4);
+  for (let i = 0; i < read16(ifd); i++) {
+    const entry = ifd + 2 + i * 12;
+    entries.set(read16(entry), entry);
+  }
+
+  return {
+    // A SHORT or LONG value
+    number(tag: number): number | null {
+      const entry = entries.get(tag);
+      if (entry === undefined) return null;
+      return read16(entry + 2) === 3 ? read16(entry + 8) : read32(entry + 8);
+    },
+    rational(tag: number): number {
+      const entry = entries.get(tag);
+      if (entry === undefined) return 0;
+      const offset = read32(entry + 8);
+      const denominator = read32(offset + 4);
+      return denominator ? read32(offset) / denominator : 0;
+    },
+    // The raw bytes of a value stored outside its entry
+    bytes(tag: number): Buffer | null {
+      const entry = entries.get(tag);
+      if (entry === undefined) return null;
+      const offset = read32(entry + 8);
+      return tiff.subarray(offset, offset + read32(entry + 4));
+    },
+  };
+}
+
+// X/YResolution and ResolutionUnit of a TIFF structure
+function tiffDpi(ifd: ReturnType<typeof readTiffIfd>) {
+  // Unit 1 means no absolute unit, 3 centimetres
+  const unit = ifd.number(TIFF_TAGS.resolutionUnit) ?? 2;
+  if (unit === 1) return null;
+  return toDpi(
+    ifd.rational(TIFF_TAGS.xResolution),
+    ifd.rational(TIFF_TAGS.yResolution),
+    unit === 3
+  );
+}
+
+function readJpeg(bytes: Buffer) {
+  let width = 0;
+  let height = 0;
+  let components = 3;
+  let jfifDpi: ImageInfo["dpi"] = null;
+  let exifResolution: ImageInfo["dpi"] = null;
+  const iccChunks: Array<{ sequence: number; data: Buffer }> = [];
+
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    // Fill bytes and markers without a segment
+    if (marker === 0xff) {
+      offset += 1;
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += 2;
+      continue;
+    }
+    // Image data follows; everything we need comes before it
+    if (marker === 0xda || marker === 0xd9) break;
+
+    const length = bytes.readUInt16BE(offset + 2);
+    const segment = bytes.subarray(offset + 4, offset + 2 + length);
+
+    if (marker === 0xe0 && segment.toString("ascii", 0, 5) === "JFIF\0") {
+      const units = segment[7];
+      if (units === 1 || units === 2) {
+        jfifDpi = toDpi(
+          segment.readUInt16BE(8),
+          segment.readUInt16BE(10),
+          units === 2
+        );
+      }
+    } else if (
+      marker === 0xe1 &&
+      segment.toString("ascii", 0, 6) === "Exif\0\0"
+    ) {
+      try {
+        exifResolution = tiffDpi(readTiffIfd(segment.subarray(6)));
+      } catch {
+        // A damaged Exif block only loses the DPI it records
+      }
+    } else if (
+      marker === 0xe2 &&
+      segment.toString("ascii", 0, 12) === "ICC_PROFILE\0"
+    ) {
+      iccChunks.push({ sequence: segment[12], data: segment.subarray(14) });
+    } else if (
+      marker >= 0xc0 &&
+      marker <= 0xcf &&
+      marker !== 0xc4 &&
+      marker !== 0xc8 &&
+      marker !== 0xcc
+    ) {
+      // Start of frame
+      height = segment.readUInt16BE(1);
+      width = segment.readUInt16BE(3);
+      components = segment[5];
+    }
+
+    offset += 2 + length;
+  }
+
+  const profile = iccChunks.length
+    ? Buffer.concat(
+        iccChunks
+          .sort((a, b) => a.sequence - b.sequence)
+          .map((chunk) => chunk.data)
+      )
+    : null;
+
+  return {
+    width,
+    height,
+    // Exif is what editing software keeps up to date; JFIF often says 72
+    dpi: exifResolution || jfifDpi,
+    colorSpace: ((profile && iccColorSpace(profile)) ||
+      (components === 4
+        ? "cmyk"
+        : components === 1
+          ? "grayscale"
+          : "rgb")) as ColorSpace,
+    iccProfile: profile ? iccDescription(profile) : null,
+    declaresSrgb: false,
+  };
+}
+
+function readPng(bytes: Buffer) {
+  const width = bytes.readUInt32BE(16);
+  const height = bytes.readUInt32BE(20);
+  const colorType = bytes[25];
+  let dpi: ImageInfo["dpi"] = null;
+  let iccProfile: string | null = null;
+  let declaresSrgb = false;
+
+  let offset = 8;
+  while (offset + 8 <= bytes.length) {
+    const length = bytes.readUInt32BE(offset);
+    const type = bytes.toString("ascii", offset + 4, offset + 8);
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+
+    // Colour and density chunks come before the image data
+    if (type === "IDAT" || type === "IEND") break;
+
+    if (type === "pHYs" && data[8] === 1) {
+      // Pixels per metre
+      dpi = toDpi(
+        (data.readUInt32BE(0) * CM_PER_INCH) / 100,
+        (data.readUInt32BE(4) * CM_PER_INCH) / 100
+      );
+    } else if (type === "iCCP") {
+      // Profile name, compression method, then the zlib-compressed profile
+      const nameEnd = data.indexOf(0);
+      let profile: Buffer | null = null;
+      try {
+        profile = inflateSync(data.subarray(nameEnd + 2));
+      } catch {
+        // Fall back to the profile's name
+      }
+      iccProfile =
+        (profile && iccDescription(profile)) ||
+        data.toString("latin1", 0, nameEnd);
+    } else if (type === "sRGB") {
+      declaresSrgb = true;
+    }
+
+    offset += 12 + length;
+  }
+
+  return {
+    width,
+    height,
+    dpi,
+    // Types 0 and 4 are greyscale (with alpha); palettes are RGB
+    colorSpace: (colorType === 0 || colorType === 4
+      ? "grayscale"
+      : "rgb") as ColorSpace,
+    iccProfile,
+    declaresSrgb,
+  };
+}
+
+function readTiff(bytes: Buffer) {
+  const ifd = readTiffIfd(bytes);
+  const photometric = ifd.number(TIFF_TAGS.photometric);
+  const samples = ifd.number(TIFF_TAGS.samplesPerPixel) ?? 1;
+  const profile = ifd.bytes(TIFF_TAGS.iccProfile);
+
+  // Photometric 0 and 1 are greyscale, 5 is separated (CMYK) ink
+  let colorSpace: ColorSpace = "rgb";
+  if (photometric === 0 || photometric === 1) colorSpace = "grayscale";
+  else if (photometric === 5 && samples >= 4) colorSpace = "cmyk";
+
+  return {
+    width: ifd.number(TIFF_TAGS.width) ?? 0,
+    height: ifd.number(TIFF_TAGS.height) ?? 0,
+    dpi: tiffDpi(ifd),
+    colorSpace: (profile && iccColorSpace(profile)) || colorSpace,
+    iccProfile: profile ? iccDescription(profile) : null,
+    declaresSrgb: false,
+  };
+}
+
+const READERS = { jpeg: readJpeg, png: readPng, tiff: readTiff };
+
+/**
+ * Read an image's header. Throws when the file isn't a JPEG, PNG or TIFF, or
+ * its header is damaged.
+ */
+export function readImageInfo(bytes: Uint8Array): ImageInfo {
+  const format = detectImageFormat(bytes);
+  if (!format) {
+    throw new Error("Only JPEG, PNG and TIFF files are accepted");
+  }
+
+  const buffer = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.length);
+  let info: Omit<ImageInfo, "format" | "mimeType" | "extension">;
+  try {
+    info = READERS[format](buffer);
+  } catch {
+    throw new Error(`The file is not a readable ${format.toUpperCase()} image`);
+  }
+
+  if (!info.width || !info.height) {
+    throw new Error(`The file is not a readable ${format.toUpperCase()} image`);
+  }
+
+  return {
+    format,
+    mimeType: FORMATS[format].mimeType,
+    extension: FORMATS[format].extension,
+    ...info,
+  };
+}
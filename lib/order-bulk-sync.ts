@@ -0,0 +1,451 @@
+import type { createClient } from "@/utils/supabase/server";
+import { shopifyGraphQL } from "@/utils/shopify/gateway";
+import { throwUserErrors, UserError } from "@/lib/shopify-products";
+import {
+  fetchOrder,
+  getOrderSyncState,
+  LINE_ITEM_FIELDS,
+  ORDER_SUMMARY_FIELDS,
+  saveOrders,
+  saveOrderSyncState,
+  ShopifySyncOrder,
+} from "@/lib/order-sync";
+import { getShop, Shop, shopCredentials } from "@/lib/shops";
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+/**
+ * Imports large ranges of orders with a Shopify bulk operation instead of
+ * paging through them, for backfilling a store and for year-end statements.
+ *
+ * Starting an import runs `bulkOperationRunQuery` over every order created
+ * in the range. Shopify builds the result in the background; each call to
+ * syncBulkOrderImports polls the operations that are still open, and once
+ * one has completed streams its JSONL result into the orders tables in
+ * batches. The result lists each order followed by its line items (with
+ * `__parentId` set to the order). Refund lines can't be exported this way,
+ * so refunded orders are fetched again one by one.
+ *
+ * Imports upsert like the regular sync, so an import that was interrupted
+ * is simply run again from the start. Each import belongs to one shop.
+ */
+
+export type BulkOrderImportStatus =
+  | "CREATED"
+  | "RUNNING"
+  | "COMPLETED"
+  | "CANCELING"
+  | "CANCELED"
+  | "FAILED"
+  | "EXPIRED";
+
+export interface BulkOrderImport {
+  id: string;
+  shop: string;
+  created_from: string | null;
+  created_to: string | null;
+  status: BulkOrderImportStatus;
+  error_code: string | null;
+  object_count: number;
+  orders_imported: number;
+  line_items_imported: number;
+  started_by: string | null;
+  created_at: string;
+  completed_at: string | null;
+  imported_at: string | null;
+  error: string | null;
+}
+
+// Orders saved per batch while reading the result
+const IMPORT_BATCH_SIZE = 50;
+
+const OPEN_STATUSES: BulkOrderImportStatus[] = [
+  "CREATED",
+  "RUNNING",
+  "CANCELING",
+];
+
+const BULK_QUERY_MUTATION = `
+  mutation bulkOperationRunQuery($query: String!) {
+    bulkOperationRunQuery(query: $query) {
+      bulkOperation {
+        id
+        status
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+const BULK_OPERATION_QUERY = `
+  query bulkOperation($id: ID!) {
+    node(id: $id) {
+      ... on BulkOperation {
+        id
+        status
+        errorCode
+        objectCount
+        url
+        completedAt
+      }
+    }
+  }
+`;
+
+type BulkQueryResponse = {
+  bulkOperationRunQuery: {
+    bulkOperation: { id: string; status: BulkOrderImportStatus } | null;
+    userErrors: UserError[];
+  };
+};
+
+type BulkOperationResponse = {
+  node: {
+    id: string;
+    status: BulkOrderImportStatus;
+    errorCode: string | null;
+    objectCount: string;
+    url: string | null;
+    completedAt: string | null;
+  } | null;
+};
+
+type BulkOrder = Omit<ShopifySyncOrder, "lineItems" | "refunds"> & {
+  refunds: Array<{ id: string }>;
+};
+
+type LineItem = ShopifySyncOrder["lineItems"]["edges"][number]["node"];
+
+type BulkLineItem = LineItem & { __parentId: string };
+
+// The bulk query for every order created in [from, to)
+function bulkOrdersQuery(from: string | null, to: string | null) {
+  const search = [
+    "status:any",
+    from && `created_at:>='${from}'`,
+    to && `created_at:<'${to}'`,
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+  return `
+    {
+      orders(query: ${JSON.stringify(search)}) {
+        edges {
+          node {
+            ${ORDER_SUMMARY_FIELDS}
+            refunds {
+              id
+            }
+            lineItems {
+              edges {
+                node {
+                  ${LINE_ITEM_FIELDS}
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  `;
+}
+
+/**
+ * Start a bulk import of the shop's orders created from `from` up to (not
+ * including) `to`. Leave both out to import every order in the shop.
+ */
+export async function startBulkOrderImport(
+  supabase: SupabaseServerClient,
+  shop: Shop,
+  {
+    from = null,
+    to = null,
+    startedBy = null,
+  }: { from?: string | null; to?: string | null; startedBy?: string | null }
+): Promise<BulkOrderImport> {
+  if (from && to && from >= to) {
+    throw new Error("The start of the range must be before its end");
+  }
+
+  const { bulkOperationRunQuery: result } =
+    await shopifyGraphQL<BulkQueryResponse>(
+      BULK_QUERY_MUTATION,
+      { query: bulkOrdersQuery(from, to) },
+      { priority: "background", shop: shopCredentials(shop) }
+    );
+  throwUserErrors("start bulk order import", result.userErrors);
+
+  if (!result.bulkOperation) {
+    throw new Error("Shopify did not start the bulk operation");
+  }
+
+  const { data, error } = await supabase
+    .from("order_bulk_imports")
+    .insert({
+      id: result.bulkOperation.id,
+      shop: shop.domain,
+      created_from: from,
+      created_to: to,
+      status: result.bulkOperation.status,
+      started_by: startedBy,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save bulk order import: ${error.message}`);
+  }
+
+  return data as BulkOrderImport;
+}
+
+export async function listBulkOrderImports(
+  supabase: SupabaseServerClient,
+  limit = 20
+): Promise<BulkOrderImport[]> {
+  const { data, error } = await supabase
+    .from("order_bulk_imports")
+    .select("*")
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to fetch bulk order imports: ${error.message}`);
+  }
+
+  return (data || []) as BulkOrderImport[];
+}
+
+async function updateBulkOrderImport(
+  supabase: SupabaseServerClient,
+  id: string,
+  changes: Partial<BulkOrderImport>
+) {
+  const { error } = await supabase
+    .from("order_bulk_imports")
+    .update(changes)
+    .eq("id", id);
+
+  if (error) {
+    throw new Error(`Failed to update bulk order import: ${error.message}`);
+  }
+}
+
+// Parse a JSONL download line by line without holding it all in memory
+async function* readJsonLines(url: string) {
+  const response = await fetch(url);
+  if (!response.ok || !response.body) {
+    throw new Error(
+      `Failed to download bulk operation result: ${response.status}`
+    );
+  }
+
+  const reader = response.body
+    .pipeThrough(new TextDecoderStream())
+    .getReader();
+  let buffer = "";
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (value) buffer += value;
+
+    let newline = buffer.indexOf("\n");
+    while (newline >= 0) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (line) yield JSON.parse(line);
+      newline = buffer.indexOf("\n");
+    }
+
+    if (done) break;
+  }
+
+  if (buffer.trim()) yield JSON.parse(buffer);
+}
+
+// Save a batch of orders read from the result. Refunded orders are fetched
+// again since the export doesn't include their refund lines.
+async function saveBulkOrders(
+  supabase: SupabaseServerClient,
+  shop: Shop,
+  orders: ShopifySyncOrder[],
+  refunded: Set<string>
+) {
+  const complete: ShopifySyncOrder[] = [];
+  for (const order of orders) {
+    if (!refunded.has(order.id)) {
+      complete.push(order);
+      continue;
+    }
+
+    const fetched = await fetchOrder(shop, order.id);
+    if (fetched) complete.push(fetched);
+  }
+
+  return saveOrders(supabase, shop.domain, complete);
+}
+
+async function importBulkResult(
+  supabase: SupabaseServerClient,
+  shop: Shop,
+  url: string
+) {
+  // The orders read since the last save, by id
+  let batch = new Map<string, ShopifySyncOrder>();
+  const refunded = new Set<string>();
+  const incomplete = new Set<string>();
+  let orders = 0;
+  let lineItems = 0;
+
+  const flush = async () => {
+    const saved = Array.from(batch.values());
+    lineItems += await saveBulkOrders(supabase, shop, saved, refunded);
+    orders += saved.length;
+    saved.forEach((order) => refunded.delete(order.id));
+    batch = new Map();
+  };
+
+  for await (const record of readJsonLines(url)) {
+    if (record.__parentId) {
+      // Line items come after their order, though not always straight
+      // after it. An order that was already saved without some of its lines
+      // is fetched again once the whole file is read.
+      const { __parentId, ...item } = record as BulkLineItem;
+      const order = batch.get(__parentId);
+      if (order) {
+        order.lineItems.edges.push({ node: item });
+      } else {
+        incomplete.add(__parentId);
+      }
+      continue;
+    }
+
+    // A new order: save the batch once it is full
+    if (batch.size >= IMPORT_BATCH_SIZE) {
+      await flush();
+    }
+
+    const { refunds, ...order } = record as BulkOrder;
+    if (refunds.length > 0) refunded.add(order.id);
+    batch.set(order.id, { ...order, refunds: [], lineItems: { edges: [] } });
+  }
+
+  await flush();
+
+  for (const orderId of Array.from(incomplete)) {
+    const order = await fetchOrder(shop, orderId);
+    if (order) lineItems += await saveOrders(supabase, shop.domain, [order]);
+  }
+
+  return { orders, lineItems };
+}
+
+// A completed import of the whole shop counts as the order backfill
+async function completeBackfill(
+  supabase: SupabaseServerClient,
+  bulkImport: BulkOrderImport,
+  orders: number
+) {
+  const state = await getOrderSyncState(supabase, bulkImport.shop);
+
+  state.backfill_cursor = null;
+  state.backfill_completed_at = new Date().toISOString();
+  // Orders changed while the export ran are picked up by the incremental
+  // sync from the time it started
+  if (!state.updated_since || state.updated_since > bulkImport.created_at) {
+    state.updated_since = bulkImport.created_at;
+  }
+  state.orders_synced += orders;
+  state.last_run_at = new Date().toISOString();
+  state.last_error = null;
+
+  await saveOrderSyncState(supabase, state);
+}
+
+/**
+ * Check an open bulk import with Shopify and, once its result is ready,
+ * import it into the orders tables.
+ */
+export async function syncBulkOrderImport(
+  supabase: SupabaseServerClient,
+  bulkImport: BulkOrderImport
+): Promise<BulkOrderImport> {
+  const shop = await getShop(supabase, bulkImport.shop);
+  const { node: operation } = await shopifyGraphQL<BulkOperationResponse>(
+    BULK_OPERATION_QUERY,
+    { id: bulkImport.id },
+    { priority: "background", shop: shopCredentials(shop) }
+  );
+
+  if (!operation) {
+    const changes = {
+      status: "EXPIRED" as const,
+      error: "Shopify no longer has this bulk operation",
+    };
+    await updateBulkOrderImport(supabase, bulkImport.id, changes);
+    return { ...bulkImport, ...changes };
+  }
+
+  const changes: Partial<BulkOrderImport> = {
+    status: operation.status,
+    error_code: operation.errorCode,
+    object_count: parseInt(operation.objectCount, 10) || 0,
+    completed_at: operation.completedAt,
+  };
+
+  if (operation.status === "COMPLETED") {
+    try {
+      // No url means the query matched no orders
+      const imported = operation.url
+        ? await importBulkResult(supabase, shop, operation.url)
+        : { orders: 0, lineItems: 0 };
+
+      if (!bulkImport.created_from && !bulkImport.created_to) {
+        await completeBackfill(supabase, bulkImport, imported.orders);
+      }
+
+      changes.orders_imported = imported.orders;
+      changes.line_items_imported = imported.lineItems;
+      changes.imported_at = new Date().toISOString();
+      changes.error = null;
+    } catch (error) {
+      changes.error = error instanceof Error ? error.message : String(error);
+    }
+  } else if (!OPEN_STATUSES.includes(operation.status)) {
+    changes.error = `Bulk operation ${operation.status.toLowerCase()}${
+      operation.errorCode ? ` (${operation.errorCode})` : ""
+    }`;
+  }
+
+  await updateBulkOrderImport(supabase, bulkImport.id, changes);
+  return { ...bulkImport, ...changes };
+}
+
+/**
+ * Advance every bulk import that hasn't been imported yet: still running,
+ * or completed but not (successfully) imported.
+ */
+export async function syncBulkOrderImports(
+  supabase: SupabaseServerClient
+): Promise<BulkOrderImport[]> {
+  const { data, error } = await supabase
+    .from("order_bulk_imports")
+    .select("*")
+    .is("imported_at", null)
+    .in("status", [...OPEN_STATUSES, "COMPLETED"])
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch bulk order imports: ${error.message}`);
+  }
+
+  const results: BulkOrderImport[] = [];
+  for (const bulkImport of (data || []) as BulkOrderImport[]) {
+    results.push(await syncBulkOrderImport(supabase, bulkImport));
+  }
+  return results;
+}
@@ -0,0 +1,729 @@
+import type { createClient } from "@/utils/supabase/server";
+import { shopifyGraphQL } from "@/utils/shopify/gateway";
+import { Shop, shopCredentials } from "@/lib/shops";
+import type { DiscountType, LineDiscount } from "@/lib/discounts";
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+/**
+ * Copies Shopify orders into the orders / order_line_items tables. Each
+ * shop is synced separately, with its own progress, and its orders are
+ * stored with the shop's domain.
+ *
+ * The backfill walks every order oldest first and stores its cursor after
+ * each page, so it can be spread over several cron invocations. The
+ * incremental sync fetches orders updated since the last watermark, which
+ * picks up new orders as well as refunds, cancellations and edits to
+ * existing ones. Both upsert, so pages can safely be synced twice.
+ *
+ * Without the read_all_orders scope Shopify only returns the last 60 days
+ * of orders, so the backfill stops there.
+ *
+ * Large stores and date ranges are better imported with a bulk operation
+ * (lib/order-bulk-sync.ts), which shares the fields and saving code below.
+ */
+
+export type OrderSyncMode = "backfill" | "incremental";
+
+export interface OrderSyncState {
+  shop: string;
+  backfill_cursor: string | null;
+  backfill_completed_at: string | null;
+  updated_since: string | null;
+  orders_synced: number;
+  last_run_at: string | null;
+  last_error: string | null;
+}
+
+export interface OrderSyncResult {
+  mode: OrderSyncMode;
+  pages: number;
+  orders: number;
+  lineItems: number;
+  // False when the page limit was hit and another run should continue
+  done: boolean;
+  state: OrderSyncState;
+}
+
+// Each order costs roughly one point per line item and refund line, and a
+// single query may cost at most 1000, so pages are kept small. Orders with
+// more line items or refund lines than fit on the page have the rest
+// fetched separately (see fetchRemainingLines).
+const ORDERS_PER_PAGE = 10;
+const LINE_ITEMS_PER_ORDER = 40;
+const LINE_ITEMS_PER_PAGE = 100;
+
+export const DEFAULT_SYNC_PAGES = 25;
+
+// Fields synced for each order, apart from its line items and refunds
+export const ORDER_SUMMARY_FIELDS = `
+    id
+    name
+    createdAt
+    updatedAt
+    cancelledAt
+    displayFinancialStatus
+    displayFulfillmentStatus
+    totalPriceSet {
+      shopMoney {
+        amount
+        currencyCode
+      }
+    }
+    totalShippingPriceSet {
+      shopMoney {
+        amount
+      }
+    }
+    totalRefundedSet {
+      shopMoney {
+        amount
+      }
+    }
+    customer {
+      displayName
+      email
+    }
+    disputes {
+      id
+      initiatedAs
+      status
+    }
+`;
+
+export const LINE_ITEM_FIELDS = `
+    id
+    title
+    sku
+    quantity
+    product {
+      id
+    }
+    variant {
+      id
+      title
+      selectedOptions {
+        name
+        value
+      }
+    }
+    originalUnitPriceSet {
+      shopMoney {
+        amount
+      }
+    }
+    originalTotalSet {
+      shopMoney {
+        amount
+        currencyCode
+      }
+    }
+    discountedTotalSet {
+      shopMoney {
+        amount
+        currencyCode
+      }
+    }
+    discountAllocations {
+      allocatedAmountSet {
+        shopMoney {
+          amount
+        }
+      }
+      discountApplication {
+        __typename
+        ... on DiscountCodeApplication {
+          code
+        }
+        ... on AutomaticDiscountApplication {
+          title
+        }
+        ... on ManualDiscountApplication {
+          title
+        }
+        ... on ScriptDiscountApplication {
+          title
+        }
+      }
+    }
+`;
+
+const REFUND_LINE_ITEM_FIELDS = `
+    lineItem {
+      id
+    }
+    quantity
+    subtotalSet {
+      shopMoney {
+        amount
+        currencyCode
+      }
+    }
+`;
+
+const ORDER_FIELDS = `
+    ${ORDER_SUMMARY_FIELDS}
+    lineItems(first: ${LINE_ITEMS_PER_ORDER}) {
+      edges {
+        node {
+          ${LINE_ITEM_FIELDS}
+        }
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+    }
+    refunds {
+      id
+      createdAt
+      note
+      refundLineItems(first: ${LINE_ITEMS_PER_ORDER}) {
+        edges {
+          node {
+            ${REFUND_LINE_ITEM_FIELDS}
+          }
+        }
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+      }
+    }
+`;
+
+const ORDER_LINE_ITEMS_QUERY = `
+  query syncOrderLineItems($id: ID!, $cursor: String) {
+    order(id: $id) {
+      lineItems(first: ${LINE_ITEMS_PER_PAGE}, after: $cursor) {
+        edges {
+          node {
+            ${LINE_ITEM_FIELDS}
+          }
+        }
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+      }
+    }
+  }
+`;
+
+const REFUND_LINE_ITEMS_QUERY = `
+  query syncRefundLineItems($id: ID!, $cursor: String) {
+    node(id: $id) {
+      ... on Refund {
+        refundLineItems(first: ${LINE_ITEMS_PER_PAGE}, after: $cursor) {
+          edges {
+            node {
+              ${REFUND_LINE_ITEM_FIELDS}
+            }
+          }
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+        }
+      }
+    }
+  }
+`;
+
+const ORDERS_QUERY = `
+  query syncOrders($cursor: String, $query: String!, $sortKey: OrderSortKeys!) {
+    orders(first: ${ORDERS_PER_PAGE}, after: $cursor, query: $query, sortKey: $sortKey) {
+      edges {
+        node {
+          ${ORDER_FIELDS}
+        }
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+    }
+  }
+`;
+
+const ORDER_QUERY = `
+  query syncOrder($id: ID!) {
+    order(id: $id) {
+      ${ORDER_FIELDS}
+    }
+  }
+`;
+
+type Money = { shopMoney: { amount: string; currencyCode?: string } };
+
+type PageInfo = { hasNextPage: boolean; endCursor: string | null };
+
+type ShopifyLineItem = {
+  id: string;
+  title: string;
+  sku: string | null;
+  quantity: number;
+  product: { id: string } | null;
+  variant: {
+    id: string;
+    title: string;
+    selectedOptions: Array<{ name: string; value: string }>;
+  } | null;
+  originalUnitPriceSet: Money | null;
+  originalTotalSet: Money | null;
+  discountedTotalSet: Money | null;
+  discountAllocations?: ShopifyDiscountAllocation[];
+};
+
+type ShopifyRefundLineItem = {
+  lineItem: { id: string };
+  quantity: number;
+  subtotalSet: Money;
+};
+
+type ShopifyDiscountAllocation = {
+  allocatedAmountSet: Money;
+  discountApplication: {
+    __typename: string;
+    code?: string;
+    title?: string;
+  };
+};
+
+export type ShopifySyncOrder = {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  cancelledAt: string | null;
+  displayFinancialStatus: string | null;
+  displayFulfillmentStatus: string | null;
+  totalPriceSet: Money;
+  totalShippingPriceSet: Money | null;
+  totalRefundedSet: Money | null;
+  customer: { displayName: string | null; email: string | null } | null;
+  // pageInfo is absent on orders read from a bulk operation, which come
+  // with all their lines
+  lineItems: {
+    edges: Array<{ node: ShopifyLineItem }>;
+    pageInfo?: PageInfo;
+  };
+  refunds: Array<{
+    id: string;
+    createdAt: string;
+    note: string | null;
+    refundLineItems: {
+      edges: Array<{ node: ShopifyRefundLineItem }>;
+      pageInfo?: PageInfo;
+    };
+  }>;
+  disputes: Array<{ id: string; initiatedAs: string; status: string }>;
+};
+
+type OrdersPage = {
+  orders: {
+    edges: Array<{ node: ShopifySyncOrder }>;
+    pageInfo: PageInfo;
+  };
+};
+
+type Connection<T> = { edges: Array<{ node: T }>; pageInfo: PageInfo };
+
+/**
+ * Add the line items and refund lines that didn't fit on an order's page
+ * (see LINE_ITEMS_PER_ORDER), so no order is stored with lines missing.
+ */
+async function fetchRemainingLines(shop: Shop, order: ShopifySyncOrder) {
+  const options = {
+    priority: "background" as const,
+    shop: shopCredentials(shop),
+  };
+
+  let lineItems = order.lineItems.pageInfo;
+  while (lineItems?.hasNextPage) {
+    const { order: page } = await shopifyGraphQL<{
+      order: { lineItems: Connection<ShopifyLineItem> } | null;
+    }>(
+      ORDER_LINE_ITEMS_QUERY,
+      { id: order.id, cursor: lineItems.endCursor },
+      options
+    );
+    if (!page) {
+      throw new Error(`Order ${order.name} disappeared while syncing it`);
+    }
+    order.lineItems.edges.push(...page.lineItems.edges);
+    lineItems = page.lineItems.pageInfo;
+  }
+
+  for (const refund of order.refunds) {
+    let refundLines = refund.refundLineItems.pageInfo;
+    while (refundLines?.hasNextPage) {
+      const { node: page } = await shopifyGraphQL<{
+        node: { refundLineItems: Connection<ShopifyRefundLineItem> } | null;
+      }>(
+        REFUND_LINE_ITEMS_QUERY,
+        { id: refund.id, cursor: refundLines.endCursor },
+        options
+      );
+      if (!page) {
+        throw new Error(
+          `Refund ${refund.id} of ${order.name} disappeared while syncing it`
+        );
+      }
+      refund.refundLineItems.edges.push(...page.refundLineItems.edges);
+      refundLines = page.refundLineItems.pageInfo;
+    }
+  }
+
+  return order;
+}
+
+/**
+ * A refund as stored on orders.refunds. Amounts are in the order currency.
+ */
+export interface StoredRefund {
+  id: string;
+  createdAt: string;
+  note: string | null;
+  lines: Array<{
+    lineItemId: string;
+    quantity: number;
+    amount: number;
+    currency: string;
+  }>;
+}
+
+export interface StoredDispute {
+  id: string;
+  initiatedAs: string;
+  status: string;
+}
+
+const amountOf = (money: Money | null | undefined) =>
+  parseFloat(money?.shopMoney.amount || "0") || 0;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const numericId = (gid: string) => gid.split("/").pop() || gid;
+
+const DISCOUNT_TYPES: Record<string, DiscountType> = {
+  DiscountCodeApplication: "code",
+  AutomaticDiscountApplication: "automatic",
+  ManualDiscountApplication: "manual",
+  ScriptDiscountApplication: "script",
+};
+
+// The discounts allocated to a line, named by their code or title
+function toLineDiscounts(
+  allocations: ShopifyDiscountAllocation[] = []
+): LineDiscount[] {
+  return allocations
+    .map(({ allocatedAmountSet, discountApplication }) => ({
+      type: DISCOUNT_TYPES[discountApplication.__typename] || "manual",
+      name:
+        discountApplication.code || discountApplication.title || "Discount",
+      amount: round(amountOf(allocatedAmountSet)),
+    }))
+    .filter((discount) => discount.amount > 0);
+}
+
+// Map a Shopify order onto an orders row and its order_line_items rows
+function toRows(shop: string, order: ShopifySyncOrder) {
+  const currency = order.totalPriceSet.shopMoney.currencyCode || "EUR";
+
+  const refunds: StoredRefund[] = order.refunds.map((refund) => ({
+    id: refund.id,
+    createdAt: refund.createdAt,
+    note: refund.note,
+    lines: refund.refundLineItems.edges.map(({ node }) => ({
+      lineItemId: node.lineItem.id,
+      quantity: node.quantity,
+      amount: amountOf(node.subtotalSet),
+      currency: node.subtotalSet.shopMoney.currencyCode || currency,
+    })),
+  }));
+
+  const refundedByLine = new Map<
+    string,
+    { quantity: number; amount: number }
+  >();
+  refunds.forEach((refund) =>
+    refund.lines.forEach((line) => {
+      const refunded = refundedByLine.get(line.lineItemId) || {
+        quantity: 0,
+        amount: 0,
+      };
+      refunded.quantity += line.quantity;
+      refunded.amount += line.amount;
+      refundedByLine.set(line.lineItemId, refunded);
+    })
+  );
+
+  const orderRow = {
+    id: order.id,
+    shop,
+    name: order.name,
+    ordered_at: order.createdAt,
+    shopify_updated_at: order.updatedAt,
+    cancelled_at: order.cancelledAt,
+    financial_status: order.displayFinancialStatus,
+    fulfillment_status: order.displayFulfillmentStatus,
+    currency,
+    total_amount: round(amountOf(order.totalPriceSet)),
+    shipping_amount: round(amountOf(order.totalShippingPriceSet)),
+    refunded_amount: round(amountOf(order.totalRefundedSet)),
+    customer_name: order.customer?.displayName || null,
+    customer_email: order.customer?.email || null,
+    refunds,
+    disputes: order.disputes as StoredDispute[],
+    synced_at: new Date().toISOString(),
+  };
+
+  const lineRows = order.lineItems.edges.map(({ node: item }) => {
+    // Discounted total is what the customer paid for the line; older orders
+    // can lack it, in which case the undiscounted total is used
+    const gross = item.originalTotalSet
+      ? amountOf(item.originalTotalSet)
+      : amountOf(item.originalUnitPriceSet) * item.quantity;
+    const net = item.discountedTotalSet
+      ? amountOf(item.discountedTotalSet)
+      : gross;
+    const refunded = refundedByLine.get(item.id);
+
+    return {
+      id: item.id,
+      order_id: order.id,
+      shopify_product_id: item.product ? numericId(item.product.id) : null,
+      variant_id: item.variant?.id || null,
+      variant_title: item.variant?.title || null,
+      variant_options: item.variant?.selectedOptions || [],
+      title: item.title,
+      sku: item.sku,
+      quantity: item.quantity,
+      unit_price: round(amountOf(item.originalUnitPriceSet)),
+      gross_amount: round(gross),
+      discount_amount: round(Math.max(gross - net, 0)),
+      discounts: toLineDiscounts(item.discountAllocations),
+      net_amount: round(net),
+      refunded_quantity: refunded?.quantity || 0,
+      refunded_amount: round(refunded?.amount || 0),
+      currency:
+        item.discountedTotalSet?.shopMoney.currencyCode ||
+        item.originalTotalSet?.shopMoney.currencyCode ||
+        currency,
+      ordered_at: order.createdAt,
+    };
+  });
+
+  return { orderRow, lineRows };
+}
+
+// Upsert a page of orders and drop line items that were edited off them
+export async function saveOrders(
+  supabase: SupabaseServerClient,
+  shop: string,
+  orders: ShopifySyncOrder[]
+) {
+  const rows = orders.map((order) => toRows(shop, order));
+  if (rows.length === 0) return 0;
+
+  const { error: ordersError } = await supabase.from("orders").upsert(
+    rows.map((row) => row.orderRow),
+    { onConflict: "id" }
+  );
+
+  if (ordersError) {
+    throw new Error(`Failed to save orders: ${ordersError.message}`);
+  }
+
+  const lineRows = rows.flatMap((row) => row.lineRows);
+  if (lineRows.length > 0) {
+    const { error: linesError } = await supabase
+      .from("order_line_items")
+      .upsert(lineRows, { onConflict: "id" });
+
+    if (linesError) {
+      throw new Error(
+        `Failed to save order line items: ${linesError.message}`
+      );
+    }
+  }
+
+  for (const row of rows) {
+    const lineIds = row.lineRows.map((line) => `"${line.id}"`).join(",");
+    let staleLines = supabase
+      .from("order_line_items")
+      .delete()
+      .eq("order_id", row.orderRow.id);
+    if (lineIds) {
+      staleLines = staleLines.not("id", "in", `(${lineIds})`);
+    }
+
+    const { error } = await staleLines;
+    if (error) {
+      throw new Error(
+        `Failed to remove stale line items of ${row.orderRow.name}: ${error.message}`
+      );
+    }
+  }
+
+  return lineRows.length;
+}
+
+export async function getOrderSyncState(
+  supabase: SupabaseServerClient,
+  shop: string
+): Promise<OrderSyncState> {
+  const { data, error } = await supabase
+    .from("order_sync_state")
+    .select("*")
+    .eq("shop", shop)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch order sync state: ${error.message}`);
+  }
+
+  return (
+    (data as OrderSyncState | null) || {
+      shop,
+      backfill_cursor: null,
+      backfill_completed_at: null,
+      updated_since: null,
+      orders_synced: 0,
+      last_run_at: null,
+      last_error: null,
+    }
+  );
+}
+
+export async function saveOrderSyncState(
+  supabase: SupabaseServerClient,
+  state: OrderSyncState
+) {
+  const { error } = await supabase
+    .from("order_sync_state")
+    .upsert(state, { onConflict: "shop" });
+
+  if (error) {
+    throw new Error(`Failed to save order sync state: ${error.message}`);
+  }
+}
+
+/**
+ * Sync up to maxPages pages of a shop's orders. The backfill continues from
+ * its stored cursor; the incremental sync from the latest updated_at it has
+ * seen. When the backfill starts, the incremental watermark is set to the
+ * start time so orders changed while it runs are picked up afterwards.
+ */
+export async function syncOrders(
+  supabase: SupabaseServerClient,
+  shop: Shop,
+  mode: OrderSyncMode,
+  { maxPages = DEFAULT_SYNC_PAGES }: { maxPages?: number } = {}
+): Promise<OrderSyncResult> {
+  const state = await getOrderSyncState(supabase, shop.domain);
+  const result: OrderSyncResult = {
+    mode,
+    pages: 0,
+    orders: 0,
+    lineItems: 0,
+    done: false,
+    state,
+  };
+
+  if (mode === "backfill" && !state.backfill_cursor) {
+    state.backfill_completed_at = null;
+    state.updated_since = state.updated_since || new Date().toISOString();
+  }
+
+  let cursor = mode === "backfill" ? state.backfill_cursor : null;
+  const query =
+    mode === "backfill"
+      ? "status:any"
+      : `status:any${
+          state.updated_since ? ` updated_at:>='${state.updated_since}'` : ""
+        }`;
+
+  try {
+    while (result.pages < maxPages) {
+      const { orders: page } = await shopifyGraphQL<OrdersPage>(
+        ORDERS_QUERY,
+        {
+          cursor,
+          query,
+          sortKey: mode === "backfill" ? "CREATED_AT" : "UPDATED_AT",
+        },
+        { priority: "background", shop: shopCredentials(shop) }
+      );
+      const orders: ShopifySyncOrder[] = [];
+      for (const { node } of page.edges) {
+        orders.push(await fetchRemainingLines(shop, node));
+      }
+
+      result.lineItems += await saveOrders(supabase, shop.domain, orders);
+      result.orders += orders.length;
+      result.pages++;
+      cursor = page.pageInfo.endCursor || cursor;
+
+      // Persist progress after every page so an interrupted run resumes here
+      state.orders_synced += orders.length;
+      if (mode === "backfill") {
+        state.backfill_cursor = page.pageInfo.hasNextPage ? cursor : null;
+        if (!page.pageInfo.hasNextPage) {
+          state.backfill_completed_at = new Date().toISOString();
+        }
+      } else if (orders.length > 0) {
+        state.updated_since = orders[orders.length - 1].updatedAt;
+      }
+      state.last_run_at = new Date().toISOString();
+      state.last_error = null;
+      await saveOrderSyncState(supabase, state);
+
+      if (!page.pageInfo.hasNextPage) {
+        result.done = true;
+        break;
+      }
+    }
+  } catch (error) {
+    state.last_run_at = new Date().toISOString();
+    state.last_error = error instanceof Error ? error.message : String(error);
+    await saveOrderSyncState(supabase, state).catch(() => undefined);
+    throw error;
+  }
+
+  return result;
+}
+
+// Fetch one order with the fields the sync stores, or null if it's gone
+export async function fetchOrder(shop: Shop, orderId: string) {
+  const { order } = await shopifyGraphQL<{ order: ShopifySyncOrder | null }>(
+    ORDER_QUERY,
+    { id: orderId },
+    { priority: "background", shop: shopCredentials(shop) }
+  );
+  return order && fetchRemainingLines(shop, order);
+}
+
+/**
+ * Sync a single order (e.g. from a webhook). Returns the Shopify product IDs
+ * on the order, or null when Shopify no longer has it.
+ */
+export async function syncOrder(
+  supabase: SupabaseServerClient,
+  shop: Shop,
+  orderId: string
+): Promise<string[] | null> {
+  const order = await fetchOrder(shop, orderId);
+  if (!order) return null;
+
+  await saveOrders(supabase, shop.domain, [order]);
+
+  return Array.from(
+    new Set(
+      order.lineItems.edges
+        .map(({ node }) => node.product && numericId(node.product.id))
+        .filter((id): id is string => !!id)
+    )
+  );
+}
@@ -0,0 +1,354 @@
+import type { createClient } from "@/utils/supabase/server";
+import {
+  ExchangeRateTable,
+  getExchangeRates,
+  isSupportedCurrency,
+} from "@/lib/currency";
+import type { LineDiscount } from "@/lib/discounts";
+import { getPrimaryShop } from "@/lib/shops";
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+/**
+ * An order line from the local order warehouse (order_line_items joined with
+ * its order), see lib/order-sync.ts. Amounts are in the order currency.
+ */
+export interface OrderLine {
+  id: string;
+  order_id: string;
+  shopify_product_id: string | null;
+  variant_id: string | null;
+  variant_title: string | null;
+  variant_options: Array<{ name: string; value: string }>;
+  title: string;
+  sku: string | null;
+  quantity: number;
+  unit_price: number;
+  gross_amount: number;
+  discount_amount: number;
+  // Discounts behind discount_amount, see lib/discounts.ts
+  discounts: LineDiscount[];
+  net_amount: number;
+  refunded_quantity: number;
+  refunded_amount: number;
+  currency: string;
+  ordered_at: string;
+  order: {
+    name: string;
+    shop: string | null;
+    financial_status: string | null;
+    fulfillment_status: string | null;
+    cancelled_at: string | null;
+    total_amount: number;
+    shipping_amount: number;
+    customer_name: string | null;
+    customer_email: string | null;
+  };
+}
+
+// Supabase returns at most 1000 rows per request
+const PAGE_SIZE = 1000;
+
+const ORDER_LINE_COLUMNS =
+  "id, order_id, shopify_product_id, variant_id, variant_title, variant_options, title, sku, quantity, unit_price, gross_amount, discount_amount, discounts, net_amount, refunded_quantity, refunded_amount, currency, ordered_at, order:orders!inner (name, shop, financial_status, fulfillment_status, cancelled_at, total_amount, shipping_amount, customer_name, customer_email)";
+
+// Orders that count as sales: paid in full or in part, including partially
+// refunded ones (see unrefundedLine for what's left of their lines)
+export function isPaidOrderStatus(status: string | null) {
+  const normalized = (status || "").toUpperCase();
+  return (
+    normalized.includes("PAID") ||
+    normalized.includes("COMPLETE") ||
+    normalized === "PARTIALLY_REFUNDED"
+  );
+}
+
+/**
+ * What is left of a paid order line once its refunds are taken off, which is
+ * what creators earn on. Refunds made after a line was paid out are clawed
+ * back separately (see lib/payout-adjustments.ts). Returns null when the
+ * whole line was refunded.
+ */
+export function unrefundedLine(line: OrderLine): OrderLine | null {
+  const quantity = Math.max(line.quantity - line.refunded_quantity, 0);
+  if (quantity === 0) return null;
+  if (line.refunded_quantity === 0 && line.refunded_amount === 0) return line;
+
+  const kept = line.quantity > 0 ? quantity / line.quantity : 0;
+  return {
+    ...line,
+    quantity,
+    gross_amount: line.gross_amount * kept,
+    discount_amount: line.discount_amount * kept,
+    discounts: line.discounts.map((discount) => ({
+      ...discount,
+      amount: discount.amount * kept,
+    })),
+    net_amount: Math.max(line.net_amount - line.refunded_amount, 0),
+    refunded_quantity: 0,
+    refunded_amount: 0,
+  };
+}
+
+// Turn a date-only end date into an exclusive upper bound for its whole day
+export function endOfRange(endDate: string) {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(endDate)) return endDate;
+
+  const next = new Date(`${endDate}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString();
+}
+
+export type OrderLineFilter = {
+  startDate?: string;
+  endDate?: string;
+  // Only orders placed in this shop (domain)
+  shop?: string | null;
+};
+
+type OrderLineQuery = ReturnType<
+  ReturnType<SupabaseServerClient["from"]>["select"]
+>;
+
+// Page through the order lines a query narrows down to, oldest first
+async function fetchLines(
+  supabase: SupabaseServerClient,
+  { startDate, endDate, shop }: OrderLineFilter,
+  narrow: (query: OrderLineQuery) => OrderLineQuery
+): Promise<OrderLine[]> {
+  const lines: OrderLine[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = narrow(
+      supabase.from("order_line_items").select(ORDER_LINE_COLUMNS)
+    )
+      .order("ordered_at", { ascending: true })
+      .order("id", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (startDate) query = query.gte("ordered_at", startDate);
+    if (endDate) query = query.lt("ordered_at", endOfRange(endDate));
+    if (shop) query = query.eq("order.shop", shop);
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to fetch order lines: ${error.message}`);
+    }
+
+    const page = (data || []) as unknown as OrderLine[];
+    page.forEach((line) =>
+      lines.push({
+        ...line,
+        unit_price: Number(line.unit_price),
+        gross_amount: Number(line.gross_amount),
+        discount_amount: Number(line.discount_amount),
+        discounts: (line.discounts || []).map((discount) => ({
+          ...discount,
+          amount: Number(discount.amount),
+        })),
+        net_amount: Number(line.net_amount),
+        refunded_amount: Number(line.refunded_amount),
+        order: {
+          ...line.order,
+          total_amount: Number(line.order.total_amount),
+          shipping_amount: Number(line.order.shipping_amount),
+        },
+      })
+    );
+
+    if (page.length < PAGE_SIZE) break;
+  }
+
+  return lines;
+}
+
+/**
+ * All order lines for the given Shopify products, optionally limited to
+ * orders placed between startDate and endDate (inclusive, YYYY-MM-DD or ISO
+ * timestamps) and to one shop. Lines are returned oldest first.
+ */
+export async function fetchOrderLines(
+  supabase: SupabaseServerClient,
+  productIds: string[],
+  filter: OrderLineFilter = {}
+): Promise<OrderLine[]> {
+  if (productIds.length === 0) return [];
+
+  return fetchLines(supabase, filter, (query) =>
+    query.in("shopify_product_id", productIds)
+  );
+}
+
+// Discounted order lines of every product, filtered like fetchOrderLines
+export async function fetchDiscountedOrderLines(
+  supabase: SupabaseServerClient,
+  filter: OrderLineFilter = {}
+): Promise<OrderLine[]> {
+  return fetchLines(supabase, filter, (query) =>
+    query.gt("discount_amount", 0)
+  );
+}
+
+/**
+ * Order lines of posters in every shop, for the posters' primary shop
+ * product IDs. A poster has a different product in each shop; lines of the
+ * other shops' products are returned under the primary product ID, so they
+ * add up with the poster's other sales. Amounts stay in the order currency.
+ */
+export async function fetchPosterOrderLines(
+  supabase: SupabaseServerClient,
+  productIds: string[],
+  filter: OrderLineFilter = {}
+): Promise<OrderLine[]> {
+  if (productIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from("creator_products")
+    .select("shopify_product_id, poster:posters!inner (shopify_product_id)")
+    .in("poster.shopify_product_id", productIds);
+
+  if (error) {
+    throw new Error(`Failed to fetch poster products: ${error.message}`);
+  }
+
+  // Other shops' product ID -> the poster's primary product ID
+  const aliases = new Map<string, string>();
+  (data || []).forEach((row) => {
+    const poster = row.poster as unknown as { shopify_product_id: string };
+    if (row.shopify_product_id !== poster.shopify_product_id) {
+      aliases.set(row.shopify_product_id, poster.shopify_product_id);
+    }
+  });
+
+  const lines = await fetchOrderLines(
+    supabase,
+    [...productIds, ...Array.from(aliases.keys())],
+    filter
+  );
+
+  return lines.map((line) =>
+    line.shopify_product_id && aliases.has(line.shopify_product_id)
+      ? { ...line, shopify_product_id: aliases.get(line.shopify_product_id)! }
+      : line
+  );
+}
+
+// Convert order lines into one currency. Lines in a currency without a rate
+// are left as they are.
+function convertOrderLines(
+  lines: OrderLine[],
+  currency: string,
+  rates: ExchangeRateTable
+): OrderLine[] {
+  if (!isSupportedCurrency(currency)) return lines;
+
+  return lines.map((line) => {
+    if (line.currency === currency) return line;
+
+    const rate = isSupportedCurrency(line.currency)
+      ? rates[line.currency]?.[currency]
+      : undefined;
+    if (!rate) return line;
+
+    return {
+      ...line,
+      currency,
+      unit_price: line.unit_price * rate,
+      gross_amount: line.gross_amount * rate,
+      discount_amount: line.discount_amount * rate,
+      discounts: line.discounts.map((discount) => ({
+        ...discount,
+        amount: discount.amount * rate,
+      })),
+      net_amount: line.net_amount * rate,
+      refunded_amount: line.refunded_amount * rate,
+      order: {
+        ...line.order,
+        total_amount: line.order.total_amount * rate,
+        shipping_amount: line.order.shipping_amount * rate,
+      },
+    };
+  });
+}
+
+/**
+ * Order lines in the primary shop's currency, so lines of shops in
+ * different currencies can be added up. Exchange rates are only fetched
+ * (from baseUrl) when there are lines in another currency.
+ */
+export async function toPrimaryCurrency(
+  supabase: SupabaseServerClient,
+  lines: OrderLine[],
+  { baseUrl = "" }: { baseUrl?: string } = {}
+): Promise<OrderLine[]> {
+  const { currency } = await getPrimaryShop(supabase);
+  if (lines.every((line) => line.currency === currency)) return lines;
+
+  const { rates } = await getExchangeRates(baseUrl);
+  return convertOrderLines(lines, currency, rates);
+}
+
+// "Size: A3, Frame: Black" from the variant's options, or its plain title
+export function variantLabel(
+  line: Pick<OrderLine, "variant_options" | "variant_title">
+) {
+  const options = (line.variant_options || [])
+    .filter((option) => option.name && option.value)
+    .map((option) => `${option.name}: ${option.value}`)
+    .join(", ");
+
+  return options || line.variant_title || "Default";
+}
+
+/**
+ * Recount posters.sales for the given Shopify products: units sold on paid
+ * orders in every shop, less refunded units. Products of other shops than
+ * the primary one count towards their poster.
+ */
+export async function refreshPosterSales(
+  supabase: SupabaseServerClient,
+  productIds: string[]
+) {
+  if (productIds.length === 0) return;
+
+  // The posters' primary product IDs
+  const { data, error: productsError } = await supabase
+    .from("creator_products")
+    .select("poster:posters!inner (shopify_product_id)")
+    .in("shopify_product_id", productIds);
+
+  if (productsError) {
+    throw new Error(
+      `Failed to fetch poster products: ${productsError.message}`
+    );
+  }
+
+  const posterProductIds = new Set(productIds);
+  (data || []).forEach((row) => {
+    const poster = row.poster as unknown as {
+      shopify_product_id: string | null;
+    };
+    if (poster.shopify_product_id) {
+      posterProductIds.add(poster.shopify_product_id);
+    }
+  });
+
+  for (const productId of Array.from(posterProductIds)) {
+    const lines = await fetchPosterOrderLines(supabase, [productId]);
+    const sales = lines
+      .filter((line) => isPaidOrderStatus(line.order.financial_status))
+      .reduce((sum, line) => sum + (unrefundedLine(line)?.quantity || 0), 0);
+
+    const { error } = await supabase
+      .from("posters")
+      .update({ sales })
+      .eq("shopify_product_id", productId);
+
+    if (error) {
+      throw new Error(
+        `Failed to update sales for product ${productId}: ${error.message}`
+      );
+    }
+  }
+}
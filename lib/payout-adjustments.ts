@@ -0,0 +1,267 @@
+import type { createClient } from "@/utils/supabase/server";
+import type { StoredDispute, StoredRefund } from "@/lib/order-sync";
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+/**
+ * A clawback recorded against a creator after a payout has been made, e.g.
+ * when an order that was already paid out is refunded or lost to a chargeback.
+ *
+ * Amounts are negative and in the currency of the payout the line was paid in.
+ * applied_payout_id is set once the adjustment has been netted off a payout.
+ */
+export interface PayoutAdjustment {
+  id: number;
+  creator_id: string;
+  payout_line_item_id: number | null;
+  shopify_order_id: string;
+  shopify_order_name: string | null;
+  source_id: string;
+  type: "refund" | "chargeback";
+  amount: number;
+  currency: string;
+  reason: string | null;
+  occurred_at: string;
+  applied_payout_id: number | null;
+  created_at?: string;
+}
+
+export type NewPayoutAdjustment = Omit<
+  PayoutAdjustment,
+  "id" | "applied_payout_id" | "created_at"
+>;
+
+// How far back we look for refunds on orders that were already paid out
+export const ADJUSTMENT_LOOKBACK_MONTHS = 12;
+
+// Chargebacks we've lost for good; open disputes may still be won
+const LOST_DISPUTE_STATUSES = ["LOST", "ACCEPTED", "CHARGE_REFUNDED"];
+
+type PaidLineItem = {
+  id: number;
+  payout_id: number;
+  shopify_order_id: string;
+  shopify_order_name: string | null;
+  shopify_line_item_id: string;
+  commission_amount: number;
+  original_net_amount: number | null;
+  net_amount: number;
+  currency: string;
+  created_at: string;
+};
+
+type OrderRefunds = {
+  id: string;
+  refunds: StoredRefund[];
+  disputes: StoredDispute[];
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Refunds and disputes of a set of orders, from the local order tables
+async function fetchOrderRefunds(
+  supabase: SupabaseServerClient,
+  orderIds: string[]
+) {
+  const orders: OrderRefunds[] = [];
+
+  for (let i = 0; i < orderIds.length; i += 100) {
+    const { data, error } = await supabase
+      .from("orders")
+      .select("id, refunds, disputes")
+      .in("id", orderIds.slice(i, i + 100));
+
+    if (error) {
+      throw new Error(`Failed to fetch order refunds: ${error.message}`);
+    }
+
+    orders.push(...((data || []) as unknown as OrderRefunds[]));
+  }
+
+  return orders;
+}
+
+/**
+ * Find refunds and lost chargebacks on a creator's orders that were already
+ * included in a payout, and record them as negative adjustments.
+ *
+ * A refunded line claws back the same share of the commission that was paid
+ * on it, so the original payout currency and FX rate carry over. Lost
+ * chargebacks claw back whatever is left on every line of the order. Each
+ * Shopify refund/dispute is only recorded once per line, so the scan can be
+ * run on every payout run. With dryRun the new adjustments are returned
+ * without being saved (used by the payouts preview).
+ */
+export async function recordRefundAdjustments(
+  supabase: SupabaseServerClient,
+  creatorId: string,
+  { dryRun = false }: { dryRun?: boolean } = {}
+): Promise<NewPayoutAdjustment[]> {
+  const since = new Date();
+  since.setMonth(since.getMonth() - ADJUSTMENT_LOOKBACK_MONTHS);
+
+  const { data: lineItems, error: lineItemsError } = await supabase
+    .from("payout_line_items")
+    .select(
+      "id, payout_id, shopify_order_id, shopify_order_name, shopify_line_item_id, commission_amount, original_net_amount, net_amount, currency, created_at"
+    )
+    .eq("creator_id", creatorId)
+    .gte("ordered_at", since.toISOString());
+
+  if (lineItemsError) {
+    throw new Error(
+      `Failed to fetch paid line items: ${lineItemsError.message}`
+    );
+  }
+
+  const paidLines = (lineItems || []) as PaidLineItem[];
+  if (paidLines.length === 0) return [];
+
+  // What has already been clawed back per line, so we never take back more
+  // than was paid and don't record the same refund twice
+  const { data: existing, error: existingError } = await supabase
+    .from("payout_adjustments")
+    .select("payout_line_item_id, source_id, amount")
+    .eq("creator_id", creatorId)
+    .in(
+      "payout_line_item_id",
+      paidLines.map((line) => line.id)
+    );
+
+  if (existingError) {
+    throw new Error(
+      `Failed to fetch existing adjustments: ${existingError.message}`
+    );
+  }
+
+  const recorded = new Set<string>();
+  const remaining = new Map<number, number>();
+  paidLines.forEach((line) =>
+    remaining.set(line.id, Number(line.commission_amount))
+  );
+  (existing || []).forEach((adjustment) => {
+    recorded.add(`${adjustment.payout_line_item_id}:${adjustment.source_id}`);
+    remaining.set(
+      adjustment.payout_line_item_id,
+      (remaining.get(adjustment.payout_line_item_id) || 0) +
+        Number(adjustment.amount)
+    );
+  });
+
+  const linesByShopifyId = new Map(
+    paidLines.map((line) => [line.shopify_line_item_id, line])
+  );
+  const orderIds = Array.from(
+    new Set(paidLines.map((line) => line.shopify_order_id))
+  );
+
+  const orders = await fetchOrderRefunds(supabase, orderIds);
+  const adjustments: NewPayoutAdjustment[] = [];
+
+  const addAdjustment = (
+    line: PaidLineItem,
+    clawback: number,
+    adjustment: Pick<
+      NewPayoutAdjustment,
+      "source_id" | "type" | "reason" | "occurred_at"
+    >
+  ) => {
+    const key = `${line.id}:${adjustment.source_id}`;
+    const left = remaining.get(line.id) || 0;
+    const amount = round(Math.min(clawback, left));
+
+    if (recorded.has(key) || amount <= 0) return;
+
+    recorded.add(key);
+    remaining.set(line.id, left - amount);
+    adjustments.push({
+      creator_id: creatorId,
+      payout_line_item_id: line.id,
+      shopify_order_id: line.shopify_order_id,
+      shopify_order_name: line.shopify_order_name,
+      amount: -amount,
+      currency: line.currency,
+      ...adjustment,
+    });
+  };
+
+  orders.forEach((order) => {
+    // Refunds: claw back the refunded share of each paid line
+    order.refunds.forEach((refund) => {
+      refund.lines.forEach((refundLine) => {
+        const line = linesByShopifyId.get(refundLine.lineItemId);
+        if (!line) return;
+
+        // Refunds made before the line was paid out were already left out
+        // of it (see unrefundedLine in lib/orders.ts)
+        if (new Date(refund.createdAt) < new Date(line.created_at)) return;
+
+        // Compare in the order's own currency, which is what Shopify refunds in
+        const paidNet = Number(line.original_net_amount ?? line.net_amount);
+        const share =
+          paidNet > 0 ? Math.min(refundLine.amount / paidNet, 1) : 1;
+
+        addAdjustment(line, Number(line.commission_amount) * share, {
+          source_id: refund.id,
+          type: "refund",
+          reason: refund.note || `Refund of ${refundLine.quantity} item(s)`,
+          occurred_at: refund.createdAt,
+        });
+      });
+    });
+
+    // Lost chargebacks: claw back everything still outstanding on the order
+    order.disputes
+      .filter(
+        (dispute) =>
+          dispute.initiatedAs === "CHARGEBACK" &&
+          LOST_DISPUTE_STATUSES.includes(dispute.status)
+      )
+      .forEach((dispute) => {
+        paidLines
+          .filter((line) => line.shopify_order_id === order.id)
+          .forEach((line) =>
+            addAdjustment(line, remaining.get(line.id) || 0, {
+              source_id: dispute.id,
+              type: "chargeback",
+              reason: `Chargeback ${dispute.status.toLowerCase()}`,
+              occurred_at: new Date().toISOString(),
+            })
+          );
+      });
+  });
+
+  if (adjustments.length === 0 || dryRun) return adjustments;
+
+  const { error: insertError } = await supabase
+    .from("payout_adjustments")
+    .upsert(adjustments, {
+      onConflict: "payout_line_item_id,source_id",
+      ignoreDuplicates: true,
+    });
+
+  if (insertError) {
+    throw new Error(`Failed to record adjustments: ${insertError.message}`);
+  }
+
+  return adjustments;
+}
+
+// Adjustments that haven't been netted off a payout yet
+export async function fetchOutstandingAdjustments(
+  supabase: SupabaseServerClient,
+  creatorId: string
+): Promise<PayoutAdjustment[]> {
+  const { data, error } = await supabase
+    .from("payout_adjustments")
+    .select("*")
+    .eq("creator_id", creatorId)
+    .is("applied_payout_id", null)
+    .order("occurred_at", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch adjustments: ${error.message}`);
+  }
+
+  return (data || []) as PayoutAdjustment[];
+}
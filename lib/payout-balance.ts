@@ -0,0 +1,199 @@
+import type { createClient } from "@/utils/supabase/server";
+import {
+  ExchangeRateSnapshot,
+  ExchangeRateTable,
+  isSupportedCurrency,
+  sumInCurrency,
+} from "@/lib/currency";
+import { fetchOutstandingAdjustments } from "@/lib/payout-adjustments";
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+// Minimum payout in GBP (converted into the creator's currency). Smaller
+// amounts roll over into the creator's balance instead of being paid out.
+export const MINIMUM_PAYOUT_GBP =
+  Number(process.env.MINIMUM_PAYOUT_AMOUNT) || 20;
+
+/**
+ * A month of earnings that was below the minimum payout and rolled over.
+ *
+ * The order lines behind it are kept in payout_line_items with
+ * balance_entry_id set, and move to the payout that eventually releases the
+ * entry (payout_id).
+ */
+export interface BalanceEntry {
+  id: number;
+  creator_id: string;
+  amount: number;
+  currency: string;
+  period: { start: string; end: string };
+  threshold_amount: number | null;
+  commission_rules: unknown;
+  exchange_rates: unknown;
+  payout_id: number | null;
+  released_by: string | null;
+  created_at?: string;
+}
+
+// Minimum payout expressed in the given currency
+export function minimumPayoutIn(
+  currency: string,
+  rates: ExchangeRateTable
+): number {
+  if (currency === "GBP" || !isSupportedCurrency(currency)) {
+    return MINIMUM_PAYOUT_GBP;
+  }
+  return MINIMUM_PAYOUT_GBP * (rates.GBP?.[currency] || 1);
+}
+
+// Rolled-over entries that haven't been paid out yet
+export async function fetchOpenBalance(
+  supabase: SupabaseServerClient,
+  creatorId: string
+): Promise<BalanceEntry[]> {
+  const { data, error } = await supabase
+    .from("creator_balance_entries")
+    .select("*")
+    .eq("creator_id", creatorId)
+    .is("payout_id", null)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch creator balance: ${error.message}`);
+  }
+
+  return (data || []) as BalanceEntry[];
+}
+
+/**
+ * Mark balance entries as paid by a payout and move their order lines onto
+ * it, so the payout's ledger covers every month it pays for. The line items
+ * are moved last: if anything fails the caller deletes the payout and the
+ * entries fall back to open (payout_id is ON DELETE SET NULL).
+ */
+export async function settleBalanceEntries(
+  supabase: SupabaseServerClient,
+  entryIds: number[],
+  payoutId: number,
+  releasedBy?: string
+): Promise<{ message: string } | null> {
+  if (entryIds.length === 0) return null;
+
+  const { error: entriesError } = await supabase
+    .from("creator_balance_entries")
+    .update({ payout_id: payoutId, released_by: releasedBy || null })
+    .in("id", entryIds);
+
+  if (entriesError) return entriesError;
+
+  const { error: lineItemsError } = await supabase
+    .from("payout_line_items")
+    .update({ payout_id: payoutId })
+    .in("balance_entry_id", entryIds);
+
+  return lineItemsError;
+}
+
+/**
+ * Pay out a creator's rolled-over balance now, regardless of the minimum.
+ * Outstanding refund adjustments are netted off like in the monthly run.
+ */
+export async function forceReleaseBalance(
+  supabase: SupabaseServerClient,
+  creatorId: string,
+  rates: ExchangeRateTable,
+  releasedBy: string
+) {
+  const { data: creator, error: creatorError } = await supabase
+    .from("profiles")
+    .select("id, name, payment_method, currency")
+    .eq("id", creatorId)
+    .single();
+
+  if (creatorError || !creator) {
+    throw new Error("Creator not found");
+  }
+
+  const currency = creator.currency || "GBP";
+  if (!isSupportedCurrency(currency)) {
+    throw new Error(`Unsupported payout currency: ${currency}`);
+  }
+
+  const entries = await fetchOpenBalance(supabase, creatorId);
+  if (entries.length === 0) {
+    throw new Error("Creator has no balance to release");
+  }
+  const adjustments = await fetchOutstandingAdjustments(supabase, creatorId);
+
+  const snapshot: ExchangeRateSnapshot = {
+    currency,
+    rates: {},
+    fetched_at: new Date().toISOString(),
+  };
+  const balance = sumInCurrency(entries, snapshot, rates);
+  const clawbacks = sumInCurrency(adjustments, snapshot, rates);
+  const unsupported = [...balance.unsupported, ...clawbacks.unsupported];
+
+  if (unsupported.length > 0) {
+    throw new Error(`No exchange rate for ${unsupported.join(", ")}`);
+  }
+
+  const amount = Math.round((balance.total + clawbacks.total) * 100) / 100;
+  if (amount <= 0) {
+    throw new Error("Refund adjustments exceed the balance");
+  }
+
+  const { data: payout, error: payoutError } = await supabase
+    .from("payout")
+    .insert({
+      creator_id: creatorId,
+      amount,
+      status: "pending",
+      method: creator.payment_method || "iban",
+      currency,
+      exchange_rates: snapshot,
+      balance_amount: Math.round(balance.total * 100) / 100,
+      adjustments_amount: Math.round(clawbacks.total * 100) / 100,
+      created_at: new Date().toISOString(),
+      // Covers every month that rolled over into this payout
+      payout_month: {
+        start: entries[0].period.start,
+        end: entries[entries.length - 1].period.end,
+      },
+      name: creator.name,
+    })
+    .select("id, amount, currency")
+    .single();
+
+  if (payoutError || !payout) {
+    throw new Error(
+      `Failed to create payout: ${payoutError?.message || "unknown error"}`
+    );
+  }
+
+  let error = null;
+  if (adjustments.length > 0) {
+    ({ error } = await supabase
+      .from("payout_adjustments")
+      .update({ applied_payout_id: payout.id })
+      .in(
+        "id",
+        adjustments.map((adjustment) => adjustment.id)
+      ));
+  }
+  if (!error) {
+    error = await settleBalanceEntries(
+      supabase,
+      entries.map((entry) => entry.id),
+      payout.id,
+      releasedBy
+    );
+  }
+
+  if (error) {
+    await supabase.from("payout").delete().eq("id", payout.id);
+    throw new Error(`Failed to release balance: ${error.message}`);
+  }
+
+  return payout;
+}
@@ -0,0 +1,535 @@
+import { format } from "date-fns";
+import type { createClient } from "@/utils/supabase/server";
+import {
+  buildPain001,
+  getSepaDebtor,
+  isValidIban,
+  SEPA_CURRENCY,
+  SepaTransfer,
+} from "@/lib/sepa";
+import {
+  buildPayPalCsv,
+  buildPayPalPayload,
+  isValidPayPalEmail,
+  parsePayPalReport,
+  PayPalPayoutItem,
+} from "@/lib/paypal";
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+export type PayoutBatchProvider = "sepa" | "paypal";
+
+/**
+ * A payment file generated for a set of payouts. Each payout in the file has
+ * a row in payout_batch_items with the result of that payment, and batch_id
+ * pointing at its latest batch; the file itself is kept so it can be
+ * downloaded again. PayPal batches also keep the Payouts API request body
+ * (payload). reconciled_at is set once the results have been applied to the
+ * payouts.
+ */
+export interface PayoutBatch {
+  id: number;
+  provider: PayoutBatchProvider;
+  reference: string;
+  file_name: string;
+  payout_count: number;
+  total_amount: number;
+  currency: string;
+  execution_date: string | null;
+  created_by: string | null;
+  reconciled_at: string | null;
+  created_at: string;
+}
+
+export interface ReconcileResult {
+  completed: number[];
+  failed: number[];
+  pending: number[];
+  unmatched: string[];
+}
+
+const BATCH_COLUMNS =
+  "id, provider, reference, file_name, payout_count, total_amount, currency, execution_date, created_by, reconciled_at, created_at";
+
+// Validation failure for a specific payout, reported back to the admin
+export class PayoutBatchError extends Error {
+  constructor(message: string, public problems: string[] = []) {
+    super(message);
+    this.name = "PayoutBatchError";
+  }
+}
+
+type BatchPayout = {
+  id: number;
+  creator_id: string;
+  amount: number;
+  currency: string | null;
+  status: string;
+  method: string | null;
+  payout_month: { start?: string; end?: string } | null;
+  batch_id: number | null;
+  name: string | null;
+  profiles: {
+    name: string | null;
+    iban: string | null;
+    paypal_email: string | null;
+  } | null;
+};
+
+// "March 2025", or "January 2025 - March 2025" for a released balance
+export function payoutPeriodLabel(period: BatchPayout["payout_month"]) {
+  if (!period?.start) return "";
+
+  const start = format(new Date(period.start), "MMMM yyyy");
+  const end = period.end ? format(new Date(period.end), "MMMM yyyy") : start;
+  return start === end ? start : `${start} - ${end}`;
+}
+
+async function fetchBatchPayouts(
+  supabase: SupabaseServerClient,
+  payoutIds: number[]
+) {
+  const { data, error } = await supabase
+    .from("payout")
+    .select(
+      "id, creator_id, amount, currency, status, method, payout_month, batch_id, name, profiles:creator_id (name, iban, paypal_email)"
+    )
+    .in("id", payoutIds);
+
+  if (error) {
+    throw new Error(`Failed to fetch payouts: ${error.message}`);
+  }
+
+  const payouts = (data || []) as unknown as BatchPayout[];
+  const missing = payoutIds.filter(
+    (id) => !payouts.some((payout) => payout.id === id)
+  );
+  if (missing.length > 0) {
+    throw new PayoutBatchError(
+      "Some payouts were not found",
+      missing.map((id) => `PO-${id}: not found`)
+    );
+  }
+
+  return payouts;
+}
+
+// Checks shared by every provider. A payout whose payment failed can be put
+// in a new batch.
+function batchProblem(payout: BatchPayout, method: string) {
+  const label = `PO-${payout.id}`;
+
+  if (payout.status === "completed") {
+    return `${label}: already paid`;
+  }
+  if (payout.batch_id && payout.status !== "failed") {
+    return `${label}: already in batch #${payout.batch_id}`;
+  }
+  if (payout.method !== method) {
+    return `${label}: creator is paid by ${payout.method || "another method"}`;
+  }
+  if (Number(payout.amount) <= 0) {
+    return `${label}: amount must be positive`;
+  }
+  return null;
+}
+
+const totalInCents = (amounts: number[]) =>
+  amounts.reduce((sum, amount) => sum + Math.round(amount * 100), 0) / 100;
+
+// Save the batch and link its payouts. A payout that was added to another
+// batch in the meantime fails the whole batch.
+async function saveBatch(
+  supabase: SupabaseServerClient,
+  batch: Omit<PayoutBatch, "id" | "created_at" | "reconciled_at"> & {
+    file_content: string;
+    payload?: unknown;
+  },
+  payoutIds: number[]
+): Promise<PayoutBatch> {
+  const { data: saved, error: batchError } = await supabase
+    .from("payout_batches")
+    .insert(batch)
+    .select(BATCH_COLUMNS)
+    .single();
+
+  if (batchError || !saved) {
+    throw new Error(
+      `Failed to save payout batch: ${batchError?.message || "unknown error"}`
+    );
+  }
+
+  const { data: linked, error: linkError } = await supabase
+    .from("payout")
+    .update({ batch_id: saved.id, status: "pending", payment_error: null })
+    .in("id", payoutIds)
+    .or("batch_id.is.null,status.eq.failed")
+    .select("id");
+
+  if (linkError || (linked || []).length !== payoutIds.length) {
+    await supabase.from("payout_batches").delete().eq("id", saved.id);
+    throw new PayoutBatchError(
+      linkError
+        ? `Failed to link payouts to batch: ${linkError.message}`
+        : "Some payouts were added to another batch in the meantime"
+    );
+  }
+
+  // Earlier batches of a re-batched payout keep their own rows
+  const { error: itemsError } = await supabase
+    .from("payout_batch_items")
+    .insert(
+      payoutIds.map((payoutId) => ({ batch_id: saved.id, payout_id: payoutId }))
+    );
+
+  if (itemsError) {
+    await supabase.from("payout_batches").delete().eq("id", saved.id);
+    throw new Error(`Failed to record batch payouts: ${itemsError.message}`);
+  }
+
+  return saved as PayoutBatch;
+}
+
+/**
+ * Create a SEPA pain.001 file for pending IBAN payouts in euro. Every payout
+ * is checked first (status, method, currency, creator IBAN) and the batch is
+ * rejected with the list of problems if any of them can't be paid this way.
+ */
+export async function createSepaBatch(
+  supabase: SupabaseServerClient,
+  payoutIds: number[],
+  {
+    createdBy,
+    executionDate = format(new Date(), "yyyy-MM-dd"),
+  }: { createdBy: string; executionDate?: string }
+): Promise<PayoutBatch> {
+  if (payoutIds.length === 0) {
+    throw new PayoutBatchError("Select at least one payout");
+  }
+
+  const debtor = getSepaDebtor();
+  const payouts = await fetchBatchPayouts(supabase, payoutIds);
+
+  const problems: string[] = [];
+  const transfers: SepaTransfer[] = [];
+
+  payouts.forEach((payout) => {
+    const label = `PO-${payout.id}`;
+    const iban = payout.profiles?.iban || "";
+    const problem = batchProblem(payout, "iban");
+
+    if (problem) {
+      problems.push(problem);
+    } else if ((payout.currency || "GBP") !== SEPA_CURRENCY) {
+      problems.push(
+        `${label}: SEPA transfers must be in ${SEPA_CURRENCY}, not ${
+          payout.currency || "GBP"
+        }`
+      );
+    } else if (!isValidIban(iban)) {
+      problems.push(`${label}: creator has no valid IBAN`);
+    } else {
+      const period = payoutPeriodLabel(payout.payout_month);
+      transfers.push({
+        endToEndId: label,
+        amount: Number(payout.amount),
+        creditorName:
+          payout.profiles?.name ||
+          payout.name ||
+          `Creator ${payout.creator_id}`,
+        creditorIban: iban,
+        remittance: `Creator payout ${period} ${label}`,
+      });
+    }
+  });
+
+  if (problems.length > 0) {
+    throw new PayoutBatchError(
+      "Some payouts can't be included in a SEPA file",
+      problems
+    );
+  }
+
+  const createdAt = new Date();
+  const reference = `SEPA-${format(createdAt, "yyyyMMddHHmmss")}`;
+  const fileContent = buildPain001({
+    messageId: reference,
+    debtor,
+    transfers,
+    executionDate,
+    createdAt,
+  });
+
+  return saveBatch(
+    supabase,
+    {
+      provider: "sepa",
+      reference,
+      file_name: `${reference}.xml`,
+      file_content: fileContent,
+      payout_count: transfers.length,
+      total_amount: totalInCents(transfers.map((transfer) => transfer.amount)),
+      currency: SEPA_CURRENCY,
+      execution_date: executionDate,
+      created_by: createdBy,
+    },
+    payoutIds
+  );
+}
+
+/**
+ * Create a PayPal Payouts batch (CSV for the web upload plus the Payouts API
+ * payload) for pending PayPal payouts. A batch is in a single currency.
+ */
+export async function createPayPalBatch(
+  supabase: SupabaseServerClient,
+  payoutIds: number[],
+  { createdBy }: { createdBy: string }
+): Promise<PayoutBatch> {
+  if (payoutIds.length === 0) {
+    throw new PayoutBatchError("Select at least one payout");
+  }
+
+  const payouts = await fetchBatchPayouts(supabase, payoutIds);
+
+  const problems: string[] = [];
+  const items: PayPalPayoutItem[] = [];
+
+  payouts.forEach((payout) => {
+    const label = `PO-${payout.id}`;
+    const email = payout.profiles?.paypal_email || "";
+    const problem = batchProblem(payout, "paypal");
+
+    if (problem) {
+      problems.push(problem);
+    } else if (!isValidPayPalEmail(email)) {
+      problems.push(`${label}: creator has no valid PayPal email`);
+    } else {
+      items.push({
+        senderItemId: label,
+        receiver: email,
+        amount: Number(payout.amount),
+        currency: payout.currency || "GBP",
+        note: `Creator payout ${payoutPeriodLabel(payout.payout_month)}`,
+      });
+    }
+  });
+
+  const currencies = Array.from(new Set(items.map((item) => item.currency)));
+  if (currencies.length > 1) {
+    problems.push(
+      `Payouts are in ${currencies.join(", ")}; export one currency at a time`
+    );
+  }
+
+  if (problems.length > 0) {
+    throw new PayoutBatchError(
+      "Some payouts can't be included in a PayPal batch",
+      problems
+    );
+  }
+
+  const reference = `PAYPAL-${format(new Date(), "yyyyMMddHHmmss")}`;
+
+  return saveBatch(
+    supabase,
+    {
+      provider: "paypal",
+      reference,
+      file_name: `${reference}.csv`,
+      file_content: buildPayPalCsv(items),
+      payload: buildPayPalPayload(reference, items),
+      payout_count: items.length,
+      total_amount: totalInCents(items.map((item) => item.amount)),
+      currency: currencies[0],
+      execution_date: null,
+      created_by: createdBy,
+    },
+    payoutIds
+  );
+}
+
+async function fetchBatch(supabase: SupabaseServerClient, batchId: number) {
+  const { data, error } = await supabase
+    .from("payout_batches")
+    .select(BATCH_COLUMNS)
+    .eq("id", batchId)
+    .single();
+
+  if (error || !data) {
+    throw new PayoutBatchError("Batch not found");
+  }
+
+  return data as PayoutBatch;
+}
+
+/**
+ * Apply a PayPal result report to the payouts of a batch. Successful items
+ * mark the payout completed with PayPal's transaction ID; failed, returned or
+ * blocked items mark it failed with the reason, so it can be exported again.
+ * Items that are still pending (e.g. unclaimed) are left alone.
+ */
+export async function reconcilePayPalBatch(
+  supabase: SupabaseServerClient,
+  batchId: number,
+  report: string
+): Promise<ReconcileResult> {
+  const batch = await fetchBatch(supabase, batchId);
+  if (batch.provider !== "paypal") {
+    throw new PayoutBatchError("Only PayPal batches can import a report");
+  }
+
+  let rows;
+  try {
+    rows = parsePayPalReport(report);
+  } catch (error) {
+    throw new PayoutBatchError(
+      error instanceof Error
+        ? `Could not read the report: ${error.message}`
+        : "Could not read the report"
+    );
+  }
+
+  const { data: items, error: itemsError } = await supabase
+    .from("payout_batch_items")
+    .select("payout_id")
+    .eq("batch_id", batchId);
+
+  if (itemsError) {
+    throw new Error(`Failed to fetch batch payouts: ${itemsError.message}`);
+  }
+
+  const batchPayoutIds = new Set((items || []).map((item) => item.payout_id));
+  const result: ReconcileResult = {
+    completed: [],
+    failed: [],
+    pending: [],
+    unmatched: [],
+  };
+
+  for (const row of rows) {
+    const payoutId = Number(row.senderItemId.replace(/^PO-/i, ""));
+    if (!batchPayoutIds.has(payoutId)) {
+      result.unmatched.push(row.senderItemId);
+      continue;
+    }
+
+    if (row.outcome === "pending") {
+      result.pending.push(payoutId);
+      continue;
+    }
+
+    const paymentError =
+      row.outcome === "completed" ? null : row.reason || row.status;
+
+    const { error: itemError } = await supabase
+      .from("payout_batch_items")
+      .update({
+        result: row.outcome,
+        payment_reference: row.transactionId,
+        payment_error: paymentError,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("batch_id", batchId)
+      .eq("payout_id", payoutId);
+
+    if (itemError) {
+      throw new Error(`Failed to update PO-${payoutId}: ${itemError.message}`);
+    }
+
+    // A payout that has since gone out in a newer batch keeps that status
+    const { error } = await supabase
+      .from("payout")
+      .update(
+        row.outcome === "completed"
+          ? {
+              status: "completed",
+              payment_reference: row.transactionId,
+              payment_error: null,
+              paid_at: new Date().toISOString(),
+            }
+          : {
+              status: "failed",
+              payment_reference: row.transactionId,
+              payment_error: paymentError,
+              paid_at: null,
+            }
+      )
+      .eq("id", payoutId)
+      .eq("batch_id", batchId);
+
+    if (error) {
+      throw new Error(`Failed to update PO-${payoutId}: ${error.message}`);
+    }
+
+    result[row.outcome].push(payoutId);
+  }
+
+  // The batch is settled once none of its payouts is waiting on PayPal
+  const { count: outstanding } = await supabase
+    .from("payout_batch_items")
+    .select("payout_id", { count: "exact", head: true })
+    .eq("batch_id", batchId)
+    .eq("result", "pending");
+
+  if (!outstanding) {
+    await supabase
+      .from("payout_batches")
+      .update({ reconciled_at: new Date().toISOString() })
+      .eq("id", batchId);
+  }
+
+  return result;
+}
+
+/**
+ * Mark every payout in a bank transfer batch as paid, once the bank has
+ * executed the file. Bank files don't come back with per-payout results.
+ */
+export async function completeBankBatch(
+  supabase: SupabaseServerClient,
+  batchId: number
+) {
+  const batch = await fetchBatch(supabase, batchId);
+  if (batch.provider !== "sepa") {
+    throw new PayoutBatchError(
+      "PayPal batches are completed by importing PayPal's report"
+    );
+  }
+
+  const { data, error } = await supabase
+    .from("payout")
+    .update({
+      status: "completed",
+      payment_reference: batch.reference,
+      paid_at: new Date().toISOString(),
+    })
+    .eq("batch_id", batchId)
+    .eq("status", "pending")
+    .select("id");
+
+  if (error) {
+    throw new Error(`Failed to complete batch payouts: ${error.message}`);
+  }
+
+  const { error: itemsError } = await supabase
+    .from("payout_batch_items")
+    .update({
+      result: "completed",
+      payment_reference: batch.reference,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("batch_id", batchId)
+    .eq("result", "pending");
+
+  if (itemsError) {
+    throw new Error(`Failed to complete batch payouts: ${itemsError.message}`);
+  }
+
+  await supabase
+    .from("payout_batches")
+    .update({ reconciled_at: new Date().toISOString() })
+    .eq("id", batchId);
+
+  return (data || []).map((payout) => payout.id as number);
+}
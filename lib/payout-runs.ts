@@ -0,0 +1,238 @@
+import type { createClient } from "@/utils/supabase/server";
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+export type PayoutRunStatus = "running" | "completed" | "failed";
+
+// pending: not processed yet, computed: amount calculated but not saved,
+// written: payout/rollover saved (or nothing to pay), failed: see error
+export type PayoutRunCreatorStatus =
+  | "pending"
+  | "computed"
+  | "written"
+  | "failed";
+
+export interface PayoutRun {
+  id: number;
+  period_start: string;
+  period_end: string;
+  status: PayoutRunStatus;
+  attempts: number;
+  started_at: string;
+  updated_at: string;
+  finished_at: string | null;
+  error: string | null;
+}
+
+export interface PayoutRunCreator {
+  run_id: number;
+  creator_id: string;
+  status: PayoutRunCreatorStatus;
+  amount: number | null;
+  currency: string | null;
+  payout_id: number | null;
+  balance_entry_id: number | null;
+  error: string | null;
+  updated_at: string;
+}
+
+// A run that hasn't reported progress for this long is assumed to have crashed
+// and may be resumed
+export const STALE_RUN_MINUTES = 15;
+
+export class PayoutRunInProgressError extends Error {
+  constructor(periodStart: string) {
+    super(`A payout run for ${periodStart} is already in progress`);
+    this.name = "PayoutRunInProgressError";
+  }
+}
+
+// Postgres unique_violation
+export const UNIQUE_VIOLATION = "23505";
+
+/**
+ * Start (or resume) the run for a period. There is one run per period: a
+ * re-run picks up the existing journal, so creators that were already written
+ * are skipped and failed or unfinished ones are retried.
+ *
+ * The run is claimed atomically: a new run is inserted, and an existing one is
+ * only taken over if it hasn't changed since it was read. Of two overlapping
+ * starts only one gets the run; the other gets a PayoutRunInProgressError.
+ */
+export async function startPayoutRun(
+  supabase: SupabaseServerClient,
+  period: { start: string; end: string },
+  creatorIds: string[]
+): Promise<{ run: PayoutRun; creators: Map<string, PayoutRunCreator> }> {
+  const now = new Date().toISOString();
+  const { data: inserted, error: insertError } = await supabase
+    .from("payout_runs")
+    .insert({
+      period_start: period.start,
+      period_end: period.end,
+      status: "running",
+      attempts: 1,
+      started_at: now,
+      updated_at: now,
+    })
+    .select("*")
+    .maybeSingle();
+
+  if (insertError && insertError.code !== UNIQUE_VIOLATION) {
+    throw new Error(`Failed to start payout run: ${insertError.message}`);
+  }
+
+  let run = inserted as PayoutRun | null;
+
+  // The period already has a run: resume it unless it is still going
+  if (!run) {
+    const { data: existing, error: fetchError } = await supabase
+      .from("payout_runs")
+      .select("*")
+      .eq("period_start", period.start)
+      .single();
+
+    if (fetchError || !existing) {
+      throw new Error(
+        `Failed to load payout run: ${fetchError?.message || "not found"}`
+      );
+    }
+
+    if (existing.status === "running") {
+      const staleBefore = Date.now() - STALE_RUN_MINUTES * 60 * 1000;
+      if (new Date(existing.updated_at).getTime() > staleBefore) {
+        throw new PayoutRunInProgressError(period.start);
+      }
+    }
+
+    // Only one caller can take over the run as it was read
+    const { data: claimed, error: claimError } = await supabase
+      .from("payout_runs")
+      .update({
+        period_end: period.end,
+        status: "running",
+        attempts: existing.attempts + 1,
+        started_at: now,
+        updated_at: now,
+        finished_at: null,
+        error: null,
+      })
+      .eq("id", existing.id)
+      .eq("status", existing.status)
+      .eq("updated_at", existing.updated_at)
+      .select("*");
+
+    if (claimError) {
+      throw new Error(`Failed to start payout run: ${claimError.message}`);
+    }
+    if (!claimed || claimed.length === 0) {
+      throw new PayoutRunInProgressError(period.start);
+    }
+    run = claimed[0] as PayoutRun;
+  }
+
+  // Add creators that are new to this run; existing rows keep their status
+  if (creatorIds.length > 0) {
+    const { error: creatorsError } = await supabase
+      .from("payout_run_creators")
+      .upsert(
+        creatorIds.map((creatorId) => ({
+          run_id: run!.id,
+          creator_id: creatorId,
+          status: "pending",
+        })),
+        { onConflict: "run_id,creator_id", ignoreDuplicates: true }
+      );
+
+    if (creatorsError) {
+      throw new Error(
+        `Failed to create run journal: ${creatorsError.message}`
+      );
+    }
+  }
+
+  const { data: journal, error: journalError } = await supabase
+    .from("payout_run_creators")
+    .select("*")
+    .eq("run_id", run.id);
+
+  if (journalError) {
+    throw new Error(`Failed to load run journal: ${journalError.message}`);
+  }
+
+  return {
+    run,
+    creators: new Map(
+      ((journal || []) as PayoutRunCreator[]).map((entry) => [
+        entry.creator_id,
+        entry,
+      ])
+    ),
+  };
+}
+
+// Record a creator's progress within a run
+export async function updateRunCreator(
+  supabase: SupabaseServerClient,
+  runId: number,
+  creatorId: string,
+  status: PayoutRunCreatorStatus,
+  fields: Partial<
+    Pick<
+      PayoutRunCreator,
+      "amount" | "currency" | "payout_id" | "balance_entry_id" | "error"
+    >
+  > = {}
+) {
+  const { error } = await supabase
+    .from("payout_run_creators")
+    .update({
+      status,
+      error: null,
+      ...fields,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("run_id", runId)
+    .eq("creator_id", creatorId);
+
+  if (error) {
+    // The payout itself is saved; a re-run will reconcile the journal
+    console.error(
+      `Error updating run journal for creator ${creatorId}:`,
+      error
+    );
+  }
+
+  // Heartbeat so a crashed run can be told apart from a slow one
+  await supabase
+    .from("payout_runs")
+    .update({ updated_at: new Date().toISOString() })
+    .eq("id", runId);
+}
+
+// Close a run. It only counts as completed when every creator was written.
+export async function finishPayoutRun(
+  supabase: SupabaseServerClient,
+  runId: number,
+  error?: string
+) {
+  const { count } = await supabase
+    .from("payout_run_creators")
+    .select("creator_id", { count: "exact", head: true })
+    .eq("run_id", runId)
+    .neq("status", "written");
+
+  const status: PayoutRunStatus = error || count ? "failed" : "completed";
+
+  await supabase
+    .from("payout_runs")
+    .update({
+      status,
+      finished_at: new Date().toISOString(),
+      error:
+        error || (count ? `${count} creator(s) not written` : null),
+    })
+    .eq("id", runId);
+
+  return status;
+}
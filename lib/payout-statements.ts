@@ -0,0 +1,502 @@
+import type { createClient } from "@/utils/supabase/server";
+import { buildPdf, PDF_CONTENT_WIDTH, PDF_MARGIN, PdfRow } from "@/lib/pdf";
+import { payoutPeriodLabel } from "@/lib/payout-batches";
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+export interface StatementVariant {
+  title: string;
+  quantity: number;
+  gross: number;
+  discount: number;
+  net: number;
+  commission_rate: number | null;
+  commission: number;
+}
+
+export interface StatementPoster {
+  poster_id: string | null;
+  title: string;
+  variants: StatementVariant[];
+  quantity: number;
+  net: number;
+  commission: number;
+}
+
+/**
+ * Snapshot of everything behind a payout, stored in payout_statements so the
+ * creator always downloads the same document. Admins can regenerate it, e.g.
+ * after the ledger was corrected. Amounts are in the payout currency.
+ */
+export interface PayoutStatement {
+  payout: {
+    id: number;
+    status: string;
+    method: string | null;
+    currency: string;
+    amount: number;
+    created_at: string;
+    period: { start?: string; end?: string } | null;
+    balance_amount: number;
+    adjustments_amount: number;
+  };
+  creator: { id: string; name: string | null; email: string | null };
+  posters: StatementPoster[];
+  adjustments: Array<{
+    order: string | null;
+    type: string;
+    reason: string | null;
+    amount: number;
+  }>;
+  totals: {
+    quantity: number;
+    gross: number;
+    discount: number;
+    net: number;
+    commission: number;
+  };
+  generated_at: string;
+}
+
+type StatementLineItem = {
+  poster_id: string | null;
+  product_title: string | null;
+  variant_title: string | null;
+  quantity: number;
+  gross_amount: number;
+  discount_amount: number;
+  net_amount: number;
+  commission_amount: number;
+  commission_rate: number | null;
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Build a statement from the payout, its ledger and the adjustments it settled
+export async function buildPayoutStatement(
+  supabase: SupabaseServerClient,
+  payoutId: number
+): Promise<PayoutStatement> {
+  const { data: payout, error: payoutError } = await supabase
+    .from("payout")
+    .select(
+      "id, creator_id, status, method, currency, amount, created_at, payout_month, balance_amount, adjustments_amount, profiles:creator_id (name, email)"
+    )
+    .eq("id", payoutId)
+    .single();
+
+  if (payoutError || !payout) {
+    throw new Error("Payout not found");
+  }
+
+  const { data: lineItems, error: lineItemsError } = await supabase
+    .from("payout_line_items")
+    .select(
+      "poster_id, product_title, variant_title, quantity, gross_amount, discount_amount, net_amount, commission_amount, commission_rate"
+    )
+    .eq("payout_id", payoutId)
+    .order("product_title", { ascending: true });
+
+  if (lineItemsError) {
+    throw new Error(
+      `Failed to fetch payout line items: ${lineItemsError.message}`
+    );
+  }
+
+  const { data: adjustments, error: adjustmentsError } = await supabase
+    .from("payout_adjustments")
+    .select("shopify_order_name, type, reason, amount")
+    .eq("applied_payout_id", payoutId)
+    .order("occurred_at", { ascending: true });
+
+  if (adjustmentsError) {
+    throw new Error(
+      `Failed to fetch payout adjustments: ${adjustmentsError.message}`
+    );
+  }
+
+  // Group order lines by poster, then by variant and commission rate
+  const posters = new Map<string, StatementPoster>();
+  ((lineItems || []) as StatementLineItem[]).forEach((line) => {
+    const title = line.product_title || "Untitled";
+    const posterKey = line.poster_id || title;
+    if (!posters.has(posterKey)) {
+      posters.set(posterKey, {
+        poster_id: line.poster_id,
+        title,
+        variants: [],
+        quantity: 0,
+        net: 0,
+        commission: 0,
+      });
+    }
+    const poster = posters.get(posterKey)!;
+
+    const rate =
+      line.commission_rate !== null ? Number(line.commission_rate) : null;
+    const variantTitle = line.variant_title || "Default";
+    let variant = poster.variants.find(
+      (entry) =>
+        entry.title === variantTitle && entry.commission_rate === rate
+    );
+    if (!variant) {
+      variant = {
+        title: variantTitle,
+        quantity: 0,
+        gross: 0,
+        discount: 0,
+        net: 0,
+        commission_rate: rate,
+        commission: 0,
+      };
+      poster.variants.push(variant);
+    }
+
+    variant.quantity += Number(line.quantity);
+    variant.gross = round(variant.gross + Number(line.gross_amount));
+    variant.discount = round(variant.discount + Number(line.discount_amount));
+    variant.net = round(variant.net + Number(line.net_amount));
+    variant.commission = round(
+      variant.commission + Number(line.commission_amount)
+    );
+    poster.quantity += Number(line.quantity);
+    poster.net = round(poster.net + Number(line.net_amount));
+    poster.commission = round(
+      poster.commission + Number(line.commission_amount)
+    );
+  });
+
+  const posterList = Array.from(posters.values());
+  const variants = posterList.flatMap((poster) => poster.variants);
+  const sum = (pick: (variant: StatementVariant) => number) =>
+    round(variants.reduce((total, variant) => total + pick(variant), 0));
+
+  const profile = payout.profiles as unknown as {
+    name: string | null;
+    email: string | null;
+  } | null;
+
+  return {
+    payout: {
+      id: payout.id,
+      status: payout.status || "pending",
+      method: payout.method,
+      currency: payout.currency || "GBP",
+      amount: Number(payout.amount),
+      created_at: payout.created_at,
+      period: payout.payout_month as PayoutStatement["payout"]["period"],
+      balance_amount: Number(payout.balance_amount || 0),
+      adjustments_amount: Number(payout.adjustments_amount || 0),
+    },
+    creator: {
+      id: payout.creator_id,
+      name: profile?.name || null,
+      email: profile?.email || null,
+    },
+    posters: posterList,
+    adjustments: (adjustments || []).map((adjustment) => ({
+      order: adjustment.shopify_order_name,
+      type: adjustment.type,
+      reason: adjustment.reason,
+      amount: Number(adjustment.amount),
+    })),
+    totals: {
+      quantity: variants.reduce(
+        (total, variant) => total + variant.quantity,
+        0
+      ),
+      gross: sum((variant) => variant.gross),
+      discount: sum((variant) => variant.discount),
+      net: sum((variant) => variant.net),
+      commission: sum((variant) => variant.commission),
+    },
+    generated_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Get the stored statement for a payout, generating it on first use. With
+ * regenerate the statement is rebuilt from the current ledger.
+ */
+export async function getPayoutStatement(
+  supabase: SupabaseServerClient,
+  payoutId: number,
+  {
+    regenerate = false,
+    generatedBy,
+  }: { regenerate?: boolean; generatedBy?: string } = {}
+): Promise<PayoutStatement> {
+  if (!regenerate) {
+    const { data: stored } = await supabase
+      .from("payout_statements")
+      .select("data")
+      .eq("payout_id", payoutId)
+      .maybeSingle();
+
+    if (stored?.data) {
+      return stored.data as unknown as PayoutStatement;
+    }
+  }
+
+  const statement = await buildPayoutStatement(supabase, payoutId);
+
+  const { error } = await supabase.from("payout_statements").upsert(
+    {
+      payout_id: payoutId,
+      data: statement,
+      generated_at: statement.generated_at,
+      generated_by: generatedBy || null,
+    },
+    { onConflict: "payout_id" }
+  );
+
+  if (error) {
+    throw new Error(`Failed to save payout statement: ${error.message}`);
+  }
+
+  return statement;
+}
+
+export function statementFileName(
+  statement: PayoutStatement,
+  extension: "pdf" | "csv"
+) {
+  const month = statement.payout.period?.start?.slice(0, 7) || "statement";
+  return `payout-statement-PO-${statement.payout.id}-${month}.${extension}`;
+}
+
+const formatAmount = (amount: number) => amount.toFixed(2);
+
+const formatRate = (rate: number | null) =>
+  rate === null ? "" : `${Math.round(rate * 10000) / 100}%`;
+
+const csvValue = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per poster variant, followed by the payout summary
+export function statementToCsv(statement: PayoutStatement) {
+  const { payout } = statement;
+  const rows: Array<Array<string | number>> = [
+    [
+      "Payout",
+      "Period",
+      "Poster",
+      "Variant",
+      "Quantity",
+      "Gross Revenue",
+      "Discounts",
+      "Net Revenue",
+      "Commission Rate",
+      "Commission",
+      "Currency",
+    ],
+  ];
+  const period = payoutPeriodLabel(payout.period);
+
+  statement.posters.forEach((poster) =>
+    poster.variants.forEach((variant) =>
+      rows.push([
+        `PO-${payout.id}`,
+        period,
+        poster.title,
+        variant.title,
+        variant.quantity,
+        formatAmount(variant.gross),
+        formatAmount(variant.discount),
+        formatAmount(variant.net),
+        formatRate(variant.commission_rate),
+        formatAmount(variant.commission),
+        payout.currency,
+      ])
+    )
+  );
+
+  const summary = (label: string, amount: number) =>
+    rows.push([
+      `PO-${payout.id}`,
+      period,
+      label,
+      "",
+      "",
+      "",
+      "",
+      "",
+      "",
+      formatAmount(amount),
+      payout.currency,
+    ]);
+
+  summary("Commission from sales", statement.totals.commission);
+  if (payout.balance_amount) {
+    summary("Rolled-over balance", payout.balance_amount);
+  }
+  statement.adjustments.forEach((adjustment) =>
+    summary(
+      `${adjustment.type === "chargeback" ? "Chargeback" : "Refund"} ${
+        adjustment.order || ""
+      }`.trim(),
+      adjustment.amount
+    )
+  );
+  summary("Payout amount", payout.amount);
+
+  return rows.map((row) => row.map(csvValue).join(",")).join("\n") + "\n";
+}
+
+// Column positions (right edges for numbers) on the PDF statement
+const COLUMNS = {
+  item: PDF_MARGIN,
+  quantity: PDF_MARGIN + 250,
+  gross: PDF_MARGIN + 315,
+  net: PDF_MARGIN + 380,
+  rate: PDF_MARGIN + 430,
+  commission: PDF_MARGIN + PDF_CONTENT_WIDTH,
+};
+
+export function statementToPdf(statement: PayoutStatement) {
+  const { payout, creator } = statement;
+  const money = (amount: number) =>
+    `${formatAmount(amount)} ${payout.currency}`;
+  const right = (text: string, x: number) => ({
+    text,
+    x,
+    align: "right" as const,
+  });
+  const summaryRow = (label: string, amount: number, bold = false) => ({
+    cells: [
+      { text: label, x: COLUMNS.item },
+      right(money(amount), COLUMNS.commission),
+    ],
+    bold,
+  });
+
+  const rows: PdfRow[] = [
+    {
+      cells: [{ text: "Payout Statement", x: PDF_MARGIN }],
+      size: 18,
+      bold: true,
+    },
+    { space: 6 },
+    {
+      cells: [
+        { text: `Payout PO-${payout.id}`, x: PDF_MARGIN },
+        right(
+          `Period: ${payoutPeriodLabel(payout.period)}`,
+          COLUMNS.commission
+        ),
+      ],
+    },
+    {
+      cells: [
+        { text: creator.name || creator.id, x: PDF_MARGIN },
+        right(
+          `Created: ${payout.created_at.slice(0, 10)}`,
+          COLUMNS.commission
+        ),
+      ],
+    },
+    {
+      cells: [
+        { text: creator.email || "", x: PDF_MARGIN },
+        right(
+          `Method: ${payout.method === "paypal" ? "PayPal" : "Bank transfer"}`,
+          COLUMNS.commission
+        ),
+      ],
+    },
+    { space: 10 },
+    {
+      cells: [
+        { text: "Poster / Variant", x: COLUMNS.item },
+        right("Qty", COLUMNS.quantity),
+        right("Gross", COLUMNS.gross),
+        right("Net", COLUMNS.net),
+        right("Rate", COLUMNS.rate),
+        right("Commission", COLUMNS.commission),
+      ],
+      bold: true,
+    },
+    { rule: true },
+  ];
+
+  statement.posters.forEach((poster) => {
+    rows.push({
+      cells: [
+        { text: poster.title.slice(0, 45), x: COLUMNS.item },
+        right(String(poster.quantity), COLUMNS.quantity),
+        right(formatAmount(poster.net), COLUMNS.net),
+        right(formatAmount(poster.commission), COLUMNS.commission),
+      ],
+      bold: true,
+    });
+    poster.variants.forEach((variant) =>
+      rows.push({
+        cells: [
+          { text: variant.title.slice(0, 45), x: COLUMNS.item + 12 },
+          right(String(variant.quantity), COLUMNS.quantity),
+          right(formatAmount(variant.gross), COLUMNS.gross),
+          right(formatAmount(variant.net), COLUMNS.net),
+          right(formatRate(variant.commission_rate), COLUMNS.rate),
+          right(formatAmount(variant.commission), COLUMNS.commission),
+        ],
+        size: 9,
+      })
+    );
+  });
+
+  if (statement.posters.length === 0) {
+    rows.push({
+      cells: [{ text: "No sales in this payout", x: COLUMNS.item }],
+    });
+  }
+
+  rows.push({ rule: true });
+  rows.push(summaryRow("Commission from sales", statement.totals.commission));
+  if (payout.balance_amount) {
+    rows.push(
+      summaryRow("Rolled over from earlier months", payout.balance_amount)
+    );
+  }
+  statement.adjustments.forEach((adjustment) =>
+    rows.push(
+      summaryRow(
+        `${adjustment.type === "chargeback" ? "Chargeback" : "Refund"} ${
+          adjustment.order || ""
+        } ${adjustment.reason ? `(${adjustment.reason.slice(0, 40)})` : ""}`,
+        adjustment.amount
+      )
+    )
+  );
+  rows.push({ rule: true });
+  rows.push(summaryRow("Payout amount", payout.amount, true));
+  rows.push({ space: 20 });
+  rows.push({
+    cells: [
+      {
+        text: `Generated ${statement.generated_at.slice(
+          0,
+          10
+        )}. Amounts in ${payout.currency}.`,
+        x: PDF_MARGIN,
+      },
+    ],
+    size: 8,
+  });
+
+  return buildPdf(rows);
+}
+
+// File contents and headers for a statement download
+export function renderStatement(
+  statement: PayoutStatement,
+  format: "pdf" | "csv"
+) {
+  return {
+    body:
+      format === "pdf" ? statementToPdf(statement) : statementToCsv(statement),
+    contentType: format === "pdf" ? "application/pdf" : "text/csv",
+    fileName: statementFileName(statement, format),
+  };
+}
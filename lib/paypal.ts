@@ -0,0 +1,216 @@
+/**
+ * PayPal Payouts batch files and result reports for PayPal payouts.
+ *
+ * A batch is produced both as the CSV accepted by the PayPal Payouts web
+ * upload and as the JSON body of the Payouts API (POST /v1/payments/payouts).
+ * Each item carries the payout reference (PO-<id>) as its sender item ID, so
+ * PayPal's result report can be matched back to our payouts.
+ */
+
+export interface PayPalPayoutItem {
+  senderItemId: string;
+  receiver: string;
+  amount: number;
+  currency: string;
+  note: string;
+}
+
+export type PayPalItemOutcome = "completed" | "failed" | "pending";
+
+export interface PayPalReportRow {
+  senderItemId: string;
+  status: string;
+  outcome: PayPalItemOutcome;
+  transactionId: string | null;
+  reason: string | null;
+}
+
+// Transaction statuses from the Payouts API and the web report
+const COMPLETED_STATUSES = ["SUCCESS", "COMPLETED"];
+const FAILED_STATUSES = [
+  "FAILED",
+  "RETURNED",
+  "BLOCKED",
+  "REFUNDED",
+  "REVERSED",
+  "DENIED",
+  "CANCELED",
+];
+
+export function isValidPayPalEmail(email: string) {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim());
+}
+
+const formatAmount = (amount: number) => amount.toFixed(2);
+
+const csvValue = (value: string) =>
+  /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * CSV for the PayPal Payouts web upload. PayPal expects no header row and the
+ * columns: recipient, amount, currency, reference ID, note, recipient wallet.
+ */
+export function buildPayPalCsv(items: PayPalPayoutItem[]) {
+  return (
+    items
+      .map((item) =>
+        [
+          item.receiver.trim(),
+          formatAmount(item.amount),
+          item.currency,
+          item.senderItemId,
+          item.note,
+          "PayPal",
+        ]
+          .map(csvValue)
+          .join(",")
+      )
+      .join("\n") + "\n"
+  );
+}
+
+// Request body for the Payouts API
+export function buildPayPalPayload(
+  senderBatchId: string,
+  items: PayPalPayoutItem[]
+) {
+  return {
+    sender_batch_header: {
+      sender_batch_id: senderBatchId,
+      email_subject: "You have a payout!",
+      email_message: "Your creator earnings have been paid out.",
+    },
+    items: items.map((item) => ({
+      recipient_type: "EMAIL",
+      amount: {
+        value: formatAmount(item.amount),
+        currency: item.currency,
+      },
+      note: item.note,
+      sender_item_id: item.senderItemId,
+      receiver: item.receiver.trim(),
+    })),
+  };
+}
+
+function outcomeFor(status: string): PayPalItemOutcome {
+  const normalized = status.trim().toUpperCase();
+  if (COMPLETED_STATUSES.includes(normalized)) return "completed";
+  if (FAILED_STATUSES.includes(normalized)) return "failed";
+  // PENDING, UNCLAIMED, ONHOLD etc. may still go either way
+  return "pending";
+}
+
+// Minimal RFC 4180 parser (quoted fields, escaped quotes, CRLF)
+function parseCsv(text: string) {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+}
+
+const HEADER_ALIASES = {
+  senderItemId: ["sender item id", "reference id", "customer id", "unique id"],
+  status: ["transaction status", "status", "item status"],
+  transactionId: ["transaction id", "payout item id"],
+  reason: ["failure reason", "reason", "error", "error message"],
+};
+
+type PayPalApiItem = {
+  transaction_id?: string;
+  transaction_status?: string;
+  payout_item_id?: string;
+  payout_item?: { sender_item_id?: string };
+  errors?: { name?: string; message?: string };
+};
+
+/**
+ * Parse a PayPal result report: either the JSON returned by the Payouts API
+ * for a batch (GET /v1/payments/payouts/{id}) or the CSV report downloaded
+ * from the PayPal dashboard. Rows without a sender item ID are skipped.
+ */
+export function parsePayPalReport(report: string): PayPalReportRow[] {
+  const trimmed = report.trim();
+
+  if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+    const json = JSON.parse(trimmed);
+    const items: PayPalApiItem[] = Array.isArray(json)
+      ? json
+      : json.items || [];
+
+    return items
+      .filter((item) => item.payout_item?.sender_item_id)
+      .map((item) => ({
+        senderItemId: item.payout_item!.sender_item_id!,
+        status: item.transaction_status || "",
+        outcome: outcomeFor(item.transaction_status || ""),
+        transactionId: item.transaction_id || item.payout_item_id || null,
+        reason: item.errors?.message || item.errors?.name || null,
+      }));
+  }
+
+  const [header, ...rows] = parseCsv(trimmed);
+  if (!header) return [];
+
+  const columns = header.map((cell) => cell.trim().toLowerCase());
+  const findColumn = (aliases: string[]) =>
+    aliases
+      .map((alias) => columns.indexOf(alias))
+      .find((index) => index !== -1) ?? -1;
+
+  const idColumn = findColumn(HEADER_ALIASES.senderItemId);
+  const statusColumn = findColumn(HEADER_ALIASES.status);
+  if (idColumn === -1 || statusColumn === -1) {
+    throw new Error(
+      "The report needs a sender item ID (or reference ID) and a status column"
+    );
+  }
+  const transactionColumn = findColumn(HEADER_ALIASES.transactionId);
+  const reasonColumn = findColumn(HEADER_ALIASES.reason);
+
+  return rows
+    .filter((row) => row[idColumn]?.trim())
+    .map((row) => ({
+      senderItemId: row[idColumn].trim(),
+      status: row[statusColumn]?.trim() || "",
+      outcome: outcomeFor(row[statusColumn] || ""),
+      transactionId:
+        transactionColumn === -1 ? null : row[transactionColumn] || null,
+      reason: reasonColumn === -1 ? null : row[reasonColumn] || null,
+    }));
+}
@@ -0,0 +1,150 @@
+/**
+ * Minimal PDF writer for text documents such as payout statements.
+ *
+ * Only supports the standard Helvetica fonts (no embedding), text rows at
+ * fixed x positions and horizontal rules, which is all a statement needs.
+ * Pages are A4 and rows flow onto a new page when the current one is full.
+ */
+
+export interface PdfCell {
+  text: string;
+  x: number;
+  align?: "left" | "right";
+}
+
+export type PdfRow =
+  | { cells: PdfCell[]; size?: number; bold?: boolean }
+  | { rule: true }
+  | { space: number };
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+export const PDF_MARGIN = 50;
+export const PDF_CONTENT_WIDTH = PAGE_WIDTH - PDF_MARGIN * 2;
+
+const DEFAULT_SIZE = 10;
+
+// Helvetica glyph widths (per 1000 units) for the characters that matter for
+// right-aligned numbers; everything else uses an average width
+const GLYPH_WIDTHS: Record<string, number> = {
+  " ": 278,
+  ".": 278,
+  ",": 278,
+  "-": 333,
+  "%": 889,
+  "(": 333,
+  ")": 333,
+  "/": 278,
+};
+
+function textWidth(text: string, size: number, bold: boolean) {
+  let units = 0;
+  for (const char of text) {
+    units +=
+      GLYPH_WIDTHS[char] ?? (/\d/.test(char) ? 556 : bold ? 611 : 556);
+  }
+  return (units / 1000) * size;
+}
+
+// Strings are written as WinAnsi; characters outside Latin-1 become "?"
+function escapeText(text: string) {
+  return text
+    .replace(/[^\x20-\xff]/g, "?")
+    .replace(/\\/g, "\\\\")
+    .replace(/\(/g, "\\(")
+    .replace(/\)/g, "\\)");
+}
+
+function layoutPages(rows: PdfRow[]) {
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - PDF_MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y - height < PDF_MARGIN) {
+      pages.push([]);
+      y = PAGE_HEIGHT - PDF_MARGIN;
+    }
+  };
+
+  rows.forEach((row) => {
+    const page = () => pages[pages.length - 1];
+
+    if ("space" in row) {
+      y -= row.space;
+      return;
+    }
+
+    if ("rule" in row) {
+      ensureSpace(8);
+      y -= 4;
+      page().push(
+        `0.5 w ${PDF_MARGIN} ${y} m ${PAGE_WIDTH - PDF_MARGIN} ${y} l S`
+      );
+      y -= 8;
+      return;
+    }
+
+    const size = row.size || DEFAULT_SIZE;
+    const lineHeight = size * 1.4;
+    ensureSpace(lineHeight);
+    y -= lineHeight;
+
+    row.cells.forEach((cell) => {
+      const x =
+        cell.align === "right"
+          ? cell.x - textWidth(cell.text, size, !!row.bold)
+          : cell.x;
+      page().push(
+        `BT /${row.bold ? "F2" : "F1"} ${size} Tf ${x.toFixed(2)} ${y.toFixed(
+          2
+        )} Td (${escapeText(cell.text)}) Tj ET`
+      );
+    });
+  });
+
+  return pages;
+}
+
+// Render rows into a PDF file
+export function buildPdf(rows: PdfRow[]): Uint8Array {
+  const pages = layoutPages(rows);
+  const objects: string[] = [];
+
+  // 1: catalog, 2: page tree, 3/4: fonts, then a page + content per page
+  const pageIds = pages.map((_, index) => 5 + index * 2);
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[2] = `<< /Type /Pages /Kids [${pageIds
+    .map((id) => `${id} 0 R`)
+    .join(" ")}] /Count ${pages.length} >>`;
+  objects[3] =
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>";
+  objects[4] =
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>";
+
+  pages.forEach((commands, index) => {
+    const pageId = pageIds[index];
+    const content = commands.join("\n");
+    objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${
+      pageId + 1
+    } 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${
+      Buffer.byteLength(content, "latin1")
+    } >>\nstream\n${content}\nendstream`;
+  });
+
+  let output = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(output, "latin1");
+    output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = Buffer.byteLength(output, "latin1");
+  output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    output += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+  }
+  output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return new Uint8Array(Buffer.from(output, "latin1"));
+}
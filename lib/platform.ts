@@ -0,0 +1,32 @@
+/**
+ * Legal details of the company operating the platform, printed on documents
+ * creators may need for their tax filing. Configured through env variables so
+ * each deployment carries its own entity.
+ */
+export interface PlatformLegalDetails {
+  name: string;
+  address: string[];
+  registrationNumber: string | null;
+  vatNumber: string | null;
+  email: string | null;
+}
+
+export function getPlatformLegalDetails(): PlatformLegalDetails {
+  const name = process.env.PLATFORM_LEGAL_NAME;
+
+  if (!name) {
+    throw new Error("PLATFORM_LEGAL_NAME must be configured");
+  }
+
+  return {
+    name,
+    // Address lines are separated by "|" or newlines
+    address: (process.env.PLATFORM_LEGAL_ADDRESS || "")
+      .split(/[|\n]/)
+      .map((line) => line.trim())
+      .filter(Boolean),
+    registrationNumber: process.env.PLATFORM_REGISTRATION_NUMBER || null,
+    vatNumber: process.env.PLATFORM_VAT_NUMBER || null,
+    email: process.env.PLATFORM_CONTACT_EMAIL || null,
+  };
+}
@@ -0,0 +1,732 @@
+import type { createClient } from "@/utils/supabase/server";
+import { shopifyGraphQL } from "@/utils/shopify/gateway";
+import {
+  descriptionToHtml,
+  htmlToDescription,
+  throwUserErrors,
+  UserError,
+} from "@/lib/shopify-products";
+import { getExchangeRates } from "@/lib/currency";
+import { listShops, Shop, shopCredentials, shopPriceRate } from "@/lib/shops";
+import {
+  fetchPosterFrames,
+  frameByOptionValue,
+  PosterFrameOption,
+  unframed,
+} from "@/lib/poster-frames";
+import {
+  fetchPosterSizes,
+  PosterSizeOption,
+  sizeOptionValue,
+  sizePriceError,
+} from "@/lib/poster-sizes";
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+/**
+ * Keeps a live poster's title, description and prices in step with its
+ * Shopify product.
+ *
+ * Creators can't edit a poster directly: their edits are stored as a change
+ * request, and only once an admin approves it are the values pushed to the
+ * Shopify product and written to the poster. Edits made in Shopify arrive
+ * through the products/update webhook and are written to the poster straight
+ * away, with a change request recorded for the history.
+ *
+ * Approved changes go to the poster's product in every shop, with prices
+ * converted to the shop's currency. Only edits made in the primary shop are
+ * copied back to the poster.
+ */
+
+// Prices are per poster size, as strings, like posters.prices
+export interface PosterChanges {
+  title?: string;
+  description?: string;
+  prices?: Record<string, string>;
+}
+
+export interface PosterChangeRequest {
+  id: number;
+  poster_id: string;
+  creator_id: string;
+  source: "creator" | "shopify";
+  changes: PosterChanges;
+  previous: PosterChanges;
+  status: "pending" | "approved" | "rejected";
+  review_note: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  error: string | null;
+  created_at: string;
+}
+
+type EditablePoster = {
+  id: string;
+  creator_id: string;
+  title: string;
+  description: string | null;
+  prices: Record<string, string> | null;
+  selected_sizes: string[];
+  shopify_product_id: string | null;
+};
+
+const EDITABLE_POSTER_COLUMNS =
+  "id, creator_id, title, description, prices, selected_sizes, shopify_product_id";
+
+const MAX_TITLE_LENGTH = 255;
+
+const formatPrice = (price: number) => price.toFixed(2);
+
+const samePrice = (a: string | undefined, b: string | undefined) =>
+  parseFloat(a || "") === parseFloat(b || "");
+
+// Compare descriptions the way Shopify stores them, ignoring spacing
+const sameDescription = (a: string | null, b: string | null) =>
+  htmlToDescription(descriptionToHtml(a)) ===
+  htmlToDescription(descriptionToHtml(b));
+
+// The poster's current values for the fields in `changes`
+function currentValues(poster: EditablePoster, changes: PosterChanges) {
+  const previous: PosterChanges = {};
+  if (changes.title !== undefined) previous.title = poster.title;
+  if (changes.description !== undefined) {
+    previous.description = poster.description || "";
+  }
+  if (changes.prices) {
+    previous.prices = Object.fromEntries(
+      Object.keys(changes.prices).map((size) => [
+        size,
+        poster.prices?.[size] || "",
+      ])
+    );
+  }
+  return previous;
+}
+
+// Fields of a request whose values on the poster are no longer the ones the
+// request was made against, e.g. because they were edited in Shopify since
+function staleFields(poster: EditablePoster, request: PosterChangeRequest) {
+  const { previous } = request;
+  const current = currentValues(poster, request.changes);
+  const stale: string[] = [];
+
+  if (previous.title !== undefined && previous.title !== current.title) {
+    stale.push("title");
+  }
+  if (
+    previous.description !== undefined &&
+    !sameDescription(previous.description, current.description ?? null)
+  ) {
+    stale.push("description");
+  }
+  Object.entries(previous.prices || {}).forEach(([size, price]) => {
+    if (!samePrice(price, current.prices?.[size])) {
+      stale.push(`${size} price`);
+    }
+  });
+
+  return stale;
+}
+
+/**
+ * Check a creator's edit against the poster and keep only what actually
+ * changes. Prices can only be set for the poster's sizes and never below the
+ * size's minimum price.
+ */
+export function validatePosterChanges(
+  poster: EditablePoster,
+  input: PosterChanges,
+  sizes: PosterSizeOption[]
+): PosterChanges {
+  const changes: PosterChanges = {};
+
+  if (input.title !== undefined) {
+    const title = String(input.title).trim();
+    if (!title) {
+      throw new Error("Title is required");
+    }
+    if (title.length > MAX_TITLE_LENGTH) {
+      throw new Error(`Title must be at most ${MAX_TITLE_LENGTH} characters`);
+    }
+    if (title !== poster.title) changes.title = title;
+  }
+
+  if (input.description !== undefined) {
+    const description = String(input.description).trim();
+    if (!sameDescription(description, poster.description)) {
+      changes.description = description;
+    }
+  }
+
+  if (input.prices) {
+    const prices: Record<string, string> = {};
+
+    for (const [size, value] of Object.entries(input.prices)) {
+      if (!poster.selected_sizes.includes(size)) {
+        throw new Error(`Poster is not sold in size ${size}`);
+      }
+
+      const price = parseFloat(String(value));
+      if (!Number.isFinite(price) || price <= 0) {
+        throw new Error(`Invalid price for size ${size}`);
+      }
+
+      // Only new prices are checked against the catalogue, so posters in a
+      // size that was since retired or repriced can still be edited
+      if (!samePrice(String(price), poster.prices?.[size])) {
+        const priceError = sizePriceError(sizes, size, price);
+        if (priceError) throw new Error(priceError);
+        prices[size] = formatPrice(price);
+      }
+    }
+
+    if (Object.keys(prices).length > 0) changes.prices = prices;
+  }
+
+  if (Object.keys(changes).length === 0) {
+    throw new Error("Nothing was changed");
+  }
+
+  return changes;
+}
+
+async function fetchEditablePoster(
+  supabase: SupabaseServerClient,
+  posterId: string
+): Promise<EditablePoster> {
+  const { data, error } = await supabase
+    .from("posters")
+    .select(EDITABLE_POSTER_COLUMNS)
+    .eq("id", posterId)
+    .single();
+
+  if (error || !data) {
+    throw new Error("Poster not found");
+  }
+
+  return data as EditablePoster;
+}
+
+/**
+ * Queue a creator's edit for review. A creator editing a poster that
+ * already has a pending request updates that request instead.
+ */
+export async function submitPosterChange(
+  supabase: SupabaseServerClient,
+  creatorId: string,
+  posterId: string,
+  input: PosterChanges
+): Promise<PosterChangeRequest> {
+  const poster = await fetchEditablePoster(supabase, posterId);
+  if (poster.creator_id !== creatorId) {
+    throw new Error("Poster not found");
+  }
+
+  const changes = validatePosterChanges(
+    poster,
+    input,
+    await fetchPosterSizes(supabase)
+  );
+  const previous = currentValues(poster, changes);
+
+  const { data: pending, error: pendingError } = await supabase
+    .from("poster_change_requests")
+    .select("id")
+    .eq("poster_id", posterId)
+    .eq("status", "pending")
+    .maybeSingle();
+
+  if (pendingError) {
+    throw new Error(
+      `Failed to fetch pending changes: ${pendingError.message}`
+    );
+  }
+
+  const { data, error } = pending
+    ? await supabase
+        .from("poster_change_requests")
+        .update({
+          changes,
+          previous,
+          error: null,
+          created_at: new Date().toISOString(),
+        })
+        .eq("id", pending.id)
+        .select()
+        .single()
+    : await supabase
+        .from("poster_change_requests")
+        .insert({
+          poster_id: posterId,
+          creator_id: creatorId,
+          source: "creator",
+          changes,
+          previous,
+        })
+        .select()
+        .single();
+
+  if (error) {
+    throw new Error(`Failed to save changes: ${error.message}`);
+  }
+
+  return data as PosterChangeRequest;
+}
+
+type ProductVariantsResponse = {
+  product: {
+    variants: {
+      nodes: Array<{
+        id: string;
+        price: string;
+        selectedOptions: Array<{ name: string; value: string }>;
+      }>;
+    };
+  } | null;
+};
+
+const PRODUCT_VARIANTS_QUERY = `
+  query productVariants($id: ID!) {
+    product(id: $id) {
+      variants(first: 100) {
+        nodes {
+          id
+          price
+          selectedOptions {
+            name
+            value
+          }
+        }
+      }
+    }
+  }
+`;
+
+const PRODUCT_UPDATE_MUTATION = `
+  mutation productUpdate($product: ProductUpdateInput!) {
+    productUpdate(product: $product) {
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+const VARIANTS_UPDATE_MUTATION = `
+  mutation productVariantsBulkUpdate(
+    $productId: ID!
+    $variants: [ProductVariantsBulkInput!]!
+  ) {
+    productVariantsBulkUpdate(productId: $productId, variants: $variants) {
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+const optionValue = (
+  options: Array<{ name: string; value: string }>,
+  name: string
+) => options.find((option) => option.name === name)?.value;
+
+type ShopProduct = { shop: Shop; productId: string; rate: number };
+
+/**
+ * Apply changes to the poster's product in one shop. Each variant of a
+ * repriced size is set to the new size price plus its frame's surcharge,
+ * times the shop's rate; a frame the store added by hand keeps its current
+ * markup over the size price the request was made against.
+ */
+async function pushToShopify(
+  { shop, productId: shopifyProductId, rate }: ShopProduct,
+  { changes, previous }: Pick<PosterChangeRequest, "changes" | "previous">,
+  sizes: PosterSizeOption[],
+  frames: PosterFrameOption[]
+) {
+  const productId = `gid://shopify/Product/${shopifyProductId}`;
+  // The updates set absolute values, so they are safe to retry
+  const options = { shop: shopCredentials(shop), idempotent: true };
+
+  if (changes.title !== undefined || changes.description !== undefined) {
+    const { productUpdate } = await shopifyGraphQL<{
+      productUpdate: { userErrors: UserError[] };
+    }>(
+      PRODUCT_UPDATE_MUTATION,
+      {
+        product: {
+          id: productId,
+          ...(changes.title !== undefined && { title: changes.title }),
+          ...(changes.description !== undefined && {
+            descriptionHtml: descriptionToHtml(changes.description),
+          }),
+        },
+      },
+      options
+    );
+    throwUserErrors("update Shopify product", productUpdate.userErrors);
+  }
+
+  if (!changes.prices) return;
+  const prices = changes.prices;
+
+  const { product } = await shopifyGraphQL<ProductVariantsResponse>(
+    PRODUCT_VARIANTS_QUERY,
+    { id: productId },
+    options
+  );
+  if (!product) {
+    throw new Error(
+      `The poster's Shopify product in ${shop.domain} no longer exists`
+    );
+  }
+
+  const variants = product.variants.nodes.flatMap((variant) => {
+    const size = Object.keys(prices).find(
+      (size) =>
+        optionValue(variant.selectedOptions, "Size") ===
+        sizeOptionValue(sizes, size)
+    );
+    if (!size) return [];
+
+    const newPrice = parseFloat(prices[size]) * rate;
+    const frame = frameByOptionValue(
+      frames,
+      optionValue(variant.selectedOptions, "Frame")
+    );
+    const price = frame
+      ? newPrice + frame.surcharge * rate
+      : parseFloat(variant.price) -
+        (parseFloat(previous.prices?.[size] || "") || 0) * rate +
+        newPrice;
+
+    return [{ id: variant.id, price: formatPrice(price) }];
+  });
+
+  if (variants.length === 0) return;
+
+  const { productVariantsBulkUpdate } = await shopifyGraphQL<{
+    productVariantsBulkUpdate: { userErrors: UserError[] };
+  }>(VARIANTS_UPDATE_MUTATION, { productId, variants }, options);
+  throwUserErrors(
+    "update Shopify prices",
+    productVariantsBulkUpdate.userErrors
+  );
+}
+
+// The poster's product in every active shop, primary shop first, with the
+// rate its prices are converted at
+async function fetchShopProducts(
+  supabase: SupabaseServerClient,
+  poster: EditablePoster,
+  { baseUrl, convert }: { baseUrl: string; convert: boolean }
+): Promise<ShopProduct[]> {
+  const [shops, { data, error }] = await Promise.all([
+    listShops(supabase),
+    supabase
+      .from("creator_products")
+      .select("shop, shopify_product_id")
+      .eq("poster_id", poster.id),
+  ]);
+
+  if (error) {
+    throw new Error(`Failed to fetch poster products: ${error.message}`);
+  }
+
+  const primary = shops.find((shop) => shop.is_primary) || shops[0];
+  const productIds = new Map<string, string>(
+    (data || []).map((row) => [row.shop, row.shopify_product_id])
+  );
+  if (poster.shopify_product_id) {
+    productIds.set(primary.domain, poster.shopify_product_id);
+  }
+
+  const linked = shops.filter((shop) => productIds.has(shop.domain));
+  const rates =
+    convert && linked.some((shop) => shop.currency !== primary.currency)
+      ? (await getExchangeRates(baseUrl)).rates
+      : null;
+
+  return linked.map((shop) => {
+    const rate = rates ? shopPriceRate(shop, primary, rates) : 1;
+    if (rate === null) {
+      throw new Error(
+        `No exchange rate from ${primary.currency} to ${shop.currency} for ${shop.domain}`
+      );
+    }
+    return { shop, productId: productIds.get(shop.domain) as string, rate };
+  });
+}
+
+// Write changes onto the poster row
+async function applyToPoster(
+  supabase: SupabaseServerClient,
+  poster: EditablePoster,
+  changes: PosterChanges
+) {
+  const { error } = await supabase
+    .from("posters")
+    .update({
+      ...(changes.title !== undefined && { title: changes.title }),
+      ...(changes.description !== undefined && {
+        description: changes.description,
+      }),
+      ...(changes.prices && {
+        prices: { ...(poster.prices || {}), ...changes.prices },
+      }),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", poster.id);
+
+  if (error) {
+    throw new Error(`Failed to update poster: ${error.message}`);
+  }
+}
+
+async function fetchPendingRequest(
+  supabase: SupabaseServerClient,
+  requestId: number
+): Promise<PosterChangeRequest> {
+  const { data, error } = await supabase
+    .from("poster_change_requests")
+    .select("*")
+    .eq("id", requestId)
+    .single();
+
+  if (error || !data) {
+    throw new Error("Change request not found");
+  }
+  if (data.status !== "pending") {
+    throw new Error(`Change request is already ${data.status}`);
+  }
+
+  return data as PosterChangeRequest;
+}
+
+/**
+ * Push an approved change to every shop, then to the poster. If Shopify
+ * rejects it the request stays pending with the error, so it can be
+ * approved again once the cause is fixed. baseUrl is used to fetch exchange
+ * rates for shops in another currency.
+ */
+export async function approvePosterChange(
+  supabase: SupabaseServerClient,
+  requestId: number,
+  adminId: string,
+  note?: string,
+  { baseUrl = "" }: { baseUrl?: string } = {}
+) {
+  const request = await fetchPendingRequest(supabase, requestId);
+  const poster = await fetchEditablePoster(supabase, request.poster_id);
+
+  // Don't overwrite edits made after the request, e.g. in Shopify
+  const stale = staleFields(poster, request);
+  if (stale.length > 0) {
+    const message = `The poster's ${stale.join(", ")} changed since this request was made; reject it and ask the creator to edit the poster again`;
+    await supabase
+      .from("poster_change_requests")
+      .update({ error: message })
+      .eq("id", requestId);
+    throw new Error(message);
+  }
+
+  if (poster.shopify_product_id) {
+    try {
+      const products = await fetchShopProducts(supabase, poster, {
+        baseUrl,
+        convert: Boolean(request.changes.prices),
+      });
+      // Retired sizes and frames still have variants on existing products
+      const [sizes, frames] = await Promise.all([
+        fetchPosterSizes(supabase, { includeInactive: true }),
+        fetchPosterFrames(supabase, { includeInactive: true }),
+      ]);
+      for (const product of products) {
+        await pushToShopify(product, request, sizes, frames);
+      }
+    } catch (pushError) {
+      const message =
+        pushError instanceof Error ? pushError.message : String(pushError);
+      await supabase
+        .from("poster_change_requests")
+        .update({ error: message })
+        .eq("id", requestId);
+      throw new Error(message);
+    }
+  }
+
+  await applyToPoster(supabase, poster, request.changes);
+
+  const { error } = await supabase
+    .from("poster_change_requests")
+    .update({
+      status: "approved",
+      review_note: note || null,
+      reviewed_by: adminId,
+      reviewed_at: new Date().toISOString(),
+      error: null,
+    })
+    .eq("id", requestId);
+
+  if (error) {
+    throw new Error(`Failed to update change request: ${error.message}`);
+  }
+}
+
+export async function rejectPosterChange(
+  supabase: SupabaseServerClient,
+  requestId: number,
+  adminId: string,
+  note?: string
+) {
+  await fetchPendingRequest(supabase, requestId);
+
+  const { error } = await supabase
+    .from("poster_change_requests")
+    .update({
+      status: "rejected",
+      review_note: note || null,
+      reviewed_by: adminId,
+      reviewed_at: new Date().toISOString(),
+    })
+    .eq("id", requestId);
+
+  if (error) {
+    throw new Error(`Failed to update change request: ${error.message}`);
+  }
+}
+
+// The fields of the REST product payload sent with products/update
+export type ShopifyProductPayload = {
+  id: number;
+  title?: string;
+  body_html?: string | null;
+  options?: Array<{ name: string; position: number }>;
+  variants?: Array<{
+    price: string;
+    option1: string | null;
+    option2: string | null;
+    option3: string | null;
+  }>;
+};
+
+// Size prices on a Shopify product, taken from each size's variants less
+// their frame surcharge (preferring the unframed variant)
+function shopifySizePrices(
+  product: ShopifyProductPayload,
+  sizes: string[],
+  catalogue: PosterSizeOption[],
+  frames: PosterFrameOption[]
+): Record<string, string> {
+  const position = (name: string) =>
+    product.options?.find((option) => option.name === name)?.position;
+  const sizePosition = position("Size");
+  const framePosition = position("Frame");
+  if (!sizePosition || !product.variants) return {};
+
+  const value = (
+    variant: NonNullable<ShopifyProductPayload["variants"]>[number],
+    optionPosition: number | undefined
+  ) =>
+    optionPosition
+      ? variant[`option${optionPosition}` as "option1" | "option2" | "option3"]
+      : null;
+
+  const prices: Record<string, string> = {};
+
+  sizes.forEach((size) => {
+    const candidates = product.variants!.flatMap((variant) => {
+      if (value(variant, sizePosition) !== sizeOptionValue(catalogue, size)) {
+        return [];
+      }
+
+      const frame = framePosition
+        ? frameByOptionValue(frames, value(variant, framePosition))
+        : unframed(frames);
+      if (!frame) return [];
+
+      return [
+        { surcharge: frame.surcharge, price: parseFloat(variant.price) },
+      ];
+    });
+
+    candidates.sort((a, b) => a.surcharge - b.surcharge);
+    if (candidates.length > 0) {
+      prices[size] = formatPrice(candidates[0].price - candidates[0].surcharge);
+    }
+  });
+
+  return prices;
+}
+
+/**
+ * Reflect edits made in Shopify back onto the poster. Returns the recorded
+ * change request, or null when the product matches the poster (including
+ * the webhook Shopify sends for our own updates).
+ */
+export async function reflectShopifyProduct(
+  supabase: SupabaseServerClient,
+  product: ShopifyProductPayload
+): Promise<PosterChangeRequest | null> {
+  const { data, error: posterError } = await supabase
+    .from("posters")
+    .select(EDITABLE_POSTER_COLUMNS)
+    .eq("shopify_product_id", String(product.id))
+    .maybeSingle();
+
+  if (posterError) {
+    throw new Error(`Failed to fetch poster: ${posterError.message}`);
+  }
+  if (!data) return null;
+
+  const poster = data as EditablePoster;
+  const changes: PosterChanges = {};
+
+  if (product.title && product.title !== poster.title) {
+    changes.title = product.title;
+  }
+
+  if (product.body_html !== undefined) {
+    const description = htmlToDescription(product.body_html);
+    if (!sameDescription(description, poster.description)) {
+      changes.description = description;
+    }
+  }
+
+  const [catalogue, frames] = await Promise.all([
+    fetchPosterSizes(supabase, { includeInactive: true }),
+    fetchPosterFrames(supabase, { includeInactive: true }),
+  ]);
+  const prices = Object.fromEntries(
+    Object.entries(
+      shopifySizePrices(product, poster.selected_sizes, catalogue, frames)
+    ).filter(([size, price]) => !samePrice(price, poster.prices?.[size]))
+  );
+  if (Object.keys(prices).length > 0) changes.prices = prices;
+
+  if (Object.keys(changes).length === 0) return null;
+
+  await applyToPoster(supabase, poster, changes);
+
+  const { data: request, error } = await supabase
+    .from("poster_change_requests")
+    .insert({
+      poster_id: poster.id,
+      creator_id: poster.creator_id,
+      source: "shopify",
+      changes,
+      previous: currentValues(poster, changes),
+      status: "approved",
+      reviewed_at: new Date().toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to record Shopify changes: ${error.message}`);
+  }
+
+  return request as PosterChangeRequest;
+}
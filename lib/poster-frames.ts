@@ -0,0 +1,62 @@
+import type { createClient } from "@/utils/supabase/server";
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+/**
+ * The frame catalogue (poster_frames): the "Frame" option every poster
+ * product in the store is sold with.
+ *
+ * option_value is the frame's option value on Shopify products and
+ * surcharge is added to the creator's price for the size (in the primary
+ * shop's currency). New products get the active frames; inactive ones are
+ * kept so variants of frames the store used to sell are still recognised.
+ */
+export interface PosterFrameOption {
+  id: string;
+  label: string;
+  option_value: string;
+  surcharge: number;
+  active: boolean;
+  sort_order: number;
+  created_at?: string;
+  updated_at?: string | null;
+}
+
+export const POSTER_FRAME_FIELDS =
+  "id, label, option_value, surcharge, active, sort_order, created_at, updated_at";
+
+// The catalogue in display order, active frames only unless asked otherwise
+export async function fetchPosterFrames(
+  supabase: SupabaseServerClient,
+  { includeInactive = false }: { includeInactive?: boolean } = {}
+): Promise<PosterFrameOption[]> {
+  let query = supabase
+    .from("poster_frames")
+    .select(POSTER_FRAME_FIELDS)
+    .order("sort_order")
+    .order("id");
+
+  if (!includeInactive) query = query.eq("active", true);
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch poster frames: ${error.message}`);
+  }
+
+  return ((data || []) as PosterFrameOption[]).map((row) => ({
+    ...row,
+    surcharge: Number(row.surcharge),
+  }));
+}
+
+// The frame a "Frame" option value stands for
+export const frameByOptionValue = (
+  frames: PosterFrameOption[],
+  value: string | null | undefined
+) => frames.find((frame) => frame.option_value === value) || null;
+
+// What products without a Frame option are sold as: the first frame without
+// a surcharge
+export const unframed = (frames: PosterFrameOption[]) =>
+  frames.find((frame) => frame.surcharge === 0) || null;
@@ -0,0 +1,509 @@
+import sharp from "sharp";
+import type { createClient } from "@/utils/supabase/server";
+import type { Json } from "@/types/types";
+import { ImageInfo, readImageInfo } from "@/lib/image-info";
+import {
+  IMAGES_BUCKET,
+  isUrl,
+  MAX_ARTWORK_BYTES,
+  ORIGINALS_BUCKET,
+  PosterImage,
+  PosterImages,
+  toPosterImages,
+} from "@/lib/poster-images";
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+/**
+ * Server-side handling of poster images (see PosterImage): the web-sized
+ * derivatives generated on upload, where each file is stored, signed URLs
+ * of the private print files, and moving the files of earlier posters into
+ * this layout.
+ */
+
+// Longest side of each derivative, in pixels
+const THUMB_SIZE = 400;
+const PREVIEW_SIZE = 1600;
+
+const WATERMARK_TEXT = "DEINSPAR";
+
+// How long signed URLs of print files stay valid, in seconds
+const SIGNED_URL_TTL = 60 * 60;
+
+// Diagonal rows of the watermark text over an image of the given size
+function watermarkSvg(width: number, height: number) {
+  const fontSize = Math.max(24, Math.round(Math.min(width, height) / 12));
+  const step = fontSize * 4;
+  const rows: string[] = [];
+
+  for (let y = -height; y < height * 2; y += step) {
+    for (let x = -width; x < width * 2; x += step * 2) {
+      rows.push(`<text x="${x}" y="${y}">${WATERMARK_TEXT}</text>`);
+    }
+  }
+
+  return Buffer.from(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+      <g transform="rotate(-30 ${width / 2} ${height / 2})"
+        font-family="sans-serif" font-weight="bold" font-size="${fontSize}"
+        fill="#ffffff" fill-opacity="0.35" stroke="#000000"
+        stroke-opacity="0.15">
+        ${rows.join("")}
+      </g>
+    </svg>`
+  );
+}
+
+// Largest image decoded for derivatives (70×100 cm at 300 DPI is about
+// 98 megapixels); sharp refuses bigger ones instead of running out of memory
+const MAX_INPUT_PIXELS = 300_000_000;
+
+// A JPEG no larger than maxSize on its longest side, in sRGB
+const resized = (image: sharp.Sharp, maxSize: number) =>
+  image
+    .rotate()
+    .resize({
+      width: maxSize,
+      height: maxSize,
+      fit: "inside",
+      withoutEnlargement: true,
+    })
+    .toColourspace("srgb")
+    .jpeg({ quality: 82, mozjpeg: true })
+    .toBuffer({ resolveWithObject: true });
+
+/**
+ * The thumbnail, preview and watermarked mockup of a print file, all as
+ * JPEG. Only the preview is made from the print file, which is decoded
+ * once; the thumbnail and the mockup (the preview with the watermark over
+ * it) are made from the preview.
+ */
+export async function generateDerivatives(bytes: Uint8Array) {
+  const preview = await resized(
+    sharp(bytes, { sequentialRead: true, limitInputPixels: MAX_INPUT_PIXELS }),
+    PREVIEW_SIZE
+  );
+
+  const [thumb, mockup] = await Promise.all([
+    resized(sharp(preview.data), THUMB_SIZE),
+    sharp(preview.data)
+      .composite([
+        {
+          input: watermarkSvg(preview.info.width, preview.info.height),
+          top: 0,
+          left: 0,
+        },
+      ])
+      .jpeg({ quality: 82, mozjpeg: true })
+      .toBuffer(),
+  ]);
+
+  return { thumb: thumb.data, preview: preview.data, mockup };
+}
+
+/**
+ * Read a downloaded print file into a single buffer, sized by the response's
+ * Content-Length where there is one. Fails as soon as the file turns out to
+ * be larger than MAX_ARTWORK_BYTES instead of reading all of it.
+ */
+async function readPrintFile(response: Response, name: string) {
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to read ${name}: ${response.status}`);
+  }
+
+  const tooLarge = () => new Error(`${name} is larger than the upload limit`);
+  const stated = Number(response.headers.get("content-length")) || 0;
+  if (stated > MAX_ARTWORK_BYTES) {
+    await response.body.cancel();
+    throw tooLarge();
+  }
+
+  const reader = response.body.getReader();
+  let bytes = new Uint8Array(stated);
+  let size = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    const end = size + value.length;
+    if (end > MAX_ARTWORK_BYTES) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    if (end > bytes.length) {
+      const grown = new Uint8Array(
+        Math.min(Math.max(bytes.length * 2, end), MAX_ARTWORK_BYTES)
+      );
+      grown.set(bytes.subarray(0, size));
+      bytes = grown;
+    }
+    bytes.set(value, size);
+    size = end;
+  }
+
+  return bytes.subarray(0, size);
+}
+
+// The bytes of a print file uploaded to ORIGINALS_BUCKET
+export async function downloadUpload(
+  supabase: SupabaseServerClient,
+  path: string
+): Promise<Uint8Array> {
+  const { data, error } = await supabase.storage
+    .from(ORIGINALS_BUCKET)
+    .createSignedUrl(path, 60);
+
+  if (error || !data) {
+    throw new Error(
+      `Failed to read uploaded file: ${error?.message || "not found"}`
+    );
+  }
+  return readPrintFile(await fetch(data.signedUrl), "uploaded file");
+}
+
+// Remove an uploaded print file that wasn't accepted
+export async function discardUpload(
+  supabase: SupabaseServerClient,
+  path: string
+) {
+  const { error } = await supabase.storage
+    .from(ORIGINALS_BUCKET)
+    .remove([path]);
+
+  if (error) {
+    throw new Error(`Failed to remove uploaded file: ${error.message}`);
+  }
+}
+
+// Generate a print file's derivatives and store them in a folder of the
+// public bucket, returning their URLs
+async function storeDerivatives(
+  supabase: SupabaseServerClient,
+  folder: string,
+  bytes: Uint8Array
+) {
+  const derivatives = await generateDerivatives(bytes);
+
+  const upload = async (path: string, data: Uint8Array) => {
+    const { error } = await supabase.storage
+      .from(IMAGES_BUCKET)
+      .upload(path, data, { upsert: false, contentType: "image/jpeg" });
+
+    if (error) {
+      throw new Error(`Failed to store ${path}: ${error.message}`);
+    }
+  };
+
+  await Promise.all([
+    upload(`${folder}/preview.jpg`, derivatives.preview),
+    upload(`${folder}/thumb.jpg`, derivatives.thumb),
+    upload(`${folder}/mockup.jpg`, derivatives.mockup),
+  ]);
+  return derivativeUrls(supabase, folder);
+}
+
+// The public URLs of the derivatives stored in a folder
+function derivativeUrls(supabase: SupabaseServerClient, folder: string) {
+  const url = (name: string) =>
+    supabase.storage.from(IMAGES_BUCKET).getPublicUrl(`${folder}/${name}`)
+      .data.publicUrl;
+
+  return {
+    preview: url("preview.jpg"),
+    thumb: url("thumb.jpg"),
+    mockup: url("mockup.jpg"),
+  };
+}
+
+// Store a print file as the original in a folder of ORIGINALS_BUCKET,
+// returning its path. The extension follows the file's actual format.
+async function storeOriginal(
+  supabase: SupabaseServerClient,
+  folder: string,
+  bytes: Uint8Array,
+  info: ImageInfo
+) {
+  const original = `${folder}/original.${info.extension}`;
+  const { error } = await supabase.storage
+    .from(ORIGINALS_BUCKET)
+    .upload(original, bytes, { upsert: false, contentType: info.mimeType });
+
+  if (error) {
+    throw new Error(`Failed to store ${original}: ${error.message}`);
+  }
+  return original;
+}
+
+/**
+ * Keep a checked print file for a size of a creator's poster: the bytes
+ * that were checked are stored as the original in the private bucket, next
+ * to the upload, which is then removed, so a file swapped in after the
+ * check is never kept. The derivatives go to the same folder of the public
+ * bucket (see newUploadPath). Returns the poster image to save on the
+ * poster. Creators can't write originals, so this takes a service role
+ * client.
+ */
+export async function storePosterImage(
+  supabase: SupabaseServerClient,
+  {
+    uploadPath,
+    bytes,
+    info,
+  }: { uploadPath: string; bytes: Uint8Array; info: ImageInfo }
+): Promise<PosterImage> {
+  const folder = uploadPath.slice(0, uploadPath.lastIndexOf("/"));
+  const derivatives = await storeDerivatives(supabase, folder, bytes);
+  const original = await storeOriginal(supabase, folder, bytes, info);
+  await discardUpload(supabase, uploadPath);
+
+  return { original, ...derivatives };
+}
+
+/**
+ * The images to save on a poster for print files the creator uploaded and
+ * /api/upload checked, by size. Only the `original` storage path of each
+ * entry the client sent is used: it must have an artwork report of the
+ * creator for that size, and the rest of the image is built from it.
+ */
+export async function posterImagesFromReports(
+  supabase: SupabaseServerClient,
+  creatorId: string,
+  claimed: PosterImages
+): Promise<PosterImages> {
+  const paths = Object.entries(claimed).map(([size, image]) => {
+    if (typeof image?.original !== "string") {
+      throw new Error(`No file was uploaded for size ${size}`);
+    }
+    return [size, image.original] as const;
+  });
+  if (paths.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from("artwork_reports")
+    .select("size_id, storage_path")
+    .eq("creator_id", creatorId)
+    .in(
+      "storage_path",
+      paths.map(([, path]) => path)
+    );
+
+  if (error) {
+    throw new Error(`Failed to fetch artwork reports: ${error.message}`);
+  }
+
+  const reports = (data || []) as Array<{
+    size_id: string;
+    storage_path: string;
+  }>;
+  const images: PosterImages = {};
+  paths.forEach(([size, path]) => {
+    const checked = reports.some(
+      (report) => report.storage_path === path && report.size_id === size
+    );
+    if (!checked) {
+      throw new Error(`The file for size ${size} wasn't uploaded and checked`);
+    }
+
+    const folder = path.slice(0, path.lastIndexOf("/"));
+    images[size] = { original: path, ...derivativeUrls(supabase, folder) };
+  });
+  return images;
+}
+
+/**
+ * Short-lived URLs of a poster's print files, by size. Files uploaded
+ * before originals were private are still at their public URL.
+ */
+export async function signOriginalUrls(
+  supabase: SupabaseServerClient,
+  images: PosterImages
+): Promise<Record<string, string>> {
+  const entries = Object.entries(images);
+  const paths = entries
+    .map(([, image]) => image.original)
+    .filter((original) => !isUrl(original));
+
+  const signed = new Map<string, string>();
+  if (paths.length > 0) {
+    const { data, error } = await supabase.storage
+      .from(ORIGINALS_BUCKET)
+      .createSignedUrls(paths, SIGNED_URL_TTL);
+
+    if (error) {
+      throw new Error(`Failed to sign print file URLs: ${error.message}`);
+    }
+
+    (data || []).forEach((entry) => {
+      if (entry.path && entry.signedUrl) {
+        signed.set(entry.path, entry.signedUrl);
+      }
+    });
+  }
+
+  const urls: Record<string, string> = {};
+  entries.forEach(([size, image]) => {
+    const url = isUrl(image.original)
+      ? image.original
+      : signed.get(image.original);
+    if (url) urls[size] = url;
+  });
+  return urls;
+}
+
+export interface PosterImageBackfill {
+  // Posters whose print files were moved
+  posters: number;
+  images: number;
+  failed: Array<{ posterId: string; error: string }>;
+  // The poster id to continue after, or null when every poster was checked
+  next: string | null;
+}
+
+// Posters read per page while looking for ones to backfill
+const BACKFILL_PAGE_SIZE = 100;
+
+// The path in IMAGES_BUCKET of a public URL, or null for any other URL
+function publicImagePath(supabase: SupabaseServerClient, url: string) {
+  const prefix = supabase.storage.from(IMAGES_BUCKET).getPublicUrl("").data
+    .publicUrl;
+  if (!url.startsWith(prefix)) return null;
+  return decodeURIComponent(url.slice(prefix.length).split("?")[0]);
+}
+
+/**
+ * Store a poster's legacy entries (a single public URL per size, see
+ * toPosterImages) the way uploads are stored now: the file becomes the
+ * original in ORIGINALS_BUCKET, next to generated derivatives. The poster
+ * is updated once all its sizes are stored, and only then are files of the
+ * public bucket removed. Returns the number of files moved.
+ */
+async function backfillPoster(
+  supabase: SupabaseServerClient,
+  poster: { id: string; creator_id: string; image_urls: Json | null }
+) {
+  const images = toPosterImages(poster.image_urls);
+  // Sizes sharing a file share its new images
+  const moved = new Map<string, PosterImage>();
+  const legacyPaths: string[] = [];
+
+  for (const [size, image] of Object.entries(images)) {
+    if (!isUrl(image.original)) continue;
+
+    const url = image.original;
+    const existing = moved.get(url);
+    if (existing) {
+      images[size] = existing;
+      continue;
+    }
+
+    const bytes = await readPrintFile(await fetch(url), url);
+    const info = readImageInfo(bytes);
+
+    const folder = `${poster.creator_id}/${size}_${crypto.randomUUID()}`;
+    images[size] = {
+      original: await storeOriginal(supabase, folder, bytes, info),
+      ...(await storeDerivatives(supabase, folder, bytes)),
+    };
+    moved.set(url, images[size]);
+
+    const path = publicImagePath(supabase, url);
+    if (path) legacyPaths.push(path);
+  }
+
+  if (moved.size === 0) return 0;
+
+  const { error } = await supabase
+    .from("posters")
+    .update({ image_urls: images as unknown as Json })
+    .eq("id", poster.id);
+
+  if (error) {
+    throw new Error(`Failed to update poster images: ${error.message}`);
+  }
+
+  if (legacyPaths.length > 0) {
+    const { error: removeError } = await supabase.storage
+      .from(IMAGES_BUCKET)
+      .remove(legacyPaths);
+
+    // The poster no longer points at them, so they are only left over
+    if (removeError) {
+      console.error(
+        `Failed to remove legacy images of poster ${poster.id}:`,
+        removeError
+      );
+    }
+  }
+
+  return moved.size;
+}
+
+/**
+ * Move the print files of posters uploaded before originals were private
+ * into ORIGINALS_BUCKET and generate their derivatives. Posters are checked
+ * in id order after `after`, stopping once `limit` of them needed moving;
+ * call it again with the returned `next` until that is null. A poster that
+ * fails is reported and skipped.
+ */
+export async function backfillPosterImages(
+  supabase: SupabaseServerClient,
+  { after = null, limit = 5 }: { after?: string | null; limit?: number } = {}
+): Promise<PosterImageBackfill> {
+  const result: PosterImageBackfill = {
+    posters: 0,
+    images: 0,
+    failed: [],
+    next: after,
+  };
+
+  for (;;) {
+    let query = supabase
+      .from("posters")
+      .select("id, creator_id, image_urls")
+      .order("id")
+      .limit(BACKFILL_PAGE_SIZE);
+    if (result.next) query = query.gt("id", result.next);
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to fetch posters: ${error.message}`);
+    }
+
+    const posters = (data || []) as Array<{
+      id: string;
+      creator_id: string;
+      image_urls: Json | null;
+    }>;
+
+    for (const poster of posters) {
+      result.next = poster.id;
+
+      const legacy = Object.values(toPosterImages(poster.image_urls)).some(
+        (image) => isUrl(image.original)
+      );
+      if (!legacy) continue;
+
+      try {
+        result.images += await backfillPoster(supabase, poster);
+        result.posters++;
+      } catch (backfillError) {
+        result.failed.push({
+          posterId: poster.id,
+          error:
+            backfillError instanceof Error
+              ? backfillError.message
+              : String(backfillError),
+        });
+      }
+
+      if (result.posters + result.failed.length >= limit) return result;
+    }
+
+    if (posters.length < BACKFILL_PAGE_SIZE) {
+      result.next = null;
+      return result;
+    }
+  }
+}
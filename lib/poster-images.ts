@@ -0,0 +1,83 @@
+import type { Json } from "@/types/types";
+
+/**
+ * The images of a poster, per size (posters.image_urls).
+ *
+ * The uploaded print file is kept in the private ORIGINALS_BUCKET and only
+ * handed out through signed URLs; `original` is its storage path. Next to
+ * it, in the public IMAGES_BUCKET, go web-sized derivatives: a thumbnail
+ * for lists, a preview for review and the shop, and a watermarked mockup
+ * that can be shown publicly without giving the artwork away.
+ *
+ * Posters uploaded before this kept a single public URL per size; those
+ * entries hold that URL in every field (see toPosterImages) until the
+ * backfill (backfillPosterImages) moves them.
+ *
+ * This module is safe to import in the browser; generating and storing the
+ * images is in poster-image-storage.
+ */
+export interface PosterImage {
+  original: string;
+  preview: string;
+  thumb: string;
+  mockup: string;
+}
+
+export type PosterImages = Record<string, PosterImage>;
+
+export const ORIGINALS_BUCKET = "poster-originals";
+export const IMAGES_BUCKET = "poster-images";
+
+// Largest print file accepted; 70×100 cm at 300 DPI is often 100MB+ as TIFF
+export const MAX_ARTWORK_BYTES = 500 * 1024 * 1024; // 500MB
+
+/**
+ * Print files are uploaded by the browser straight to ORIGINALS_BUCKET, in
+ * resumable chunks, at `<creator id>/<size id>_<uuid>/upload`. Once checked
+ * (see /api/upload) the checked bytes are stored as `original.<ext>` in that
+ * folder, the upload is removed and the derivatives are stored in the same
+ * folder of IMAGES_BUCKET.
+ */
+export const newUploadPath = (creatorId: string, sizeId: string) =>
+  `${creatorId}/${sizeId}_${crypto.randomUUID()}/upload`;
+
+// The parts of an upload path, or null if it isn't one
+export function parseUploadPath(path: string) {
+  const match = path.match(/^([^/]+)\/(([^/]+)_[0-9a-f-]{36})\/upload$/);
+  if (!match) return null;
+  const [, creatorId, folderName, sizeId] = match;
+  return { creatorId, sizeId, folder: `${creatorId}/${folderName}` };
+}
+
+// Entries of posters uploaded before originals were private hold URLs
+export const isUrl = (value: string) => /^https?:\/\//.test(value);
+
+// posters.image_urls as PosterImages, including entries of a single URL.
+// Some early posters hold an array of URLs, keyed by index here.
+export function toPosterImages(value: Json | null | undefined): PosterImages {
+  if (!value || typeof value !== "object") return {};
+
+  const images: PosterImages = {};
+  Object.entries(value).forEach(([size, image]) => {
+    if (typeof image === "string") {
+      images[size] = {
+        original: image,
+        preview: image,
+        thumb: image,
+        mockup: image,
+      };
+    } else if (image && typeof image === "object" && !Array.isArray(image)) {
+      images[size] = image as unknown as PosterImage;
+    }
+  });
+  return images;
+}
+
+// A poster's first image of the given kind, for lists showing one image
+export function firstPosterImage(
+  value: Json | null | undefined,
+  kind: Exclude<keyof PosterImage, "original"> = "thumb"
+): string | null {
+  const [image] = Object.values(toPosterImages(value));
+  return image ? image[kind] : null;
+}
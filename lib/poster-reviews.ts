@@ -0,0 +1,369 @@
+import type { createClient } from "@/utils/supabase/server";
+import type { Database, Json } from "@/types/types";
+import type { PosterImages } from "@/lib/poster-images";
+import { posterImagesFromReports } from "@/lib/poster-image-storage";
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+/**
+ * Reviews of submitted posters and the status history of every poster.
+ *
+ * An admin who doesn't approve a poster either rejects it or requests
+ * changes, always with a reason code and optionally a note; a change request
+ * can name the size files that need replacing (poster_reviews). The creator
+ * sees the latest review on their products page and can submit a new
+ * revision of the poster with new files, which puts it back in the review
+ * queue and resolves the review.
+ *
+ * Every status change goes through setPosterStatus, which records who made
+ * it, when, from and to which status and why (poster_status_history).
+ */
+
+export type PosterStatus = Database["public"]["Enums"]["poster_status"];
+
+export type ReviewDecision = "rejected" | "changesRequested";
+
+export const REVIEW_REASONS = {
+  low_resolution: "Resolution too low for print",
+  aspect_ratio: "Artwork doesn't fit the size",
+  color: "Colours or colour profile not suitable for print",
+  quality: "Visible artefacts, blur or cropping",
+  content: "Content doesn't meet our guidelines",
+  copyright: "Copyright or trademark concerns",
+  duplicate: "Duplicate of an existing poster",
+  listing: "Title or description needs work",
+  other: "Other",
+} as const;
+
+export type ReviewReason = keyof typeof REVIEW_REASONS;
+
+export const STATUS_LABELS: Record<PosterStatus, string> = {
+  pending: "Pending",
+  approved: "Approved",
+  rejected: "Rejected",
+  changesRequested: "Changes requested",
+  willBeDeleted: "Will be deleted",
+};
+
+export interface PosterReview {
+  id: number;
+  poster_id: string;
+  reviewer_id: string;
+  decision: ReviewDecision;
+  reason: ReviewReason;
+  note: string | null;
+  // Size files to replace; empty when the request is about the poster as a
+  // whole
+  sizes: string[];
+  // The poster revision that was reviewed
+  revision: number;
+  // When the creator submitted a new revision in response
+  resolved_at: string | null;
+  created_at: string;
+}
+
+export interface PosterStatusChange {
+  id: number;
+  poster_id: string;
+  from_status: PosterStatus | null;
+  to_status: PosterStatus;
+  changed_by: string | null;
+  note: string | null;
+  review_id: number | null;
+  created_at: string;
+  profiles: { name: string | null } | null;
+}
+
+const MAX_NOTE_LENGTH = 2000;
+
+const isReviewReason = (reason: unknown): reason is ReviewReason =>
+  typeof reason === "string" && reason in REVIEW_REASONS;
+
+// The reason and note of a review as one line, for the status history
+export const reviewSummary = (
+  review: Pick<PosterReview, "reason" | "note">
+) =>
+  review.note
+    ? `${REVIEW_REASONS[review.reason]}: ${review.note}`
+    : REVIEW_REASONS[review.reason];
+
+/**
+ * Change a poster's status and record the change. `from` is the status the
+ * caller expects the poster to have; the update fails if it changed in the
+ * meantime. Without `from` the current status is read first. Pass `updates`
+ * to change other columns along with the status.
+ */
+export async function setPosterStatus(
+  supabase: SupabaseServerClient,
+  posterId: string,
+  to: PosterStatus,
+  {
+    from,
+    changedBy = null,
+    note = null,
+    reviewId = null,
+    updates = {},
+  }: {
+    from?: PosterStatus | null;
+    changedBy?: string | null;
+    note?: string | null;
+    reviewId?: number | null;
+    updates?: Database["public"]["Tables"]["posters"]["Update"];
+  } = {}
+) {
+  let previous = from;
+  if (previous === undefined) {
+    const { data: poster, error } = await supabase
+      .from("posters")
+      .select("status")
+      .eq("id", posterId)
+      .single();
+
+    if (error || !poster) {
+      throw new Error(
+        `Failed to fetch poster ${posterId}: ${error?.message || "not found"}`
+      );
+    }
+    previous = poster.status;
+  }
+
+  let query = supabase
+    .from("posters")
+    .update({ ...updates, status: to })
+    .eq("id", posterId);
+  if (previous) query = query.eq("status", previous);
+
+  const { data: updated, error: updateError } = await query.select("id");
+
+  if (updateError) {
+    throw new Error(`Failed to update poster status: ${updateError.message}`);
+  }
+  if (!updated || updated.length === 0) {
+    throw new Error("The poster's status changed in the meantime");
+  }
+
+  // Other updates without a status change aren't history
+  if (previous === to && !note) return;
+
+  const { error: historyError } = await supabase
+    .from("poster_status_history")
+    .insert({
+      poster_id: posterId,
+      from_status: previous,
+      to_status: to,
+      changed_by: changedBy,
+      note,
+      review_id: reviewId,
+    });
+
+  if (historyError) {
+    throw new Error(
+      `Failed to record poster status change: ${historyError.message}`
+    );
+  }
+}
+
+/**
+ * Reject a pending poster or request changes to it. A reason is required;
+ * a change request can name the poster's size files to replace.
+ */
+export async function reviewPoster(
+  supabase: SupabaseServerClient,
+  posterId: string,
+  reviewerId: string,
+  input: {
+    decision: unknown;
+    reason: unknown;
+    note?: unknown;
+    sizes?: unknown;
+  }
+): Promise<PosterReview> {
+  const { decision, reason } = input;
+  if (decision !== "rejected" && decision !== "changesRequested") {
+    throw new Error("Decision must be rejected or changesRequested");
+  }
+  if (!isReviewReason(reason)) {
+    throw new Error("Choose a reason");
+  }
+
+  const note = typeof input.note === "string" ? input.note.trim() : "";
+  if (note.length > MAX_NOTE_LENGTH) {
+    throw new Error(`Notes can be at most ${MAX_NOTE_LENGTH} characters`);
+  }
+
+  const { data: poster, error: posterError } = await supabase
+    .from("posters")
+    .select("id, status, selected_sizes, revision")
+    .eq("id", posterId)
+    .single();
+
+  if (posterError || !poster) {
+    throw new Error("Poster not found");
+  }
+  if (poster.status !== "pending") {
+    throw new Error("Only posters waiting for review can be reviewed");
+  }
+
+  const sizes = Array.isArray(input.sizes) ? input.sizes.map(String) : [];
+  if (decision === "rejected" && sizes.length > 0) {
+    throw new Error("Size files can only be named when requesting changes");
+  }
+  const unknownSize = sizes.find(
+    (size) => !(poster.selected_sizes || []).includes(size)
+  );
+  if (unknownSize) {
+    throw new Error(`The poster has no size ${unknownSize}`);
+  }
+
+  const { data: review, error: reviewError } = await supabase
+    .from("poster_reviews")
+    .insert({
+      poster_id: posterId,
+      reviewer_id: reviewerId,
+      decision,
+      reason,
+      note: note || null,
+      sizes,
+      revision: poster.revision,
+    })
+    .select("*")
+    .single();
+
+  if (reviewError || !review) {
+    throw new Error(`Failed to save review: ${reviewError?.message}`);
+  }
+
+  await setPosterStatus(supabase, posterId, decision, {
+    from: poster.status,
+    changedBy: reviewerId,
+    note: reviewSummary({ reason, note: note || null }),
+    reviewId: review.id,
+  });
+
+  return review as PosterReview;
+}
+
+/**
+ * Submit a new revision of a creator's rejected poster or one with changes
+ * requested. The new files replace those of their sizes and must have been
+ * checked by /api/upload (see posterImagesFromReports); every size file a
+ * change request names must be replaced. The poster goes back to pending and
+ * its open reviews are resolved.
+ */
+export async function submitRevision(
+  supabase: SupabaseServerClient,
+  creatorId: string,
+  posterId: string,
+  uploaded: PosterImages
+) {
+  const { data: poster, error: posterError } = await supabase
+    .from("posters")
+    .select("id, creator_id, status, selected_sizes, image_urls, revision")
+    .eq("id", posterId)
+    .eq("creator_id", creatorId)
+    .single();
+
+  if (posterError || !poster) {
+    throw new Error("Poster not found");
+  }
+  if (poster.status !== "rejected" && poster.status !== "changesRequested") {
+    throw new Error(
+      "Only rejected posters or posters with changes requested can be revised"
+    );
+  }
+
+  const sizes = Object.keys(uploaded);
+  if (sizes.length === 0) {
+    throw new Error("Upload at least one new file");
+  }
+  const unknownSize = sizes.find(
+    (size) => !(poster.selected_sizes || []).includes(size)
+  );
+  if (unknownSize) {
+    throw new Error(`The poster has no size ${unknownSize}`);
+  }
+
+  const images = await posterImagesFromReports(supabase, creatorId, uploaded);
+
+  const openReviews = await fetchPosterReviews(supabase, posterId, {
+    openOnly: true,
+  });
+  const missing = openReviews
+    .flatMap((review) => review.sizes)
+    .find((size) => !images[size]);
+  if (missing) {
+    throw new Error(`Upload a new file for size ${missing}`);
+  }
+
+  const revision = poster.revision + 1;
+  const current =
+    poster.image_urls &&
+    typeof poster.image_urls === "object" &&
+    !Array.isArray(poster.image_urls)
+      ? poster.image_urls
+      : {};
+
+  await setPosterStatus(supabase, posterId, "pending", {
+    from: poster.status,
+    changedBy: creatorId,
+    note: `Revision ${revision} submitted with new files for ${sizes.join(", ")}`,
+    updates: {
+      image_urls: { ...current, ...images } as unknown as Json,
+      revision,
+    },
+  });
+
+  if (openReviews.length > 0) {
+    const { error } = await supabase
+      .from("poster_reviews")
+      .update({ resolved_at: new Date().toISOString() })
+      .in(
+        "id",
+        openReviews.map((review) => review.id)
+      );
+
+    if (error) {
+      throw new Error(`Failed to resolve reviews: ${error.message}`);
+    }
+  }
+
+  return { revision };
+}
+
+// A poster's reviews, newest first
+export async function fetchPosterReviews(
+  supabase: SupabaseServerClient,
+  posterId: string,
+  { openOnly = false }: { openOnly?: boolean } = {}
+): Promise<PosterReview[]> {
+  let query = supabase
+    .from("poster_reviews")
+    .select("*")
+    .eq("poster_id", posterId)
+    .order("created_at", { ascending: false });
+  if (openOnly) query = query.is("resolved_at", null);
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch poster reviews: ${error.message}`);
+  }
+  return (data || []) as PosterReview[];
+}
+
+// A poster's status changes, oldest first
+export async function fetchStatusHistory(
+  supabase: SupabaseServerClient,
+  posterId: string
+): Promise<PosterStatusChange[]> {
+  const { data, error } = await supabase
+    .from("poster_status_history")
+    .select("*, profiles:changed_by (name)")
+    .eq("poster_id", posterId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch poster status history: ${error.message}`);
+  }
+  return (data || []) as unknown as PosterStatusChange[];
+}
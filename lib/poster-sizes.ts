@@ -0,0 +1,92 @@
+import type { createClient } from "@/utils/supabase/server";
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+/**
+ * The poster size catalogue (poster_sizes), managed by admins.
+ *
+ * A size's id is what posters store in selected_sizes and as the keys of
+ * prices and image_urls; option_value is the size's "Size" option value on
+ * Shopify products. Creators choose from the active sizes, priced between
+ * min_price and max_price (in the primary shop's currency).
+ */
+export interface PosterSizeOption {
+  id: string;
+  label: string;
+  dimensions: string;
+  option_value: string;
+  recommended_width: number;
+  recommended_height: number;
+  min_price: number;
+  max_price: number | null;
+  active: boolean;
+  sort_order: number;
+  created_at?: string;
+  updated_at?: string | null;
+}
+
+export const POSTER_SIZE_FIELDS =
+  "id, label, dimensions, option_value, recommended_width, recommended_height, min_price, max_price, active, sort_order, created_at, updated_at";
+
+const toSizeOption = (row: PosterSizeOption): PosterSizeOption => ({
+  ...row,
+  min_price: Number(row.min_price),
+  max_price: row.max_price === null ? null : Number(row.max_price),
+});
+
+// The catalogue in display order, active sizes only unless asked otherwise
+export async function fetchPosterSizes(
+  supabase: SupabaseServerClient,
+  { includeInactive = false }: { includeInactive?: boolean } = {}
+): Promise<PosterSizeOption[]> {
+  let query = supabase
+    .from("poster_sizes")
+    .select(POSTER_SIZE_FIELDS)
+    .order("sort_order")
+    .order("id");
+
+  if (!includeInactive) query = query.eq("active", true);
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch poster sizes: ${error.message}`);
+  }
+
+  return ((data || []) as PosterSizeOption[]).map(toSizeOption);
+}
+
+// "21 × 30 cm (A4)", as sizes are shown to creators
+export const sizeDisplayName = (size: PosterSizeOption) =>
+  `${size.dimensions} (${size.label})`;
+
+// The "Size" option value of a size on Shopify products, e.g. "21x30 cm"
+export function sizeOptionValue(sizes: PosterSizeOption[], sizeId: string) {
+  return (
+    sizes.find((size) => size.id === sizeId)?.option_value || `${sizeId} cm`
+  );
+}
+
+/**
+ * Why a price isn't allowed for a size, or null when it is. Sizes missing
+ * from the catalogue are rejected.
+ */
+export function sizePriceError(
+  sizes: PosterSizeOption[],
+  sizeId: string,
+  price: number
+): string | null {
+  const size = sizes.find((option) => option.id === sizeId);
+  if (!size) return `Unknown poster size ${sizeId}`;
+
+  if (!Number.isFinite(price) || price <= 0) {
+    return `Invalid price for size ${size.label}`;
+  }
+  if (price < size.min_price) {
+    return `The price for ${size.label} must be at least ${size.min_price}`;
+  }
+  if (size.max_price !== null && price > size.max_price) {
+    return `The price for ${size.label} must be at most ${size.max_price}`;
+  }
+  return null;
+}
@@ -0,0 +1,189 @@
+/**
+ * SEPA credit transfer export (ISO 20022 pain.001.001.03) for IBAN payouts.
+ *
+ * The file is uploaded to the company bank, which executes one transfer per
+ * payout. The paying account is configured with SEPA_DEBTOR_NAME,
+ * SEPA_DEBTOR_IBAN and (optionally) SEPA_DEBTOR_BIC.
+ */
+
+export interface SepaDebtor {
+  name: string;
+  iban: string;
+  bic?: string;
+}
+
+export interface SepaTransfer {
+  endToEndId: string;
+  amount: number;
+  creditorName: string;
+  creditorIban: string;
+  remittance: string;
+}
+
+// SEPA credit transfers are always in euro
+export const SEPA_CURRENCY = "EUR";
+
+export function normalizeIban(iban: string) {
+  return iban.replace(/\s+/g, "").toUpperCase();
+}
+
+// Structure plus ISO 13616 mod-97 checksum
+export function isValidIban(iban: string) {
+  const value = normalizeIban(iban);
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(value)) {
+    return false;
+  }
+
+  const rearranged = value.slice(4) + value.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const digits = /\d/.test(char)
+      ? char
+      : String(char.charCodeAt(0) - 55);
+    for (const digit of digits) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+
+  return remainder === 1;
+}
+
+export function getSepaDebtor(): SepaDebtor {
+  const name = process.env.SEPA_DEBTOR_NAME;
+  const iban = process.env.SEPA_DEBTOR_IBAN;
+
+  if (!name || !iban || !isValidIban(iban)) {
+    throw new Error(
+      "SEPA_DEBTOR_NAME and a valid SEPA_DEBTOR_IBAN must be configured"
+    );
+  }
+
+  return {
+    name,
+    iban: normalizeIban(iban),
+    bic: process.env.SEPA_DEBTOR_BIC || undefined,
+  };
+}
+
+// Banks only accept the SEPA Latin character set, so transliterate accents and
+// drop anything else
+export function sepaText(value: string, maxLength: number) {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^A-Za-z0-9/\-?:().,'+ ]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, maxLength);
+}
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+const formatAmount = (amount: number) => amount.toFixed(2);
+
+/**
+ * Build a pain.001.001.03 document with a single payment information block
+ * (one debit from the company account, one credit transfer per payout).
+ */
+export function buildPain001({
+  messageId,
+  debtor,
+  transfers,
+  executionDate,
+  createdAt = new Date(),
+}: {
+  messageId: string;
+  debtor: SepaDebtor;
+  transfers: SepaTransfer[];
+  executionDate: string;
+  createdAt?: Date;
+}) {
+  // Sum in cents so the control sum matches the individual amounts exactly
+  const controlSum = formatAmount(
+    transfers.reduce(
+      (sum, transfer) => sum + Math.round(transfer.amount * 100),
+      0
+    ) / 100
+  );
+  const debtorName = escapeXml(sepaText(debtor.name, 70));
+
+  const transactions = transfers
+    .map(
+      (transfer) => `      <CdtTrfTxInf>
+        <PmtId>
+          <EndToEndId>${escapeXml(sepaText(transfer.endToEndId, 35))}</EndToEndId>
+        </PmtId>
+        <Amt>
+          <InstdAmt Ccy="${SEPA_CURRENCY}">${formatAmount(transfer.amount)}</InstdAmt>
+        </Amt>
+        <Cdtr>
+          <Nm>${escapeXml(sepaText(transfer.creditorName, 70))}</Nm>
+        </Cdtr>
+        <CdtrAcct>
+          <Id>
+            <IBAN>${normalizeIban(transfer.creditorIban)}</IBAN>
+          </Id>
+        </CdtrAcct>
+        <RmtInf>
+          <Ustrd>${escapeXml(sepaText(transfer.remittance, 140))}</Ustrd>
+        </RmtInf>
+      </CdtTrfTxInf>`
+    )
+    .join("\n");
+
+  const debtorAgent = debtor.bic
+    ? `<BIC>${escapeXml(debtor.bic)}</BIC>`
+    : `<Othr>
+            <Id>NOTPROVIDED</Id>
+          </Othr>`;
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:pain.001.001.03" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+  <CstmrCdtTrfInitn>
+    <GrpHdr>
+      <MsgId>${escapeXml(sepaText(messageId, 35))}</MsgId>
+      <CreDtTm>${createdAt.toISOString().slice(0, 19)}</CreDtTm>
+      <NbOfTxs>${transfers.length}</NbOfTxs>
+      <CtrlSum>${controlSum}</CtrlSum>
+      <InitgPty>
+        <Nm>${debtorName}</Nm>
+      </InitgPty>
+    </GrpHdr>
+    <PmtInf>
+      <PmtInfId>${escapeXml(sepaText(messageId, 35))}</PmtInfId>
+      <PmtMtd>TRF</PmtMtd>
+      <BtchBookg>true</BtchBookg>
+      <NbOfTxs>${transfers.length}</NbOfTxs>
+      <CtrlSum>${controlSum}</CtrlSum>
+      <PmtTpInf>
+        <SvcLvl>
+          <Cd>SEPA</Cd>
+        </SvcLvl>
+      </PmtTpInf>
+      <ReqdExctnDt>${executionDate}</ReqdExctnDt>
+      <Dbtr>
+        <Nm>${debtorName}</Nm>
+      </Dbtr>
+      <DbtrAcct>
+        <Id>
+          <IBAN>${debtor.iban}</IBAN>
+        </Id>
+      </DbtrAcct>
+      <DbtrAgt>
+        <FinInstnId>
+          ${debtorAgent}
+        </FinInstnId>
+      </DbtrAgt>
+      <ChrgBr>SLEV</ChrgBr>
+${transactions}
+    </PmtInf>
+  </CstmrCdtTrfInitn>
+</Document>
+`;
+}
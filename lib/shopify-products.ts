@@ -0,0 +1,447 @@
+import type { createClient } from "@/utils/supabase/server";
+import type { Json } from "@/types/types";
+import { shopifyGraphQL } from "@/utils/shopify/gateway";
+import { getExchangeRates } from "@/lib/currency";
+import { fetchPosterFrames, PosterFrameOption } from "@/lib/poster-frames";
+import {
+  fetchPosterSizes,
+  PosterSizeOption,
+  sizeOptionValue,
+  sizePriceError,
+} from "@/lib/poster-sizes";
+import {
+  listShops,
+  Shop,
+  shopCredentials,
+  shopPriceRate,
+  shopProductUrl,
+} from "@/lib/shops";
+import {
+  getCreatorVendors,
+  linkPosterProduct,
+} from "@/lib/creator-vendors";
+import { toPosterImages } from "@/lib/poster-images";
+import { setPosterStatus } from "@/lib/poster-reviews";
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+/**
+ * Creates the Shopify product for an approved poster: one variant per
+ * selected size and frame, priced at the creator's price for the size plus
+ * the frame surcharge, with the poster's images and the creator's vendor.
+ *
+ * The poster gets a product in every active shop. Poster prices are in the
+ * primary shop's currency and are converted for the other shops. The
+ * primary shop's product is the poster's own (posters.shopify_product_id);
+ * every shop's product is recorded in creator_products.
+ *
+ * The product IDs are saved as soon as a product exists, so publishing
+ * again after a failure only retries the steps that are left instead of
+ * creating a duplicate product.
+ */
+
+export type UserError = { field: string[] | null; message: string };
+
+type ProductSetResponse = {
+  productSet: {
+    product: { id: string; handle: string } | null;
+    userErrors: UserError[];
+  };
+};
+
+type PublicationsResponse = {
+  publications: { nodes: Array<{ id: string; name: string }> };
+};
+
+type PublishResponse = {
+  publishablePublish: { userErrors: UserError[] };
+};
+
+const PRODUCT_SET_MUTATION = `
+  mutation productSet($input: ProductSetInput!) {
+    productSet(synchronous: true, input: $input) {
+      product {
+        id
+        handle
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+const PUBLICATIONS_QUERY = `
+  query publications {
+    publications(first: 20) {
+      nodes {
+        id
+        name
+      }
+    }
+  }
+`;
+
+const PUBLISH_MUTATION = `
+  mutation publishablePublish($id: ID!, $input: [PublicationInput!]!) {
+    publishablePublish(id: $id, input: $input) {
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+// Sales channel new posters are published to
+const ONLINE_STORE_PUBLICATION = "Online Store";
+
+export interface PublishedProduct {
+  shop: string;
+  productId: string;
+  url: string;
+}
+
+// The primary shop's product, and the products in every shop
+export interface PublishedPoster {
+  productId: string;
+  url: string;
+  shops: PublishedProduct[];
+}
+
+export function throwUserErrors(action: string, userErrors: UserError[]) {
+  if (userErrors.length === 0) return;
+  throw new Error(
+    `Failed to ${action}: ${userErrors
+      .map((error) => error.message)
+      .join("; ")}`
+  );
+}
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// A poster description as product HTML, one paragraph per line
+export function descriptionToHtml(description: string | null) {
+  return (description || "")
+    .split(/\n+/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => `<p>${escapeHtml(line)}</p>`)
+    .join("");
+}
+
+// The plain text of a product description, the reverse of descriptionToHtml
+export function htmlToDescription(html: string | null) {
+  return (html || "")
+    .replace(/<\/(p|div|h\d|li)>|<br\s*\/?>/gi, "\n")
+    .replace(/<[^>]*>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .join("\n");
+}
+
+type PosterForProduct = {
+  title: string;
+  description: string | null;
+  selected_sizes: string[];
+  prices: Record<string, string> | null;
+  image_urls: Json | null;
+  vendor: string;
+};
+
+// ProductSetInput for a poster, see the comment at the top of the file.
+// Prices are multiplied by rate for shops in another currency.
+function productInput(
+  poster: PosterForProduct,
+  catalogue: PosterSizeOption[],
+  frames: PosterFrameOption[],
+  rate = 1
+) {
+  const sizes = poster.selected_sizes.map((size) => {
+    const price = parseFloat(poster.prices?.[size] || "");
+    if (!Number.isFinite(price) || price <= 0) {
+      throw new Error(`Poster has no price for size ${size}`);
+    }
+    return { value: sizeOptionValue(catalogue, size), price };
+  });
+
+  // Shops get the previews; print files stay private
+  const images = Array.from(
+    new Set(
+      Object.values(toPosterImages(poster.image_urls))
+        .map((image) => image.preview)
+        .filter(Boolean)
+    )
+  );
+
+  return {
+    title: poster.title,
+    descriptionHtml: descriptionToHtml(poster.description),
+    vendor: poster.vendor,
+    status: "ACTIVE",
+    productOptions: [
+      {
+        name: "Size",
+        values: sizes.map((size) => ({ name: size.value })),
+      },
+      {
+        name: "Frame",
+        values: frames.map((frame) => ({ name: frame.option_value })),
+      },
+    ],
+    variants: sizes.flatMap((size) =>
+      frames.map((frame) => ({
+        optionValues: [
+          { optionName: "Size", name: size.value },
+          { optionName: "Frame", name: frame.option_value },
+        ],
+        price: ((size.price + frame.surcharge) * rate).toFixed(2),
+      }))
+    ),
+    files: images.map((url) => ({
+      originalSource: url,
+      contentType: "IMAGE",
+    })),
+  };
+}
+
+async function createProduct(
+  shop: Shop,
+  input: ReturnType<typeof productInput>
+): Promise<PublishedProduct> {
+  const { productSet } = await shopifyGraphQL<ProductSetResponse>(
+    PRODUCT_SET_MUTATION,
+    { input },
+    { shop: shopCredentials(shop) }
+  );
+  throwUserErrors(
+    `create Shopify product in ${shop.domain}`,
+    productSet.userErrors
+  );
+  if (!productSet.product) {
+    throw new Error("Shopify did not return the created product");
+  }
+
+  return {
+    shop: shop.domain,
+    productId: productSet.product.id.split("/").pop() as string,
+    url: shopProductUrl(shop, productSet.product.handle),
+  };
+}
+
+async function publishToOnlineStore(shop: Shop, productId: string) {
+  const options = { shop: shopCredentials(shop) };
+
+  const { publications } = await shopifyGraphQL<PublicationsResponse>(
+    PUBLICATIONS_QUERY,
+    {},
+    options
+  );
+  const onlineStore = publications.nodes.find(
+    (publication) => publication.name === ONLINE_STORE_PUBLICATION
+  );
+  if (!onlineStore) {
+    throw new Error(
+      `No "${ONLINE_STORE_PUBLICATION}" sales channel found in ${shop.domain}`
+    );
+  }
+
+  const { publishablePublish } = await shopifyGraphQL<PublishResponse>(
+    PUBLISH_MUTATION,
+    {
+      id: `gid://shopify/Product/${productId}`,
+      input: [{ publicationId: onlineStore.id }],
+    },
+    options
+  );
+  throwUserErrors("publish Shopify product", publishablePublish.userErrors);
+}
+
+// The poster's products per shop, as recorded in creator_products
+async function fetchPosterProducts(
+  supabase: SupabaseServerClient,
+  posterId: string
+) {
+  const { data, error } = await supabase
+    .from("creator_products")
+    .select("shop, shopify_product_id, shopify_url")
+    .eq("poster_id", posterId);
+
+  if (error) {
+    throw new Error(`Failed to fetch poster products: ${error.message}`);
+  }
+
+  return new Map<string, PublishedProduct>(
+    (data || []).map((row) => [
+      row.shop,
+      {
+        shop: row.shop,
+        productId: row.shopify_product_id,
+        url: row.shopify_url || "",
+      },
+    ])
+  );
+}
+
+/**
+ * Approve a poster and publish it in every active shop. baseUrl is used to
+ * fetch exchange rates for shops in another currency.
+ */
+export async function publishPoster(
+  supabase: SupabaseServerClient,
+  posterId: string,
+  {
+    baseUrl = "",
+    changedBy = null,
+  }: { baseUrl?: string; changedBy?: string | null } = {}
+): Promise<PublishedPoster> {
+  const { data: poster, error: posterError } = await supabase
+    .from("posters")
+    .select(
+      "id, creator_id, title, description, status, selected_sizes, prices, image_urls, shopify_product_id, shopify_url, profiles:creator_id (vendor)"
+    )
+    .eq("id", posterId)
+    .single();
+
+  if (posterError || !poster) {
+    throw new Error("Poster not found");
+  }
+
+  if (poster.status !== "pending" && poster.status !== "approved") {
+    throw new Error("Only pending or approved posters can be published");
+  }
+
+  const shops = await listShops(supabase);
+  const primary = shops.find((shop) => shop.is_primary) || shops[0];
+
+  const products = await fetchPosterProducts(supabase, posterId);
+  if (poster.shopify_product_id) {
+    products.set(primary.domain, {
+      shop: primary.domain,
+      productId: poster.shopify_product_id,
+      url: poster.shopify_url || "",
+    });
+  }
+
+  const missing = shops.filter((shop) => !products.has(shop.domain));
+  if (missing.length > 0) {
+    // The profile's vendor name, or else one mapped to the creator
+    const vendor =
+      (poster.profiles as unknown as { vendor: string | null })?.vendor ||
+      (await getCreatorVendors(supabase, poster.creator_id))[0];
+    if (!vendor) {
+      throw new Error("The creator has no vendor name set");
+    }
+    if (!poster.selected_sizes?.length) {
+      throw new Error("Poster has no sizes selected");
+    }
+
+    const posterForProduct: PosterForProduct = {
+      title: poster.title,
+      description: poster.description,
+      selected_sizes: poster.selected_sizes,
+      prices: poster.prices as Record<string, string> | null,
+      image_urls: poster.image_urls,
+      vendor,
+    };
+
+    // A new poster must fit the size catalogue; one that is already live
+    // keeps its sizes and prices in the shops it is added to
+    const [catalogue, frames] = await Promise.all([
+      fetchPosterSizes(supabase, { includeInactive: true }),
+      fetchPosterFrames(supabase),
+    ]);
+    if (frames.length === 0) {
+      throw new Error("No frames are set up for poster products");
+    }
+    if (!poster.shopify_product_id) {
+      for (const sizeId of poster.selected_sizes) {
+        const size = catalogue.find((option) => option.id === sizeId);
+        if (size && !size.active) {
+          throw new Error(`Size ${size.label} is no longer offered`);
+        }
+        const priceError = sizePriceError(
+          catalogue,
+          sizeId,
+          parseFloat(posterForProduct.prices?.[sizeId] || "")
+        );
+        if (priceError) throw new Error(priceError);
+      }
+    }
+
+    const rates = missing.some((shop) => shop.currency !== primary.currency)
+      ? (await getExchangeRates(baseUrl)).rates
+      : null;
+
+    // The primary shop first, so the poster is live there even when
+    // another shop fails
+    for (const shop of missing) {
+      const rate = rates ? shopPriceRate(shop, primary, rates) : 1;
+      if (rate === null) {
+        throw new Error(
+          `No exchange rate from ${primary.currency} to ${shop.currency} for ${shop.domain}`
+        );
+      }
+
+      const product = await createProduct(
+        shop,
+        productInput(posterForProduct, catalogue, frames, rate)
+      );
+
+      if (shop.domain === primary.domain) {
+        try {
+          await setPosterStatus(supabase, posterId, "approved", {
+            from: poster.status,
+            changedBy,
+            updates: {
+              shopify_product_id: product.productId,
+              shopify_url: product.url,
+              shopify_status: "active",
+            },
+          });
+        } catch (updateError) {
+          throw new Error(
+            `Created Shopify product ${product.productId} but failed to save it: ${(updateError as Error).message}`
+          );
+        }
+      }
+
+      await linkPosterProduct(supabase, poster, product);
+      products.set(shop.domain, product);
+    }
+  }
+
+  if (poster.status !== "approved" && poster.shopify_product_id) {
+    await setPosterStatus(supabase, posterId, "approved", {
+      from: poster.status,
+      changedBy,
+    });
+  }
+
+  const published: PublishedProduct[] = [];
+  for (const shop of shops) {
+    const product = products.get(shop.domain) as PublishedProduct;
+    await publishToOnlineStore(shop, product.productId);
+    published.push(product);
+  }
+
+  const primaryProduct = products.get(primary.domain) as PublishedProduct;
+  return {
+    productId: primaryProduct.productId,
+    url: primaryProduct.url,
+    shops: published,
+  };
+}
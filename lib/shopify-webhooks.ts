@@ -0,0 +1,283 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+import type { createClient } from "@/utils/supabase/server";
+import { syncOrder } from "@/lib/order-sync";
+import { refreshPosterSales } from "@/lib/orders";
+import { recordRefundAdjustments } from "@/lib/payout-adjustments";
+import {
+  reflectShopifyProduct,
+  ShopifyProductPayload,
+} from "@/lib/poster-changes";
+import { Shop, shopProductUrl, shopWebhookSecret } from "@/lib/shops";
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+/**
+ * Inbound Shopify webhooks. Orders and refunds re-sync the order into the
+ * local order tables (so the data matches the scheduled sync exactly), then
+ * recount poster sales and record refund clawbacks on orders that were
+ * already paid out. Product webhooks keep the poster's Shopify link and
+ * product status current, and copy title, description and price edits made
+ * in Shopify back to the poster.
+ *
+ * Subscribe every shop's webhooks to /api/shopify/webhooks; deliveries are
+ * signed with the shop's webhook secret. Products of the primary shop are
+ * the posters' own; for the other shops only the product link is kept.
+ */
+
+export const WEBHOOK_TOPICS = [
+  "orders/create",
+  "orders/updated",
+  "refunds/create",
+  "products/update",
+  "products/delete",
+] as const;
+
+export type WebhookTopic = (typeof WEBHOOK_TOPICS)[number];
+
+type OrderPayload = { id: number; admin_graphql_api_id?: string };
+type RefundPayload = { id: number; order_id: number };
+type ProductPayload = ShopifyProductPayload & {
+  handle?: string;
+  status?: string;
+};
+
+// Check X-Shopify-Hmac-Sha256 against the raw request body
+export function verifyShopifyWebhook(
+  shop: Shop,
+  rawBody: string,
+  hmac: string | null
+) {
+  const secret = shopWebhookSecret(shop);
+  if (!secret || !hmac) return false;
+
+  const expected = createHmac("sha256", secret)
+    .update(rawBody, "utf8")
+    .digest();
+  const received = Buffer.from(hmac, "base64");
+
+  return (
+    received.length === expected.length && timingSafeEqual(received, expected)
+  );
+}
+
+export function isWebhookTopic(topic: string | null): topic is WebhookTopic {
+  return WEBHOOK_TOPICS.includes(topic as WebhookTopic);
+}
+
+// A delivery still unprocessed after this long is taken to have died with
+// the request that claimed it, and Shopify's retry may claim it again
+const WEBHOOK_CLAIM_TIMEOUT_MS = 5 * 60 * 1000;
+
+export type WebhookClaim = "claimed" | "processed" | "processing";
+
+/**
+ * Record a delivery before processing it, so that only one request
+ * processes each webhook ID. A delivery that failed earlier or went stale is
+ * claimed again by the retry; otherwise the result says whether another
+ * request already processed it or is processing it right now.
+ */
+export async function claimWebhook(
+  supabase: SupabaseServerClient,
+  webhook: { id: string; topic: string; shop: string | null }
+): Promise<WebhookClaim> {
+  const { error } = await supabase.from("shopify_webhooks").insert({
+    webhook_id: webhook.id,
+    topic: webhook.topic,
+    shop: webhook.shop,
+  });
+
+  if (!error) return "claimed";
+
+  // 23505: unique violation, we've seen this delivery before
+  if (error.code !== "23505") {
+    throw new Error(`Failed to record webhook: ${error.message}`);
+  }
+
+  // Take over a failed or stale delivery. The update checks the row again
+  // once it holds its lock, so of two concurrent retries only one gets it.
+  const staleBefore = new Date(
+    Date.now() - WEBHOOK_CLAIM_TIMEOUT_MS
+  ).toISOString();
+  const { data: reclaimed, error: reclaimError } = await supabase
+    .from("shopify_webhooks")
+    .update({ received_at: new Date().toISOString(), error: null })
+    .eq("webhook_id", webhook.id)
+    .is("processed_at", null)
+    .or(`error.not.is.null,received_at.lt.${staleBefore}`)
+    .select("webhook_id");
+
+  if (reclaimError) {
+    throw new Error(`Failed to claim webhook: ${reclaimError.message}`);
+  }
+
+  if (reclaimed && reclaimed.length > 0) return "claimed";
+
+  const { data: existing, error: existingError } = await supabase
+    .from("shopify_webhooks")
+    .select("processed_at")
+    .eq("webhook_id", webhook.id)
+    .single();
+
+  if (existingError) {
+    throw new Error(`Failed to fetch webhook: ${existingError.message}`);
+  }
+
+  return existing.processed_at ? "processed" : "processing";
+}
+
+export async function finishWebhook(
+  supabase: SupabaseServerClient,
+  webhookId: string,
+  error?: string
+) {
+  await supabase
+    .from("shopify_webhooks")
+    .update(
+      error
+        ? { error }
+        : { processed_at: new Date().toISOString(), error: null }
+    )
+    .eq("webhook_id", webhookId);
+}
+
+// Creators with order lines of this order in a payout
+async function paidOutCreators(
+  supabase: SupabaseServerClient,
+  orderId: string
+) {
+  const { data, error } = await supabase
+    .from("payout_line_items")
+    .select("creator_id")
+    .eq("shopify_order_id", orderId);
+
+  if (error) {
+    throw new Error(`Failed to fetch paid order lines: ${error.message}`);
+  }
+
+  return Array.from(new Set((data || []).map((line) => line.creator_id)));
+}
+
+async function handleOrder(
+  supabase: SupabaseServerClient,
+  shop: Shop,
+  orderId: string,
+  { adjustments }: { adjustments: boolean }
+) {
+  const productIds = await syncOrder(supabase, shop, orderId);
+  if (!productIds) return;
+
+  await refreshPosterSales(supabase, productIds);
+
+  // Refunds on orders that were already paid out are clawed back from the
+  // creator's next payout
+  if (adjustments) {
+    for (const creatorId of await paidOutCreators(supabase, orderId)) {
+      await recordRefundAdjustments(supabase, creatorId);
+    }
+  }
+}
+
+// A product of another shop only updates its link to the poster. A deleted
+// one is unlinked, so publishing the poster creates it again.
+async function handleShopProduct(
+  supabase: SupabaseServerClient,
+  shop: Shop,
+  product: ProductPayload,
+  deleted: boolean
+) {
+  if (!deleted && !product.handle) return;
+
+  const products = supabase.from("creator_products");
+  const { error } = await (
+    deleted
+      ? products.delete()
+      : products.update({
+          shopify_url: shopProductUrl(shop, product.handle as string),
+        })
+  )
+    .eq("shopify_product_id", String(product.id))
+    .eq("shop", shop.domain);
+
+  if (error) {
+    throw new Error(
+      `Failed to update product ${product.id} of ${shop.domain}: ${error.message}`
+    );
+  }
+}
+
+async function handleProduct(
+  supabase: SupabaseServerClient,
+  shop: Shop,
+  product: ProductPayload,
+  deleted: boolean
+) {
+  if (!shop.is_primary) {
+    return handleShopProduct(supabase, shop, product, deleted);
+  }
+
+  const { error } = await supabase
+    .from("posters")
+    .update(
+      deleted
+        ? { shopify_status: "deleted", shopify_url: null }
+        : {
+            shopify_status: product.status || null,
+            ...(product.handle && {
+              shopify_url: shopProductUrl(shop, product.handle),
+            }),
+          }
+    )
+    .eq("shopify_product_id", String(product.id));
+
+  if (error) {
+    throw new Error(
+      `Failed to update poster for product ${product.id}: ${error.message}`
+    );
+  }
+
+  if (!deleted) {
+    await reflectShopifyProduct(supabase, product);
+  }
+}
+
+export async function handleShopifyWebhook(
+  supabase: SupabaseServerClient,
+  shop: Shop,
+  topic: WebhookTopic,
+  payload: unknown
+) {
+  switch (topic) {
+    case "orders/create":
+    case "orders/updated": {
+      const order = payload as OrderPayload;
+      await handleOrder(
+        supabase,
+        shop,
+        order.admin_graphql_api_id || `gid://shopify/Order/${order.id}`,
+        // Cancellations and edits can also refund lines
+        { adjustments: topic === "orders/updated" }
+      );
+      break;
+    }
+    case "refunds/create": {
+      const refund = payload as RefundPayload;
+      await handleOrder(
+        supabase,
+        shop,
+        `gid://shopify/Order/${refund.order_id}`,
+        { adjustments: true }
+      );
+      break;
+    }
+    case "products/update":
+    case "products/delete":
+      await handleProduct(
+        supabase,
+        shop,
+        payload as ProductPayload,
+        topic === "products/delete"
+      );
+      break;
+  }
+}
@@ -0,0 +1,160 @@
+import type { createClient } from "@/utils/supabase/server";
+import type { ShopifyShopCredentials } from "@/utils/shopify/gateway";
+import {
+  ExchangeRateTable,
+  isSupportedCurrency,
+  SupportedCurrency,
+} from "@/lib/currency";
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+/**
+ * The registry of Shopify shops the catalogue is sold in (e.g. DE, UK and
+ * US storefronts). Shops are keyed by their myshopify.com domain, like the
+ * `shop` columns of the order tables.
+ *
+ * The primary shop is the one posters are created in: poster prices are in
+ * its currency and posters.shopify_product_id is its product. Credentials
+ * stay in the environment; a shop names the variables that hold them, which
+ * must be SHOPIFY_* variables.
+ *
+ * Without any registered shop, the shop configured in the environment
+ * (SHOPIFY_SHOP_DOMAIN) is used as the only, primary shop.
+ */
+
+export interface Shop {
+  domain: string;
+  name: string;
+  currency: string;
+  access_token_env: string;
+  webhook_secret_env: string | null;
+  is_primary: boolean;
+  active: boolean;
+}
+
+// The public part of a shop, for shop filters
+export type ShopSummary = Pick<Shop, "domain" | "name" | "currency">;
+
+const normalizeDomain = (domain: string) =>
+  domain.replace(/https?:\/\//, "").replace(/\/+$/, "");
+
+function environmentShop(): Shop {
+  const domain = normalizeDomain(process.env.SHOPIFY_SHOP_DOMAIN || "");
+  return {
+    domain,
+    name: domain,
+    currency: process.env.SHOPIFY_SHOP_CURRENCY || "EUR",
+    access_token_env: "SHOPIFY_ADMIN_ACCESS_TOKEN",
+    webhook_secret_env: "SHOPIFY_WEBHOOK_SECRET",
+    is_primary: true,
+    active: true,
+  };
+}
+
+// Active shops, primary first
+export async function listShops(
+  supabase: SupabaseServerClient
+): Promise<Shop[]> {
+  const { data, error } = await supabase
+    .from("shops")
+    .select("*")
+    .eq("active", true)
+    .order("is_primary", { ascending: false })
+    .order("name");
+
+  if (error) {
+    throw new Error(`Failed to fetch shops: ${error.message}`);
+  }
+
+  return data?.length ? (data as Shop[]) : [environmentShop()];
+}
+
+export async function getPrimaryShop(
+  supabase: SupabaseServerClient
+): Promise<Shop> {
+  const shops = await listShops(supabase);
+  return shops.find((shop) => shop.is_primary) || shops[0];
+}
+
+// A registered shop by domain, active or not
+export async function getShop(
+  supabase: SupabaseServerClient,
+  domain: string
+): Promise<Shop> {
+  const shopDomain = normalizeDomain(domain);
+  const { data, error } = await supabase
+    .from("shops")
+    .select("*")
+    .eq("domain", shopDomain)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch shop: ${error.message}`);
+  }
+  if (data) return data as Shop;
+
+  const fallback = environmentShop();
+  if (fallback.domain === shopDomain) return fallback;
+
+  throw new Error(`Unknown shop ${shopDomain}`);
+}
+
+const SHOP_ENV_NAME = /^SHOPIFY_[A-Z0-9_]+$/;
+
+// The value of a variable a shop names, refusing anything but SHOPIFY_*
+// variables so a shop row can't read other secrets
+function shopEnv(shop: Shop, name: string) {
+  if (!SHOP_ENV_NAME.test(name)) {
+    throw new Error(
+      `Shop ${shop.domain} names ${name}, which isn't a SHOPIFY_* variable`
+    );
+  }
+  return process.env[name];
+}
+
+// The credentials the Shopify gateway needs to call the shop
+export function shopCredentials(shop: Shop): ShopifyShopCredentials {
+  const accessToken = shopEnv(shop, shop.access_token_env);
+  if (!accessToken) {
+    throw new Error(
+      `Shopify access token for ${shop.domain} not found (${shop.access_token_env})`
+    );
+  }
+
+  return { domain: shop.domain, accessToken };
+}
+
+export const shopProductUrl = (shop: Shop, handle: string) =>
+  `https://${shop.domain}/products/${handle}`;
+
+export function shopWebhookSecret(shop: Shop) {
+  return (
+    (shop.webhook_secret_env && shopEnv(shop, shop.webhook_secret_env)) || null
+  );
+}
+
+/**
+ * Rate to convert prices of the primary shop into the shop's currency, or
+ * null when there is no rate for it.
+ */
+export function shopPriceRate(
+  shop: Shop,
+  primary: Shop,
+  rates: ExchangeRateTable
+): number | null {
+  if (shop.currency === primary.currency) return 1;
+  if (
+    !isSupportedCurrency(shop.currency) ||
+    !isSupportedCurrency(primary.currency)
+  ) {
+    return null;
+  }
+
+  return rates[primary.currency as SupportedCurrency]?.[shop.currency] || null;
+}
+
+export const toShopSummary = ({
+  domain,
+  name,
+  currency,
+}: Shop): ShopSummary => ({ domain, name, currency });
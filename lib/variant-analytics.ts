@@ -0,0 +1,267 @@
+import type { createClient } from "@/utils/supabase/server";
+import {
+  endOfRange,
+  isPaidOrderStatus,
+  OrderLine,
+  OrderLineFilter,
+  unrefundedLine,
+} from "@/lib/orders";
+import {
+  frameByOptionValue,
+  PosterFrameOption,
+  unframed,
+} from "@/lib/poster-frames";
+import {
+  fetchPosterSizes,
+  PosterSizeOption,
+  sizeDisplayName,
+} from "@/lib/poster-sizes";
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+/**
+ * Sales split by poster size and frame. Both come from the variant's
+ * options ("Size: 21x30 cm", "Frame: Bilderrahmen Holz Eiche"), or, for
+ * lines without options, from its title ("21x30 cm / Bilderrahmen Holz
+ * Eiche"). Sizes are matched to the size catalogue (poster_sizes) and frames
+ * to the frame catalogue (poster_frames), inactive entries included;
+ * anything else is grouped under its own name.
+ */
+
+export interface VariantBreakdownRow {
+  // Poster size or frame id, or the option value when it isn't a known one
+  key: string;
+  label: string;
+  sales: number;
+  revenue: number;
+  earnings: number;
+}
+
+export interface VariantBreakdown {
+  sizes: VariantBreakdownRow[];
+  frames: VariantBreakdownRow[];
+}
+
+export interface SizePopularity {
+  size: string;
+  label: string;
+  sales: number;
+  // Share of all units sold, 0-1
+  share: number;
+}
+
+const UNKNOWN = "unknown";
+
+// A row of size_popularity
+type SizePopularityGroup = {
+  size_value: string | null;
+  variant_title: string | null;
+  units: number;
+};
+
+type VariantLine = Pick<OrderLine, "variant_options" | "variant_title">;
+
+const optionValue = (line: VariantLine, name: string) =>
+  (line.variant_options || []).find(
+    (option) => option.name.toLowerCase() === name.toLowerCase()
+  )?.value;
+
+const titleParts = (line: VariantLine) =>
+  (line.variant_title || "").split(" / ").map((part) => part.trim());
+
+// A size's option value, or "21x30 cm", "21 × 30 cm" or "21x30", as the id
+// of a size in the catalogue
+function matchSize(value: string, sizes: PosterSizeOption[]): string | null {
+  const byOption = sizes.find((size) => size.option_value === value);
+  if (byOption) return byOption.id;
+
+  const match = value.match(/(\d+)\s*[x×]\s*(\d+)/);
+  if (!match) return null;
+
+  const id = `${match[1]}x${match[2]}`;
+  return sizes.find((size) => size.id === id)?.id || null;
+}
+
+const matchFrame = (value: string, frames: PosterFrameOption[]) =>
+  frameByOptionValue(frames, value)?.id || null;
+
+// The size of an order line's variant, and its option value
+function variantSize(line: VariantLine, sizes: PosterSizeOption[]) {
+  const value =
+    optionValue(line, "Size") ||
+    titleParts(line).find((part) => matchSize(part, sizes)) ||
+    "";
+  return { size: matchSize(value, sizes), value };
+}
+
+/**
+ * The size and frame of an order line's variant. Values that don't match a
+ * known size or frame are returned as `other*`, so they can still be shown.
+ */
+export function parseVariant(
+  line: VariantLine,
+  sizes: PosterSizeOption[],
+  frames: PosterFrameOption[]
+) {
+  const { size, value: sizeValue } = variantSize(line, sizes);
+  const frameValue =
+    optionValue(line, "Frame") ||
+    titleParts(line).find((part) => matchFrame(part, frames)) ||
+    "";
+
+  return {
+    size,
+    otherSize: sizeValue || null,
+    frame: matchFrame(frameValue, frames),
+    otherFrame: frameValue || null,
+  };
+}
+
+const sizeRow = (
+  sizes: PosterSizeOption[],
+  size: string | null,
+  other: string | null
+): Pick<VariantBreakdownRow, "key" | "label"> => {
+  const known = size && sizes.find((option) => option.id === size);
+  if (known) return { key: known.id, label: sizeDisplayName(known) };
+  return { key: other || UNKNOWN, label: other || "Unknown size" };
+};
+
+const frameRow = (
+  frames: PosterFrameOption[],
+  frame: string | null,
+  other: string | null
+): Pick<VariantBreakdownRow, "key" | "label"> => {
+  // Products without a Frame option are sold unframed
+  const known = frame
+    ? frames.find((option) => option.id === frame)
+    : !other && unframed(frames);
+  if (known) return { key: known.id, label: known.label };
+  return { key: other || UNKNOWN, label: other || "Unknown frame" };
+};
+
+// Order rows like the size / frame catalogue, unknown values last
+function sortRows(rows: VariantBreakdownRow[], order: string[]) {
+  const position = (key: string) => {
+    const index = order.indexOf(key);
+    return index === -1 ? order.length : index;
+  };
+  return rows.sort(
+    (a, b) => position(a.key) - position(b.key) || b.sales - a.sales
+  );
+}
+
+/**
+ * Sales, revenue and the creator's earnings of paid order lines, less their
+ * refunds (as in size_popularity), by size and by frame. earningsOf returns the creator's share of a line; catalogue
+ * and frames are the size and frame catalogues, including inactive entries.
+ */
+export function variantBreakdown(
+  lines: OrderLine[],
+  earningsOf: (line: OrderLine) => number,
+  catalogue: PosterSizeOption[],
+  frames: PosterFrameOption[]
+): VariantBreakdown {
+  const sizes = new Map<string, VariantBreakdownRow>();
+  const frameRows = new Map<string, VariantBreakdownRow>();
+
+  const add = (
+    rows: Map<string, VariantBreakdownRow>,
+    row: Pick<VariantBreakdownRow, "key" | "label">,
+    line: OrderLine,
+    earnings: number
+  ) => {
+    const entry = rows.get(row.key) || {
+      ...row,
+      sales: 0,
+      revenue: 0,
+      earnings: 0,
+    };
+    entry.sales += line.quantity;
+    entry.revenue += line.net_amount;
+    entry.earnings += earnings;
+    rows.set(row.key, entry);
+  };
+
+  lines
+    .filter((line) => isPaidOrderStatus(line.order.financial_status))
+    .map(unrefundedLine)
+    .filter((line): line is OrderLine => line !== null)
+    .forEach((line) => {
+      const variant = parseVariant(line, catalogue, frames);
+      const earnings = earningsOf(line);
+      add(
+        sizes,
+        sizeRow(catalogue, variant.size, variant.otherSize),
+        line,
+        earnings
+      );
+      add(
+        frameRows,
+        frameRow(frames, variant.frame, variant.otherFrame),
+        line,
+        earnings
+      );
+    });
+
+  return {
+    sizes: sortRows(
+      Array.from(sizes.values()),
+      catalogue.map((size) => size.id)
+    ),
+    frames: sortRows(
+      Array.from(frameRows.values()),
+      frames.map((frame) => frame.id)
+    ),
+  };
+}
+
+/**
+ * Units sold per poster size across the whole store, on paid orders placed
+ * in the date range. The lines are summed per size option in the database
+ * (size_popularity) and the groups matched to the catalogue here. Only the
+ * sizes creators can currently choose are returned.
+ */
+export async function fetchSizePopularity(
+  supabase: SupabaseServerClient,
+  { startDate, endDate, shop }: OrderLineFilter = {}
+): Promise<SizePopularity[]> {
+  const [catalogue, { data, error }] = await Promise.all([
+    fetchPosterSizes(supabase, { includeInactive: true }),
+    supabase.rpc("size_popularity", {
+      ...(startDate && { start_date: startDate }),
+      ...(endDate && { end_date: endOfRange(endDate) }),
+      ...(shop && { shop_domain: shop }),
+    }),
+  ]);
+
+  if (error) {
+    throw new Error(`Failed to fetch size popularity: ${error.message}`);
+  }
+
+  const groups = (data || []) as unknown as SizePopularityGroup[];
+  const units = new Map<string, number>();
+  groups.forEach((group) => {
+    const { size } = variantSize(
+      {
+        variant_options: group.size_value
+          ? [{ name: "Size", value: group.size_value }]
+          : [],
+        variant_title: group.variant_title,
+      },
+      catalogue
+    );
+    if (size) units.set(size, (units.get(size) || 0) + Number(group.units));
+  });
+
+  const total = Array.from(units.values()).reduce((sum, n) => sum + n, 0);
+
+  return catalogue
+    .filter((size) => size.active)
+    .map((size) => ({
+      size: size.id,
+      label: size.dimensions,
+      sales: units.get(size.id) || 0,
+      share: total > 0 ? (units.get(size.id) || 0) / total : 0,
+    }));
+}
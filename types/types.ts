@@ -34,44 +34,1364 @@ export type Database = {
   };
   public: {
     Tables: {
+      artwork_reports: {
+        Row: {
+          checks: Json;
+          color_space: string;
+          created_at: string;
+          creator_id: string;
+          dpi_x: number | null;
+          dpi_y: number | null;
+          effective_dpi: number;
+          file_size: number;
+          file_type: string;
+          height: number;
+          icc_profile: string | null;
+          id: number;
+          poster_id: string | null;
+          size_id: string;
+          status: string;
+          storage_path: string;
+          url: string;
+          width: number;
+        };
+        Insert: {
+          checks?: Json;
+          color_space: string;
+          created_at?: string;
+          creator_id: string;
+          dpi_x?: number | null;
+          dpi_y?: number | null;
+          effective_dpi: number;
+          file_size: number;
+          file_type: string;
+          height: number;
+          icc_profile?: string | null;
+          id?: number;
+          poster_id?: string | null;
+          size_id: string;
+          status: string;
+          storage_path: string;
+          url: string;
+          width: number;
+        };
+        Update: {
+          checks?: Json;
+          color_space?: string;
+          created_at?: string;
+          creator_id?: string;
+          dpi_x?: number | null;
+          dpi_y?: number | null;
+          effective_dpi?: number;
+          file_size?: number;
+          file_type?: string;
+          height?: number;
+          icc_profile?: string | null;
+          id?: number;
+          poster_id?: string | null;
+          size_id?: string;
+          status?: string;
+          storage_path?: string;
+          url?: string;
+          width?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "artwork_reports_creator_id_fkey";
+            columns: ["creator_id"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "artwork_reports_poster_id_fkey";
+            columns: ["poster_id"];
+            isOneToOne: false;
+            referencedRelation: "posters";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "artwork_reports_size_id_fkey";
+            columns: ["size_id"];
+            isOneToOne: false;
+            referencedRelation: "poster_sizes";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      commission_rules: {
+        Row: {
+          active: boolean;
+          created_at: string;
+          creator_id: string | null;
+          ends_at: string | null;
+          id: number;
+          label: string;
+          poster_id: string | null;
+          priority: number;
+          rate: number;
+          starts_at: string | null;
+          updated_at: string | null;
+          version: number;
+        };
+        Insert: {
+          active?: boolean;
+          created_at?: string;
+          creator_id?: string | null;
+          ends_at?: string | null;
+          id?: number;
+          label: string;
+          poster_id?: string | null;
+          priority?: number;
+          rate: number;
+          starts_at?: string | null;
+          updated_at?: string | null;
+          version?: number;
+        };
+        Update: {
+          active?: boolean;
+          created_at?: string;
+          creator_id?: string | null;
+          ends_at?: string | null;
+          id?: number;
+          label?: string;
+          poster_id?: string | null;
+          priority?: number;
+          rate?: number;
+          starts_at?: string | null;
+          updated_at?: string | null;
+          version?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "commission_rules_creator_id_fkey";
+            columns: ["creator_id"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "commission_rules_poster_id_fkey";
+            columns: ["poster_id"];
+            isOneToOne: false;
+            referencedRelation: "posters";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      creator_balance_entries: {
+        Row: {
+          amount: number;
+          commission_rules: Json | null;
+          created_at: string;
+          creator_id: string;
+          currency: string;
+          exchange_rates: Json | null;
+          id: number;
+          payout_id: number | null;
+          period: Json;
+          released_by: string | null;
+          threshold_amount: number | null;
+        };
+        Insert: {
+          amount: number;
+          commission_rules?: Json | null;
+          created_at?: string;
+          creator_id: string;
+          currency: string;
+          exchange_rates?: Json | null;
+          id?: number;
+          payout_id?: number | null;
+          period: Json;
+          released_by?: string | null;
+          threshold_amount?: number | null;
+        };
+        Update: {
+          amount?: number;
+          commission_rules?: Json | null;
+          created_at?: string;
+          creator_id?: string;
+          currency?: string;
+          exchange_rates?: Json | null;
+          id?: number;
+          payout_id?: number | null;
+          period?: Json;
+          released_by?: string | null;
+          threshold_amount?: number | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "creator_balance_entries_creator_id_fkey";
+            columns: ["creator_id"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "creator_balance_entries_payout_id_fkey";
+            columns: ["payout_id"];
+            isOneToOne: false;
+            referencedRelation: "payout";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "creator_balance_entries_released_by_fkey";
+            columns: ["released_by"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      creator_products: {
+        Row: {
+          created_at: string;
+          created_by: string | null;
+          creator_id: string;
+          poster_id: string | null;
+          shop: string | null;
+          shopify_product_id: string;
+          shopify_url: string | null;
+        };
+        Insert: {
+          created_at?: string;
+          created_by?: string | null;
+          creator_id: string;
+          poster_id?: string | null;
+          shop?: string | null;
+          shopify_product_id: string;
+          shopify_url?: string | null;
+        };
+        Update: {
+          created_at?: string;
+          created_by?: string | null;
+          creator_id?: string;
+          poster_id?: string | null;
+          shop?: string | null;
+          shopify_product_id?: string;
+          shopify_url?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "creator_products_created_by_fkey";
+            columns: ["created_by"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "creator_products_creator_id_fkey";
+            columns: ["creator_id"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "creator_products_poster_id_fkey";
+            columns: ["poster_id"];
+            isOneToOne: false;
+            referencedRelation: "posters";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      creator_vendors: {
+        Row: {
+          created_at: string;
+          created_by: string | null;
+          creator_id: string;
+          vendor: string;
+        };
+        Insert: {
+          created_at?: string;
+          created_by?: string | null;
+          creator_id: string;
+          vendor: string;
+        };
+        Update: {
+          created_at?: string;
+          created_by?: string | null;
+          creator_id?: string;
+          vendor?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "creator_vendors_created_by_fkey";
+            columns: ["created_by"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "creator_vendors_creator_id_fkey";
+            columns: ["creator_id"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      discount_campaigns: {
+        Row: {
+          created_at: string;
+          id: number;
+          name: string;
+          note: string | null;
+          platform_funded: boolean;
+          updated_at: string | null;
+          updated_by: string | null;
+        };
+        Insert: {
+          created_at?: string;
+          id?: number;
+          name: string;
+          note?: string | null;
+          platform_funded?: boolean;
+          updated_at?: string | null;
+          updated_by?: string | null;
+        };
+        Update: {
+          created_at?: string;
+          id?: number;
+          name?: string;
+          note?: string | null;
+          platform_funded?: boolean;
+          updated_at?: string | null;
+          updated_by?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "discount_campaigns_updated_by_fkey";
+            columns: ["updated_by"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      order_bulk_imports: {
+        Row: {
+          completed_at: string | null;
+          created_at: string;
+          created_from: string | null;
+          created_to: string | null;
+          error: string | null;
+          error_code: string | null;
+          id: string;
+          imported_at: string | null;
+          line_items_imported: number;
+          object_count: number;
+          orders_imported: number;
+          shop: string;
+          started_by: string | null;
+          status: string;
+        };
+        Insert: {
+          completed_at?: string | null;
+          created_at?: string;
+          created_from?: string | null;
+          created_to?: string | null;
+          error?: string | null;
+          error_code?: string | null;
+          id: string;
+          imported_at?: string | null;
+          line_items_imported?: number;
+          object_count?: number;
+          orders_imported?: number;
+          shop: string;
+          started_by?: string | null;
+          status: string;
+        };
+        Update: {
+          completed_at?: string | null;
+          created_at?: string;
+          created_from?: string | null;
+          created_to?: string | null;
+          error?: string | null;
+          error_code?: string | null;
+          id?: string;
+          imported_at?: string | null;
+          line_items_imported?: number;
+          object_count?: number;
+          orders_imported?: number;
+          shop?: string;
+          started_by?: string | null;
+          status?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "order_bulk_imports_started_by_fkey";
+            columns: ["started_by"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      order_line_items: {
+        Row: {
+          currency: string;
+          discount_amount: number;
+          discounts: Json;
+          gross_amount: number;
+          id: string;
+          net_amount: number;
+          order_id: string;
+          ordered_at: string;
+          quantity: number;
+          refunded_amount: number;
+          refunded_quantity: number;
+          shopify_product_id: string | null;
+          sku: string | null;
+          title: string;
+          unit_price: number;
+          variant_id: string | null;
+          variant_options: Json;
+          variant_title: string | null;
+        };
+        Insert: {
+          currency: string;
+          discount_amount?: number;
+          discounts?: Json;
+          gross_amount?: number;
+          id: string;
+          net_amount?: number;
+          order_id: string;
+          ordered_at: string;
+          quantity: number;
+          refunded_amount?: number;
+          refunded_quantity?: number;
+          shopify_product_id?: string | null;
+          sku?: string | null;
+          title: string;
+          unit_price?: number;
+          variant_id?: string | null;
+          variant_options?: Json;
+          variant_title?: string | null;
+        };
+        Update: {
+          currency?: string;
+          discount_amount?: number;
+          discounts?: Json;
+          gross_amount?: number;
+          id?: string;
+          net_amount?: number;
+          order_id?: string;
+          ordered_at?: string;
+          quantity?: number;
+          refunded_amount?: number;
+          refunded_quantity?: number;
+          shopify_product_id?: string | null;
+          sku?: string | null;
+          title?: string;
+          unit_price?: number;
+          variant_id?: string | null;
+          variant_options?: Json;
+          variant_title?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "order_line_items_order_id_fkey";
+            columns: ["order_id"];
+            isOneToOne: false;
+            referencedRelation: "orders";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      order_sync_state: {
+        Row: {
+          backfill_completed_at: string | null;
+          backfill_cursor: string | null;
+          last_error: string | null;
+          last_run_at: string | null;
+          orders_synced: number;
+          shop: string;
+          updated_since: string | null;
+        };
+        Insert: {
+          backfill_completed_at?: string | null;
+          backfill_cursor?: string | null;
+          last_error?: string | null;
+          last_run_at?: string | null;
+          orders_synced?: number;
+          shop: string;
+          updated_since?: string | null;
+        };
+        Update: {
+          backfill_completed_at?: string | null;
+          backfill_cursor?: string | null;
+          last_error?: string | null;
+          last_run_at?: string | null;
+          orders_synced?: number;
+          shop?: string;
+          updated_since?: string | null;
+        };
+        Relationships: [];
+      };
+      orders: {
+        Row: {
+          cancelled_at: string | null;
+          currency: string;
+          customer_email: string | null;
+          customer_name: string | null;
+          disputes: Json;
+          financial_status: string | null;
+          fulfillment_status: string | null;
+          id: string;
+          name: string;
+          ordered_at: string;
+          refunded_amount: number;
+          refunds: Json;
+          shipping_amount: number;
+          shop: string | null;
+          shopify_updated_at: string;
+          synced_at: string;
+          total_amount: number;
+        };
+        Insert: {
+          cancelled_at?: string | null;
+          currency: string;
+          customer_email?: string | null;
+          customer_name?: string | null;
+          disputes?: Json;
+          financial_status?: string | null;
+          fulfillment_status?: string | null;
+          id: string;
+          name: string;
+          ordered_at: string;
+          refunded_amount?: number;
+          refunds?: Json;
+          shipping_amount?: number;
+          shop?: string | null;
+          shopify_updated_at: string;
+          synced_at?: string;
+          total_amount?: number;
+        };
+        Update: {
+          cancelled_at?: string | null;
+          currency?: string;
+          customer_email?: string | null;
+          customer_name?: string | null;
+          disputes?: Json;
+          financial_status?: string | null;
+          fulfillment_status?: string | null;
+          id?: string;
+          name?: string;
+          ordered_at?: string;
+          refunded_amount?: number;
+          refunds?: Json;
+          shipping_amount?: number;
+          shop?: string | null;
+          shopify_updated_at?: string;
+          synced_at?: string;
+          total_amount?: number;
+        };
+        Relationships: [];
+      };
       payout: {
+        Row: {
+          adjustments_amount: number;
+          amount: number | null;
+          balance_amount: number;
+          batch_id: number | null;
+          commission_rules: Json | null;
+          created_at: string;
+          creator_id: string | null;
+          exchange_rates: Json | null;
+          id: number;
+          method: Database["public"]["Enums"]["payment_method"] | null;
+          name: string | null;
+          paid_at: string | null;
+          payment_error: string | null;
+          payment_reference: string | null;
+          payout_month: Json | null;
+          status: Database["public"]["Enums"]["payout_status"] | null;
+        };
+        Insert: {
+          adjustments_amount?: number;
+          amount?: number | null;
+          balance_amount?: number;
+          batch_id?: number | null;
+          commission_rules?: Json | null;
+          created_at?: string;
+          creator_id?: string | null;
+          exchange_rates?: Json | null;
+          id?: number;
+          method?: Database["public"]["Enums"]["payment_method"] | null;
+          name?: string | null;
+          paid_at?: string | null;
+          payment_error?: string | null;
+          payment_reference?: string | null;
+          payout_month?: Json | null;
+          status?: Database["public"]["Enums"]["payout_status"] | null;
+        };
+        Update: {
+          adjustments_amount?: number;
+          amount?: number | null;
+          balance_amount?: number;
+          batch_id?: number | null;
+          commission_rules?: Json | null;
+          created_at?: string;
+          creator_id?: string | null;
+          exchange_rates?: Json | null;
+          id?: number;
+          method?: Database["public"]["Enums"]["payment_method"] | null;
+          name?: string | null;
+          paid_at?: string | null;
+          payment_error?: string | null;
+          payment_reference?: string | null;
+          payout_month?: Json | null;
+          status?: Database["public"]["Enums"]["payout_status"] | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "payout_creator_id_fkey";
+            columns: ["creator_id"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      payout_adjustments: {
+        Row: {
+          amount: number;
+          applied_payout_id: number | null;
+          created_at: string;
+          creator_id: string;
+          currency: string;
+          id: number;
+          occurred_at: string;
+          payout_line_item_id: number | null;
+          reason: string | null;
+          shopify_order_id: string;
+          shopify_order_name: string | null;
+          source_id: string;
+          type: string;
+        };
+        Insert: {
+          amount: number;
+          applied_payout_id?: number | null;
+          created_at?: string;
+          creator_id: string;
+          currency: string;
+          id?: number;
+          occurred_at: string;
+          payout_line_item_id?: number | null;
+          reason?: string | null;
+          shopify_order_id: string;
+          shopify_order_name?: string | null;
+          source_id: string;
+          type: string;
+        };
+        Update: {
+          amount?: number;
+          applied_payout_id?: number | null;
+          created_at?: string;
+          creator_id?: string;
+          currency?: string;
+          id?: number;
+          occurred_at?: string;
+          payout_line_item_id?: number | null;
+          reason?: string | null;
+          shopify_order_id?: string;
+          shopify_order_name?: string | null;
+          source_id?: string;
+          type?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "payout_adjustments_applied_payout_id_fkey";
+            columns: ["applied_payout_id"];
+            isOneToOne: false;
+            referencedRelation: "payout";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "payout_adjustments_creator_id_fkey";
+            columns: ["creator_id"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "payout_adjustments_payout_line_item_id_fkey";
+            columns: ["payout_line_item_id"];
+            isOneToOne: false;
+            referencedRelation: "payout_line_items";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      payout_batch_items: {
+        Row: {
+          batch_id: number;
+          created_at: string;
+          payment_error: string | null;
+          payment_reference: string | null;
+          payout_id: number;
+          result: string;
+          updated_at: string;
+        };
+        Insert: {
+          batch_id: number;
+          created_at?: string;
+          payment_error?: string | null;
+          payment_reference?: string | null;
+          payout_id: number;
+          result?: string;
+          updated_at?: string;
+        };
+        Update: {
+          batch_id?: number;
+          created_at?: string;
+          payment_error?: string | null;
+          payment_reference?: string | null;
+          payout_id?: number;
+          result?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "payout_batch_items_batch_id_fkey";
+            columns: ["batch_id"];
+            isOneToOne: false;
+            referencedRelation: "payout_batches";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "payout_batch_items_payout_id_fkey";
+            columns: ["payout_id"];
+            isOneToOne: false;
+            referencedRelation: "payout";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      payout_batches: {
+        Row: {
+          created_at: string;
+          created_by: string | null;
+          currency: string;
+          execution_date: string | null;
+          file_content: string;
+          file_name: string;
+          id: number;
+          payload: Json | null;
+          payout_count: number;
+          provider: string;
+          reconciled_at: string | null;
+          reference: string;
+          total_amount: number;
+        };
+        Insert: {
+          created_at?: string;
+          created_by?: string | null;
+          currency: string;
+          execution_date?: string | null;
+          file_content: string;
+          file_name: string;
+          id?: number;
+          payload?: Json | null;
+          payout_count: number;
+          provider: string;
+          reconciled_at?: string | null;
+          reference: string;
+          total_amount: number;
+        };
+        Update: {
+          created_at?: string;
+          created_by?: string | null;
+          currency?: string;
+          execution_date?: string | null;
+          file_content?: string;
+          file_name?: string;
+          id?: number;
+          payload?: Json | null;
+          payout_count?: number;
+          provider?: string;
+          reconciled_at?: string | null;
+          reference?: string;
+          total_amount?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "payout_batches_created_by_fkey";
+            columns: ["created_by"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      payout_duplicates: {
         Row: {
           amount: number | null;
+          creator_id: string;
+          detected_at: string;
+          kept_payout_id: number | null;
+          line_items: Json;
+          note: string | null;
+          payout: Json;
+          payout_id: number;
+          period_start: string;
+          resolved_at: string | null;
+          resolved_by: string | null;
+          status: string;
+        };
+        Insert: {
+          amount?: number | null;
+          creator_id: string;
+          detected_at?: string;
+          kept_payout_id?: number | null;
+          line_items?: Json;
+          note?: string | null;
+          payout: Json;
+          payout_id: number;
+          period_start: string;
+          resolved_at?: string | null;
+          resolved_by?: string | null;
+          status: string;
+        };
+        Update: {
+          amount?: number | null;
+          creator_id?: string;
+          detected_at?: string;
+          kept_payout_id?: number | null;
+          line_items?: Json;
+          note?: string | null;
+          payout?: Json;
+          payout_id?: number;
+          period_start?: string;
+          resolved_at?: string | null;
+          resolved_by?: string | null;
+          status?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "payout_duplicates_creator_id_fkey";
+            columns: ["creator_id"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "payout_duplicates_kept_payout_id_fkey";
+            columns: ["kept_payout_id"];
+            isOneToOne: false;
+            referencedRelation: "payout";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "payout_duplicates_resolved_by_fkey";
+            columns: ["resolved_by"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      payout_line_items: {
+        Row: {
+          balance_entry_id: number | null;
+          commission_amount: number;
+          commission_rate: number | null;
+          commission_rule_id: number | null;
+          commission_rule_version: number | null;
           created_at: string;
-          creator_id: string | null;
+          creator_id: string;
+          currency: string;
+          discount_amount: number;
+          fx_rate: number | null;
+          gross_amount: number;
           id: number;
-          method: Database["public"]["Enums"]["payment_method"] | null;
-          name: string | null;
-          payout_month: Json | null;
-          status: Database["public"]["Enums"]["payout_status"] | null;
+          net_amount: number;
+          ordered_at: string | null;
+          original_currency: string | null;
+          original_net_amount: number | null;
+          payout_id: number | null;
+          platform_funded_amount: number;
+          poster_id: string | null;
+          product_title: string | null;
+          quantity: number;
+          shopify_line_item_id: string;
+          shopify_order_id: string;
+          shopify_order_name: string | null;
+          shopify_product_id: string;
+          variant_id: string | null;
+          variant_title: string | null;
         };
         Insert: {
-          amount?: number | null;
+          balance_entry_id?: number | null;
+          commission_amount?: number;
+          commission_rate?: number | null;
+          commission_rule_id?: number | null;
+          commission_rule_version?: number | null;
           created_at?: string;
-          creator_id?: string | null;
+          creator_id: string;
+          currency: string;
+          discount_amount?: number;
+          fx_rate?: number | null;
+          gross_amount?: number;
           id?: number;
-          method?: Database["public"]["Enums"]["payment_method"] | null;
-          name?: string | null;
-          payout_month?: Json | null;
-          status?: Database["public"]["Enums"]["payout_status"] | null;
+          net_amount?: number;
+          ordered_at?: string | null;
+          original_currency?: string | null;
+          original_net_amount?: number | null;
+          payout_id?: number | null;
+          platform_funded_amount?: number;
+          poster_id?: string | null;
+          product_title?: string | null;
+          quantity?: number;
+          shopify_line_item_id: string;
+          shopify_order_id: string;
+          shopify_order_name?: string | null;
+          shopify_product_id: string;
+          variant_id?: string | null;
+          variant_title?: string | null;
+        };
+        Update: {
+          balance_entry_id?: number | null;
+          commission_amount?: number;
+          commission_rate?: number | null;
+          commission_rule_id?: number | null;
+          commission_rule_version?: number | null;
+          created_at?: string;
+          creator_id?: string;
+          currency?: string;
+          discount_amount?: number;
+          fx_rate?: number | null;
+          gross_amount?: number;
+          id?: number;
+          net_amount?: number;
+          ordered_at?: string | null;
+          original_currency?: string | null;
+          original_net_amount?: number | null;
+          payout_id?: number | null;
+          platform_funded_amount?: number;
+          poster_id?: string | null;
+          product_title?: string | null;
+          quantity?: number;
+          shopify_line_item_id?: string;
+          shopify_order_id?: string;
+          shopify_order_name?: string | null;
+          shopify_product_id?: string;
+          variant_id?: string | null;
+          variant_title?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "payout_line_items_creator_id_fkey";
+            columns: ["creator_id"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "payout_line_items_payout_id_fkey";
+            columns: ["payout_id"];
+            isOneToOne: false;
+            referencedRelation: "payout";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "payout_line_items_poster_id_fkey";
+            columns: ["poster_id"];
+            isOneToOne: false;
+            referencedRelation: "posters";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      payout_run_creators: {
+        Row: {
+          amount: number | null;
+          balance_entry_id: number | null;
+          creator_id: string;
+          currency: string | null;
+          error: string | null;
+          payout_id: number | null;
+          run_id: number;
+          status: string;
+          updated_at: string;
+        };
+        Insert: {
+          amount?: number | null;
+          balance_entry_id?: number | null;
+          creator_id: string;
+          currency?: string | null;
+          error?: string | null;
+          payout_id?: number | null;
+          run_id: number;
+          status?: string;
+          updated_at?: string;
         };
         Update: {
           amount?: number | null;
+          balance_entry_id?: number | null;
+          creator_id?: string;
+          currency?: string | null;
+          error?: string | null;
+          payout_id?: number | null;
+          run_id?: number;
+          status?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "payout_run_creators_balance_entry_id_fkey";
+            columns: ["balance_entry_id"];
+            isOneToOne: false;
+            referencedRelation: "creator_balance_entries";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "payout_run_creators_creator_id_fkey";
+            columns: ["creator_id"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "payout_run_creators_payout_id_fkey";
+            columns: ["payout_id"];
+            isOneToOne: false;
+            referencedRelation: "payout";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "payout_run_creators_run_id_fkey";
+            columns: ["run_id"];
+            isOneToOne: false;
+            referencedRelation: "payout_runs";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      payout_runs: {
+        Row: {
+          attempts: number;
+          error: string | null;
+          finished_at: string | null;
+          id: number;
+          period_end: string;
+          period_start: string;
+          started_at: string;
+          status: string;
+          updated_at: string;
+        };
+        Insert: {
+          attempts?: number;
+          error?: string | null;
+          finished_at?: string | null;
+          id?: number;
+          period_end: string;
+          period_start: string;
+          started_at?: string;
+          status?: string;
+          updated_at?: string;
+        };
+        Update: {
+          attempts?: number;
+          error?: string | null;
+          finished_at?: string | null;
+          id?: number;
+          period_end?: string;
+          period_start?: string;
+          started_at?: string;
+          status?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      payout_statements: {
+        Row: {
+          data: Json;
+          generated_at: string;
+          generated_by: string | null;
+          payout_id: number;
+        };
+        Insert: {
+          data: Json;
+          generated_at?: string;
+          generated_by?: string | null;
+          payout_id: number;
+        };
+        Update: {
+          data?: Json;
+          generated_at?: string;
+          generated_by?: string | null;
+          payout_id?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "payout_statements_generated_by_fkey";
+            columns: ["generated_by"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "payout_statements_payout_id_fkey";
+            columns: ["payout_id"];
+            isOneToOne: false;
+            referencedRelation: "payout";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      poster_change_requests: {
+        Row: {
+          changes: Json;
+          created_at: string;
+          creator_id: string;
+          error: string | null;
+          id: number;
+          poster_id: string;
+          previous: Json;
+          review_note: string | null;
+          reviewed_at: string | null;
+          reviewed_by: string | null;
+          source: string;
+          status: string;
+        };
+        Insert: {
+          changes: Json;
           created_at?: string;
-          creator_id?: string | null;
+          creator_id: string;
+          error?: string | null;
           id?: number;
-          method?: Database["public"]["Enums"]["payment_method"] | null;
-          name?: string | null;
-          payout_month?: Json | null;
-          status?: Database["public"]["Enums"]["payout_status"] | null;
+          poster_id: string;
+          previous: Json;
+          review_note?: string | null;
+          reviewed_at?: string | null;
+          reviewed_by?: string | null;
+          source?: string;
+          status?: string;
+        };
+        Update: {
+          changes?: Json;
+          created_at?: string;
+          creator_id?: string;
+          error?: string | null;
+          id?: number;
+          poster_id?: string;
+          previous?: Json;
+          review_note?: string | null;
+          reviewed_at?: string | null;
+          reviewed_by?: string | null;
+          source?: string;
+          status?: string;
         };
         Relationships: [
           {
-            foreignKeyName: "payout_creator_id_fkey";
+            foreignKeyName: "poster_change_requests_creator_id_fkey";
             columns: ["creator_id"];
             isOneToOne: false;
             referencedRelation: "profiles";
             referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "poster_change_requests_poster_id_fkey";
+            columns: ["poster_id"];
+            isOneToOne: false;
+            referencedRelation: "posters";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "poster_change_requests_reviewed_by_fkey";
+            columns: ["reviewed_by"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      poster_frames: {
+        Row: {
+          active: boolean;
+          created_at: string;
+          id: string;
+          label: string;
+          option_value: string;
+          sort_order: number;
+          surcharge: number;
+          updated_at: string | null;
+        };
+        Insert: {
+          active?: boolean;
+          created_at?: string;
+          id: string;
+          label: string;
+          option_value: string;
+          sort_order?: number;
+          surcharge?: number;
+          updated_at?: string | null;
+        };
+        Update: {
+          active?: boolean;
+          created_at?: string;
+          id?: string;
+          label?: string;
+          option_value?: string;
+          sort_order?: number;
+          surcharge?: number;
+          updated_at?: string | null;
+        };
+        Relationships: [];
+      };
+      poster_reviews: {
+        Row: {
+          created_at: string;
+          decision: string;
+          id: number;
+          note: string | null;
+          poster_id: string;
+          reason: string;
+          resolved_at: string | null;
+          reviewer_id: string;
+          revision: number;
+          sizes: string[];
+        };
+        Insert: {
+          created_at?: string;
+          decision: string;
+          id?: number;
+          note?: string | null;
+          poster_id: string;
+          reason: string;
+          resolved_at?: string | null;
+          reviewer_id: string;
+          revision: number;
+          sizes?: string[];
+        };
+        Update: {
+          created_at?: string;
+          decision?: string;
+          id?: number;
+          note?: string | null;
+          poster_id?: string;
+          reason?: string;
+          resolved_at?: string | null;
+          reviewer_id?: string;
+          revision?: number;
+          sizes?: string[];
+        };
+        Relationships: [
+          {
+            foreignKeyName: "poster_reviews_poster_id_fkey";
+            columns: ["poster_id"];
+            isOneToOne: false;
+            referencedRelation: "posters";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "poster_reviews_reviewer_id_fkey";
+            columns: ["reviewer_id"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      poster_sizes: {
+        Row: {
+          active: boolean;
+          created_at: string;
+          dimensions: string;
+          id: string;
+          label: string;
+          max_price: number | null;
+          min_price: number;
+          option_value: string;
+          recommended_height: number;
+          recommended_width: number;
+          sort_order: number;
+          updated_at: string | null;
+        };
+        Insert: {
+          active?: boolean;
+          created_at?: string;
+          dimensions: string;
+          id: string;
+          label: string;
+          max_price?: number | null;
+          min_price?: number;
+          option_value: string;
+          recommended_height: number;
+          recommended_width: number;
+          sort_order?: number;
+          updated_at?: string | null;
+        };
+        Update: {
+          active?: boolean;
+          created_at?: string;
+          dimensions?: string;
+          id?: string;
+          label?: string;
+          max_price?: number | null;
+          min_price?: number;
+          option_value?: string;
+          recommended_height?: number;
+          recommended_width?: number;
+          sort_order?: number;
+          updated_at?: string | null;
+        };
+        Relationships: [];
+      };
+      poster_status_history: {
+        Row: {
+          changed_by: string | null;
+          created_at: string;
+          from_status: Database["public"]["Enums"]["poster_status"] | null;
+          id: number;
+          note: string | null;
+          poster_id: string;
+          review_id: number | null;
+          to_status: Database["public"]["Enums"]["poster_status"];
+        };
+        Insert: {
+          changed_by?: string | null;
+          created_at?: string;
+          from_status?: Database["public"]["Enums"]["poster_status"] | null;
+          id?: number;
+          note?: string | null;
+          poster_id: string;
+          review_id?: number | null;
+          to_status: Database["public"]["Enums"]["poster_status"];
+        };
+        Update: {
+          changed_by?: string | null;
+          created_at?: string;
+          from_status?: Database["public"]["Enums"]["poster_status"] | null;
+          id?: number;
+          note?: string | null;
+          poster_id?: string;
+          review_id?: number | null;
+          to_status?: Database["public"]["Enums"]["poster_status"];
+        };
+        Relationships: [
+          {
+            foreignKeyName: "poster_status_history_changed_by_fkey";
+            columns: ["changed_by"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "poster_status_history_poster_id_fkey";
+            columns: ["poster_id"];
+            isOneToOne: false;
+            referencedRelation: "posters";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "poster_status_history_review_id_fkey";
+            columns: ["review_id"];
+            isOneToOne: false;
+            referencedRelation: "poster_reviews";
+            referencedColumns: ["id"];
           }
         ];
       };
@@ -84,9 +1404,11 @@ export type Database = {
           id: string;
           image_urls: Json | null;
           prices: Json;
+          revision: number;
           sales: number;
           selected_sizes: string[];
           shopify_product_id: string | null;
+          shopify_status: string | null;
           shopify_url: string | null;
           status: Database["public"]["Enums"]["poster_status"];
           title: string;
@@ -101,9 +1423,11 @@ export type Database = {
           id?: string;
           image_urls?: Json | null;
           prices?: Json;
+          revision?: number;
           sales?: number;
           selected_sizes?: string[];
           shopify_product_id?: string | null;
+          shopify_status?: string | null;
           shopify_url?: string | null;
           status?: Database["public"]["Enums"]["poster_status"];
           title: string;
@@ -118,9 +1442,11 @@ export type Database = {
           id?: string;
           image_urls?: Json | null;
           prices?: Json;
+          revision?: number;
           sales?: number;
           selected_sizes?: string[];
           shopify_product_id?: string | null;
+          shopify_status?: string | null;
           shopify_url?: string | null;
           status?: Database["public"]["Enums"]["poster_status"];
           title?: string;
@@ -200,6 +1526,66 @@ export type Database = {
         };
         Relationships: [];
       };
+      shopify_webhooks: {
+        Row: {
+          error: string | null;
+          processed_at: string | null;
+          received_at: string;
+          shop: string | null;
+          topic: string;
+          webhook_id: string;
+        };
+        Insert: {
+          error?: string | null;
+          processed_at?: string | null;
+          received_at?: string;
+          shop?: string | null;
+          topic: string;
+          webhook_id: string;
+        };
+        Update: {
+          error?: string | null;
+          processed_at?: string | null;
+          received_at?: string;
+          shop?: string | null;
+          topic?: string;
+          webhook_id?: string;
+        };
+        Relationships: [];
+      };
+      shops: {
+        Row: {
+          access_token_env: string;
+          active: boolean;
+          created_at: string;
+          currency: string;
+          domain: string;
+          is_primary: boolean;
+          name: string;
+          webhook_secret_env: string | null;
+        };
+        Insert: {
+          access_token_env: string;
+          active?: boolean;
+          created_at?: string;
+          currency?: string;
+          domain: string;
+          is_primary?: boolean;
+          name: string;
+          webhook_secret_env?: string | null;
+        };
+        Update: {
+          access_token_env?: string;
+          active?: boolean;
+          created_at?: string;
+          currency?: string;
+          domain?: string;
+          is_primary?: boolean;
+          name?: string;
+          webhook_secret_env?: string | null;
+        };
+        Relationships: [];
+      };
       support_messages: {
         Row: {
           created_at: string;
@@ -249,12 +1635,32 @@ export type Database = {
       [_ in never]: never;
     };
     Functions: {
-      [_ in never]: never;
+      is_admin: {
+        Args: Record<PropertyKey, never>;
+        Returns: boolean;
+      };
+      size_popularity: {
+        Args: {
+          start_date?: string;
+          end_date?: string;
+          shop_domain?: string;
+        };
+        Returns: {
+          size_value: string | null;
+          variant_title: string | null;
+          units: number;
+        }[];
+      };
     };
     Enums: {
       payment_method: "iban" | "paypal";
-      payout_status: "pending" | "completed";
-      poster_status: "pending" | "approved" | "rejected" | "willBeDeleted";
+      payout_status: "pending" | "completed" | "failed";
+      poster_status:
+        | "pending"
+        | "approved"
+        | "rejected"
+        | "changesRequested"
+        | "willBeDeleted";
       role: "creator" | "admin";
       support_status: "pending" | "solved" | "closed" | "new";
     };
@@ -376,8 +1782,14 @@ export const Constants = {
   public: {
     Enums: {
       payment_method: ["iban", "paypal"],
-      payout_status: ["pending", "completed"],
-      poster_status: ["pending", "approved", "rejected", "willBeDeleted"],
+      payout_status: ["pending", "completed", "failed"],
+      poster_status: [
+        "pending",
+        "approved",
+        "rejected",
+        "changesRequested",
+        "willBeDeleted",
+      ],
       role: ["creator", "admin"],
       support_status: ["pending", "solved", "closed", "new"],
     },
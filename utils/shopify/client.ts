@@ -4,7 +4,14 @@ import { shopifyApi, LATEST_API_VERSION, Session } from "@shopify/shopify-api";
 const shopifyConfig = {
   apiKey: process.env.SHOPIFY_API_KEY || "",
   apiSecretKey: process.env.SHOPIFY_ADMIN_ACCESS_TOKEN || "",
-  scopes: ["read_products", "read_orders", "read_customers", "read_analytics"],
+  scopes: [
+    "read_products",
+    "write_products",
+    "write_publications",
+    "read_orders",
+    "read_customers",
+    "read_analytics",
+  ],
   hostName: process.env.SHOPIFY_SHOP_DOMAIN?.replace(/https?:\/\//, "") || "",
   hostScheme: "https" as const,
   apiVersion: LATEST_API_VERSION,
@@ -21,11 +28,14 @@ console.log("Shopify configuration:", {
 
 const shopify = shopifyApi(shopifyConfig);
 
-export async function createAdminApiClient(accessToken: string) {
+export async function createAdminApiClient(
+  accessToken: string,
+  shop = shopifyConfig.hostName
+) {
   try {
     const session = new Session({
       id: "",
-      shop: `${shopifyConfig.hostName}`,
+      shop,
       state: "",
       isOnline: false,
       scope: shopifyConfig.scopes.join(","),
@@ -44,47 +54,14 @@ export async function createAdminApiClient(accessToken: string) {
   }
 }
 
-/**
- * Safely fetch a product from Shopify, handling 404 errors gracefully
- * @param client Shopify REST client
- * @param productId Product ID to fetch
- * @returns The product data or null if not found
- */
-export async function safelyFetchProduct(client: any, productId: string) {
-  try {
-    const { body: productData } = await client.get({
-      path: `products/${productId}`,
-    });
-    return productData;
-  } catch (error: any) {
-    // Handle 404 errors gracefully
-    if (error.response && error.response.code === 404) {
-      console.warn(`Product ${productId} not found in Shopify store`);
-      // Return a minimal product structure to prevent downstream errors
-      return {
-        product: {
-          id: productId,
-          title: "Product Not Found",
-          handle: "product-not-found",
-          images: [],
-          variants: [],
-          status: "archived",
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-          published_at: null,
-        },
-      };
-    }
-    // Re-throw other errors
-    throw error;
-  }
-}
-
-export async function createGraphQLClient(accessToken: string) {
+export async function createGraphQLClient(
+  accessToken: string,
+  shop = shopifyConfig.hostName
+) {
   try {
     const session = new Session({
       id: "",
-      shop: `${shopifyConfig.hostName}`,
+      shop,
       state: "",
       isOnline: false,
       scope: shopifyConfig.scopes.join(","),
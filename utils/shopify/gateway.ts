@@ -0,0 +1,535 @@
+import {
+  GraphqlQueryError,
+  HttpRequestError,
+  HttpResponseError,
+  HttpRetriableError,
+  HttpThrottlingError,
+} from "@shopify/shopify-api";
+import {
+  createAdminApiClient,
+  createGraphQLClient,
+  getShopifyAccessToken,
+} from "@/utils/shopify/client";
+
+/**
+ * The one way to call the Shopify Admin API. Every GraphQL and REST request
+ * waits its turn in a queue against Shopify's leaky buckets: GraphQL by
+ * query cost (from `extensions.cost`), REST by call count (from the
+ * X-Shopify-Shop-Api-Call-Limit header). Throttled and 429 responses are
+ * retried with backoff and jitter, and so are 5xx responses and network
+ * failures of requests that are safe to repeat: REST reads, GraphQL queries
+ * and mutations flagged `idempotent`.
+ *
+ * Requests are either "interactive" (dashboards, admin actions) or
+ * "background" (crons, webhooks, syncs). Interactive requests are always
+ * served first, and background requests only run while a share of the
+ * bucket is left over, so a payout run can't starve the dashboards.
+ *
+ * Every shop has its own buckets and clients. Requests go to `options.shop`,
+ * or to the shop configured in the environment (SHOPIFY_SHOP_DOMAIN). The
+ * bucket state lives in this server instance and is corrected from
+ * Shopify's own numbers on every response.
+ */
+
+export type ShopifyPriority = "interactive" | "background";
+
+export interface ShopifyShopCredentials {
+  // myshopify.com domain
+  domain: string;
+  accessToken: string;
+}
+
+export interface ShopifyRequestOptions {
+  priority?: ShopifyPriority;
+  shop?: ShopifyShopCredentials;
+  // The mutation may run twice without harm (e.g. it sets absolute values),
+  // so it is retried when Shopify fails without saying whether it ran
+  idempotent?: boolean;
+}
+
+type Waiter = {
+  priority: ShopifyPriority;
+  cost: number;
+  queuedAt: number;
+  resolve: () => void;
+};
+
+interface Bucket {
+  // Capacity left as of updatedAt, restored at restoreRate per second
+  available: number;
+  maximum: number;
+  restoreRate: number;
+  updatedAt: number;
+  queue: Waiter[];
+  draining: boolean;
+}
+
+export interface ShopifyBucketMetrics {
+  available: number;
+  maximum: number;
+  restoreRate: number;
+  queued: { interactive: number; background: number };
+}
+
+export interface ShopifyGatewayMetrics {
+  // Buckets per shop domain
+  shops: Record<
+    string,
+    { graphql: ShopifyBucketMetrics; rest: ShopifyBucketMetrics }
+  >;
+  requests: number;
+  retries: number;
+  throttled: number;
+  failures: number;
+  // Total GraphQL query cost spent
+  cost: number;
+  // Total and longest time requests spent queued, in milliseconds
+  waitMs: number;
+  maxWaitMs: number;
+  since: string;
+}
+
+type GraphQLClient = Awaited<ReturnType<typeof createGraphQLClient>>;
+type RestClient = Awaited<ReturnType<typeof createAdminApiClient>>;
+
+interface ShopState {
+  graphql: Bucket;
+  rest: Bucket;
+  graphqlClient: GraphQLClient | null;
+  restClient: RestClient | null;
+}
+
+const shops = new Map<string, ShopState>();
+
+// Share of each bucket background requests leave for interactive ones
+const BACKGROUND_RESERVE = 0.5;
+
+// Cost assumed for a GraphQL query before Shopify has reported its cost
+const DEFAULT_QUERY_COST = 50;
+
+const MAX_RETRIES = 4;
+const BASE_RETRY_DELAY = 1000;
+
+// Last requested cost per query, used to estimate the next run
+const queryCosts = new Map<string, number>();
+
+const counters = {
+  requests: 0,
+  retries: 0,
+  throttled: 0,
+  failures: 0,
+  cost: 0,
+  waitMs: 0,
+  maxWaitMs: 0,
+  since: new Date().toISOString(),
+};
+
+const newBucket = (maximum: number, restoreRate: number): Bucket => ({
+  available: maximum,
+  maximum,
+  restoreRate,
+  updatedAt: Date.now(),
+  queue: [],
+  draining: false,
+});
+
+function defaultShop(): ShopifyShopCredentials {
+  return {
+    domain: (process.env.SHOPIFY_SHOP_DOMAIN || "").replace(/https?:\/\//, ""),
+    accessToken: getShopifyAccessToken(),
+  };
+}
+
+function shopState(shop: ShopifyShopCredentials) {
+  let state = shops.get(shop.domain);
+  if (!state) {
+    // Standard plan limits until Shopify reports the real ones
+    state = {
+      graphql: newBucket(1000, 50),
+      rest: newBucket(40, 2),
+      graphqlClient: null,
+      restClient: null,
+    };
+    shops.set(shop.domain, state);
+  }
+  return state;
+}
+
+async function getGraphQLClient(shop: ShopifyShopCredentials) {
+  const state = shopState(shop);
+  if (!state.graphqlClient) {
+    state.graphqlClient = await createGraphQLClient(
+      shop.accessToken,
+      shop.domain
+    );
+  }
+  return state.graphqlClient;
+}
+
+async function getRestClient(shop: ShopifyShopCredentials) {
+  const state = shopState(shop);
+  if (!state.restClient) {
+    state.restClient = await createAdminApiClient(
+      shop.accessToken,
+      shop.domain
+    );
+  }
+  return state.restClient;
+}
+
+const sleep = (ms: number) =>
+  new Promise((resolve) => setTimeout(resolve, Math.max(ms, 0)));
+
+const withJitter = (ms: number) => ms + Math.random() * ms * 0.5;
+
+function availableNow(bucket: Bucket) {
+  const restored =
+    ((Date.now() - bucket.updatedAt) / 1000) * bucket.restoreRate;
+  return Math.min(bucket.maximum, bucket.available + restored);
+}
+
+function setAvailable(bucket: Bucket, available: number) {
+  bucket.available = Math.max(available, 0);
+  bucket.updatedAt = Date.now();
+}
+
+// Interactive requests first, then background, each oldest first
+function nextWaiter(bucket: Bucket) {
+  return (
+    bucket.queue.find((waiter) => waiter.priority === "interactive") ||
+    bucket.queue[0]
+  );
+}
+
+async function drain(bucket: Bucket) {
+  if (bucket.draining) return;
+  bucket.draining = true;
+
+  try {
+    while (bucket.queue.length > 0) {
+      const waiter = nextWaiter(bucket);
+      const reserve =
+        waiter.priority === "background"
+          ? bucket.maximum * BACKGROUND_RESERVE
+          : 0;
+      const needed = Math.min(waiter.cost + reserve, bucket.maximum);
+      const available = availableNow(bucket);
+
+      if (available < needed) {
+        // Re-check afterwards: an interactive request may have arrived
+        await sleep(((needed - available) / bucket.restoreRate) * 1000);
+        continue;
+      }
+
+      setAvailable(bucket, available - waiter.cost);
+      bucket.queue.splice(bucket.queue.indexOf(waiter), 1);
+
+      const waited = Date.now() - waiter.queuedAt;
+      counters.waitMs += waited;
+      counters.maxWaitMs = Math.max(counters.maxWaitMs, waited);
+      waiter.resolve();
+    }
+  } finally {
+    bucket.draining = false;
+  }
+}
+
+// Wait until the bucket has room for a request of this cost
+function acquire(bucket: Bucket, cost: number, priority: ShopifyPriority) {
+  return new Promise<void>((resolve) => {
+    bucket.queue.push({
+      priority,
+      cost: Math.min(cost, bucket.maximum),
+      queuedAt: Date.now(),
+      resolve,
+    });
+    drain(bucket);
+  });
+}
+
+const isMutation = (query: string) => /^\s*mutation\b/.test(query);
+
+// Delay before retrying a failed request, or null if it shouldn't be. A 5xx
+// or network failure may come after the request ran, so it is only retried
+// when the request is safe to repeat.
+function retryDelay(
+  error: unknown,
+  attempt: number,
+  repeatable: boolean
+): number | null {
+  if (attempt >= MAX_RETRIES) return null;
+
+  if (error instanceof HttpThrottlingError) {
+    counters.throttled++;
+    const retryAfter = error.response.retryAfter;
+    return retryAfter
+      ? retryAfter * 1000
+      : withJitter(BASE_RETRY_DELAY * Math.pow(2, attempt));
+  }
+
+  // 5xx responses and network failures
+  if (
+    repeatable &&
+    (error instanceof HttpRetriableError || error instanceof HttpRequestError)
+  ) {
+    return withJitter(BASE_RETRY_DELAY * Math.pow(2, attempt));
+  }
+
+  return null;
+}
+
+type ThrottleStatus = {
+  maximumAvailable: number;
+  currentlyAvailable: number;
+  restoreRate: number;
+};
+
+type CostExtensions = {
+  cost?: {
+    requestedQueryCost?: number;
+    actualQueryCost?: number | null;
+    throttleStatus?: ThrottleStatus;
+  };
+};
+
+function recordCost(
+  bucket: Bucket,
+  query: string,
+  extensions: CostExtensions | undefined
+) {
+  const cost = extensions?.cost;
+  if (!cost) return;
+
+  if (cost.requestedQueryCost !== undefined) {
+    queryCosts.set(query, cost.requestedQueryCost);
+  }
+  counters.cost += cost.actualQueryCost ?? 0;
+
+  if (cost.throttleStatus) {
+    bucket.maximum = cost.throttleStatus.maximumAvailable;
+    bucket.restoreRate = cost.throttleStatus.restoreRate;
+    setAvailable(bucket, cost.throttleStatus.currentlyAvailable);
+  }
+}
+
+type GraphQLErrorBody = {
+  errors?: {
+    graphQLErrors?: Array<{ message: string; extensions?: { code?: string } }>;
+  };
+  extensions?: CostExtensions;
+};
+
+/**
+ * Run a GraphQL query or mutation and return its data. GraphQL errors are
+ * thrown; a THROTTLED error waits for the bucket to refill and retries.
+ */
+export async function shopifyGraphQL<T>(
+  query: string,
+  variables: Record<string, unknown> = {},
+  {
+    priority = "interactive",
+    shop = defaultShop(),
+    idempotent,
+  }: ShopifyRequestOptions = {}
+): Promise<T> {
+  const client = await getGraphQLClient(shop);
+  const repeatable = idempotent ?? !isMutation(query);
+  const bucket = shopState(shop).graphql;
+
+  for (let attempt = 0; ; attempt++) {
+    await acquire(
+      bucket,
+      queryCosts.get(query) ?? DEFAULT_QUERY_COST,
+      priority
+    );
+    counters.requests++;
+
+    try {
+      const response = await client.request<T>(query, { variables });
+      recordCost(
+        bucket,
+        query,
+        response.extensions as CostExtensions | undefined
+      );
+
+      if (!response.data) {
+        throw new Error("Shopify GraphQL request returned no data");
+      }
+      return response.data;
+    } catch (error) {
+      if (error instanceof GraphqlQueryError) {
+        const body = error.body as GraphQLErrorBody | undefined;
+        const graphQLErrors = body?.errors?.graphQLErrors || [];
+        recordCost(bucket, query, body?.extensions);
+
+        const throttled = graphQLErrors.some(
+          (graphQLError) => graphQLError.extensions?.code === "THROTTLED"
+        );
+        if (throttled && attempt < MAX_RETRIES) {
+          counters.throttled++;
+          counters.retries++;
+          if (!body?.extensions?.cost?.throttleStatus) {
+            setAvailable(bucket, 0);
+          }
+          continue;
+        }
+
+        counters.failures++;
+        const messages = graphQLErrors.map(
+          (graphQLError) => graphQLError.message
+        );
+        throw new Error(
+          `Shopify GraphQL request failed: ${
+            messages.join("; ") || error.message
+          }`
+        );
+      }
+
+      const delay = retryDelay(error, attempt, repeatable);
+      if (delay === null) {
+        counters.failures++;
+        throw error;
+      }
+      counters.retries++;
+      await sleep(delay);
+    }
+  }
+}
+
+function recordCallLimit(
+  bucket: Bucket,
+  headers: Record<string, unknown> | undefined
+) {
+  const header = headers?.["X-Shopify-Shop-Api-Call-Limit"];
+  const value = Array.isArray(header) ? header[0] : header;
+  const match = typeof value === "string" && value.match(/^(\d+)\/(\d+)$/);
+  if (!match) return;
+
+  bucket.maximum = Number(match[2]);
+  setAvailable(bucket, Number(match[2]) - Number(match[1]));
+}
+
+/**
+ * GET a REST Admin API resource and return its body. Prefer GraphQL for new
+ * code; REST is kept for the routes that already use it.
+ */
+export async function shopifyRest<T = unknown>(
+  path: string,
+  {
+    query,
+    priority = "interactive",
+    shop = defaultShop(),
+  }: ShopifyRequestOptions & {
+    query?: Record<string, string | number>;
+  } = {}
+): Promise<T> {
+  const client = await getRestClient(shop);
+  const bucket = shopState(shop).rest;
+
+  for (let attempt = 0; ; attempt++) {
+    await acquire(bucket, 1, priority);
+    counters.requests++;
+
+    try {
+      const response = await client.get({ path, query });
+      recordCallLimit(bucket, response.headers as Record<string, unknown>);
+      return response.body as T;
+    } catch (error) {
+      if (error instanceof HttpResponseError) {
+        recordCallLimit(bucket, error.response.headers);
+        if (error.response.code === 429) setAvailable(bucket, 0);
+      }
+
+      const delay = retryDelay(error, attempt, true);
+      if (delay === null) {
+        counters.failures++;
+        throw error;
+      }
+      counters.retries++;
+      await sleep(delay);
+    }
+  }
+}
+
+// The fields of a REST product that callers of safelyFetchProduct read
+export interface ShopifyRestProduct {
+  id: string | number;
+  title: string;
+  handle: string;
+  images: Array<{ src: string }>;
+  variants: unknown[];
+  status: string;
+  created_at: string;
+  updated_at: string;
+  published_at: string | null;
+  missing?: boolean;
+}
+
+/**
+ * Fetch a product over REST, returning a placeholder "not found" product
+ * (flagged `missing`) instead of throwing when Shopify no longer has it.
+ * The vendor consistency check (lib/creator-vendors.ts) lists the posters
+ * this happens for.
+ */
+export async function safelyFetchProduct(
+  productId: string,
+  options: ShopifyRequestOptions = {}
+): Promise<{ product: ShopifyRestProduct }> {
+  try {
+    return await shopifyRest<{ product: ShopifyRestProduct }>(
+      `products/${productId}`,
+      options
+    );
+  } catch (error) {
+    if (error instanceof HttpResponseError && error.response.code === 404) {
+      console.warn(`Product ${productId} not found in Shopify store`);
+      // Return a minimal product structure to prevent downstream errors
+      return {
+        product: {
+          id: productId,
+          title: "Product Not Found",
+          handle: "product-not-found",
+          images: [],
+          variants: [],
+          status: "archived",
+          created_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+          published_at: null,
+          missing: true,
+        },
+      };
+    }
+    throw error;
+  }
+}
+
+function bucketMetrics(bucket: Bucket): ShopifyBucketMetrics {
+  return {
+    available: Math.floor(availableNow(bucket)),
+    maximum: bucket.maximum,
+    restoreRate: bucket.restoreRate,
+    queued: {
+      interactive: bucket.queue.filter(
+        (waiter) => waiter.priority === "interactive"
+      ).length,
+      background: bucket.queue.filter(
+        (waiter) => waiter.priority === "background"
+      ).length,
+    },
+  };
+}
+
+export function getShopifyGatewayMetrics(): ShopifyGatewayMetrics {
+  return {
+    shops: Object.fromEntries(
+      Array.from(shops.entries()).map(([domain, state]) => [
+        domain,
+        {
+          graphql: bucketMetrics(state.graphql),
+          rest: bucketMetrics(state.rest),
+        },
+      ])
+    ),
+    ...counters,
+  };
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import type { createClient } from "@/utils/supabase/server";
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+/**
+ * Check that the current user is an admin.
+ * Returns the 401/403 response to send back, or null when access is allowed.
+ */
+export async function requireAdmin(supabase: SupabaseServerClient) {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return new NextResponse(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+    });
+  }
+
+  // Verify admin role
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", user.id)
+    .single();
+
+  if (!profile || profile.role !== "admin") {
+    return new NextResponse(JSON.stringify({ error: "Forbidden" }), {
+      status: 403,
+    });
+  }
+
+  return null;
+}
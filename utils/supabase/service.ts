@@ -0,0 +1,24 @@
+import { createServerClient } from "@supabase/ssr";
+
+/**
+ * A client with the service role key, which bypasses row level security.
+ * Only for server code that runs without a signed-in user (cron jobs,
+ * Shopify webhooks) or writes rows users may only read, after the route
+ * checked who is asking.
+ */
+export function createServiceClient() {
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return [];
+        },
+        setAll() {
+          // No session to keep
+        },
+      },
+    }
+  );
+}